@@ -0,0 +1,347 @@
+// src/app/admin/analytics/page.tsx
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Check, CheckCircle, AlertTriangle } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { Category, categoryLabel, categoryWithChildren, sortCategories } from '@/lib/categories';
+import {
+  DailyUsage,
+  DEFAULT_LEAD_TIME_DAYS,
+  SAFETY_FACTORS,
+  USAGE_WINDOWS,
+  suggestReorder,
+  weekStart,
+  weekStarts,
+} from '@/lib/analytics';
+
+interface AnalyticsItem {
+  id: string;
+  name: string;
+  category_id: string;
+  quantity: number;
+  threshold: number;
+  reorder_quantity?: number | null;
+  suppliers?: { name: string; lead_time_days: number } | null;
+}
+
+export default function AnalyticsPage() {
+  const [items, setItems] = useState<AnalyticsItem[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [usage, setUsage] = useState<DailyUsage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [windowDays, setWindowDays] = useState(90);
+  const [safetyFactor, setSafetyFactor] = useState(0.5);
+  const [categoryFilter, setCategoryFilter] = useState('');
+  const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, [windowDays]);
+
+  const fetchData = async () => {
+    setLoading(true);
+    try {
+      const [itemsResult, categoriesResult, usageResult] = await Promise.all([
+        supabase.from('inventory').select('*, suppliers(name, lead_time_days)').order('name'),
+        supabase.from('categories').select('*').order('name'),
+        supabase.rpc('consumption_by_day', { p_days: windowDays }),
+      ]);
+
+      if (itemsResult.error) throw itemsResult.error;
+      if (categoriesResult.error) throw categoriesResult.error;
+      if (usageResult.error) throw usageResult.error;
+      setItems(itemsResult.data || []);
+      setCategories(categoriesResult.data || []);
+      setUsage(usageResult.data || []);
+    } catch (error) {
+      console.error('Error fetching usage:', error);
+      showNotification('error', 'Failed to load usage history');
+    }
+    setLoading(false);
+  };
+
+  const showNotification = (type: 'success' | 'error', message: string) => {
+    setNotification({ type, message });
+    setTimeout(() => setNotification(null), 3000);
+  };
+
+  const shownCategoryIds = categoryFilter ? categoryWithChildren(categories, categoryFilter) : null;
+  const shownItems = shownCategoryIds ? items.filter(item => shownCategoryIds.includes(item.category_id)) : items;
+  const shownItemIds = new Set(shownItems.map(item => item.id));
+  const shownUsage = usage.filter(row => shownItemIds.has(row.item_id));
+
+  const usedByItem = new Map<string, number>();
+  const restockedByItem = new Map<string, number>();
+  shownUsage.forEach(row => {
+    usedByItem.set(row.item_id, (usedByItem.get(row.item_id) ?? 0) + row.used);
+    restockedByItem.set(row.item_id, (restockedByItem.get(row.item_id) ?? 0) + row.restocked);
+  });
+
+  const weeks = weekStarts(windowDays);
+  const usedByWeek = new Map<string, number>();
+  shownUsage.forEach(row => {
+    const week = weekStart(row.day);
+    usedByWeek.set(week, (usedByWeek.get(week) ?? 0) + row.used);
+  });
+  const busiestWeek = Math.max(1, ...weeks.map(week => usedByWeek.get(week) ?? 0));
+
+  const categoryRows = sortCategories(categories)
+    .map(category => {
+      const categoryItemIds = items.filter(item => item.category_id === category.id).map(item => item.id);
+      const used = categoryItemIds.reduce((total, id) => total + (usedByItem.get(id) ?? 0), 0);
+      return { category, used };
+    })
+    .filter(row => row.used > 0);
+
+  const itemRows = shownItems
+    .map(item => {
+      const leadTimeDays = item.suppliers?.lead_time_days ?? DEFAULT_LEAD_TIME_DAYS;
+      return {
+        item,
+        leadTimeDays,
+        used: usedByItem.get(item.id) ?? 0,
+        restocked: restockedByItem.get(item.id) ?? 0,
+        suggestion: suggestReorder(item.quantity, usedByItem.get(item.id) ?? 0, windowDays, leadTimeDays, safetyFactor),
+      };
+    })
+    // Soonest to run out first; unused items last
+    .sort((a, b) => (a.suggestion?.daysOfSupply ?? Infinity) - (b.suggestion?.daysOfSupply ?? Infinity));
+
+  const totalUsed = itemRows.reduce((total, row) => total + row.used, 0);
+  const atRiskCount = itemRows.filter(row => row.suggestion && row.suggestion.daysOfSupply! <= row.leadTimeDays).length;
+
+  const differsFromSuggestion = (item: AnalyticsItem, threshold: number, reorderQuantity: number) =>
+    item.threshold !== threshold || item.reorder_quantity !== reorderQuantity;
+
+  const handleAccept = async (item: AnalyticsItem, threshold: number, reorderQuantity: number) => {
+    try {
+      const { error } = await supabase
+        .from('inventory')
+        .update({ threshold, reorder_quantity: reorderQuantity })
+        .eq('id', item.id);
+
+      if (error) throw error;
+      setItems(current => current.map(other =>
+        other.id === item.id ? { ...other, threshold, reorder_quantity: reorderQuantity } : other
+      ));
+      showNotification('success', `${item.name}: threshold ${threshold}, reorder ${reorderQuantity}`);
+    } catch (error) {
+      console.error('Error updating item:', error);
+      showNotification('error', 'Failed to update item');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 md:p-8">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <Link href="/admin" className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-700 font-semibold mb-4">
+            <ArrowLeft className="w-5 h-5" />
+            Back to Dashboard
+          </Link>
+          <h1 className="text-4xl font-bold text-gray-800 mb-2">Usage &amp; Reordering</h1>
+          <p className="text-gray-600 text-lg">How fast stock is being used, and thresholds that match it</p>
+        </div>
+
+        {/* Notification */}
+        {notification && (
+          <div className={`mb-6 rounded-2xl p-6 flex items-center gap-4 ${
+            notification.type === 'success' ? 'bg-green-50 border-4 border-green-500' : 'bg-red-50 border-4 border-red-500'
+          }`}>
+            {notification.type === 'success' ? (
+              <CheckCircle className="w-8 h-8 text-green-600" />
+            ) : (
+              <AlertTriangle className="w-8 h-8 text-red-600" />
+            )}
+            <p className={`text-xl font-semibold ${
+              notification.type === 'success' ? 'text-green-800' : 'text-red-800'
+            }`}>
+              {notification.message}
+            </p>
+          </div>
+        )}
+
+        {/* Controls */}
+        <div className="bg-white rounded-2xl shadow-md p-6 mb-6 grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">Usage over the last</label>
+            <div className="flex gap-2">
+              {USAGE_WINDOWS.map(days => (
+                <button
+                  key={days}
+                  onClick={() => setWindowDays(days)}
+                  className={`flex-1 py-2 rounded-xl font-semibold ${
+                    windowDays === days ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {days} days
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">Safety stock</label>
+            <div className="flex gap-2">
+              {SAFETY_FACTORS.map(factor => (
+                <button
+                  key={factor}
+                  onClick={() => setSafetyFactor(factor)}
+                  className={`flex-1 py-2 rounded-xl font-semibold ${
+                    safetyFactor === factor ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  +{factor * 100}%
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">Category</label>
+            <select
+              value={categoryFilter}
+              onChange={(e) => setCategoryFilter(e.target.value)}
+              className="w-full px-4 py-2 text-lg border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+            >
+              <option value="">All categories</option>
+              {sortCategories(categories).map(category => (
+                <option key={category.id} value={category.id}>{categoryLabel(categories, category.id)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="bg-white rounded-2xl shadow-md p-12 text-center">
+            <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-blue-600 mx-auto"></div>
+          </div>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+              <div className="bg-white rounded-2xl shadow-md p-6">
+                <p className="text-gray-600 text-sm font-semibold">Used in {windowDays} days</p>
+                <p className="text-4xl font-bold text-blue-600 mt-2">{totalUsed}</p>
+              </div>
+              <div className="bg-white rounded-2xl shadow-md p-6">
+                <p className="text-gray-600 text-sm font-semibold">Average per day</p>
+                <p className="text-4xl font-bold text-blue-600 mt-2">{(totalUsed / windowDays).toFixed(1)}</p>
+              </div>
+              <div className="bg-white rounded-2xl shadow-md p-6">
+                <p className="text-gray-600 text-sm font-semibold">Run out within lead time</p>
+                <p className="text-4xl font-bold text-red-600 mt-2">{atRiskCount}</p>
+              </div>
+            </div>
+
+            {/* Weekly Usage */}
+            <div className="bg-white rounded-2xl shadow-md p-6 mb-6">
+              <h2 className="text-2xl font-bold text-gray-800 mb-4">Used per Week</h2>
+              <div className="flex items-end gap-1 h-40">
+                {weeks.map(week => {
+                  const used = usedByWeek.get(week) ?? 0;
+                  return (
+                    <div key={week} className="flex-1 h-full flex flex-col justify-end" title={`Week of ${week}: ${used}`}>
+                      <div className="bg-blue-500 rounded-t" style={{ height: `${(used / busiestWeek) * 100}%` }} />
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="flex justify-between text-sm text-gray-500 mt-2">
+                <span>{weeks[0]}</span>
+                <span>This week</span>
+              </div>
+            </div>
+
+            {/* By Category */}
+            {!categoryFilter && categoryRows.length > 0 && (
+              <div className="bg-white rounded-2xl shadow-md p-6 mb-6">
+                <h2 className="text-2xl font-bold text-gray-800 mb-4">By Category</h2>
+                <div className="space-y-3">
+                  {categoryRows.map(({ category, used }) => (
+                    <div key={category.id} className="flex items-center gap-4">
+                      <span className="w-48 font-semibold text-gray-700 truncate">{categoryLabel(categories, category.id)}</span>
+                      <div className="flex-1 bg-gray-100 rounded-full h-4">
+                        <div className="bg-blue-500 h-4 rounded-full" style={{ width: `${(used / totalUsed) * 100}%` }} />
+                      </div>
+                      <span className="w-32 text-right text-gray-700">
+                        {used} · {(used / windowDays).toFixed(1)}/day
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Items */}
+            <div className="bg-white rounded-2xl shadow-md overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-4 text-left text-sm font-semibold text-gray-700">Item</th>
+                    <th className="px-4 py-4 text-right text-sm font-semibold text-gray-700">Used</th>
+                    <th className="px-4 py-4 text-right text-sm font-semibold text-gray-700">Restocked</th>
+                    <th className="px-4 py-4 text-right text-sm font-semibold text-gray-700">Per Day</th>
+                    <th className="px-4 py-4 text-right text-sm font-semibold text-gray-700">On Hand</th>
+                    <th className="px-4 py-4 text-right text-sm font-semibold text-gray-700">Days Left</th>
+                    <th className="px-4 py-4 text-right text-sm font-semibold text-gray-700">Threshold</th>
+                    <th className="px-4 py-4 text-right text-sm font-semibold text-gray-700">Reorder Qty</th>
+                    <th className="px-4 py-4"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {itemRows.map(({ item, leadTimeDays, used, restocked, suggestion }) => (
+                    <tr key={item.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3">
+                        <p className="font-semibold text-gray-800">{item.name}</p>
+                        <p className="text-sm text-gray-500">
+                          {categoryLabel(categories, item.category_id)} · {leadTimeDays}-day lead time
+                        </p>
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-700">{used}</td>
+                      <td className="px-4 py-3 text-right text-gray-700">{restocked}</td>
+                      <td className="px-4 py-3 text-right text-gray-700">{suggestion ? suggestion.averageDailyUse.toFixed(1) : '—'}</td>
+                      <td className="px-4 py-3 text-right text-gray-700">{item.quantity}</td>
+                      <td className={`px-4 py-3 text-right font-semibold ${
+                        !suggestion ? 'text-gray-400'
+                          : suggestion.daysOfSupply! <= leadTimeDays ? 'text-red-700'
+                          : suggestion.daysOfSupply! <= leadTimeDays * 2 ? 'text-yellow-700'
+                          : 'text-green-700'
+                      }`}>
+                        {suggestion ? Math.floor(suggestion.daysOfSupply!) : '—'}
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-700">
+                        {item.threshold}
+                        {suggestion && suggestion.threshold !== item.threshold && (
+                          <span className="text-blue-700 font-semibold"> → {suggestion.threshold}</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-700">
+                        {item.reorder_quantity ?? '—'}
+                        {suggestion && suggestion.reorderQuantity !== item.reorder_quantity && (
+                          <span className="text-blue-700 font-semibold"> → {suggestion.reorderQuantity}</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {suggestion && differsFromSuggestion(item, suggestion.threshold, suggestion.reorderQuantity) && (
+                          <button
+                            onClick={() => handleAccept(item, suggestion.threshold, suggestion.reorderQuantity)}
+                            className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-xl flex items-center gap-2 transition-all active:scale-95 whitespace-nowrap"
+                          >
+                            <Check className="w-4 h-4" />
+                            Accept
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,328 @@
+// src/app/admin/audit/page.tsx
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Download, CheckCircle, AlertTriangle, ChevronLeft, ChevronRight } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { Profile } from '@/lib/auth';
+import { Category } from '@/lib/categories';
+import { Supplier } from '@/lib/purchasing';
+import { downloadCsv } from '@/lib/csv';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ACTION_STYLES,
+  AUDIT_CSV_HEADER,
+  AuditAction,
+  AuditEntry,
+  auditCsvRows,
+  describeEntity,
+  fieldLabel,
+  formatAuditValue,
+} from '@/lib/audit';
+import RequireRole from '@/components/RequireRole';
+
+const ENTRIES_PER_PAGE = 50;
+
+// Exports are fetched in chunks; PostgREST caps a single response
+const EXPORT_CHUNK = 1000;
+
+interface AuditFilters {
+  actorId: string;
+  itemId: string;
+  action: AuditAction | '';
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = { actorId: '', itemId: '', action: '', from: '', to: '' };
+
+function AuditLog() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [items, setItems] = useState<{ id: string; name: string; archived_at: string | null }[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  useEffect(() => {
+    fetchLookups();
+  }, []);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [filters, page]);
+
+  const fetchLookups = async () => {
+    const [profilesResult, itemsResult, categoriesResult, suppliersResult] = await Promise.all([
+      supabase.from('profiles').select('*').order('email'),
+      supabase.from('inventory').select('id, name, archived_at').order('name'),
+      supabase.from('categories').select('*'),
+      supabase.from('suppliers').select('*'),
+    ]);
+
+    if (profilesResult.error || itemsResult.error || categoriesResult.error || suppliersResult.error) {
+      console.error('Error fetching audit filters:', profilesResult.error || itemsResult.error || categoriesResult.error || suppliersResult.error);
+      return;
+    }
+    setProfiles(profilesResult.data || []);
+    setItems(itemsResult.data || []);
+    setCategories(categoriesResult.data || []);
+    setSuppliers(suppliersResult.data || []);
+  };
+
+  // Dates are whole days in local time, both ends included
+  const filteredQuery = (options?: { count: 'exact' }) => {
+    let query = supabase.from('audit_log').select('*', options);
+    if (filters.actorId) query = query.eq('actor_id', filters.actorId);
+    if (filters.itemId) query = query.or(`entity_id.eq.${filters.itemId},item_ids.cs.{${filters.itemId}}`);
+    if (filters.action) query = query.eq('action', filters.action);
+    if (filters.from) query = query.gte('occurred_at', new Date(`${filters.from}T00:00:00`).toISOString());
+    if (filters.to) {
+      const end = new Date(`${filters.to}T00:00:00`);
+      end.setDate(end.getDate() + 1);
+      query = query.lt('occurred_at', end.toISOString());
+    }
+    return query.order('occurred_at', { ascending: false }).order('id', { ascending: false });
+  };
+
+  const fetchEntries = async () => {
+    setLoading(true);
+    try {
+      const start = (page - 1) * ENTRIES_PER_PAGE;
+      const { data, count, error } = await filteredQuery({ count: 'exact' }).range(start, start + ENTRIES_PER_PAGE - 1);
+
+      if (error) throw error;
+      setEntries(data || []);
+      setTotal(count || 0);
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      showNotification('error', 'Failed to load the audit log');
+    }
+    setLoading(false);
+  };
+
+  const showNotification = (type: 'success' | 'error', message: string) => {
+    setNotification({ type, message });
+    setTimeout(() => setNotification(null), 3000);
+  };
+
+  const updateFilters = (change: Partial<AuditFilters>) => {
+    setFilters(current => ({ ...current, ...change }));
+    setPage(1);
+  };
+
+  // Everything matching the filters, not just the page on screen
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const all: AuditEntry[] = [];
+      for (let start = 0; ; start += EXPORT_CHUNK) {
+        const { data, error } = await filteredQuery().range(start, start + EXPORT_CHUNK - 1);
+        if (error) throw error;
+        all.push(...(data || []));
+        if (!data || data.length < EXPORT_CHUNK) break;
+      }
+
+      downloadCsv(`audit-log-${new Date().toISOString().slice(0, 10)}.csv`, [AUDIT_CSV_HEADER, ...auditCsvRows(all)]);
+      showNotification('success', `Exported ${all.length} entries`);
+    } catch (error) {
+      console.error('Error exporting audit log:', error);
+      showNotification('error', 'Failed to export the audit log');
+    }
+    setExporting(false);
+  };
+
+  // Ids of categories and suppliers read better as names
+  const displayValue = (field: string, value: unknown) => {
+    if (field === 'category_id') return categories.find(category => category.id === value)?.name ?? formatAuditValue(value);
+    if (field === 'supplier_id') return suppliers.find(supplier => supplier.id === value)?.name ?? formatAuditValue(value);
+    return formatAuditValue(value);
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / ENTRIES_PER_PAGE));
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 md:p-8">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <Link href="/admin" className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-700 font-semibold mb-4">
+              <ArrowLeft className="w-5 h-5" />
+              Back to Dashboard
+            </Link>
+            <h1 className="text-4xl font-bold text-gray-800 mb-2">Audit Log</h1>
+            <p className="text-gray-600 text-lg">Every change to items and requests, who made it and when</p>
+          </div>
+          <button
+            onClick={handleExport}
+            disabled={exporting || total === 0}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-bold py-4 px-6 rounded-xl text-lg flex items-center gap-3 transition-all active:scale-95 shadow-lg"
+          >
+            <Download className="w-6 h-6" />
+            {exporting ? 'Exporting...' : 'Export CSV'}
+          </button>
+        </div>
+
+        {/* Notification */}
+        {notification && (
+          <div className={`mb-6 rounded-2xl p-6 flex items-center gap-4 ${
+            notification.type === 'success' ? 'bg-green-50 border-4 border-green-500' : 'bg-red-50 border-4 border-red-500'
+          }`}>
+            {notification.type === 'success' ? (
+              <CheckCircle className="w-8 h-8 text-green-600" />
+            ) : (
+              <AlertTriangle className="w-8 h-8 text-red-600" />
+            )}
+            <p className={`text-xl font-semibold ${
+              notification.type === 'success' ? 'text-green-800' : 'text-red-800'
+            }`}>
+              {notification.message}
+            </p>
+          </div>
+        )}
+
+        {/* Filters */}
+        <div className="bg-white rounded-2xl shadow-md p-6 mb-8 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">User</label>
+            <select
+              value={filters.actorId}
+              onChange={(e) => updateFilters({ actorId: e.target.value })}
+              className="w-full px-4 py-2 text-lg border-2 border-gray-300 rounded-xl bg-white focus:outline-none focus:ring-4 focus:ring-blue-500"
+            >
+              <option value="">Anyone</option>
+              {profiles.map(profile => (
+                <option key={profile.id} value={profile.id}>{profile.full_name || profile.email}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">Item</label>
+            <select
+              value={filters.itemId}
+              onChange={(e) => updateFilters({ itemId: e.target.value })}
+              className="w-full px-4 py-2 text-lg border-2 border-gray-300 rounded-xl bg-white focus:outline-none focus:ring-4 focus:ring-blue-500"
+            >
+              <option value="">Any item</option>
+              {items.map(item => (
+                <option key={item.id} value={item.id}>{item.name}{item.archived_at ? ' (archived)' : ''}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">Action</label>
+            <select
+              value={filters.action}
+              onChange={(e) => updateFilters({ action: e.target.value as AuditAction | '' })}
+              className="w-full px-4 py-2 text-lg border-2 border-gray-300 rounded-xl bg-white focus:outline-none focus:ring-4 focus:ring-blue-500"
+            >
+              <option value="">Any action</option>
+              {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => (
+                <option key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">From</label>
+            <input
+              type="date"
+              value={filters.from}
+              onChange={(e) => updateFilters({ from: e.target.value })}
+              className="w-full px-4 py-2 text-lg border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">To</label>
+            <input
+              type="date"
+              value={filters.to}
+              onChange={(e) => updateFilters({ to: e.target.value })}
+              className="w-full px-4 py-2 text-lg border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+
+        {/* Entries */}
+        <div className="bg-white rounded-2xl shadow-md overflow-hidden">
+          {loading ? (
+            <div className="p-12 text-center">
+              <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-blue-600 mx-auto"></div>
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="p-12 text-center text-xl text-gray-500">Nothing recorded for these filters.</p>
+          ) : (
+            <>
+              <div className="divide-y divide-gray-200">
+                {entries.map(entry => (
+                  <div key={entry.id} className="px-6 py-4">
+                    <div className="flex flex-wrap items-center gap-3 mb-2">
+                      <span className={`px-3 py-1 rounded-full text-sm font-semibold ${AUDIT_ACTION_STYLES[entry.action]}`}>
+                        {AUDIT_ACTION_LABELS[entry.action]}
+                      </span>
+                      <span className="font-semibold text-gray-800">{describeEntity(entry)}</span>
+                      <span className="text-gray-500">
+                        by {entry.actor_email} · {new Date(entry.occurred_at).toLocaleString()}
+                      </span>
+                    </div>
+                    {Object.keys(entry.changes).length > 0 && (
+                      <table className="text-sm">
+                        <tbody>
+                          {Object.entries(entry.changes).map(([field, change]) => (
+                            <tr key={field} className="text-gray-700">
+                              <td className="py-1 pr-4 font-semibold capitalize">{fieldLabel(field)}</td>
+                              <td className="py-1 pr-4 text-gray-500 line-through">{displayValue(field, change.before) || '—'}</td>
+                              <td className="py-1">{displayValue(field, change.after) || '—'}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {/* Pagination */}
+              <div className="p-6 border-t-2 border-gray-100 flex items-center justify-between gap-4">
+                <p className="text-gray-600">{total} entries</p>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setPage(page - 1)}
+                    disabled={page <= 1}
+                    className="p-2 rounded-lg text-gray-700 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent"
+                    title="Previous page"
+                  >
+                    <ChevronLeft className="w-6 h-6" />
+                  </button>
+                  <span className="text-gray-700 font-semibold">Page {page} of {pageCount}</span>
+                  <button
+                    onClick={() => setPage(page + 1)}
+                    disabled={page >= pageCount}
+                    className="p-2 rounded-lg text-gray-700 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent"
+                    title="Next page"
+                  >
+                    <ChevronRight className="w-6 h-6" />
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function AuditPage() {
+  return (
+    <RequireRole roles={['admin']} showUserBar={false}>
+      <AuditLog />
+    </RequireRole>
+  );
+}
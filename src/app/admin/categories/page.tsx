@@ -0,0 +1,430 @@
+// src/app/admin/categories/page.tsx
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Plus, Edit2, Trash2, Save, X, Merge, CheckCircle, AlertTriangle } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import {
+  Category,
+  CategoryColor,
+  CATEGORY_COLOR_STYLES,
+  CATEGORY_ICONS,
+  sortCategories,
+} from '@/lib/categories';
+import CategoryBadge from '@/components/CategoryBadge';
+import RequireRole from '@/components/RequireRole';
+
+const EMPTY_FORM = {
+  name: '',
+  color: 'gray' as CategoryColor,
+  icon: 'package',
+  parent_id: '',
+  default_threshold: 10,
+  track_lots_default: false,
+};
+
+function CategoriesManager() {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [itemCounts, setItemCounts] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const [mergeInto, setMergeInto] = useState('');
+  const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  useEffect(() => {
+    fetchCategories();
+  }, []);
+
+  const fetchCategories = async () => {
+    setLoading(true);
+    try {
+      const [categoriesResult, itemsResult] = await Promise.all([
+        supabase.from('categories').select('*').order('name'),
+        supabase.from('inventory').select('category_id'),
+      ]);
+
+      if (categoriesResult.error) throw categoriesResult.error;
+      if (itemsResult.error) throw itemsResult.error;
+
+      const counts: Record<string, number> = {};
+      for (const item of itemsResult.data || []) {
+        counts[item.category_id] = (counts[item.category_id] || 0) + 1;
+      }
+
+      setCategories(categoriesResult.data || []);
+      setItemCounts(counts);
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+      showNotification('error', 'Failed to load categories');
+    }
+    setLoading(false);
+  };
+
+  const showNotification = (type: 'success' | 'error', message: string) => {
+    setNotification({ type, message });
+    setTimeout(() => setNotification(null), 3000);
+  };
+
+  const hasChildren = (id: string) => categories.some(category => category.parent_id === id);
+
+  // One level of nesting: parents are top-level categories other than this one
+  const parentOptions = categories.filter(category => !category.parent_id && category.id !== editingId);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const details = { ...formData, name: formData.name.trim(), parent_id: formData.parent_id || null };
+
+    try {
+      if (editingId) {
+        const { error } = await supabase
+          .from('categories')
+          .update(details)
+          .eq('id', editingId);
+
+        if (error) throw error;
+        showNotification('success', 'Category updated successfully');
+      } else {
+        const { error } = await supabase
+          .from('categories')
+          .insert([details]);
+
+        if (error) throw error;
+        showNotification('success', 'Category added successfully');
+      }
+
+      resetForm();
+      fetchCategories();
+    } catch (error) {
+      console.error('Error saving category:', error);
+      showNotification('error', 'Failed to save category; names must be unique');
+    }
+  };
+
+  const handleEdit = (category: Category) => {
+    setEditingId(category.id);
+    setFormData({
+      name: category.name,
+      color: category.color,
+      icon: category.icon,
+      parent_id: category.parent_id || '',
+      default_threshold: category.default_threshold,
+      track_lots_default: category.track_lots_default,
+    });
+    setShowForm(true);
+  };
+
+  const handleDelete = async (category: Category) => {
+    if (!confirm(`Delete "${category.name}"?`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('categories')
+        .delete()
+        .eq('id', category.id);
+
+      if (error) throw error;
+      showNotification('success', 'Category deleted successfully');
+      fetchCategories();
+    } catch (error) {
+      console.error('Error deleting category:', error);
+      showNotification('error', 'Failed to delete category');
+    }
+  };
+
+  const handleMerge = async (category: Category) => {
+    const target = categories.find(candidate => candidate.id === mergeInto);
+    if (!target) return;
+    if (!confirm(`Move everything in "${category.name}" to "${target.name}" and remove "${category.name}"?`)) return;
+
+    try {
+      const { data, error } = await supabase.rpc('merge_categories', {
+        p_from: category.id,
+        p_into: target.id,
+      });
+
+      if (error) throw error;
+      showNotification('success', `Moved ${data} items into ${target.name}`);
+      setMergingId(null);
+      setMergeInto('');
+      fetchCategories();
+    } catch (error) {
+      console.error('Error merging categories:', error);
+      showNotification('error', 'Failed to merge categories');
+    }
+  };
+
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
+    setEditingId(null);
+    setShowForm(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 md:p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <Link href="/admin" className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-700 font-semibold mb-4">
+            <ArrowLeft className="w-5 h-5" />
+            Back to Dashboard
+          </Link>
+          <h1 className="text-4xl font-bold text-gray-800 mb-2">Categories</h1>
+          <p className="text-gray-600 text-lg">How items are grouped on every screen</p>
+        </div>
+
+        {/* Notification */}
+        {notification && (
+          <div className={`mb-6 rounded-2xl p-6 flex items-center gap-4 ${
+            notification.type === 'success' ? 'bg-green-50 border-4 border-green-500' : 'bg-red-50 border-4 border-red-500'
+          }`}>
+            {notification.type === 'success' ? (
+              <CheckCircle className="w-8 h-8 text-green-600" />
+            ) : (
+              <AlertTriangle className="w-8 h-8 text-red-600" />
+            )}
+            <p className={`text-xl font-semibold ${
+              notification.type === 'success' ? 'text-green-800' : 'text-red-800'
+            }`}>
+              {notification.message}
+            </p>
+          </div>
+        )}
+
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="mb-6 bg-blue-600 hover:bg-blue-700 text-white font-bold py-4 px-8 rounded-xl text-lg flex items-center gap-3 transition-all active:scale-95 shadow-lg"
+          >
+            <Plus className="w-6 h-6" />
+            Add Category
+          </button>
+        )}
+
+        {/* Add/Edit Form */}
+        {showForm && (
+          <div className="bg-white rounded-2xl shadow-md p-6 md:p-8 mb-8">
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="text-3xl font-bold text-gray-800">
+                {editingId ? 'Edit Category' : 'Add Category'}
+              </h2>
+              <button onClick={resetForm} className="text-gray-500 hover:text-gray-700">
+                <X className="w-8 h-8" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div>
+                  <label className="block text-lg font-semibold text-gray-700 mb-3">Name *</label>
+                  <input
+                    type="text"
+                    required
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-lg font-semibold text-gray-700 mb-3">Parent Category</label>
+                  <select
+                    value={formData.parent_id}
+                    disabled={!!editingId && hasChildren(editingId)}
+                    onChange={(e) => setFormData({ ...formData, parent_id: e.target.value })}
+                    className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500 disabled:bg-gray-100"
+                  >
+                    <option value="">None (top level)</option>
+                    {parentOptions.map(category => (
+                      <option key={category.id} value={category.id}>{category.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-lg font-semibold text-gray-700 mb-3">Default Threshold *</label>
+                  <input
+                    type="number"
+                    required
+                    min="0"
+                    value={formData.default_threshold}
+                    onChange={(e) => setFormData({ ...formData, default_threshold: parseInt(e.target.value) || 0 })}
+                    className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-lg font-semibold text-gray-700 mb-3">Colour</label>
+                <div className="flex flex-wrap gap-2">
+                  {(Object.keys(CATEGORY_COLOR_STYLES) as CategoryColor[]).map(color => (
+                    <button
+                      key={color}
+                      type="button"
+                      onClick={() => setFormData({ ...formData, color })}
+                      className={`px-4 py-2 rounded-xl font-semibold capitalize ${CATEGORY_COLOR_STYLES[color]} ${
+                        formData.color === color ? 'ring-4 ring-blue-500' : ''
+                      }`}
+                    >
+                      {color}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-lg font-semibold text-gray-700 mb-3">Icon</label>
+                <div className="flex flex-wrap gap-2">
+                  {Object.entries(CATEGORY_ICONS).map(([key, Icon]) => (
+                    <button
+                      key={key}
+                      type="button"
+                      onClick={() => setFormData({ ...formData, icon: key })}
+                      className={`p-3 rounded-xl bg-gray-100 hover:bg-gray-200 ${formData.icon === key ? 'ring-4 ring-blue-500' : ''}`}
+                      title={key}
+                    >
+                      <Icon className="w-6 h-6 text-gray-700" />
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <label className="flex items-center gap-3 text-lg text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.track_lots_default}
+                  onChange={(e) => setFormData({ ...formData, track_lots_default: e.target.checked })}
+                  className="w-6 h-6"
+                />
+                New items track lot numbers &amp; expiry dates
+              </label>
+
+              <div className="flex gap-4">
+                <button
+                  type="submit"
+                  className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-bold py-4 px-6 rounded-xl text-xl flex items-center justify-center gap-3 transition-all active:scale-95 shadow-lg"
+                >
+                  <Save className="w-6 h-6" />
+                  {editingId ? 'Update Category' : 'Add Category'}
+                </button>
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="px-8 bg-gray-200 hover:bg-gray-300 text-gray-700 font-bold py-4 rounded-xl text-xl transition-all active:scale-95"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        {/* Categories List */}
+        <div className="bg-white rounded-2xl shadow-md overflow-hidden">
+          {loading ? (
+            <div className="p-12 text-center">
+              <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-blue-600 mx-auto"></div>
+            </div>
+          ) : categories.length === 0 ? (
+            <div className="p-12 text-center">
+              <p className="text-xl text-gray-500">No categories yet.</p>
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">Category</th>
+                  <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Items</th>
+                  <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Default Threshold</th>
+                  <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {sortCategories(categories).map(category => (
+                  <tr key={category.id} className="hover:bg-gray-50">
+                    <td className={`px-6 py-4 ${category.parent_id ? 'pl-12' : ''}`}>
+                      <CategoryBadge categories={categories} categoryId={category.id} />
+                      {category.track_lots_default && (
+                        <span className="ml-2 text-sm text-gray-500">lots tracked</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-right text-lg font-semibold">{itemCounts[category.id] || 0}</td>
+                    <td className="px-6 py-4 text-right text-gray-700">{category.default_threshold}</td>
+                    <td className="px-6 py-4">
+                      {mergingId === category.id ? (
+                        <div className="flex justify-end gap-2">
+                          <select
+                            value={mergeInto}
+                            onChange={(e) => setMergeInto(e.target.value)}
+                            className="px-3 py-2 border-2 border-gray-300 rounded-lg focus:outline-none focus:ring-4 focus:ring-blue-500"
+                          >
+                            <option value="">Merge into...</option>
+                            {sortCategories(categories)
+                              .filter(candidate => candidate.id !== category.id)
+                              .map(candidate => (
+                                <option key={candidate.id} value={candidate.id}>{candidate.name}</option>
+                              ))}
+                          </select>
+                          <button
+                            onClick={() => handleMerge(category)}
+                            disabled={!mergeInto}
+                            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-semibold rounded-lg"
+                          >
+                            Merge
+                          </button>
+                          <button
+                            onClick={() => setMergingId(null)}
+                            className="p-2 text-gray-500 hover:text-gray-700"
+                          >
+                            <X className="w-5 h-5" />
+                          </button>
+                        </div>
+                      ) : (
+                        <div className="flex justify-end gap-2">
+                          <button
+                            onClick={() => handleEdit(category)}
+                            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-all"
+                            title="Edit"
+                          >
+                            <Edit2 className="w-5 h-5" />
+                          </button>
+                          <button
+                            onClick={() => { setMergingId(category.id); setMergeInto(''); }}
+                            className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-all"
+                            title="Merge into another category"
+                          >
+                            <Merge className="w-5 h-5" />
+                          </button>
+                          {/* Only empty categories can go; merge moves items out first */}
+                          {!itemCounts[category.id] && !hasChildren(category.id) && (
+                            <button
+                              onClick={() => handleDelete(category)}
+                              className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-all"
+                              title="Delete"
+                            >
+                              <Trash2 className="w-5 h-5" />
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function CategoriesPage() {
+  return (
+    <RequireRole roles={['admin']} showUserBar={false}>
+      <CategoriesManager />
+    </RequireRole>
+  );
+}
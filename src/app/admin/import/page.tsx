@@ -0,0 +1,466 @@
+// src/app/admin/import/page.tsx
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Upload, Download, FileSpreadsheet, CheckCircle, AlertTriangle } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { downloadCsv, parseCsv } from '@/lib/csv';
+import { Category } from '@/lib/categories';
+import { InventoryItem, createSupabaseRepository } from '@/lib/repository';
+
+type ImportField = 'sku' | 'name' | 'description' | 'category' | 'quantity' | 'threshold' | 'unit_cost' | 'source_url';
+
+const repository = createSupabaseRepository(supabase);
+
+// The category column is resolved to an id before import
+type RecordField = Exclude<ImportField, 'category'> | 'category_id';
+type ImportRecord = Partial<Record<RecordField, string | number>>;
+
+interface PreviewRow {
+  rowNumber: number;
+  action: 'create' | 'update' | 'unchanged' | 'error';
+  name: string;
+  record: ImportRecord;
+  messages: string[];
+}
+
+// Header names each field is recognised by, besides its own key
+const IMPORT_FIELDS: { key: ImportField; label: string; aliases: string[] }[] = [
+  { key: 'sku', label: 'SKU', aliases: ['item code', 'code', 'product code'] },
+  { key: 'name', label: 'Name', aliases: ['item', 'item name'] },
+  { key: 'description', label: 'Description', aliases: ['notes'] },
+  { key: 'category', label: 'Category', aliases: ['type'] },
+  { key: 'quantity', label: 'Quantity', aliases: ['qty', 'stock', 'on hand', 'current quantity'] },
+  { key: 'threshold', label: 'Threshold', aliases: ['min', 'minimum', 'reorder level', 'low stock threshold'] },
+  { key: 'unit_cost', label: 'Unit Cost', aliases: ['cost', 'price', 'unit price'] },
+  { key: 'source_url', label: 'Source URL', aliases: ['url', 'link', 'purchase link'] },
+];
+
+const normalise = (value: string) => value.trim().toLowerCase().replace(/[_-]+/g, ' ');
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Guess which CSV column feeds each field from the header row
+const autoMapColumns = (headers: string[]): Record<ImportField, number> => {
+  const normalised = headers.map(normalise);
+  return Object.fromEntries(
+    IMPORT_FIELDS.map(field => [
+      field.key,
+      normalised.findIndex(header =>
+        [field.key, field.label, ...field.aliases].map(normalise).includes(header)
+      ),
+    ])
+  ) as Record<ImportField, number>;
+};
+
+// Works out what committing each row would do without writing anything. Blank
+// cells leave the existing value alone; rows match by SKU first, then name.
+const buildPreview = (
+  rows: string[][],
+  mapping: Record<ImportField, number>,
+  items: InventoryItem[],
+  categories: Category[]
+): PreviewRow[] => {
+  const seen = new Map<string, number>();
+
+  return rows.map((cells, index) => {
+    const rowNumber = index + 2; // 1-based, after the header row
+    const messages: string[] = [];
+    const record: ImportRecord = {};
+
+    for (const field of IMPORT_FIELDS) {
+      const column = mapping[field.key];
+      const value = column >= 0 ? (cells[column] ?? '').trim() : '';
+      if (value === '') continue;
+
+      if (field.key === 'quantity' || field.key === 'threshold') {
+        if (!/^\d+$/.test(value)) {
+          messages.push(`${field.label} must be a whole number, got "${value}"`);
+          continue;
+        }
+        record[field.key] = parseInt(value);
+      } else if (field.key === 'unit_cost') {
+        if (!/^\d+(\.\d{1,4})?$/.test(value)) {
+          messages.push(`Unit cost must be an amount like 12.50, got "${value}"`);
+          continue;
+        }
+        record.unit_cost = Number(value);
+      } else if (field.key === 'category') {
+        const category = categories.find(candidate => normalise(candidate.name) === normalise(value));
+        if (!category) {
+          messages.push(`Unknown category "${value}"`);
+          continue;
+        }
+        record.category_id = category.id;
+      } else if (field.key === 'source_url') {
+        if (!/^https?:\/\//i.test(value)) {
+          messages.push(`Source URL must start with http:// or https://`);
+          continue;
+        }
+        record.source_url = value;
+      } else {
+        record[field.key] = value;
+      }
+    }
+
+    const sku = typeof record.sku === 'string' ? record.sku.toLowerCase() : null;
+    const name = typeof record.name === 'string' ? record.name.toLowerCase() : null;
+
+    const bySku = sku ? items.find(item => item.sku?.toLowerCase() === sku) : undefined;
+    const byName = name ? items.find(item => item.name.toLowerCase() === name) : undefined;
+    const match = bySku ?? byName;
+
+    if (!sku && !name) {
+      messages.push('Needs a name or SKU');
+    } else if (!bySku && byName && sku && byName.sku && byName.sku.toLowerCase() !== sku) {
+      messages.push(`"${byName.name}" already has SKU ${byName.sku}`);
+    } else if (bySku && byName && bySku.id !== byName.id) {
+      messages.push(`Name matches "${byName.name}" but SKU matches "${bySku.name}"`);
+    } else if (match?.archived_at) {
+      messages.push(`"${match.name}" is archived; restore it before importing changes to it`);
+    }
+
+    // The same item twice in one file would silently apply only the last row
+    const key = match ? match.id : `new:${sku ?? name}`;
+    if (seen.has(key)) {
+      messages.push(`Same item as row ${seen.get(key)}`);
+    } else {
+      seen.set(key, rowNumber);
+    }
+
+    if (!match && !messages.length) {
+      if (!record.name) messages.push('New items need a name');
+      if (!record.category_id) messages.push('New items need a category');
+    }
+
+    const displayName = String(record.name ?? match?.name ?? record.sku ?? '');
+
+    if (messages.length) {
+      return { rowNumber, action: 'error', name: displayName, record, messages };
+    }
+
+    if (!match) {
+      return { rowNumber, action: 'create', name: displayName, record, messages: [] };
+    }
+
+    const changes = (Object.keys(record) as RecordField[])
+      .filter(field => String(record[field]) !== String(match[field] ?? ''))
+      .map(field =>
+        field === 'quantity'
+          ? `Quantity ${match.quantity} → ${record.quantity}`
+          : field === 'category_id'
+            ? 'Category updated'
+            : `${IMPORT_FIELDS.find(candidate => candidate.key === field)?.label} updated`
+      );
+
+    return {
+      rowNumber,
+      action: changes.length ? 'update' : 'unchanged',
+      name: displayName,
+      record,
+      messages: changes,
+    };
+  });
+};
+
+const ACTION_STYLES: Record<PreviewRow['action'], string> = {
+  create: 'bg-green-100 text-green-700',
+  update: 'bg-blue-100 text-blue-700',
+  unchanged: 'bg-gray-100 text-gray-600',
+  error: 'bg-red-100 text-red-700',
+};
+
+const ACTION_LABELS: Record<PreviewRow['action'], string> = {
+  create: 'Create',
+  update: 'Update',
+  unchanged: 'No change',
+  error: 'Error',
+};
+
+export default function ImportExportPage() {
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<Record<ImportField, number> | null>(null);
+  const [committing, setCommitting] = useState(false);
+  const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  useEffect(() => {
+    fetchItems();
+  }, []);
+
+  const fetchItems = async () => {
+    // Archived items are included so a row matching one can be flagged
+    try {
+      const [inventory, categoriesResult] = await Promise.all([
+        repository.listItems({ includeArchived: true }),
+        supabase.from('categories').select('*').order('name'),
+      ]);
+
+      if (categoriesResult.error) throw categoriesResult.error;
+      setItems(inventory);
+      setCategories(categoriesResult.data || []);
+    } catch (error) {
+      console.error('Error fetching items:', error);
+      showNotification('error', 'Failed to load inventory');
+    }
+  };
+
+  const showNotification = (type: 'success' | 'error', message: string) => {
+    setNotification({ type, message });
+    setTimeout(() => setNotification(null), 4000);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const rows = parseCsv(await file.text());
+    if (rows.length < 2) {
+      showNotification('error', 'That file has no rows below the header');
+      return;
+    }
+
+    setFileName(file.name);
+    setHeaders(rows[0]);
+    setDataRows(rows.slice(1));
+    setMapping(autoMapColumns(rows[0]));
+  };
+
+  const clearFile = () => {
+    setFileName('');
+    setHeaders([]);
+    setDataRows([]);
+    setMapping(null);
+  };
+
+  const preview = mapping ? buildPreview(dataRows, mapping, items, categories) : [];
+  const toImport = preview.filter(row => row.action === 'create' || row.action === 'update');
+  const countOf = (action: PreviewRow['action']) => preview.filter(row => row.action === action).length;
+
+  const handleCommit = async () => {
+    if (toImport.length === 0) return;
+    setCommitting(true);
+
+    try {
+      const { data, error } = await supabase.rpc('import_inventory', {
+        p_rows: toImport.map(row => row.record),
+      });
+
+      if (error) throw error;
+      showNotification('success', `Imported ${data.created} new and ${data.updated} updated items`);
+      clearFile();
+      fetchItems();
+    } catch (error) {
+      console.error('Error importing items:', error);
+      showNotification('error', 'Import failed; nothing was changed');
+    }
+    setCommitting(false);
+  };
+
+  // Same columns the import reads, so an export can be edited and re-imported
+  const handleExportInventory = () => {
+    downloadCsv(`inventory-${today()}.csv`, [
+      IMPORT_FIELDS.map(field => field.key),
+      ...items.map(item =>
+        IMPORT_FIELDS.map(field =>
+          field.key === 'category'
+            ? categories.find(category => category.id === item.category_id)?.name
+            : item[field.key]
+        )
+      ),
+    ]);
+  };
+
+  const handleExportRequests = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('requests')
+        .select('*, request_items(*)')
+        .order('created_at');
+
+      if (error) throw error;
+
+      // One row per requested item, so totals can be pivoted in a spreadsheet
+      const rows = (data || []).flatMap(request =>
+        (request.request_items || []).map((line: { item_name: string; category?: string; quantity: number; received_quantity?: number }) => [
+          request.id,
+          request.created_at,
+          request.requester_name,
+          request.status,
+          line.item_name,
+          line.category,
+          line.quantity,
+          line.received_quantity,
+          request.notes,
+          request.rejection_reason,
+          request.updated_at,
+        ])
+      );
+
+      downloadCsv(`request-history-${today()}.csv`, [
+        ['request_id', 'submitted_at', 'requester', 'status', 'item', 'category', 'quantity', 'received_quantity', 'notes', 'rejection_reason', 'updated_at'],
+        ...rows,
+      ]);
+    } catch (error) {
+      console.error('Error exporting requests:', error);
+      showNotification('error', 'Failed to export request history');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 md:p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <Link href="/admin" className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-700 font-semibold mb-4">
+            <ArrowLeft className="w-5 h-5" />
+            Back to Dashboard
+          </Link>
+          <h1 className="text-4xl font-bold text-gray-800 mb-2">Import &amp; Export</h1>
+          <p className="text-gray-600 text-lg">Load the catalogue from a spreadsheet, or download it for audits</p>
+        </div>
+
+        {/* Notification */}
+        {notification && (
+          <div className={`mb-6 rounded-2xl p-6 flex items-center gap-4 ${
+            notification.type === 'success' ? 'bg-green-50 border-4 border-green-500' : 'bg-red-50 border-4 border-red-500'
+          }`}>
+            {notification.type === 'success' ? (
+              <CheckCircle className="w-8 h-8 text-green-600" />
+            ) : (
+              <AlertTriangle className="w-8 h-8 text-red-600" />
+            )}
+            <p className={`text-xl font-semibold ${
+              notification.type === 'success' ? 'text-green-800' : 'text-red-800'
+            }`}>
+              {notification.message}
+            </p>
+          </div>
+        )}
+
+        {/* Export */}
+        <div className="bg-white rounded-2xl shadow-md p-6 mb-8 flex flex-col md:flex-row gap-4">
+          <button
+            onClick={handleExportInventory}
+            className="flex-1 bg-white hover:bg-gray-100 border-2 border-gray-300 text-gray-800 font-bold py-4 px-6 rounded-xl text-lg flex items-center justify-center gap-3 transition-all active:scale-95"
+          >
+            <Download className="w-6 h-6 text-blue-600" />
+            Export Inventory ({items.length} items)
+          </button>
+          <button
+            onClick={handleExportRequests}
+            className="flex-1 bg-white hover:bg-gray-100 border-2 border-gray-300 text-gray-800 font-bold py-4 px-6 rounded-xl text-lg flex items-center justify-center gap-3 transition-all active:scale-95"
+          >
+            <Download className="w-6 h-6 text-blue-600" />
+            Export Request History
+          </button>
+        </div>
+
+        {/* Import */}
+        <div className="bg-white rounded-2xl shadow-md p-6 md:p-8 mb-8">
+          <h2 className="text-3xl font-bold text-gray-800 mb-2">Import Items</h2>
+          <p className="text-gray-600 mb-6">
+            Rows match existing items by SKU, then by name, and update them; anything else is created.
+            Blank cells leave existing values unchanged.
+          </p>
+
+          {!mapping ? (
+            <label className="block border-4 border-dashed border-gray-300 hover:border-blue-400 rounded-2xl p-12 text-center cursor-pointer transition-all">
+              <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <span className="text-xl font-semibold text-gray-700">Choose a CSV file</span>
+              <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+            </label>
+          ) : (
+            <>
+              <div className="flex items-center justify-between gap-4 mb-6">
+                <p className="flex items-center gap-3 text-lg font-semibold text-gray-800">
+                  <FileSpreadsheet className="w-6 h-6 text-blue-600" />
+                  {fileName} · {dataRows.length} rows
+                </p>
+                <button onClick={clearFile} className="text-gray-600 hover:text-gray-800 font-semibold">
+                  Choose another file
+                </button>
+              </div>
+
+              {/* Column Mapping */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+                {IMPORT_FIELDS.map(field => (
+                  <div key={field.key}>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">{field.label}</label>
+                    <select
+                      value={mapping[field.key]}
+                      onChange={(e) => setMapping({ ...mapping, [field.key]: parseInt(e.target.value) })}
+                      className="w-full px-4 py-3 text-lg border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                    >
+                      <option value={-1}>Don&apos;t import</option>
+                      {headers.map((header, index) => (
+                        <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              {/* Dry-run Summary */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                {(['create', 'update', 'unchanged', 'error'] as const).map(action => (
+                  <div key={action} className="bg-gray-50 rounded-xl p-4">
+                    <p className="text-sm font-semibold text-gray-600">{ACTION_LABELS[action]}</p>
+                    <p className="text-3xl font-bold text-gray-800">{countOf(action)}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="border-2 border-gray-100 rounded-xl overflow-hidden mb-6 max-h-[28rem] overflow-y-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">Row</th>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">Action</th>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">Item</th>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {preview.map(row => (
+                      <tr key={row.rowNumber}>
+                        <td className="px-4 py-3 text-gray-500">{row.rowNumber}</td>
+                        <td className="px-4 py-3">
+                          <span className={`px-3 py-1 rounded-full text-sm font-semibold ${ACTION_STYLES[row.action]}`}>
+                            {ACTION_LABELS[row.action]}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 font-semibold text-gray-800">{row.name || '—'}</td>
+                        <td className={`px-4 py-3 text-sm ${row.action === 'error' ? 'text-red-700' : 'text-gray-600'}`}>
+                          {row.messages.join('; ')}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <button
+                onClick={handleCommit}
+                disabled={committing || toImport.length === 0}
+                className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-bold py-4 px-6 rounded-xl text-xl flex items-center justify-center gap-3 transition-all active:scale-95 shadow-lg"
+              >
+                <Upload className="w-6 h-6" />
+                {committing
+                  ? 'Importing...'
+                  : countOf('error') > 0
+                    ? `Import ${toImport.length} Rows (skip ${countOf('error')} with errors)`
+                    : `Import ${toImport.length} Rows`}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,365 @@
+// src/app/admin/kits/page.tsx
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Plus, Edit2, Trash2, Save, X, CheckCircle, AlertTriangle } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { CartLine, addToCart } from '@/lib/cart';
+import { Kit, buildableKits } from '@/lib/kits';
+import { InventoryItem, createSupabaseRepository } from '@/lib/repository';
+
+const repository = createSupabaseRepository(supabase);
+
+const EMPTY_FORM = { name: '', description: '' };
+
+export default function KitsPage() {
+  const [kits, setKits] = useState<Kit[]>([]);
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [formLines, setFormLines] = useState<CartLine[]>([]);
+  const [newLine, setNewLine] = useState({ itemId: '', quantity: 1 });
+  const [saving, setSaving] = useState(false);
+  const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    setLoading(true);
+    try {
+      // Archived items stay listed so kits that still use them can say so
+      const [kitsResult, inventory] = await Promise.all([
+        supabase.from('kits').select('*, kit_items(*)').order('name'),
+        repository.listItems({ includeArchived: true }),
+      ]);
+
+      if (kitsResult.error) throw kitsResult.error;
+      setKits(kitsResult.data || []);
+      setItems(inventory);
+    } catch (error) {
+      console.error('Error fetching kits:', error);
+      showNotification('error', 'Failed to load kits');
+    }
+    setLoading(false);
+  };
+
+  const showNotification = (type: 'success' | 'error', message: string) => {
+    setNotification({ type, message });
+    setTimeout(() => setNotification(null), 3000);
+  };
+
+  const itemById = (id: string) => items.find(item => item.id === id);
+
+  // Archived items can't be dispensed, so they count as none on hand
+  const inStock = (itemId: string) => {
+    const item = itemById(itemId);
+    return item && !item.archived_at ? item.quantity : 0;
+  };
+
+  const handleAddLine = () => {
+    if (!newLine.itemId) {
+      showNotification('error', 'Please select an item');
+      return;
+    }
+
+    setFormLines(current => addToCart(current, newLine.itemId, newLine.quantity));
+    setNewLine({ itemId: '', quantity: 1 });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formLines.length === 0) {
+      showNotification('error', 'Add at least one item to the kit');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('save_kit', {
+        p_kit_id: editingId,
+        p_name: formData.name,
+        p_description: formData.description,
+        p_lines: formLines.map(line => ({ item_id: line.itemId, quantity: line.quantity })),
+      });
+
+      if (error) throw error;
+      showNotification('success', editingId ? 'Kit updated successfully' : 'Kit added successfully');
+      resetForm();
+      fetchData();
+    } catch (error) {
+      console.error('Error saving kit:', error);
+      const message = (error as { message?: string })?.message;
+      showNotification('error', message ? `Failed to save kit: ${message}` : 'Failed to save kit');
+    }
+    setSaving(false);
+  };
+
+  const handleEdit = (kit: Kit) => {
+    setEditingId(kit.id);
+    setFormData({ name: kit.name, description: kit.description || '' });
+    setFormLines(kit.kit_items.map(line => ({ itemId: line.item_id, quantity: line.quantity })));
+    setShowForm(true);
+  };
+
+  const handleDelete = async (kit: Kit) => {
+    if (!confirm(`Delete the "${kit.name}" kit? Stock is not affected.`)) return;
+
+    try {
+      const { error } = await supabase.from('kits').delete().eq('id', kit.id);
+
+      if (error) throw error;
+      showNotification('success', `Deleted "${kit.name}"`);
+      fetchData();
+    } catch (error) {
+      console.error('Error deleting kit:', error);
+      showNotification('error', 'Failed to delete kit');
+    }
+  };
+
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
+    setFormLines([]);
+    setNewLine({ itemId: '', quantity: 1 });
+    setEditingId(null);
+    setShowForm(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 md:p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <Link href="/admin" className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-700 font-semibold mb-4">
+            <ArrowLeft className="w-5 h-5" />
+            Back to Dashboard
+          </Link>
+          <h1 className="text-4xl font-bold text-gray-800 mb-2">Kits</h1>
+          <p className="text-gray-600 text-lg">Par levels for rooms and trays, restocked or used in one step</p>
+        </div>
+
+        {/* Notification */}
+        {notification && (
+          <div className={`mb-6 rounded-2xl p-6 flex items-center gap-4 ${
+            notification.type === 'success' ? 'bg-green-50 border-4 border-green-500' : 'bg-red-50 border-4 border-red-500'
+          }`}>
+            {notification.type === 'success' ? (
+              <CheckCircle className="w-8 h-8 text-green-600" />
+            ) : (
+              <AlertTriangle className="w-8 h-8 text-red-600" />
+            )}
+            <p className={`text-xl font-semibold ${
+              notification.type === 'success' ? 'text-green-800' : 'text-red-800'
+            }`}>
+              {notification.message}
+            </p>
+          </div>
+        )}
+
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="mb-6 bg-blue-600 hover:bg-blue-700 text-white font-bold py-4 px-8 rounded-xl text-lg flex items-center gap-3 transition-all active:scale-95 shadow-lg"
+          >
+            <Plus className="w-6 h-6" />
+            Add Kit
+          </button>
+        )}
+
+        {/* Add/Edit Form */}
+        {showForm && (
+          <div className="bg-white rounded-2xl shadow-md p-6 md:p-8 mb-8">
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="text-3xl font-bold text-gray-800">
+                {editingId ? 'Edit Kit' : 'Add Kit'}
+              </h2>
+              <button onClick={resetForm} className="text-gray-500 hover:text-gray-700">
+                <X className="w-8 h-8" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <label className="block text-lg font-semibold text-gray-700 mb-3">Name *</label>
+                  <input
+                    type="text"
+                    required
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="e.g. Exam room par, Suture tray"
+                    className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-lg font-semibold text-gray-700 mb-3">Description</label>
+                  <input
+                    type="text"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+
+              {/* Lines */}
+              <div>
+                <label className="block text-lg font-semibold text-gray-700 mb-3">Items *</label>
+                <div className="grid grid-cols-1 md:grid-cols-[1fr_8rem_auto] gap-4 mb-4">
+                  <select
+                    value={newLine.itemId}
+                    onChange={(e) => setNewLine({ ...newLine, itemId: e.target.value })}
+                    className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                  >
+                    <option value="">Choose an item...</option>
+                    {items.filter(item => !item.archived_at).map(item => (
+                      <option key={item.id} value={item.id}>{item.name}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min="1"
+                    value={newLine.quantity}
+                    onChange={(e) => setNewLine({ ...newLine, quantity: parseInt(e.target.value) || 1 })}
+                    className="w-full px-4 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleAddLine}
+                    className="bg-gray-800 hover:bg-gray-900 text-white font-bold py-4 px-6 rounded-xl text-lg flex items-center justify-center gap-2 transition-all active:scale-95"
+                  >
+                    <Plus className="w-6 h-6" />
+                    Add
+                  </button>
+                </div>
+                {formLines.length === 0 ? (
+                  <p className="text-lg text-gray-500 bg-gray-50 rounded-xl px-6 py-4">No items in this kit yet.</p>
+                ) : (
+                  <div className="divide-y divide-gray-200 border-2 border-gray-100 rounded-xl">
+                    {formLines.map(line => (
+                      <div key={line.itemId} className="p-4 flex items-center gap-4">
+                        <p className="flex-1 text-lg font-semibold text-gray-800">
+                          {itemById(line.itemId)?.name ?? 'Unknown item'}
+                          {itemById(line.itemId)?.archived_at && <span className="ml-2 text-sm font-normal text-gray-500">(archived)</span>}
+                        </p>
+                        <input
+                          type="number"
+                          min="1"
+                          value={line.quantity}
+                          onChange={(e) => {
+                            const quantity = parseInt(e.target.value) || 1;
+                            setFormLines(current => current.map(other => (other.itemId === line.itemId ? { ...other, quantity } : other)));
+                          }}
+                          className="w-28 px-4 py-2 text-lg border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setFormLines(current => current.filter(other => other.itemId !== line.itemId))}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-all"
+                          title="Remove"
+                        >
+                          <Trash2 className="w-5 h-5" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex gap-4">
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-bold py-4 px-6 rounded-xl text-xl flex items-center justify-center gap-3 transition-all active:scale-95 shadow-lg"
+                >
+                  <Save className="w-6 h-6" />
+                  {editingId ? 'Update Kit' : 'Add Kit'}
+                </button>
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="px-8 bg-gray-200 hover:bg-gray-300 text-gray-700 font-bold py-4 rounded-xl text-xl transition-all active:scale-95"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        {/* Kits List */}
+        <div className="bg-white rounded-2xl shadow-md overflow-hidden">
+          {loading ? (
+            <div className="p-12 text-center">
+              <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-blue-600 mx-auto"></div>
+            </div>
+          ) : kits.length === 0 ? (
+            <div className="p-12 text-center">
+              <p className="text-xl text-gray-500">No kits yet.</p>
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">Kit</th>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">Items</th>
+                  <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Can Make Up</th>
+                  <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {kits.map(kit => {
+                  const buildable = buildableKits(kit, inStock);
+
+                  return (
+                    <tr key={kit.id} className="hover:bg-gray-50 align-top">
+                      <td className="px-6 py-4">
+                        <p className="font-semibold text-gray-800">{kit.name}</p>
+                        {kit.description && <p className="text-sm text-gray-500">{kit.description}</p>}
+                      </td>
+                      <td className="px-6 py-4 text-gray-700">
+                        {kit.kit_items.map(line => (
+                          // Components without enough for even one kit are what block it
+                          <p key={line.item_id} className={`text-sm ${inStock(line.item_id) < line.quantity ? 'text-red-700 font-semibold' : ''}`}>
+                            {line.quantity} × {itemById(line.item_id)?.name ?? 'Unknown item'}
+                            <span className="text-gray-500"> ({inStock(line.item_id)} in stock)</span>
+                          </p>
+                        ))}
+                      </td>
+                      <td className={`px-6 py-4 text-right text-lg font-semibold ${buildable === 0 ? 'text-red-700' : 'text-gray-800'}`}>
+                        {buildable}
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="flex justify-end gap-2">
+                          <button
+                            onClick={() => handleEdit(kit)}
+                            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-all"
+                            title="Edit"
+                          >
+                            <Edit2 className="w-5 h-5" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(kit)}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-all"
+                            title="Delete"
+                          >
+                            <Trash2 className="w-5 h-5" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
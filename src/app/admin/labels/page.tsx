@@ -0,0 +1,182 @@
+// src/app/admin/labels/page.tsx
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Printer, Wand2, CheckCircle, AlertTriangle } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { labelCode } from '@/lib/barcode';
+import { errorMessage } from '@/lib/errors';
+import { InventoryItem, createSupabaseRepository } from '@/lib/repository';
+import Barcode from '@/components/Barcode';
+
+const repository = createSupabaseRepository(supabase);
+
+export default function LabelsPage() {
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  useEffect(() => {
+    fetchItems();
+  }, []);
+
+  const fetchItems = async () => {
+    setLoading(true);
+    try {
+      setItems(await repository.listItems());
+    } catch (error) {
+      console.error('Error fetching items:', error);
+      showNotification('error', 'Failed to load inventory');
+    }
+    setLoading(false);
+  };
+
+  const showNotification = (type: 'success' | 'error', message: string) => {
+    setNotification({ type, message });
+    setTimeout(() => setNotification(null), 3000);
+  };
+
+  const uncodedItems = items.filter(item => !labelCode(item));
+  const selectedItems = items.filter(item => selectedIds.includes(item.id) && labelCode(item));
+
+  const toggleItem = (id: string) => {
+    setSelectedIds(current => (current.includes(id) ? current.filter(other => other !== id) : [...current, id]));
+  };
+
+  // Items with neither a barcode nor a SKU get a short code taken from their id
+  const handleAssignCodes = async () => {
+    try {
+      for (const item of uncodedItems) {
+        await repository.setBarcode(item.id, item.id.replace(/-/g, '').slice(0, 10).toUpperCase());
+      }
+      showNotification('success', `Assigned codes to ${uncodedItems.length} items`);
+      fetchItems();
+    } catch (error) {
+      console.error('Error assigning codes:', error);
+      showNotification('error', errorMessage(error, 'item'));
+      fetchItems();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 md:p-8 print:bg-white print:p-0">
+      <div className="max-w-6xl mx-auto">
+        <div className="print:hidden">
+          {/* Header */}
+          <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+            <div>
+              <Link href="/admin" className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-700 font-semibold mb-4">
+                <ArrowLeft className="w-5 h-5" />
+                Back to Dashboard
+              </Link>
+              <h1 className="text-4xl font-bold text-gray-800 mb-2">Shelf Labels</h1>
+              <p className="text-gray-600 text-lg">Print barcodes for the request, use and receiving screens to scan</p>
+            </div>
+            <button
+              onClick={() => window.print()}
+              disabled={selectedItems.length === 0}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-bold py-4 px-6 rounded-xl text-lg flex items-center gap-3 transition-all active:scale-95 shadow-lg"
+            >
+              <Printer className="w-6 h-6" />
+              Print {selectedItems.length} Labels
+            </button>
+          </div>
+
+          {/* Notification */}
+          {notification && (
+            <div className={`mb-6 rounded-2xl p-6 flex items-center gap-4 ${
+              notification.type === 'success' ? 'bg-green-50 border-4 border-green-500' : 'bg-red-50 border-4 border-red-500'
+            }`}>
+              {notification.type === 'success' ? (
+                <CheckCircle className="w-8 h-8 text-green-600" />
+              ) : (
+                <AlertTriangle className="w-8 h-8 text-red-600" />
+              )}
+              <p className={`text-xl font-semibold ${
+                notification.type === 'success' ? 'text-green-800' : 'text-red-800'
+              }`}>
+                {notification.message}
+              </p>
+            </div>
+          )}
+
+          {uncodedItems.length > 0 && (
+            <div className="mb-6 bg-yellow-50 border-4 border-yellow-400 rounded-2xl p-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <p className="text-lg font-semibold text-yellow-800">
+                {uncodedItems.length} {uncodedItems.length === 1 ? 'item has' : 'items have'} no barcode or SKU to print
+              </p>
+              <button
+                onClick={handleAssignCodes}
+                className="bg-yellow-600 hover:bg-yellow-700 text-white font-bold py-3 px-5 rounded-xl flex items-center gap-2 transition-all active:scale-95"
+              >
+                <Wand2 className="w-5 h-5" />
+                Assign Codes
+              </button>
+            </div>
+          )}
+
+          {/* Item Picker */}
+          <div className="bg-white rounded-2xl shadow-md mb-8">
+            <div className="p-6 border-b-2 border-gray-100 flex gap-4">
+              <button
+                onClick={() => setSelectedIds(items.filter(item => labelCode(item)).map(item => item.id))}
+                className="text-blue-600 hover:text-blue-700 font-semibold"
+              >
+                Select all
+              </button>
+              <button onClick={() => setSelectedIds([])} className="text-gray-600 hover:text-gray-800 font-semibold">
+                Clear
+              </button>
+            </div>
+            {loading ? (
+              <div className="p-12 text-center">
+                <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-blue-600 mx-auto"></div>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2 p-4">
+                {items.map(item => {
+                  const code = labelCode(item);
+
+                  return (
+                    <label
+                      key={item.id}
+                      className={`flex items-center gap-3 p-3 rounded-xl ${code ? 'hover:bg-gray-50 cursor-pointer' : 'opacity-50'}`}
+                    >
+                      <input
+                        type="checkbox"
+                        disabled={!code}
+                        checked={selectedIds.includes(item.id)}
+                        onChange={() => toggleItem(item.id)}
+                        className="w-6 h-6"
+                      />
+                      <span>
+                        <span className="block font-semibold text-gray-800">{item.name}</span>
+                        <span className="block text-sm text-gray-500">{code || 'No code'}</span>
+                      </span>
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Label Sheet */}
+        {selectedItems.length > 0 && (
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4 print:grid-cols-3 print:gap-2">
+            {selectedItems.map(item => (
+              <div key={item.id} className="bg-white border-2 border-gray-300 rounded-xl p-4 break-inside-avoid">
+                <p className="font-bold text-gray-800 truncate">{item.name}</p>
+                <p className="text-sm text-gray-500 mb-2">{item.categories?.name}</p>
+                <Barcode code={labelCode(item)!} className="w-full h-14" />
+                <p className="text-center font-mono tracking-widest mt-1">{labelCode(item)!.toUpperCase()}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+// src/app/admin/layout.tsx
+import React from 'react';
+import RequireRole from '@/components/RequireRole';
+import { MANAGER_ROLES } from '@/lib/auth';
+
+export default function AdminLayout({ children }: { children: React.ReactNode }) {
+  return <RequireRole roles={MANAGER_ROLES}>{children}</RequireRole>;
+}
@@ -0,0 +1,342 @@
+// src/app/admin/locations/page.tsx
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Plus, ArrowRightLeft, MapPin, CheckCircle, AlertTriangle } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { StorageLocation, ItemLocation } from '@/lib/stock';
+
+interface InventoryItem {
+  id: string;
+  name: string;
+  categories?: { name: string } | null;
+  quantity: number;
+  threshold: number;
+}
+
+export default function LocationsPage() {
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [itemLocations, setItemLocations] = useState<ItemLocation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedLocation, setSelectedLocation] = useState('');
+  const [newLocation, setNewLocation] = useState({ name: '', description: '' });
+  const [transfer, setTransfer] = useState({ itemId: '', fromId: '', toId: '', quantity: 1, reason: '' });
+  const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    setLoading(true);
+    try {
+      const [locationsResult, itemsResult, stockResult] = await Promise.all([
+        supabase.from('locations').select('*').order('name'),
+        supabase.from('inventory').select('*, categories(name)').order('name'),
+        supabase.from('item_locations').select('*'),
+      ]);
+
+      if (locationsResult.error) throw locationsResult.error;
+      if (itemsResult.error) throw itemsResult.error;
+      if (stockResult.error) throw stockResult.error;
+
+      const fetchedLocations: StorageLocation[] = locationsResult.data || [];
+      setLocations(fetchedLocations);
+      setItems(itemsResult.data || []);
+      setItemLocations(stockResult.data || []);
+      setSelectedLocation(current =>
+        current || fetchedLocations.find(location => location.is_default)?.id || fetchedLocations[0]?.id || ''
+      );
+    } catch (error) {
+      console.error('Error fetching locations:', error);
+      showNotification('error', 'Failed to load locations');
+    }
+    setLoading(false);
+  };
+
+  const showNotification = (type: 'success' | 'error', message: string) => {
+    setNotification({ type, message });
+    setTimeout(() => setNotification(null), 3000);
+  };
+
+  const stockAt = (itemId: string, locationId: string) =>
+    itemLocations.find(row => row.item_id === itemId && row.location_id === locationId);
+
+  const handleAddLocation = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const { error } = await supabase
+        .from('locations')
+        .insert([{ name: newLocation.name.trim(), description: newLocation.description.trim() || null }]);
+
+      if (error) throw error;
+      showNotification('success', `Added "${newLocation.name.trim()}"`);
+      setNewLocation({ name: '', description: '' });
+      fetchData();
+    } catch (error) {
+      console.error('Error adding location:', error);
+      showNotification('error', 'Failed to add location');
+    }
+  };
+
+  const handleThresholdChange = async (itemId: string, value: string) => {
+    const threshold = value === '' ? null : Math.max(parseInt(value) || 0, 0);
+
+    try {
+      const { error } = await supabase
+        .from('item_locations')
+        .upsert({ item_id: itemId, location_id: selectedLocation, threshold }, { onConflict: 'item_id,location_id' });
+
+      if (error) throw error;
+      setItemLocations(current => {
+        const existing = current.find(row => row.item_id === itemId && row.location_id === selectedLocation);
+        if (existing) {
+          return current.map(row => (row === existing ? { ...row, threshold } : row));
+        }
+        return [...current, { item_id: itemId, location_id: selectedLocation, quantity: 0, threshold }];
+      });
+    } catch (error) {
+      console.error('Error saving threshold:', error);
+      showNotification('error', 'Failed to save threshold');
+    }
+  };
+
+  const handleTransfer = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (transfer.fromId === transfer.toId) {
+      showNotification('error', 'Choose two different locations');
+      return;
+    }
+
+    try {
+      const { error } = await supabase.rpc('transfer_stock', {
+        p_item_id: transfer.itemId,
+        p_from_location_id: transfer.fromId,
+        p_to_location_id: transfer.toId,
+        p_quantity: transfer.quantity,
+        p_reason: transfer.reason,
+      });
+
+      if (error) throw error;
+      showNotification('success', 'Stock transferred');
+      setTransfer({ ...transfer, quantity: 1, reason: '' });
+      fetchData();
+    } catch (error) {
+      console.error('Error transferring stock:', error);
+      showNotification('error', 'Failed to transfer stock');
+    }
+  };
+
+  const available = transfer.itemId && transfer.fromId ? stockAt(transfer.itemId, transfer.fromId)?.quantity ?? 0 : null;
+  const selectedLocationName = locations.find(location => location.id === selectedLocation)?.name;
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 md:p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <Link href="/admin" className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-700 font-semibold mb-4">
+            <ArrowLeft className="w-5 h-5" />
+            Back to Dashboard
+          </Link>
+          <h1 className="text-4xl font-bold text-gray-800 mb-2">Locations</h1>
+          <p className="text-gray-600 text-lg">Where stock is kept, and moving it between rooms</p>
+        </div>
+
+        {/* Notification */}
+        {notification && (
+          <div className={`mb-6 rounded-2xl p-6 flex items-center gap-4 ${
+            notification.type === 'success' ? 'bg-green-50 border-4 border-green-500' : 'bg-red-50 border-4 border-red-500'
+          }`}>
+            {notification.type === 'success' ? (
+              <CheckCircle className="w-8 h-8 text-green-600" />
+            ) : (
+              <AlertTriangle className="w-8 h-8 text-red-600" />
+            )}
+            <p className={`text-xl font-semibold ${
+              notification.type === 'success' ? 'text-green-800' : 'text-red-800'
+            }`}>
+              {notification.message}
+            </p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+          {/* Add Location */}
+          <form onSubmit={handleAddLocation} className="bg-white rounded-2xl shadow-md p-6 space-y-4">
+            <h2 className="text-2xl font-bold text-gray-800">Add Location</h2>
+            <input
+              type="text"
+              required
+              value={newLocation.name}
+              onChange={(e) => setNewLocation({ ...newLocation, name: e.target.value })}
+              placeholder="e.g. Exam Room 1, Crash Cart"
+              className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+            />
+            <input
+              type="text"
+              value={newLocation.description}
+              onChange={(e) => setNewLocation({ ...newLocation, description: e.target.value })}
+              placeholder="Description (optional)"
+              className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-4 px-6 rounded-xl text-lg flex items-center justify-center gap-2 transition-all active:scale-95"
+            >
+              <Plus className="w-6 h-6" />
+              Add Location
+            </button>
+          </form>
+
+          {/* Transfer */}
+          <form onSubmit={handleTransfer} className="bg-white rounded-2xl shadow-md p-6 space-y-4">
+            <h2 className="text-2xl font-bold text-gray-800">Transfer Stock</h2>
+            <select
+              required
+              value={transfer.itemId}
+              onChange={(e) => setTransfer({ ...transfer, itemId: e.target.value })}
+              className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+            >
+              <option value="">Choose an item...</option>
+              {items.map(item => (
+                <option key={item.id} value={item.id}>{item.name}</option>
+              ))}
+            </select>
+            <div className="grid grid-cols-2 gap-4">
+              <select
+                required
+                value={transfer.fromId}
+                onChange={(e) => setTransfer({ ...transfer, fromId: e.target.value })}
+                className="w-full px-4 py-4 text-lg border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+              >
+                <option value="">From...</option>
+                {locations.map(location => (
+                  <option key={location.id} value={location.id}>
+                    {location.name}
+                    {transfer.itemId && ` (${stockAt(transfer.itemId, location.id)?.quantity ?? 0})`}
+                  </option>
+                ))}
+              </select>
+              <select
+                required
+                value={transfer.toId}
+                onChange={(e) => setTransfer({ ...transfer, toId: e.target.value })}
+                className="w-full px-4 py-4 text-lg border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+              >
+                <option value="">To...</option>
+                {locations.map(location => (
+                  <option key={location.id} value={location.id}>{location.name}</option>
+                ))}
+              </select>
+            </div>
+            <input
+              type="number"
+              required
+              min="1"
+              max={available ?? undefined}
+              value={transfer.quantity}
+              onChange={(e) => setTransfer({ ...transfer, quantity: parseInt(e.target.value) || 1 })}
+              className="w-full px-6 py-4 text-lg border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+            />
+            <input
+              type="text"
+              value={transfer.reason}
+              onChange={(e) => setTransfer({ ...transfer, reason: e.target.value })}
+              placeholder="Reason (optional)"
+              className="w-full px-6 py-4 text-lg border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={available === 0}
+              className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-bold py-4 px-6 rounded-xl text-lg flex items-center justify-center gap-2 transition-all active:scale-95 disabled:cursor-not-allowed"
+            >
+              <ArrowRightLeft className="w-6 h-6" />
+              Transfer
+            </button>
+          </form>
+        </div>
+
+        {/* Stock by Location */}
+        <div className="bg-white rounded-2xl shadow-md overflow-hidden">
+          <div className="p-6 border-b-2 border-gray-100 flex flex-wrap gap-2">
+            {locations.map(location => (
+              <button
+                key={location.id}
+                onClick={() => setSelectedLocation(location.id)}
+                className={`px-5 py-3 rounded-xl font-semibold flex items-center gap-2 transition-all active:scale-95 ${
+                  selectedLocation === location.id
+                    ? 'bg-blue-600 text-white shadow-lg'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                <MapPin className="w-5 h-5" />
+                {location.name}
+                {location.is_default && <span className="text-xs font-normal">(default)</span>}
+              </button>
+            ))}
+          </div>
+
+          {loading ? (
+            <div className="p-12 text-center">
+              <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-blue-600 mx-auto"></div>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">Item</th>
+                    <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">At {selectedLocationName}</th>
+                    <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Total</th>
+                    <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Location Threshold</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {items.map(item => {
+                    const row = stockAt(item.id, selectedLocation);
+                    const threshold = row?.threshold;
+                    // Locations without their own threshold fall back to the item's
+                    const isLow = (row?.quantity ?? 0) <= (threshold ?? item.threshold);
+
+                    return (
+                      <tr key={item.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4">
+                          <p className="font-semibold text-gray-800">{item.name}</p>
+                          <p className="text-sm text-gray-500">{item.categories?.name}</p>
+                        </td>
+                        <td className={`px-6 py-4 text-right text-lg font-semibold ${isLow ? 'text-yellow-700' : ''}`}>
+                          {row?.quantity ?? 0}
+                        </td>
+                        <td className="px-6 py-4 text-right text-gray-600">{item.quantity}</td>
+                        <td className="px-6 py-4 text-right">
+                          <input
+                            key={`${item.id}-${selectedLocation}`}
+                            type="number"
+                            min="0"
+                            defaultValue={threshold ?? ''}
+                            onBlur={(e) => {
+                              if (e.target.value !== String(threshold ?? '')) {
+                                handleThresholdChange(item.id, e.target.value);
+                              }
+                            }}
+                            placeholder={String(item.threshold)}
+                            className="w-28 px-3 py-2 text-lg text-right border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                          />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
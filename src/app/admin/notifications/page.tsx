@@ -0,0 +1,227 @@
+// src/app/admin/notifications/page.tsx
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Save, Mail, Webhook, CheckCircle, AlertTriangle } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/lib/auth';
+import {
+  DEFAULT_PREFERENCES,
+  NotificationEvent,
+  NOTIFICATION_KIND_LABELS,
+  NOTIFICATION_KIND_STYLES,
+  describeEvent,
+  webhookUrlProblem,
+} from '@/lib/notifications';
+
+export default function NotificationsPage() {
+  const { profile } = useAuth();
+  const [formData, setFormData] = useState(DEFAULT_PREFERENCES);
+  const [events, setEvents] = useState<NotificationEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  useEffect(() => {
+    if (profile) fetchData(profile.id);
+  }, [profile]);
+
+  const fetchData = async (userId: string) => {
+    setLoading(true);
+    try {
+      const [preferencesResult, eventsResult] = await Promise.all([
+        supabase.from('notification_preferences').select('*').eq('user_id', userId).maybeSingle(),
+        supabase
+          .from('notification_events')
+          .select('*, requests(requester_name, notes, request_items(item_name, quantity))')
+          .order('created_at', { ascending: false })
+          .limit(50),
+      ]);
+
+      if (preferencesResult.error) throw preferencesResult.error;
+      if (eventsResult.error) throw eventsResult.error;
+      if (preferencesResult.data) {
+        const { email_digest, webhook_enabled, webhook_url, notify_low_stock, notify_requests } = preferencesResult.data;
+        setFormData({ email_digest, webhook_enabled, webhook_url: webhook_url || '', notify_low_stock, notify_requests });
+      }
+      setEvents(eventsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+      showNotification('error', 'Failed to load notification settings');
+    }
+    setLoading(false);
+  };
+
+  const showNotification = (type: 'success' | 'error', message: string) => {
+    setNotification({ type, message });
+    setTimeout(() => setNotification(null), 3000);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile) return;
+
+    const webhookUrl = formData.webhook_url?.trim() || null;
+    const urlProblem = formData.webhook_enabled ? webhookUrlProblem(webhookUrl ?? '') : null;
+    if (urlProblem) {
+      showNotification('error', urlProblem);
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert({ ...formData, webhook_url: webhookUrl, user_id: profile.id, updated_at: new Date().toISOString() });
+
+      if (error) throw error;
+      showNotification('success', 'Notification settings saved');
+    } catch (error) {
+      console.error('Error saving notification settings:', error);
+      showNotification('error', 'Failed to save notification settings');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 md:p-8">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <Link href="/admin" className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-700 font-semibold mb-4">
+            <ArrowLeft className="w-5 h-5" />
+            Back to Dashboard
+          </Link>
+          <h1 className="text-4xl font-bold text-gray-800 mb-2">Notifications</h1>
+          <p className="text-gray-600 text-lg">Hear about low stock and new requests without opening the dashboard</p>
+        </div>
+
+        {/* Notification */}
+        {notification && (
+          <div className={`mb-6 rounded-2xl p-6 flex items-center gap-4 ${
+            notification.type === 'success' ? 'bg-green-50 border-4 border-green-500' : 'bg-red-50 border-4 border-red-500'
+          }`}>
+            {notification.type === 'success' ? (
+              <CheckCircle className="w-8 h-8 text-green-600" />
+            ) : (
+              <AlertTriangle className="w-8 h-8 text-red-600" />
+            )}
+            <p className={`text-xl font-semibold ${
+              notification.type === 'success' ? 'text-green-800' : 'text-red-800'
+            }`}>
+              {notification.message}
+            </p>
+          </div>
+        )}
+
+        {/* Preferences */}
+        <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-md p-6 md:p-8 mb-8 space-y-6">
+          <h2 className="text-2xl font-bold text-gray-800">Your Settings</h2>
+
+          <label className="flex items-start gap-4">
+            <input
+              type="checkbox"
+              checked={formData.email_digest}
+              onChange={(e) => setFormData({ ...formData, email_digest: e.target.checked })}
+              className="w-6 h-6 mt-1"
+            />
+            <span>
+              <span className="flex items-center gap-2 text-lg font-semibold text-gray-800">
+                <Mail className="w-5 h-5 text-blue-600" />
+                Daily email digest
+              </span>
+              <span className="block text-gray-600">Sent to {profile?.email} once a day when there is something to report</span>
+            </span>
+          </label>
+
+          <div className="space-y-3">
+            <label className="flex items-start gap-4">
+              <input
+                type="checkbox"
+                checked={formData.webhook_enabled}
+                onChange={(e) => setFormData({ ...formData, webhook_enabled: e.target.checked })}
+                className="w-6 h-6 mt-1"
+              />
+              <span>
+                <span className="flex items-center gap-2 text-lg font-semibold text-gray-800">
+                  <Webhook className="w-5 h-5 text-blue-600" />
+                  Webhook
+                </span>
+                <span className="block text-gray-600">Posted within minutes; works with Slack incoming webhooks</span>
+              </span>
+            </label>
+            {formData.webhook_enabled && (
+              <input
+                type="url"
+                value={formData.webhook_url || ''}
+                onChange={(e) => setFormData({ ...formData, webhook_url: e.target.value })}
+                placeholder="https://hooks.slack.com/services/..."
+                className="w-full px-6 py-4 text-lg border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+              />
+            )}
+          </div>
+
+          <div className="border-t-2 border-gray-100 pt-6 space-y-3">
+            <p className="text-lg font-semibold text-gray-700">Tell me about</p>
+            <label className="flex items-center gap-3 text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData.notify_low_stock}
+                onChange={(e) => setFormData({ ...formData, notify_low_stock: e.target.checked })}
+                className="w-5 h-5"
+              />
+              Items falling to their threshold or running out
+            </label>
+            <label className="flex items-center gap-3 text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData.notify_requests}
+                onChange={(e) => setFormData({ ...formData, notify_requests: e.target.checked })}
+                className="w-5 h-5"
+              />
+              New requests
+            </label>
+          </div>
+
+          <button
+            type="submit"
+            disabled={loading}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-bold py-4 px-8 rounded-xl text-lg flex items-center gap-3 transition-all active:scale-95 shadow-lg"
+          >
+            <Save className="w-6 h-6" />
+            Save Settings
+          </button>
+        </form>
+
+        {/* Recent Events */}
+        <div className="bg-white rounded-2xl shadow-md overflow-hidden">
+          <div className="p-6 border-b-2 border-gray-100">
+            <h2 className="text-2xl font-bold text-gray-800">Recent Alerts</h2>
+            <p className="text-gray-600">
+              An item alerts once when it falls to its threshold and again if it runs out, then not until it has been restocked
+            </p>
+          </div>
+          {loading ? (
+            <div className="p-12 text-center">
+              <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-blue-600 mx-auto"></div>
+            </div>
+          ) : events.length === 0 ? (
+            <div className="p-12 text-center">
+              <p className="text-xl text-gray-500">Nothing yet.</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {events.map(event => (
+                <div key={event.id} className="px-6 py-4 flex items-center gap-4">
+                  <span className={`px-3 py-1 rounded-full text-sm font-semibold whitespace-nowrap ${NOTIFICATION_KIND_STYLES[event.kind]}`}>
+                    {NOTIFICATION_KIND_LABELS[event.kind]}
+                  </span>
+                  <span className="flex-1 text-gray-800">{describeEvent(event)}</span>
+                  <span className="text-sm text-gray-500 whitespace-nowrap">{new Date(event.created_at).toLocaleString()}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
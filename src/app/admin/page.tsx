@@ -1,22 +1,62 @@
 // src/app/admin/page.tsx
 'use client';
 
-import React, { useState, useEffect } from 'react';
-import { Plus, Edit2, Trash2, Save, X, AlertTriangle, CheckCircle } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Plus, Edit2, Trash2, Save, X, AlertTriangle, CheckCircle, ClipboardList, History, Layers, CalendarClock, MapPin, Users, Truck, ShoppingCart, FileSpreadsheet, Tag, Link2, Shapes, ClipboardCheck, Bell, TrendingUp, Search, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, Archive, RotateCcw, ScrollText, Boxes, DollarSign, Ruler } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
+import {
+  InventoryLot,
+  ItemLocation,
+  MovementType,
+  MOVEMENT_TYPE_LABELS,
+  StorageLocation,
+  daysUntil,
+} from '@/lib/stock';
+import { useAuth } from '@/lib/auth';
+import { Supplier, formatCurrency, formatUnitCost } from '@/lib/purchasing';
+import { stockValue } from '@/lib/valuation';
+import { baseUnit, formatQuantity } from '@/lib/units';
+import { findItemByCode } from '@/lib/barcode';
+import { Category, categoryLabel, categoryWithChildren, sortCategories } from '@/lib/categories';
+import { loadCached, saveCached } from '@/lib/offline';
+import { InventoryItem, ItemPage, ItemSearch, StockRow, createMemoryRepository, createSupabaseRepository } from '@/lib/repository';
+import {
+  DEFAULT_ITEM_QUERY,
+  ITEMS_PER_PAGE,
+  ItemQuery,
+  ItemSort,
+  STOCK_STATUS_LABELS,
+  STOCK_STATUS_STYLES,
+  StockStatus,
+  hasItemFilters,
+  itemQueryParams,
+  parseItemQuery,
+  stockStatus,
+} from '@/lib/search';
+import { parseBulkAction, parseQuantity } from '@/lib/schemas';
+import { BULK_ACTION_LABELS, BulkAction, BulkActionKind, BulkPreviewLine, previewBulkAction } from '@/lib/bulk';
+import { errorMessage, toDataError } from '@/lib/errors';
+import { applyChange, useHighlights, useTableChanges } from '@/lib/realtime';
+import StockHistory from '@/components/StockHistory';
+import LotsPanel from '@/components/LotsPanel';
+import UnitsPanel from '@/components/UnitsPanel';
+import ScanInput from '@/components/ScanInput';
+import CategoryBadge from '@/components/CategoryBadge';
+import SyncStatus from '@/components/SyncStatus';
 
-interface InventoryItem {
-  id: string;
-  name: string;
-  description?: string;
-  category: string;
-  quantity: number;
-  threshold: number;
-  source_url?: string;
-  created_at?: string;
+interface ExpiringLot extends InventoryLot {
+  inventory: { name: string } | null;
 }
 
+const EXPIRY_WINDOWS = [30, 60, 90];
+
+const repository = createSupabaseRepository(supabase);
+
 export default function AdminPage() {
+  const { profile } = useAuth();
+  const router = useRouter();
   const [items, setItems] = useState<InventoryItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddForm, setShowAddForm] = useState(false);
@@ -24,98 +64,514 @@ export default function AdminPage() {
   const [formData, setFormData] = useState({
     name: '',
     description: '',
-    category: 'toys',
-    quantity: 0,
-    threshold: 10,
+    category_id: '',
+    quantity: '0',
+    threshold: '10',
     source_url: '',
+    track_lots: false,
+    sku: '',
+    barcode: '',
+    supplier_id: '',
+    unit_cost: '',
+    reorder_quantity: '',
+  });
+  const [notification, setNotification] = useState<{
+    type: 'success' | 'error';
+    message: string;
+    undo?: () => void;
+  } | null>(null);
+  const notificationTimer = useRef<ReturnType<typeof setTimeout>>();
+  const [pendingRequestCount, setPendingRequestCount] = useState(0);
+  const [movementType, setMovementType] = useState<MovementType>('adjustment');
+  const [movementReason, setMovementReason] = useState('');
+  const [historyItem, setHistoryItem] = useState<InventoryItem | null>(null);
+  const [lotsItem, setLotsItem] = useState<InventoryItem | null>(null);
+  const [unitsItem, setUnitsItem] = useState<InventoryItem | null>(null);
+  const [expiryWindow, setExpiryWindow] = useState(30);
+  const [expiringLots, setExpiringLots] = useState<ExpiringLot[]>([]);
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [groupByCategory, setGroupByCategory] = useState(false);
+  const [itemLocations, setItemLocations] = useState<ItemLocation[]>([]);
+  const [query, setQuery] = useState<ItemQuery>(DEFAULT_ITEM_QUERY);
+  const [queryLoaded, setQueryLoaded] = useState(false);
+  const [searchText, setSearchText] = useState('');
+  const [itemPage, setItemPage] = useState<ItemPage>({ rows: [], total: 0 });
+  const [pageLoading, setPageLoading] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkKind, setBulkKind] = useState<BulkActionKind | ''>('');
+  const [bulkForm, setBulkForm] = useState({ categoryId: '', threshold: '', delta: '', reason: '' });
+  const [bulkPreview, setBulkPreview] = useState<BulkPreviewLine[] | null>(null);
+  const [bulkFailures, setBulkFailures] = useState<{ name: string; error: string }[]>([]);
+  const [bulkApplying, setBulkApplying] = useState(false);
+  const [movementLocation, setMovementLocation] = useState('');
+  const [scannedCode, setScannedCode] = useState<string | null>(null);
+  const [linkItemId, setLinkItemId] = useState('');
+  const [editingVersion, setEditingVersion] = useState<number | null>(null);
+  const [editingQuantity, setEditingQuantity] = useState(0);
+  const [editConflict, setEditConflict] = useState<InventoryItem | null>(null);
+  const { highlighted, highlight } = useHighlights();
+
+  // Items this tab just saved, so its own changes aren't flagged as someone else's
+  const ownWrites = useRef(new Set<string>());
+  const latestItems = useRef(items);
+  latestItems.current = items;
+  const latestItemLocations = useRef(itemLocations);
+  latestItemLocations.current = itemLocations;
+  // Only the newest search may fill the table when several are in flight
+  const pageRequest = useRef(0);
+
+  const markOwnWrite = (id: string) => {
+    ownWrites.current.add(id);
+    setTimeout(() => ownWrites.current.delete(id), 5000);
+  };
+
+  // Other users' changes arrive here and are applied in place
+  useTableChanges<InventoryItem>('inventory', change => {
+    if (change.eventType === 'UPDATE' && !ownWrites.current.has(change.new.id)) {
+      const before = latestItems.current.find(item => item.id === change.new.id);
+      if (before && before.quantity !== change.new.quantity) highlight(change.new.id);
+      if (change.new.id === editingId && change.new.version !== editingVersion) setEditConflict(change.new);
+    }
+    setItems(current =>
+      applyChange(current, change, (a, b) => a.id === b.id)
+        .filter(item => !item.archived_at)
+        .sort((a, b) => a.name.localeCompare(b.name))
+    );
+    fetchPage();
   });
-  const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  useTableChanges<ItemLocation>('item_locations', change => {
+    setItemLocations(current =>
+      applyChange(current, change, (a, b) => a.item_id === b.item_id && a.location_id === b.location_id)
+    );
+    if (query.location) fetchPage();
+  });
+  useTableChanges('requests', () => fetchPendingRequestCount());
 
   useEffect(() => {
     fetchItems();
+    fetchPendingRequestCount();
+
+    // Other screens send unknown scans here as ?scan=CODE
+    const params = new URLSearchParams(window.location.search);
+    const scan = params.get('scan');
+    if (scan) setScannedCode(scan);
+
+    const initialQuery = parseItemQuery(params);
+    setQuery(initialQuery);
+    setSearchText(initialQuery.search);
+    setQueryLoaded(true);
   }, []);
 
+  // Categories are reloaded with the items, so this also runs after every fetchItems
+  useEffect(() => {
+    if (queryLoaded) fetchPage();
+  }, [query, queryLoaded, categories]);
+
+  // The URL follows the table so the view can be bookmarked or shared
+  useEffect(() => {
+    if (!queryLoaded) return;
+    const params = itemQueryParams(query).toString();
+    router.replace(params ? `/admin?${params}` : '/admin', { scroll: false });
+  }, [query, queryLoaded]);
+
+  // Searching waits for a pause in typing
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setQuery(current => (current.search === searchText ? current : { ...current, search: searchText, page: 1 }));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchText]);
+
+  useEffect(() => {
+    fetchExpiringLots();
+  }, [expiryWindow]);
+
   const fetchItems = async () => {
     setLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('inventory')
-        .select('*')
-        .order('name');
+      const [inventory, locationsResult, stockResult, suppliersResult, categoriesResult] = await Promise.all([
+        repository.listItems(),
+        supabase.from('locations').select('*').order('name'),
+        supabase.from('item_locations').select('*'),
+        supabase.from('suppliers').select('*').order('name'),
+        supabase.from('categories').select('*').order('name'),
+      ]);
       
-      if (error) throw error;
-      setItems(data || []);
+      if (locationsResult.error) throw locationsResult.error;
+      if (stockResult.error) throw stockResult.error;
+      if (suppliersResult.error) throw suppliersResult.error;
+      if (categoriesResult.error) throw categoriesResult.error;
+      setItems(inventory);
+      setLocations(locationsResult.data || []);
+      setItemLocations(stockResult.data || []);
+      setSuppliers(suppliersResult.data || []);
+      setCategories(categoriesResult.data || []);
+      saveCached('admin-page', {
+        items: inventory,
+        locations: locationsResult.data || [],
+        itemLocations: stockResult.data || [],
+        suppliers: suppliersResult.data || [],
+        categories: categoriesResult.data || [],
+      });
     } catch (error) {
       console.error('Error fetching items:', error);
-      showNotification('error', 'Failed to load inventory');
+      // Read-only fallback: changes still need the server
+      const cached = loadCached<{
+        items: InventoryItem[];
+        locations: StorageLocation[];
+        itemLocations: ItemLocation[];
+        suppliers: Supplier[];
+        categories: Category[];
+      }>('admin-page');
+      if (cached) {
+        setItems(cached.data.items);
+        setLocations(cached.data.locations);
+        setItemLocations(cached.data.itemLocations);
+        setSuppliers(cached.data.suppliers);
+        setCategories(cached.data.categories);
+        showNotification('error', `Can't reach the server. Showing stock as of ${new Date(cached.savedAt).toLocaleString()}; changes won't save until you're back online.`);
+      } else {
+        showNotification('error', 'Failed to load inventory');
+      }
     }
     setLoading(false);
   };
 
-  const showNotification = (type: 'success' | 'error', message: string) => {
-    setNotification({ type, message });
-    setTimeout(() => setNotification(null), 3000);
+  const fetchPage = async () => {
+    const request = ++pageRequest.current;
+    const search: ItemSearch = {
+      search: query.search,
+      archived: query.archived,
+      categoryIds: query.category ? categoryWithChildren(categories, query.category) : null,
+      status: query.status || null,
+      supplierId: query.supplier || null,
+      locationId: query.location || null,
+      sort: query.sort,
+      descending: query.descending,
+      limit: ITEMS_PER_PAGE,
+      offset: (query.page - 1) * ITEMS_PER_PAGE,
+    };
+
+    setPageLoading(true);
+    let result: ItemPage;
+    try {
+      result = await repository.searchItems(search);
+    } catch (error) {
+      console.error('Error searching items:', error);
+      // Offline, the cached copy is searched in place
+      result = await createMemoryRepository(latestItems.current, latestItemLocations.current).searchItems(search);
+    }
+    if (request !== pageRequest.current) return;
+
+    // A bookmarked page past the end (the list got shorter) goes back to the start
+    if (result.rows.length === 0 && query.page > 1) {
+      setQuery(current => ({ ...current, page: 1 }));
+      return;
+    }
+    setItemPage(result);
+    setPageLoading(false);
+  };
+
+  // Any change to what is shown starts again from the first page
+  const updateQuery = (change: Partial<ItemQuery>) => setQuery(current => ({ ...current, page: 1, ...change }));
+
+  const sortBy = (sort: ItemSort) =>
+    updateQuery({ sort, descending: query.sort === sort ? !query.descending : false });
+
+  const clearFilters = () => {
+    setSearchText('');
+    updateQuery({ search: '', category: '', status: '', supplier: '' });
   };
 
+  // Selection survives paging and filtering; archived or deleted items drop out
+  const selectedItems = items.filter(item => selectedIds.includes(item.id));
+  const pageIds = itemPage.rows.map(row => row.item.id);
+  const allOnPageSelected = pageIds.length > 0 && pageIds.every(id => selectedIds.includes(id));
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds(current => (current.includes(id) ? current.filter(other => other !== id) : [...current, id]));
+
+  const togglePageSelected = () =>
+    setSelectedIds(current =>
+      allOnPageSelected ? current.filter(id => !pageIds.includes(id)) : [...new Set([...current, ...pageIds])]
+    );
+
+  const clearBulk = () => {
+    setSelectedIds([]);
+    setBulkKind('');
+    setBulkForm({ categoryId: '', threshold: '', delta: '', reason: '' });
+    setBulkPreview(null);
+    setBulkFailures([]);
+  };
+
+  const bulkAction = (kind: BulkActionKind): BulkAction => {
+    switch (kind) {
+      case 'set_category': return { kind, categoryId: bulkForm.categoryId };
+      case 'set_threshold': return { kind, threshold: Number(bulkForm.threshold || NaN) };
+      case 'adjust_quantity': return { kind, delta: Number(bulkForm.delta || NaN), reason: bulkForm.reason };
+      case 'request': return { kind, notes: bulkForm.reason };
+      case 'archive':
+      case 'purchase_order': return { kind };
+    }
+  };
+
+  // Nothing is sent until the summary has been seen
+  const reviewBulk = () => {
+    if (!bulkKind) return;
+    try {
+      const action = parseBulkAction(bulkAction(bulkKind));
+      setBulkFailures([]);
+      setBulkPreview(previewBulkAction(selectedItems, action, categories, suppliers));
+    } catch (error) {
+      showNotification('error', errorMessage(error, 'change'));
+    }
+  };
+
+  const applyBulk = async () => {
+    if (!bulkKind) return;
+    setBulkApplying(true);
+    try {
+      selectedItems.forEach(item => markOwnWrite(item.id));
+      const itemIds = selectedItems.map(item => item.id);
+      const count = await repository.applyBulkAction(itemIds, bulkAction(bulkKind));
+      showNotification(
+        'success',
+        `${BULK_ACTION_LABELS[bulkKind]}: ${count} items updated`,
+        bulkKind === 'archive' ? () => handleRestore(itemIds, `${count} items`) : undefined
+      );
+      clearBulk();
+      fetchItems();
+      fetchExpiringLots();
+    } catch (error) {
+      console.error('Error applying bulk change:', error);
+      const dataError = toDataError(error);
+      const failures = Object.entries(dataError.fields).map(([id, message]) => ({
+        name: items.find(item => item.id === id)?.name ?? id,
+        error: message,
+      }));
+      if (dataError.code === 'rule' && failures.length > 0) {
+        setBulkPreview(null);
+        setBulkFailures(failures);
+      }
+      showNotification('error', errorMessage(error, 'items'));
+    }
+    setBulkApplying(false);
+  };
+
+  // Lots with stock left that expire within the chosen window, including already expired
+  const fetchExpiringLots = async () => {
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() + expiryWindow);
+
+    const { data, error } = await supabase
+      .from('inventory_lots')
+      .select('*, inventory(name)')
+      .gt('quantity', 0)
+      .not('expires_on', 'is', null)
+      .lte('expires_on', cutoff.toISOString().slice(0, 10))
+      .order('expires_on');
+
+    if (error) {
+      console.error('Error fetching expiring lots:', error);
+      return;
+    }
+    setExpiringLots(data || []);
+  };
+
+  const fetchPendingRequestCount = async () => {
+    const { count, error } = await supabase
+      .from('requests')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'pending');
+
+    if (error) {
+      console.error('Error counting pending requests:', error);
+      return;
+    }
+    setPendingRequestCount(count || 0);
+  };
+
+  // A notification with an undo stays up longer so there's time to use it
+  const showNotification = (type: 'success' | 'error', message: string, undo?: () => void) => {
+    setNotification({ type, message, undo });
+    clearTimeout(notificationTimer.current);
+    notificationTimer.current = setTimeout(() => setNotification(null), undo ? 8000 : 3000);
+  };
+
+  // Quantity changes go through the stock ledger rather than being overwritten.
+  // The field is the quantity wanted, so the delta is taken from the live level.
+  const originalQuantity = editingId ? items.find(item => item.id === editingId)?.quantity ?? 0 : 0;
+  const wantedQuantity = Number(formData.quantity);
+  const quantityDelta = Number.isInteger(wantedQuantity) ? wantedQuantity - originalQuantity : 0;
+  // Unit costs are always for one base unit, whatever the item is bought in
+  const costUnit = baseUnit(editingId ? items.find(item => item.id === editingId) : null).name;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
+
     try {
+      const { quantity, ...details } = formData;
+      const delta = parseQuantity(quantity, 'Current quantity') - originalQuantity;
+      // A new item's stock is its opening balance, not a purchase, so it's an
+      // adjustment and stays out of spend. Either way it moves at the form's cost.
+      const movement = delta === 0 ? undefined : {
+        movement_type: editingId ? movementType : 'adjustment',
+        delta,
+        reason: editingId ? movementReason : movementReason || 'Opening balance',
+        location_id: movementLocation,
+        unit_cost: details.unit_cost,
+      };
+
+      // The item and its stock change are saved together or not at all
       if (editingId) {
-        // Update existing item
-        const { error } = await supabase
-          .from('inventory')
-          .update(formData)
-          .eq('id', editingId);
-        
-        if (error) throw error;
-        showNotification('success', 'Item updated successfully');
+        // Update existing item, only if nobody else has changed it since it was opened
+        markOwnWrite(editingId);
+        await repository.updateItem(editingId, details, editingVersion ?? 0, movement);
       } else {
-        // Add new item
-        const { error } = await supabase
-          .from('inventory')
-          .insert([formData]);
-        
-        if (error) throw error;
-        showNotification('success', 'Item added successfully');
+        // New items start at zero; the opening quantity is posted to the ledger
+        const item = await repository.createItem(details, movement);
+        markOwnWrite(item.id);
       }
-      
+
+      showNotification('success', editingId ? 'Item updated successfully' : 'Item added successfully');
       resetForm();
       fetchItems();
+      fetchExpiringLots();
     } catch (error) {
       console.error('Error saving item:', error);
-      showNotification('error', 'Failed to save item');
+      const { code } = toDataError(error);
+      if (editingId && code === 'conflict') {
+        repository.getItem(editingId).then(setEditConflict, () => undefined);
+        showNotification('error', 'Not saved: someone else changed this item');
+      } else if (editingId && code === 'not_found') {
+        showNotification('error', 'Someone else has deleted this item');
+        resetForm();
+      } else {
+        showNotification('error', errorMessage(error, 'item'));
+      }
     }
   };
 
+  // Fields where someone else's saved version differs from what this form holds
+  const conflictFields = editConflict
+    ? ([
+        ['Name', editConflict.name, formData.name],
+        ['Description', editConflict.description || '', formData.description],
+        ['Category', categoryLabel(categories, editConflict.category_id), categoryLabel(categories, formData.category_id)],
+        ['Threshold', String(editConflict.threshold), formData.threshold],
+        ['SKU', editConflict.sku || '', formData.sku],
+        ['Barcode', editConflict.barcode || '', formData.barcode],
+        ['Supplier', suppliers.find(supplier => supplier.id === editConflict.supplier_id)?.name || '', suppliers.find(supplier => supplier.id === formData.supplier_id)?.name || ''],
+        ['Unit cost', editConflict.unit_cost != null ? String(editConflict.unit_cost) : '', formData.unit_cost],
+        ['Reorder quantity', editConflict.reorder_quantity != null ? String(editConflict.reorder_quantity) : '', formData.reorder_quantity],
+        ['Source URL', editConflict.source_url || '', formData.source_url],
+        ['Track lots', editConflict.track_lots ? 'Yes' : 'No', formData.track_lots ? 'Yes' : 'No'],
+      ] as const).filter(([, theirs, mine]) => theirs !== mine)
+    : [];
+
+  const keepMyEdits = () => {
+    if (!editConflict) return;
+    setEditingVersion(editConflict.version);
+    setEditConflict(null);
+  };
+
   const handleEdit = (item: InventoryItem) => {
     setEditingId(item.id);
+    setEditingVersion(item.version);
+    setEditingQuantity(item.quantity);
+    setEditConflict(null);
     setFormData({
       name: item.name,
       description: item.description || '',
-      category: item.category,
-      quantity: item.quantity,
-      threshold: item.threshold,
+      category_id: item.category_id,
+      quantity: String(item.quantity),
+      threshold: String(item.threshold),
       source_url: item.source_url || '',
+      track_lots: !!item.track_lots,
+      sku: item.sku || '',
+      barcode: item.barcode || '',
+      supplier_id: item.supplier_id || '',
+      unit_cost: item.unit_cost != null ? String(item.unit_cost) : '',
+      reorder_quantity: item.reorder_quantity != null ? String(item.reorder_quantity) : '',
     });
+    setMovementType('adjustment');
+    setMovementReason('');
     setShowAddForm(true);
   };
 
-  const handleDelete = async (id: string, name: string) => {
-    if (!confirm(`Are you sure you want to delete "${name}"?`)) return;
-    
+  // A known code opens the item; an unknown one offers to create or link it
+  const handleScan = (code: string) => {
+    const item = findItemByCode(items, code);
+    if (item) {
+      setScannedCode(null);
+      handleEdit(item);
+      return;
+    }
+    setScannedCode(code);
+    setLinkItemId('');
+  };
+
+  const handleCreateFromCode = (code: string) => {
+    resetForm();
+    setFormData(current => ({ ...current, barcode: code }));
+    setShowAddForm(true);
+    setScannedCode(null);
+  };
+
+  const handleLinkCode = async (code: string) => {
+    const item = items.find(candidate => candidate.id === linkItemId);
+    if (!item) return;
+
     try {
-      const { error } = await supabase
-        .from('inventory')
-        .delete()
-        .eq('id', id);
-      
-      if (error) throw error;
-      showNotification('success', 'Item deleted successfully');
+      markOwnWrite(item.id);
+      await repository.updateItem(item.id, { ...item, barcode: code }, item.version);
+      showNotification('success', `${code} now scans as ${item.name}`);
+      setScannedCode(null);
+      fetchItems();
+    } catch (error) {
+      console.error('Error linking barcode:', error);
+      showNotification('error', errorMessage(error, 'item'));
+    }
+  };
+
+  // Archiving hides the item but keeps its history, so a mis-click is one undo away
+  const handleArchive = async (id: string, name: string) => {
+    try {
+      markOwnWrite(id);
+      await repository.archiveItem(id);
+      if (editingId === id) resetForm();
+      showNotification('success', `Archived "${name}"`, () => handleRestore([id], `"${name}"`));
+      fetchItems();
+    } catch (error) {
+      console.error('Error archiving item:', error);
+      showNotification('error', errorMessage(error, 'item'));
+    }
+  };
+
+  const handleRestore = async (ids: string[], label: string) => {
+    try {
+      ids.forEach(markOwnWrite);
+      await Promise.all(ids.map(id => repository.restoreItem(id)));
+      showNotification('success', `Restored ${label}`);
+      fetchItems();
+    } catch (error) {
+      console.error('Error restoring item:', error);
+      showNotification('error', errorMessage(error, 'item'));
+    }
+  };
+
+  const handlePurge = async (id: string, name: string) => {
+    if (!confirm(`Permanently delete "${name}" and its stock history? This can't be undone.`)) return;
+
+    try {
+      await repository.purgeItem(id);
+      showNotification('success', `Deleted "${name}" permanently`);
       fetchItems();
     } catch (error) {
       console.error('Error deleting item:', error);
-      showNotification('error', 'Failed to delete item');
+      showNotification('error', errorMessage(error, 'item'));
     }
   };
 
@@ -123,26 +579,314 @@ export default function AdminPage() {
     setFormData({
       name: '',
       description: '',
-      category: 'toys',
-      quantity: 0,
-      threshold: 10,
+      category_id: '',
+      quantity: '0',
+      threshold: '10',
       source_url: '',
+      track_lots: false,
+      sku: '',
+      barcode: '',
+      supplier_id: '',
+      unit_cost: '',
+      reorder_quantity: '',
     });
     setEditingId(null);
+    setEditingVersion(null);
+    setEditConflict(null);
     setShowAddForm(false);
+    setMovementType('adjustment');
+    setMovementReason('');
+    setMovementLocation('');
+  };
+
+  // With a location selected, quantities and thresholds are those at that location;
+  // a location without its own threshold uses the item's
+  const stockRows: StockRow[] = query.location
+    ? items.flatMap(item => {
+        const row = itemLocations.find(
+          candidate => candidate.item_id === item.id && candidate.location_id === query.location
+        );
+        return row ? [{ item, quantity: row.quantity, threshold: row.threshold ?? item.threshold }] : [];
+      })
+    : items.map(item => ({ item, quantity: item.quantity, threshold: item.threshold }));
+
+  // Grouping applies to the rows on the current page
+  const categoryGroups = sortCategories(categories)
+    .map(category => ({ category, rows: itemPage.rows.filter(row => row.item.category_id === category.id) }))
+    .filter(group => group.rows.length > 0);
+
+  const pageCount = Math.max(1, Math.ceil(itemPage.total / ITEMS_PER_PAGE));
+  const firstShown = (query.page - 1) * ITEMS_PER_PAGE + 1;
+
+  const renderSortHeader = (sort: ItemSort, label: string) => (
+    <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">
+      <button onClick={() => sortBy(sort)} className="flex items-center gap-1 hover:text-blue-600">
+        {label}
+        {query.sort === sort && (query.descending ? <ArrowDown className="w-4 h-4" /> : <ArrowUp className="w-4 h-4" />)}
+      </button>
+    </th>
+  );
+
+  const renderItemRow = ({ item, quantity, threshold }: StockRow) => {
+    const status = stockStatus(quantity, threshold);
+    const justChanged = highlighted.includes(item.id);
+    // Stock is in the base unit; items with pack sizes also show it broken down
+    const hasPackSizes = (item.item_units?.length ?? 0) > 0;
+    
+    return (
+      <tr key={item.id} className={`transition-colors ${justChanged ? 'bg-blue-50' : 'hover:bg-gray-50'}`}>
+        {!query.archived && (
+          <td className="pl-6 py-4">
+            <input
+              type="checkbox"
+              checked={selectedIds.includes(item.id)}
+              onChange={() => toggleSelected(item.id)}
+              className="w-5 h-5"
+              aria-label={`Select ${item.name}`}
+            />
+          </td>
+        )}
+        <td className="px-6 py-4">
+          <div>
+            <p className="font-semibold text-gray-800">{item.name}</p>
+            {item.sku && <p className="text-sm text-gray-500">SKU {item.sku}</p>}
+            {item.description && (
+              <p className="text-sm text-gray-500">{item.description}</p>
+            )}
+          </div>
+        </td>
+        <td className="px-6 py-4">
+          <CategoryBadge categories={categories} categoryId={item.category_id} />
+        </td>
+        <td className="px-6 py-4 text-lg font-semibold">
+          <span className={justChanged ? 'px-2 py-1 rounded-lg bg-blue-200 text-blue-900' : ''} title={justChanged ? 'Just changed by someone else' : undefined}>
+            {quantity}
+          </span>
+          {hasPackSizes && <p className="text-sm font-normal text-gray-500">{formatQuantity(quantity, item)}</p>}
+        </td>
+        <td className="px-6 py-4 text-gray-600">
+          {threshold}
+          {hasPackSizes && <p className="text-sm text-gray-500">{formatQuantity(threshold, item)}</p>}
+        </td>
+        <td className="px-6 py-4">
+          <span className={`px-3 py-1 rounded-full text-sm font-semibold ${STOCK_STATUS_STYLES[status]}`}>
+            {STOCK_STATUS_LABELS[status]}
+          </span>
+        </td>
+        <td className="px-6 py-4">
+          <div className="flex justify-end gap-2">
+            {item.track_lots && (
+              <button
+                onClick={() => setLotsItem(item)}
+                className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-all"
+                title="Lots"
+              >
+                <Layers className="w-5 h-5" />
+              </button>
+            )}
+            {!query.archived && (
+              <button
+                onClick={() => setUnitsItem(item)}
+                className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-all"
+                title="Units"
+              >
+                <Ruler className="w-5 h-5" />
+              </button>
+            )}
+            <button
+              onClick={() => setHistoryItem(item)}
+              className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-all"
+              title="History"
+            >
+              <History className="w-5 h-5" />
+            </button>
+            {query.archived ? (
+              <>
+                <button
+                  onClick={() => handleRestore([item.id], `"${item.name}"`)}
+                  className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-all"
+                  title="Restore"
+                >
+                  <RotateCcw className="w-5 h-5" />
+                </button>
+                {profile?.role === 'admin' && (
+                  <button
+                    onClick={() => handlePurge(item.id, item.name)}
+                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-all"
+                    title="Delete permanently"
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </button>
+                )}
+              </>
+            ) : (
+              <>
+                <button
+                  onClick={() => handleEdit(item)}
+                  className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-all"
+                  title="Edit"
+                >
+                  <Edit2 className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={() => handleArchive(item.id, item.name)}
+                  className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-all"
+                  title="Archive"
+                >
+                  <Archive className="w-5 h-5" />
+                </button>
+              </>
+            )}
+          </div>
+        </td>
+      </tr>
+    );
   };
 
-  const lowStockCount = items.filter(item => item.quantity <= item.threshold).length;
+  const lowStockCount = stockRows.filter(row => row.quantity <= row.threshold).length;
+  const expiredLots = expiringLots.filter(lot => lot.expires_on && daysUntil(lot.expires_on) < 0);
 
   return (
     <div className="min-h-screen bg-gray-50 p-4 md:p-8">
       <div className="max-w-7xl mx-auto">
         {/* Header */}
-        <div className="mb-8">
-          <h1 className="text-4xl font-bold text-gray-800 mb-2">Admin Dashboard</h1>
-          <p className="text-gray-600 text-lg">Manage inventory items and monitor stock levels</p>
+        <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold text-gray-800 mb-2">Admin Dashboard</h1>
+            <p className="text-gray-600 text-lg">Manage inventory items and monitor stock levels</p>
+          </div>
+          <div className="flex flex-wrap gap-3">
+            {profile?.role === 'admin' && (
+              <Link
+                href="/admin/users"
+                className="bg-white hover:bg-gray-100 text-gray-800 font-bold py-4 px-6 rounded-xl text-lg flex items-center gap-3 transition-all active:scale-95 shadow-md"
+              >
+                <Users className="w-6 h-6 text-blue-600" />
+                Users
+              </Link>
+            )}
+            {profile?.role === 'admin' && (
+              <Link
+                href="/admin/audit"
+                className="bg-white hover:bg-gray-100 text-gray-800 font-bold py-4 px-6 rounded-xl text-lg flex items-center gap-3 transition-all active:scale-95 shadow-md"
+              >
+                <ScrollText className="w-6 h-6 text-blue-600" />
+                Audit Log
+              </Link>
+            )}
+            <Link
+              href="/admin/locations"
+              className="bg-white hover:bg-gray-100 text-gray-800 font-bold py-4 px-6 rounded-xl text-lg flex items-center gap-3 transition-all active:scale-95 shadow-md"
+            >
+              <MapPin className="w-6 h-6 text-blue-600" />
+              Locations
+            </Link>
+            <Link
+              href="/admin/kits"
+              className="bg-white hover:bg-gray-100 text-gray-800 font-bold py-4 px-6 rounded-xl text-lg flex items-center gap-3 transition-all active:scale-95 shadow-md"
+            >
+              <Boxes className="w-6 h-6 text-blue-600" />
+              Kits
+            </Link>
+            <Link
+              href="/admin/suppliers"
+              className="bg-white hover:bg-gray-100 text-gray-800 font-bold py-4 px-6 rounded-xl text-lg flex items-center gap-3 transition-all active:scale-95 shadow-md"
+            >
+              <Truck className="w-6 h-6 text-blue-600" />
+              Suppliers
+            </Link>
+            <Link
+              href="/admin/purchase-orders"
+              className="bg-white hover:bg-gray-100 text-gray-800 font-bold py-4 px-6 rounded-xl text-lg flex items-center gap-3 transition-all active:scale-95 shadow-md"
+            >
+              <ShoppingCart className="w-6 h-6 text-blue-600" />
+              Purchase Orders
+            </Link>
+            <Link
+              href="/admin/import"
+              className="bg-white hover:bg-gray-100 text-gray-800 font-bold py-4 px-6 rounded-xl text-lg flex items-center gap-3 transition-all active:scale-95 shadow-md"
+            >
+              <FileSpreadsheet className="w-6 h-6 text-blue-600" />
+              Import / Export
+            </Link>
+            <Link
+              href="/admin/labels"
+              className="bg-white hover:bg-gray-100 text-gray-800 font-bold py-4 px-6 rounded-xl text-lg flex items-center gap-3 transition-all active:scale-95 shadow-md"
+            >
+              <Tag className="w-6 h-6 text-blue-600" />
+              Labels
+            </Link>
+            {profile?.role === 'admin' && (
+              <Link
+                href="/admin/categories"
+                className="bg-white hover:bg-gray-100 text-gray-800 font-bold py-4 px-6 rounded-xl text-lg flex items-center gap-3 transition-all active:scale-95 shadow-md"
+              >
+                <Shapes className="w-6 h-6 text-blue-600" />
+                Categories
+              </Link>
+            )}
+            <Link
+              href="/count"
+              className="bg-white hover:bg-gray-100 text-gray-800 font-bold py-4 px-6 rounded-xl text-lg flex items-center gap-3 transition-all active:scale-95 shadow-md"
+            >
+              <ClipboardCheck className="w-6 h-6 text-blue-600" />
+              Stock Counts
+            </Link>
+            <Link
+              href="/admin/analytics"
+              className="bg-white hover:bg-gray-100 text-gray-800 font-bold py-4 px-6 rounded-xl text-lg flex items-center gap-3 transition-all active:scale-95 shadow-md"
+            >
+              <TrendingUp className="w-6 h-6 text-blue-600" />
+              Usage
+            </Link>
+            <Link
+              href="/admin/reports"
+              className="bg-white hover:bg-gray-100 text-gray-800 font-bold py-4 px-6 rounded-xl text-lg flex items-center gap-3 transition-all active:scale-95 shadow-md"
+            >
+              <DollarSign className="w-6 h-6 text-blue-600" />
+              Valuation
+            </Link>
+            <Link
+              href="/admin/notifications"
+              className="bg-white hover:bg-gray-100 text-gray-800 font-bold py-4 px-6 rounded-xl text-lg flex items-center gap-3 transition-all active:scale-95 shadow-md"
+            >
+              <Bell className="w-6 h-6 text-blue-600" />
+              Notifications
+            </Link>
+            <Link
+              href="/admin/requests"
+              className="bg-white hover:bg-gray-100 text-gray-800 font-bold py-4 px-6 rounded-xl text-lg flex items-center gap-3 transition-all active:scale-95 shadow-md"
+            >
+              <ClipboardList className="w-6 h-6 text-blue-600" />
+              Request Queue
+              {pendingRequestCount > 0 && (
+                <span className="px-3 py-1 bg-yellow-100 text-yellow-700 rounded-full text-sm font-semibold">
+                  {pendingRequestCount} pending
+                </span>
+              )}
+            </Link>
+          </div>
         </div>
 
+        {/* Location Filter */}
+        {locations.length > 1 && (
+          <div className="mb-6 flex items-center gap-3">
+            <MapPin className="w-6 h-6 text-gray-600" />
+            <select
+              value={query.location}
+              onChange={(e) => updateQuery({ location: e.target.value })}
+              className="px-6 py-3 text-lg border-2 border-gray-300 rounded-xl bg-white focus:outline-none focus:ring-4 focus:ring-blue-500"
+            >
+              <option value="">All locations</option>
+              {locations.map(location => (
+                <option key={location.id} value={location.id}>{location.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <SyncStatus onSynced={fetchItems} />
+
         {/* Notification */}
         {notification && (
           <div className={`mb-6 rounded-2xl p-6 flex items-center gap-4 ${
@@ -158,14 +902,32 @@ export default function AdminPage() {
             }`}>
               {notification.message}
             </p>
+            {notification.undo && (
+              <button
+                onClick={() => {
+                  notification.undo?.();
+                  setNotification(null);
+                }}
+                className="ml-auto bg-white hover:bg-gray-100 text-gray-800 font-bold py-2 px-5 rounded-xl border-2 border-gray-300 flex items-center gap-2 transition-all active:scale-95"
+              >
+                <RotateCcw className="w-5 h-5" />
+                Undo
+              </button>
+            )}
           </div>
         )}
 
         {/* Stats */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-6 mb-8">
           <div className="bg-white rounded-2xl shadow-md p-6">
             <p className="text-gray-600 text-sm font-semibold">Total Items</p>
-            <p className="text-4xl font-bold text-blue-600 mt-2">{items.length}</p>
+            <p className="text-4xl font-bold text-blue-600 mt-2">{stockRows.length}</p>
+          </div>
+          <div className="bg-white rounded-2xl shadow-md p-6">
+            <p className="text-gray-600 text-sm font-semibold">Stock Value</p>
+            <p className="text-4xl font-bold text-blue-600 mt-2">
+              {formatCurrency(stockRows.reduce((sum, row) => sum + stockValue({ quantity: row.quantity, unit_cost: row.item.unit_cost }), 0))}
+            </p>
           </div>
           <div className="bg-white rounded-2xl shadow-md p-6">
             <p className="text-gray-600 text-sm font-semibold">Low Stock Items</p>
@@ -174,9 +936,119 @@ export default function AdminPage() {
           <div className="bg-white rounded-2xl shadow-md p-6">
             <p className="text-gray-600 text-sm font-semibold">Out of Stock</p>
             <p className="text-4xl font-bold text-red-600 mt-2">
-              {items.filter(item => item.quantity === 0).length}
+              {stockRows.filter(row => row.quantity === 0).length}
             </p>
           </div>
+          <div className="bg-white rounded-2xl shadow-md p-6">
+            <p className="text-gray-600 text-sm font-semibold">Expiring ≤ {expiryWindow} Days</p>
+            <p className="text-4xl font-bold text-orange-600 mt-2">{expiringLots.length - expiredLots.length}</p>
+          </div>
+          <div className="bg-white rounded-2xl shadow-md p-6">
+            <p className="text-gray-600 text-sm font-semibold">Expired Lots</p>
+            <p className="text-4xl font-bold text-red-600 mt-2">{expiredLots.length}</p>
+          </div>
+        </div>
+
+        {/* Expiring Lots */}
+        <div className="bg-white rounded-2xl shadow-md mb-8">
+          <div className="p-6 border-b-2 border-gray-100 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-3">
+              <CalendarClock className="w-7 h-7 text-orange-600" />
+              Expiring &amp; Expired
+            </h2>
+            <div className="flex gap-2">
+              {EXPIRY_WINDOWS.map(days => (
+                <button
+                  key={days}
+                  onClick={() => setExpiryWindow(days)}
+                  className={`px-4 py-2 rounded-xl font-semibold transition-all active:scale-95 ${
+                    expiryWindow === days ? 'bg-orange-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {days} days
+                </button>
+              ))}
+            </div>
+          </div>
+          {expiringLots.length === 0 ? (
+            <p className="p-6 text-lg text-gray-500">Nothing expires in the next {expiryWindow} days.</p>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {expiringLots.map(lot => {
+                const days = daysUntil(lot.expires_on!);
+                const item = items.find(candidate => candidate.id === lot.item_id);
+
+                return (
+                  <div key={lot.id} className="px-6 py-4 flex items-center justify-between gap-4">
+                    <div>
+                      <p className="font-semibold text-gray-800">{lot.inventory?.name}</p>
+                      <p className="text-sm text-gray-500">Lot {lot.lot_number} · {lot.quantity} on hand</p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span className={`px-3 py-1 rounded-full text-sm font-semibold ${
+                        days < 0 ? 'bg-red-100 text-red-700' : 'bg-orange-100 text-orange-700'
+                      }`}>
+                        {days < 0 ? `Expired ${lot.expires_on}` : `${days} days · ${lot.expires_on}`}
+                      </span>
+                      {item && (
+                        <button
+                          onClick={() => setLotsItem(item)}
+                          className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-all"
+                          title="Lots"
+                        >
+                          <Layers className="w-5 h-5" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Scan */}
+        <div className="mb-6">
+          <ScanInput onScan={handleScan} />
+          {scannedCode && (
+            <div className="mt-4 bg-yellow-50 border-4 border-yellow-400 rounded-2xl p-6">
+              <div className="flex justify-between items-start gap-4 mb-4">
+                <p className="text-xl font-semibold text-yellow-800">No item has the code &quot;{scannedCode}&quot;</p>
+                <button onClick={() => setScannedCode(null)} className="text-yellow-700 hover:text-yellow-900">
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+              <div className="flex flex-col md:flex-row gap-3">
+                <button
+                  onClick={() => handleCreateFromCode(scannedCode)}
+                  className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 px-5 rounded-xl flex items-center justify-center gap-2 transition-all active:scale-95"
+                >
+                  <Plus className="w-5 h-5" />
+                  Create Item
+                </button>
+                <select
+                  value={linkItemId}
+                  onChange={(e) => setLinkItemId(e.target.value)}
+                  className="flex-1 px-4 py-3 text-lg border-2 border-gray-300 rounded-xl bg-white focus:outline-none focus:ring-4 focus:ring-blue-500"
+                >
+                  <option value="">Or link to an existing item...</option>
+                  {items.map(item => (
+                    <option key={item.id} value={item.id}>
+                      {item.name}{item.barcode ? ` (replaces ${item.barcode})` : ''}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => handleLinkCode(scannedCode)}
+                  disabled={!linkItemId}
+                  className="bg-gray-800 hover:bg-gray-900 disabled:bg-gray-400 text-white font-bold py-3 px-5 rounded-xl flex items-center justify-center gap-2 transition-all active:scale-95"
+                >
+                  <Link2 className="w-5 h-5" />
+                  Link Code
+                </button>
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Add New Item Button */}
@@ -205,6 +1077,51 @@ export default function AdminPage() {
               </button>
             </div>
 
+            {/* Edit Conflict */}
+            {editConflict && (
+              <div className="mb-6 bg-yellow-50 border-4 border-yellow-400 rounded-2xl p-6">
+                <p className="text-xl font-semibold text-yellow-900 mb-2">Someone else has changed this item</p>
+                {conflictFields.length > 0 ? (
+                  <table className="w-full mb-4">
+                    <thead>
+                      <tr className="text-left text-sm text-gray-600">
+                        <th className="py-1 pr-4">Field</th>
+                        <th className="py-1 pr-4">Theirs</th>
+                        <th className="py-1">Yours</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {conflictFields.map(([field, theirs, mine]) => (
+                        <tr key={field} className="text-gray-800">
+                          <td className="py-1 pr-4 font-semibold">{field}</td>
+                          <td className="py-1 pr-4">{theirs || '—'}</td>
+                          <td className="py-1">{mine || '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <p className="text-gray-700 mb-4">Their changes match what you have here.</p>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    onClick={() => handleEdit(editConflict)}
+                    className="bg-white hover:bg-gray-100 text-gray-800 font-bold py-3 px-5 rounded-xl border-2 border-gray-300 transition-all active:scale-95"
+                  >
+                    Use Theirs
+                  </button>
+                  <button
+                    type="button"
+                    onClick={keepMyEdits}
+                    className="bg-yellow-600 hover:bg-yellow-700 text-white font-bold py-3 px-5 rounded-xl transition-all active:scale-95"
+                  >
+                    Keep Mine
+                  </button>
+                </div>
+              </div>
+            )}
+
             <form onSubmit={handleSubmit} className="space-y-6">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 {/* Item Name */}
@@ -229,13 +1146,25 @@ export default function AdminPage() {
                   </label>
                   <select
                     required
-                    value={formData.category}
-                    onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                    value={formData.category_id}
+                    onChange={(e) => {
+                      // New items start with the category's threshold and lot-tracking defaults
+                      const category = categories.find(candidate => candidate.id === e.target.value);
+                      setFormData({
+                        ...formData,
+                        category_id: e.target.value,
+                        threshold: !editingId && category ? String(category.default_threshold) : formData.threshold,
+                        track_lots: !editingId && category ? category.track_lots_default : formData.track_lots,
+                      });
+                    }}
                     className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
                   >
-                    <option value="toys">Toys</option>
-                    <option value="medical">Medical Supplies</option>
-                    <option value="office">Office Supplies</option>
+                    <option value="">Choose a category...</option>
+                    {sortCategories(categories).map(category => (
+                      <option key={category.id} value={category.id}>
+                        {categoryLabel(categories, category.id)}
+                      </option>
+                    ))}
                   </select>
                 </div>
 
@@ -249,9 +1178,14 @@ export default function AdminPage() {
                     required
                     min="0"
                     value={formData.quantity}
-                    onChange={(e) => setFormData({ ...formData, quantity: parseInt(e.target.value) || 0 })}
+                    onChange={(e) => setFormData({ ...formData, quantity: e.target.value })}
                     className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
                   />
+                  {editingId && originalQuantity !== editingQuantity && (
+                    <p className="mt-2 text-blue-700 font-semibold">
+                      Stock changed from {editingQuantity} to {originalQuantity} while you were editing
+                    </p>
+                  )}
                 </div>
 
                 {/* Threshold */}
@@ -264,12 +1198,92 @@ export default function AdminPage() {
                     required
                     min="0"
                     value={formData.threshold}
-                    onChange={(e) => setFormData({ ...formData, threshold: parseInt(e.target.value) || 0 })}
+                    onChange={(e) => setFormData({ ...formData, threshold: e.target.value })}
                     className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
                   />
                 </div>
               </div>
 
+              {/* Lot Tracking */}
+              <label className="flex items-center gap-3 text-lg font-semibold text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.track_lots}
+                  onChange={(e) => setFormData({ ...formData, track_lots: e.target.checked })}
+                  className="w-6 h-6"
+                />
+                Track lot numbers &amp; expiry dates
+              </label>
+
+              {/* Stock Change */}
+              {quantityDelta !== 0 && (
+                <div className="bg-blue-50 border-2 border-blue-200 rounded-xl p-6 space-y-4">
+                  <p className="text-lg font-semibold text-blue-800">
+                    Stock change: {quantityDelta > 0 ? `+${quantityDelta}` : quantityDelta} ({originalQuantity} → {formData.quantity})
+                  </p>
+                  {editingId && movementType === 'receipt' && quantityDelta > 0 && (
+                    <p className="text-blue-800">
+                      {formData.unit_cost
+                        ? `Received at ${formatUnitCost(Number(formData.unit_cost))} per ${costUnit}, the unit cost below.`
+                        : 'No unit cost is set below, so this receipt has no recorded cost.'}
+                    </p>
+                  )}
+                  {formData.track_lots && quantityDelta > 0 && (
+                    <p className="text-blue-800">
+                      This stock won&apos;t have a lot number. Use Lots to receive it against a lot and expiry date.
+                    </p>
+                  )}
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                    <div>
+                      <label className="block text-lg font-semibold text-gray-700 mb-3">
+                        Location
+                      </label>
+                      <select
+                        value={movementLocation}
+                        onChange={(e) => setMovementLocation(e.target.value)}
+                        className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                      >
+                        <option value="">{locations.find(location => location.is_default)?.name || 'Default'}</option>
+                        {locations.filter(location => !location.is_default).map(location => (
+                          <option key={location.id} value={location.id}>{location.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                    {editingId && (
+                      <div>
+                        <label className="block text-lg font-semibold text-gray-700 mb-3">
+                          Type *
+                        </label>
+                        <select
+                          value={movementType}
+                          onChange={(e) => setMovementType(e.target.value as MovementType)}
+                          className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                        >
+                          {(Object.keys(MOVEMENT_TYPE_LABELS) as MovementType[])
+                            .filter(type => type !== 'transfer')
+                            .map(type => (
+                              <option key={type} value={type}>{MOVEMENT_TYPE_LABELS[type]}</option>
+                            ))}
+                        </select>
+                      </div>
+                    )}
+                    <div className={editingId ? 'lg:col-span-2' : 'lg:col-span-3'}>
+                      <label className="block text-lg font-semibold text-gray-700 mb-3">
+                        Reason {editingId && '*'}
+                      </label>
+                      <input
+                        type="text"
+                        required={!!editingId}
+                        value={movementReason}
+                        onChange={(e) => setMovementReason(e.target.value)}
+                        placeholder={editingId ? 'e.g. Recount, damaged box' : 'Opening balance'}
+                        className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                      />
+                    </div>
+                  </div>
+                </div>
+              )}
+
               {/* Description */}
               <div>
                 <label className="block text-lg font-semibold text-gray-700 mb-3">
@@ -284,6 +1298,75 @@ export default function AdminPage() {
                 />
               </div>
 
+              {/* Purchasing */}
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                <div>
+                  <label className="block text-lg font-semibold text-gray-700 mb-3">
+                    SKU
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.sku}
+                    onChange={(e) => setFormData({ ...formData, sku: e.target.value })}
+                    placeholder="Optional item code"
+                    className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-lg font-semibold text-gray-700 mb-3">
+                    Barcode
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.barcode}
+                    onChange={(e) => setFormData({ ...formData, barcode: e.target.value })}
+                    placeholder="Scan or type"
+                    className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-lg font-semibold text-gray-700 mb-3">
+                    Supplier
+                  </label>
+                  <select
+                    value={formData.supplier_id}
+                    onChange={(e) => setFormData({ ...formData, supplier_id: e.target.value })}
+                    className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                  >
+                    <option value="">No supplier</option>
+                    {suppliers.map(supplier => (
+                      <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-lg font-semibold text-gray-700 mb-3">
+                    Unit Cost ($ per {costUnit})
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.0001"
+                    value={formData.unit_cost}
+                    onChange={(e) => setFormData({ ...formData, unit_cost: e.target.value })}
+                    className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-lg font-semibold text-gray-700 mb-3">
+                    Reorder Quantity
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={formData.reorder_quantity}
+                    onChange={(e) => setFormData({ ...formData, reorder_quantity: e.target.value })}
+                    placeholder="Top up to 2× threshold"
+                    className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+
               {/* Source URL */}
               <div>
                 <label className="block text-lg font-semibold text-gray-700 mb-3">
@@ -302,7 +1385,8 @@ export default function AdminPage() {
               <div className="flex gap-4">
                 <button
                   type="submit"
-                  className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-bold py-4 px-6 rounded-xl text-xl flex items-center justify-center gap-3 transition-all active:scale-95 shadow-lg"
+                  disabled={!!editConflict}
+                  className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-bold py-4 px-6 rounded-xl text-xl flex items-center justify-center gap-3 transition-all active:scale-95 shadow-lg"
                 >
                   <Save className="w-6 h-6" />
                   {editingId ? 'Update Item' : 'Add Item'}
@@ -321,92 +1405,340 @@ export default function AdminPage() {
 
         {/* Items List */}
         <div className="bg-white rounded-2xl shadow-md overflow-hidden">
-          <div className="p-6 border-b-2 border-gray-100">
-            <h2 className="text-2xl font-bold text-gray-800">All Items</h2>
+          <div className="p-6 border-b-2 border-gray-100 space-y-4">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <h2 className="text-2xl font-bold text-gray-800">
+                {query.archived
+                  ? 'Archived Items'
+                  : query.location
+                    ? `Items at ${locations.find(location => location.id === query.location)?.name}`
+                    : 'All Items'}
+              </h2>
+              <div className="relative md:w-96">
+                <Search className="w-5 h-5 text-gray-400 absolute left-4 top-1/2 -translate-y-1/2" />
+                <input
+                  type="search"
+                  value={searchText}
+                  onChange={(e) => setSearchText(e.target.value)}
+                  placeholder="Search names and descriptions"
+                  className="w-full pl-12 pr-4 py-2 text-lg border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-4">
+              <select
+                value={query.category}
+                onChange={(e) => updateQuery({ category: e.target.value })}
+                className="px-4 py-2 text-lg border-2 border-gray-300 rounded-xl bg-white focus:outline-none focus:ring-4 focus:ring-blue-500"
+              >
+                <option value="">All categories</option>
+                {sortCategories(categories).map(category => (
+                  <option key={category.id} value={category.id}>
+                    {categoryLabel(categories, category.id)}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={query.status}
+                onChange={(e) => updateQuery({ status: e.target.value as StockStatus | '' })}
+                className="px-4 py-2 text-lg border-2 border-gray-300 rounded-xl bg-white focus:outline-none focus:ring-4 focus:ring-blue-500"
+              >
+                <option value="">Any status</option>
+                {(Object.keys(STOCK_STATUS_LABELS) as StockStatus[]).map(status => (
+                  <option key={status} value={status}>{STOCK_STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+              {suppliers.length > 0 && (
+                <select
+                  value={query.supplier}
+                  onChange={(e) => updateQuery({ supplier: e.target.value })}
+                  className="px-4 py-2 text-lg border-2 border-gray-300 rounded-xl bg-white focus:outline-none focus:ring-4 focus:ring-blue-500"
+                >
+                  <option value="">All suppliers</option>
+                  {suppliers.map(supplier => (
+                    <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+                  ))}
+                </select>
+              )}
+              <label className="flex items-center gap-2 text-gray-700 font-semibold">
+                <input
+                  type="checkbox"
+                  checked={groupByCategory}
+                  onChange={(e) => setGroupByCategory(e.target.checked)}
+                  className="w-5 h-5"
+                />
+                Group by category
+              </label>
+              <label className="flex items-center gap-2 text-gray-700 font-semibold">
+                <input
+                  type="checkbox"
+                  checked={query.archived}
+                  onChange={(e) => updateQuery({ archived: e.target.checked })}
+                  className="w-5 h-5"
+                />
+                Show archived
+              </label>
+              {hasItemFilters(query) && (
+                <button onClick={clearFilters} className="text-blue-600 hover:text-blue-800 font-semibold">
+                  Clear filters
+                </button>
+              )}
+            </div>
           </div>
 
-          {loading ? (
+          {/* Bulk Actions */}
+          {selectedItems.length > 0 && (
+            <div className="p-6 border-b-2 border-gray-100 bg-blue-50 space-y-4">
+              <div className="flex flex-wrap items-center gap-4">
+                <p className="text-lg font-semibold text-blue-900">{selectedItems.length} selected</p>
+                <select
+                  value={bulkKind}
+                  onChange={(e) => {
+                    setBulkKind(e.target.value as BulkActionKind | '');
+                    setBulkPreview(null);
+                    setBulkFailures([]);
+                  }}
+                  className="px-4 py-2 text-lg border-2 border-gray-300 rounded-xl bg-white focus:outline-none focus:ring-4 focus:ring-blue-500"
+                >
+                  <option value="">Choose an action...</option>
+                  {(Object.keys(BULK_ACTION_LABELS) as BulkActionKind[]).map(kind => (
+                    <option key={kind} value={kind}>{BULK_ACTION_LABELS[kind]}</option>
+                  ))}
+                </select>
+                {bulkKind === 'set_category' && (
+                  <select
+                    value={bulkForm.categoryId}
+                    onChange={(e) => setBulkForm({ ...bulkForm, categoryId: e.target.value })}
+                    className="px-4 py-2 text-lg border-2 border-gray-300 rounded-xl bg-white focus:outline-none focus:ring-4 focus:ring-blue-500"
+                  >
+                    <option value="">Choose a category...</option>
+                    {sortCategories(categories).map(category => (
+                      <option key={category.id} value={category.id}>{categoryLabel(categories, category.id)}</option>
+                    ))}
+                  </select>
+                )}
+                {bulkKind === 'set_threshold' && (
+                  <input
+                    type="number"
+                    min="0"
+                    value={bulkForm.threshold}
+                    onChange={(e) => setBulkForm({ ...bulkForm, threshold: e.target.value })}
+                    placeholder="New threshold"
+                    className="w-40 px-4 py-2 text-lg border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                  />
+                )}
+                {bulkKind === 'adjust_quantity' && (
+                  <input
+                    type="number"
+                    value={bulkForm.delta}
+                    onChange={(e) => setBulkForm({ ...bulkForm, delta: e.target.value })}
+                    placeholder="+/- change"
+                    className="w-40 px-4 py-2 text-lg border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                  />
+                )}
+                {(bulkKind === 'adjust_quantity' || bulkKind === 'request') && (
+                  <input
+                    type="text"
+                    value={bulkForm.reason}
+                    onChange={(e) => setBulkForm({ ...bulkForm, reason: e.target.value })}
+                    placeholder={bulkKind === 'request' ? 'Notes (optional)' : 'Reason, e.g. Recount'}
+                    className="flex-1 min-w-[12rem] px-4 py-2 text-lg border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                  />
+                )}
+                <button
+                  onClick={reviewBulk}
+                  disabled={!bulkKind}
+                  className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-bold py-2 px-5 rounded-xl transition-all active:scale-95"
+                >
+                  Review
+                </button>
+                <button onClick={clearBulk} className="text-blue-700 hover:text-blue-900 font-semibold">
+                  Clear selection
+                </button>
+              </div>
+
+              {bulkPreview && (
+                <div className="bg-white rounded-xl border-2 border-blue-200 p-4">
+                  <p className="text-lg font-semibold text-gray-800 mb-3">
+                    {bulkKind && BULK_ACTION_LABELS[bulkKind]} for {bulkPreview.length} items
+                  </p>
+                  <div className="max-h-72 overflow-y-auto">
+                    <table className="w-full">
+                      <tbody className="divide-y divide-gray-100">
+                        {bulkPreview.map(line => (
+                          <tr key={line.itemId} className={line.problem ? 'text-red-700' : 'text-gray-800'}>
+                            <td className="py-2 pr-4 font-semibold">{line.name}</td>
+                            <td className="py-2 pr-4">{line.before}</td>
+                            <td className="py-2 pr-4">→ {line.after}</td>
+                            <td className="py-2">{line.problem}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  {bulkPreview.some(line => line.problem) && (
+                    <p className="mt-3 text-red-700 font-semibold">
+                      Items marked in red will fail, and then nothing is changed. Deselect them first.
+                    </p>
+                  )}
+                  <div className="mt-4 flex gap-3">
+                    <button
+                      onClick={applyBulk}
+                      disabled={bulkApplying}
+                      className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-bold py-2 px-5 rounded-xl transition-all active:scale-95"
+                    >
+                      {bulkApplying ? 'Applying...' : 'Apply to All'}
+                    </button>
+                    <button
+                      onClick={() => setBulkPreview(null)}
+                      className="bg-gray-200 hover:bg-gray-300 text-gray-700 font-bold py-2 px-5 rounded-xl transition-all active:scale-95"
+                    >
+                      Back
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {bulkFailures.length > 0 && (
+                <div className="bg-red-50 border-2 border-red-300 rounded-xl p-4">
+                  <p className="text-lg font-semibold text-red-800 mb-2">Nothing was changed. These items failed:</p>
+                  <ul className="space-y-1 text-red-800">
+                    {bulkFailures.map(failure => (
+                      <li key={failure.name}>
+                        <span className="font-semibold">{failure.name}</span>: {failure.error}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+
+          {loading || (pageLoading && itemPage.rows.length === 0) ? (
             <div className="p-12 text-center">
               <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-blue-600 mx-auto"></div>
             </div>
-          ) : items.length === 0 ? (
+          ) : itemPage.rows.length === 0 ? (
             <div className="p-12 text-center">
-              <p className="text-xl text-gray-500">No items yet. Add your first item above!</p>
+              <p className="text-xl text-gray-500">
+                {hasItemFilters(query)
+                  ? 'No items match these filters.'
+                  : query.archived
+                    ? 'No archived items.'
+                    : query.location
+                      ? 'Nothing is stocked at this location yet.'
+                      : 'No items yet. Add your first item above!'}
+              </p>
             </div>
           ) : (
-            <div className="overflow-x-auto">
-              <table className="w-full">
-                <thead className="bg-gray-50">
-                  <tr>
-                    <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">Name</th>
-                    <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">Category</th>
-                    <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">Quantity</th>
-                    <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">Threshold</th>
-                    <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">Status</th>
-                    <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Actions</th>
-                  </tr>
-                </thead>
-                <tbody className="divide-y divide-gray-200">
-                  {items.map((item) => {
-                    const isLow = item.quantity <= item.threshold;
-                    const isOut = item.quantity === 0;
-                    
-                    return (
-                      <tr key={item.id} className="hover:bg-gray-50">
-                        <td className="px-6 py-4">
-                          <div>
-                            <p className="font-semibold text-gray-800">{item.name}</p>
-                            {item.description && (
-                              <p className="text-sm text-gray-500">{item.description}</p>
-                            )}
-                          </div>
-                        </td>
-                        <td className="px-6 py-4">
-                          <span className="px-3 py-1 bg-gray-100 text-gray-700 rounded-full text-sm">
-                            {item.category}
-                          </span>
-                        </td>
-                        <td className="px-6 py-4 text-lg font-semibold">
-                          {item.quantity}
-                        </td>
-                        <td className="px-6 py-4 text-gray-600">
-                          {item.threshold}
-                        </td>
-                        <td className="px-6 py-4">
-                          <span className={`px-3 py-1 rounded-full text-sm font-semibold ${
-                            isOut ? 'bg-red-100 text-red-700' :
-                            isLow ? 'bg-yellow-100 text-yellow-700' :
-                            'bg-green-100 text-green-700'
-                          }`}>
-                            {isOut ? 'Out of Stock' : isLow ? 'Low Stock' : 'In Stock'}
-                          </span>
-                        </td>
-                        <td className="px-6 py-4">
-                          <div className="flex justify-end gap-2">
-                            <button
-                              onClick={() => handleEdit(item)}
-                              className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-all"
-                              title="Edit"
-                            >
-                              <Edit2 className="w-5 h-5" />
-                            </button>
-                            <button
-                              onClick={() => handleDelete(item.id, item.name)}
-                              className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-all"
-                              title="Delete"
-                            >
-                              <Trash2 className="w-5 h-5" />
-                            </button>
-                          </div>
-                        </td>
-                      </tr>
-                    );
-                  })}
-                </tbody>
-              </table>
-            </div>
+            <>
+              <div className={`overflow-x-auto transition-opacity ${pageLoading ? 'opacity-60' : ''}`}>
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      {!query.archived && (
+                        <th className="pl-6 py-4 text-left">
+                          <input
+                            type="checkbox"
+                            checked={allOnPageSelected}
+                            onChange={togglePageSelected}
+                            className="w-5 h-5"
+                            aria-label="Select all on this page"
+                          />
+                        </th>
+                      )}
+                      {renderSortHeader('name', 'Name')}
+                      {renderSortHeader('category', 'Category')}
+                      {renderSortHeader('quantity', 'Quantity')}
+                      {renderSortHeader('threshold', 'Threshold')}
+                      {renderSortHeader('status', 'Status')}
+                      <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {groupByCategory
+                      ? categoryGroups.map(({ category, rows }) => (
+                          <React.Fragment key={category.id}>
+                            <tr className="bg-gray-50">
+                              <td colSpan={query.archived ? 6 : 7} className="px-6 py-3">
+                                <CategoryBadge categories={categories} categoryId={category.id} />
+                                <span className="ml-3 text-sm text-gray-500">{rows.length} items</span>
+                              </td>
+                            </tr>
+                            {rows.map(renderItemRow)}
+                          </React.Fragment>
+                        ))
+                      : itemPage.rows.map(renderItemRow)}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Pagination */}
+              <div className="p-6 border-t-2 border-gray-100 flex items-center justify-between gap-4">
+                <p className="text-gray-600">
+                  Showing {firstShown}–{firstShown + itemPage.rows.length - 1} of {itemPage.total}
+                </p>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setQuery(current => ({ ...current, page: current.page - 1 }))}
+                    disabled={query.page <= 1}
+                    className="p-2 rounded-lg text-gray-700 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent"
+                    title="Previous page"
+                  >
+                    <ChevronLeft className="w-6 h-6" />
+                  </button>
+                  <span className="text-gray-700 font-semibold">Page {query.page} of {pageCount}</span>
+                  <button
+                    onClick={() => setQuery(current => ({ ...current, page: current.page + 1 }))}
+                    disabled={query.page >= pageCount}
+                    className="p-2 rounded-lg text-gray-700 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent"
+                    title="Next page"
+                  >
+                    <ChevronRight className="w-6 h-6" />
+                  </button>
+                </div>
+              </div>
+            </>
           )}
         </div>
+
+        {/* Stock History */}
+        {historyItem && (
+          <StockHistory
+            itemId={historyItem.id}
+            itemName={historyItem.name}
+            onClose={() => setHistoryItem(null)}
+          />
+        )}
+
+        {/* Lots */}
+        {lotsItem && (
+          <LotsPanel
+            itemId={lotsItem.id}
+            itemName={lotsItem.name}
+            units={lotsItem}
+            onClose={() => setLotsItem(null)}
+            onChanged={() => {
+              fetchItems();
+              fetchExpiringLots();
+            }}
+          />
+        )}
+
+        {/* Units */}
+        {unitsItem && (
+          <UnitsPanel
+            itemId={unitsItem.id}
+            itemName={unitsItem.name}
+            baseUnit={unitsItem.base_unit}
+            units={unitsItem.item_units ?? []}
+            onClose={() => setUnitsItem(null)}
+            onChanged={() => {
+              fetchItems();
+              fetchPage();
+            }}
+          />
+        )}
       </div>
     </div>
   );
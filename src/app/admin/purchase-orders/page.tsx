@@ -0,0 +1,544 @@
+// src/app/admin/purchase-orders/page.tsx
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Wand2, Send, PackageCheck, Trash2, ExternalLink, CheckCircle, AlertTriangle } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import {
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderStatus,
+  PURCHASE_ORDER_STATUS_LABELS,
+  PURCHASE_ORDER_STATUS_STYLES,
+  formatCurrency,
+  formatUnitCost,
+  orderTotal,
+} from '@/lib/purchasing';
+import { findItemByCode } from '@/lib/barcode';
+import { baseUnit, findUnit, formatQuantity, fromPackCost, packCost, purchaseUnit, toBase } from '@/lib/units';
+import ScanInput from '@/components/ScanInput';
+import UnitSelect from '@/components/UnitSelect';
+
+interface UnsuppliedItem {
+  id: string;
+  name: string;
+  quantity: number;
+  threshold: number;
+}
+
+// Pack prices worked back from a per-unit cost, without floating-point noise
+const roundCost = (value: number) => Math.round(value * 10000) / 10000;
+
+const STATUS_TABS: { value: PurchaseOrderStatus | 'all'; label: string }[] = [
+  { value: 'draft', label: 'Draft' },
+  { value: 'sent', label: 'Sent' },
+  { value: 'partially_received', label: 'Partially Received' },
+  { value: 'received', label: 'Received' },
+  { value: 'all', label: 'All' },
+];
+
+export default function PurchaseOrdersPage() {
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | 'all'>('draft');
+  const [unsuppliedItems, setUnsuppliedItems] = useState<UnsuppliedItem[]>([]);
+  const [receivingId, setReceivingId] = useState<string | null>(null);
+  const [receivedQuantities, setReceivedQuantities] = useState<Record<string, number>>({});
+  // Received quantities are entered in each line's unit and converted when saved
+  const [receivedUnits, setReceivedUnits] = useState<Record<string, string>>({});
+  const [countingByScan, setCountingByScan] = useState(false);
+  const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchUnsuppliedItems();
+  }, []);
+
+  const fetchOrders = async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('purchase_orders')
+        .select('*, suppliers(*), purchase_order_lines(*, inventory(name, sku, barcode, base_unit, item_units(*)))')
+        .order('created_at', { ascending: false });
+
+      if (statusFilter !== 'all') {
+        query = query.eq('status', statusFilter);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setOrders(data || []);
+    } catch (error) {
+      console.error('Error fetching purchase orders:', error);
+      showNotification('error', 'Failed to load purchase orders');
+    }
+    setLoading(false);
+  };
+
+  // Low-stock items that can't be ordered automatically because they have no supplier
+  const fetchUnsuppliedItems = async () => {
+    const { data, error } = await supabase
+      .from('inventory')
+      .select('id, name, quantity, threshold')
+      .is('supplier_id', null)
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching items without a supplier:', error);
+      return;
+    }
+    setUnsuppliedItems((data || []).filter((item: UnsuppliedItem) => item.quantity <= item.threshold));
+  };
+
+  const showNotification = (type: 'success' | 'error', message: string) => {
+    setNotification({ type, message });
+    setTimeout(() => setNotification(null), 4000);
+  };
+
+  const handleGenerate = async () => {
+    try {
+      const { data, error } = await supabase.rpc('generate_purchase_orders');
+
+      if (error) throw error;
+      showNotification(
+        'success',
+        data > 0 ? `Added ${data} low-stock items to draft orders` : 'No low-stock items need ordering'
+      );
+      setStatusFilter('draft');
+      fetchOrders();
+    } catch (error) {
+      console.error('Error generating purchase orders:', error);
+      showNotification('error', 'Failed to generate purchase orders');
+    }
+  };
+
+  const handleLineQuantity = async (line: PurchaseOrderLine, quantity: number) => {
+    try {
+      const { error } = await supabase
+        .from('purchase_order_lines')
+        .update({ quantity_ordered: quantity })
+        .eq('id', line.id);
+
+      if (error) throw error;
+      fetchOrders();
+    } catch (error) {
+      console.error('Error updating line:', error);
+      showNotification('error', 'Failed to update quantity');
+    }
+  };
+
+  // Suppliers quote per pack, so the cost is entered for the item's purchase
+  // unit and stored per base unit like every other cost
+  const handleLineCost = async (line: PurchaseOrderLine, text: string) => {
+    const packPrice = text.trim() === '' ? null : Number(text);
+    if (packPrice !== null && (!Number.isFinite(packPrice) || packPrice < 0)) {
+      showNotification('error', 'Cost must be an amount like 12.50');
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('purchase_order_lines')
+        .update({ unit_cost: packPrice === null ? null : fromPackCost(packPrice, purchaseUnit(line.inventory)) })
+        .eq('id', line.id);
+
+      if (error) throw error;
+      fetchOrders();
+    } catch (error) {
+      console.error('Error updating line cost:', error);
+      showNotification('error', 'Failed to update cost');
+    }
+  };
+
+  const handleRemoveLine = async (line: PurchaseOrderLine) => {
+    try {
+      const { error } = await supabase
+        .from('purchase_order_lines')
+        .delete()
+        .eq('id', line.id);
+
+      if (error) throw error;
+      fetchOrders();
+    } catch (error) {
+      console.error('Error removing line:', error);
+      showNotification('error', 'Failed to remove line');
+    }
+  };
+
+  const handleMarkSent = async (order: PurchaseOrder) => {
+    try {
+      const { error } = await supabase
+        .from('purchase_orders')
+        .update({ status: 'sent', sent_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+        .eq('id', order.id);
+
+      if (error) throw error;
+      showNotification('success', `PO #${order.order_number} marked sent`);
+      fetchOrders();
+    } catch (error) {
+      console.error('Error sending purchase order:', error);
+      showNotification('error', 'Failed to update purchase order');
+    }
+  };
+
+  const handleDeleteDraft = async (order: PurchaseOrder) => {
+    if (!confirm(`Delete draft PO #${order.order_number}?`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('purchase_orders')
+        .delete()
+        .eq('id', order.id);
+
+      if (error) throw error;
+      showNotification('success', `Deleted PO #${order.order_number}`);
+      fetchOrders();
+    } catch (error) {
+      console.error('Error deleting purchase order:', error);
+      showNotification('error', 'Failed to delete purchase order');
+    }
+  };
+
+  const startReceiving = (order: PurchaseOrder) => {
+    setReceivingId(order.id);
+    setCountingByScan(false);
+    // Outstanding quantities start in the purchase unit when they're whole packs
+    const outstanding = order.purchase_order_lines.map(line => {
+      const remaining = Math.max(line.quantity_ordered - line.quantity_received, 0);
+      const unit = purchaseUnit(line.inventory);
+      return remaining % unit.factor === 0
+        ? { line, unit: unit.name, quantity: remaining / unit.factor }
+        : { line, unit: '', quantity: remaining };
+    });
+    setReceivedQuantities(Object.fromEntries(outstanding.map(({ line, quantity }) => [line.id, quantity])));
+    setReceivedUnits(Object.fromEntries(outstanding.map(({ line, unit }) => [line.id, unit])));
+  };
+
+  const receivedUnit = (line: PurchaseOrderLine) => findUnit(line.inventory, receivedUnits[line.id] ?? '');
+
+  // Each scan of an item on the order counts one more of the line's unit; the first
+  // scan clears the prefilled quantities so the count starts from what's unpacked
+  const handleReceiveScan = (order: PurchaseOrder, code: string) => {
+    const line = order.purchase_order_lines.find(candidate =>
+      candidate.inventory && findItemByCode([candidate.inventory], code)
+    );
+    if (!line) {
+      showNotification('error', `"${code}" isn't on PO #${order.order_number}`);
+      return;
+    }
+
+    const counted = countingByScan ? receivedQuantities : {};
+    setReceivedQuantities({ ...counted, [line.id]: (counted[line.id] ?? 0) + 1 });
+    setCountingByScan(true);
+  };
+
+  const handleReceive = async (order: PurchaseOrder) => {
+    try {
+      const { data, error } = await supabase.rpc('receive_purchase_order', {
+        p_order_id: order.id,
+        p_received: order.purchase_order_lines.map(line => ({
+          line_id: line.id,
+          quantity: toBase(receivedQuantities[line.id] ?? 0, receivedUnit(line)),
+        })),
+      });
+
+      if (error) throw error;
+      showNotification(
+        'success',
+        data === 'received' ? `PO #${order.order_number} fully received` : `PO #${order.order_number} partially received`
+      );
+      setReceivingId(null);
+      fetchOrders();
+    } catch (error) {
+      console.error('Error receiving purchase order:', error);
+      showNotification('error', 'Failed to receive delivery');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 md:p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <Link href="/admin" className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-700 font-semibold mb-4">
+              <ArrowLeft className="w-5 h-5" />
+              Back to Dashboard
+            </Link>
+            <h1 className="text-4xl font-bold text-gray-800 mb-2">Purchase Orders</h1>
+            <p className="text-gray-600 text-lg">Reorder low-stock items by supplier</p>
+          </div>
+          <button
+            onClick={handleGenerate}
+            className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-4 px-6 rounded-xl text-lg flex items-center gap-3 transition-all active:scale-95 shadow-lg"
+          >
+            <Wand2 className="w-6 h-6" />
+            Generate from Low Stock
+          </button>
+        </div>
+
+        {/* Notification */}
+        {notification && (
+          <div className={`mb-6 rounded-2xl p-6 flex items-center gap-4 ${
+            notification.type === 'success' ? 'bg-green-50 border-4 border-green-500' : 'bg-red-50 border-4 border-red-500'
+          }`}>
+            {notification.type === 'success' ? (
+              <CheckCircle className="w-8 h-8 text-green-600" />
+            ) : (
+              <AlertTriangle className="w-8 h-8 text-red-600" />
+            )}
+            <p className={`text-xl font-semibold ${
+              notification.type === 'success' ? 'text-green-800' : 'text-red-800'
+            }`}>
+              {notification.message}
+            </p>
+          </div>
+        )}
+
+        {unsuppliedItems.length > 0 && (
+          <div className="mb-6 bg-yellow-50 border-4 border-yellow-400 rounded-2xl p-6">
+            <p className="text-lg font-semibold text-yellow-800">
+              {unsuppliedItems.length} low-stock {unsuppliedItems.length === 1 ? 'item has' : 'items have'} no supplier and
+              won&apos;t be ordered: {unsuppliedItems.map(item => item.name).join(', ')}
+            </p>
+          </div>
+        )}
+
+        {/* Status Tabs */}
+        <div className="flex flex-wrap gap-2 mb-6">
+          {STATUS_TABS.map(tab => (
+            <button
+              key={tab.value}
+              onClick={() => setStatusFilter(tab.value)}
+              className={`px-5 py-3 rounded-xl font-semibold transition-all active:scale-95 ${
+                statusFilter === tab.value
+                  ? 'bg-blue-600 text-white shadow-lg'
+                  : 'bg-white text-gray-700 hover:bg-gray-100 shadow-md'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Orders */}
+        {loading ? (
+          <div className="bg-white rounded-2xl shadow-md p-12 text-center">
+            <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-blue-600 mx-auto"></div>
+          </div>
+        ) : orders.length === 0 ? (
+          <div className="bg-white rounded-2xl shadow-md p-12 text-center">
+            <p className="text-xl text-gray-500">No purchase orders here.</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {orders.map(order => {
+              const isDraft = order.status === 'draft';
+              const canReceive = order.status === 'sent' || order.status === 'partially_received';
+
+              return (
+                <div key={order.id} className="bg-white rounded-2xl shadow-md overflow-hidden">
+                  <div className="p-6 border-b-2 border-gray-100 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                    <div>
+                      <div className="flex items-center gap-3 mb-1">
+                        <h2 className="text-2xl font-bold text-gray-800">
+                          PO #{order.order_number} · {order.suppliers?.name}
+                        </h2>
+                        <span className={`px-3 py-1 rounded-full text-sm font-semibold ${PURCHASE_ORDER_STATUS_STYLES[order.status]}`}>
+                          {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+                        </span>
+                      </div>
+                      <p className="text-gray-600">
+                        Created {new Date(order.created_at).toLocaleDateString()}
+                        {order.sent_at && ` · sent ${new Date(order.sent_at).toLocaleDateString()}`}
+                        {order.suppliers && ` · ${order.suppliers.lead_time_days}-day lead time`}
+                        {' · '}
+                        <span className="font-semibold">{formatCurrency(orderTotal(order))}</span>
+                      </p>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {order.suppliers?.ordering_url && (
+                        <a
+                          href={order.suppliers.ordering_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="bg-gray-100 hover:bg-gray-200 text-gray-700 font-bold py-3 px-5 rounded-xl flex items-center gap-2 transition-all active:scale-95"
+                        >
+                          <ExternalLink className="w-5 h-5" />
+                          Order Site
+                        </a>
+                      )}
+                      {isDraft && (
+                        <>
+                          <button
+                            onClick={() => handleMarkSent(order)}
+                            disabled={order.purchase_order_lines.length === 0}
+                            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-bold py-3 px-5 rounded-xl flex items-center gap-2 transition-all active:scale-95"
+                          >
+                            <Send className="w-5 h-5" />
+                            Mark Sent
+                          </button>
+                          <button
+                            onClick={() => handleDeleteDraft(order)}
+                            className="p-3 text-red-600 hover:bg-red-50 rounded-xl transition-all"
+                            title="Delete draft"
+                          >
+                            <Trash2 className="w-5 h-5" />
+                          </button>
+                        </>
+                      )}
+                      {canReceive && receivingId !== order.id && (
+                        <button
+                          onClick={() => startReceiving(order)}
+                          className="bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-5 rounded-xl flex items-center gap-2 transition-all active:scale-95"
+                        >
+                          <PackageCheck className="w-5 h-5" />
+                          Receive Delivery
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  <table className="w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-sm font-semibold text-gray-700">Item</th>
+                        <th className="px-6 py-3 text-right text-sm font-semibold text-gray-700">Ordered</th>
+                        <th className="px-6 py-3 text-right text-sm font-semibold text-gray-700">Received</th>
+                        <th className="px-6 py-3 text-right text-sm font-semibold text-gray-700">Unit Cost</th>
+                        <th className="px-6 py-3 text-right text-sm font-semibold text-gray-700">
+                          {receivingId === order.id ? 'Receiving Now' : 'Line Total'}
+                        </th>
+                        {isDraft && <th className="px-6 py-3"></th>}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {order.purchase_order_lines.map(line => (
+                        <tr key={line.id}>
+                          <td className="px-6 py-3 font-semibold text-gray-800">{line.inventory?.name}</td>
+                          <td className="px-6 py-3 text-right">
+                            {isDraft ? (
+                              <input
+                                type="number"
+                                min="1"
+                                defaultValue={line.quantity_ordered}
+                                onBlur={(e) => {
+                                  const quantity = parseInt(e.target.value) || 1;
+                                  if (quantity !== line.quantity_ordered) handleLineQuantity(line, quantity);
+                                }}
+                                className="w-24 px-3 py-2 text-lg text-right border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                              />
+                            ) : (
+                              line.quantity_ordered
+                            )}
+                            {(line.inventory?.item_units?.length ?? 0) > 0 && (
+                              <p className="text-sm text-gray-500">{formatQuantity(line.quantity_ordered, line.inventory)}</p>
+                            )}
+                          </td>
+                          <td className="px-6 py-3 text-right text-gray-700">{line.quantity_received}</td>
+                          <td className="px-6 py-3 text-right text-gray-700">
+                            {isDraft ? (
+                              <label className="flex items-center justify-end gap-2">
+                                <input
+                                  type="number"
+                                  min="0"
+                                  step="0.0001"
+                                  defaultValue={line.unit_cost != null ? roundCost(packCost(line.unit_cost, purchaseUnit(line.inventory))) : ''}
+                                  onBlur={(e) => {
+                                    const current = line.unit_cost != null ? roundCost(packCost(line.unit_cost, purchaseUnit(line.inventory))) : null;
+                                    const entered = e.target.value.trim() === '' ? null : Number(e.target.value);
+                                    if (entered !== current) handleLineCost(line, e.target.value);
+                                  }}
+                                  className="w-28 px-3 py-2 text-lg text-right border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                                />
+                                <span className="text-sm text-gray-500">/ {purchaseUnit(line.inventory).name}</span>
+                              </label>
+                            ) : line.unit_cost != null ? (
+                              <>
+                                {formatUnitCost(line.unit_cost)} / {baseUnit(line.inventory).name}
+                                {purchaseUnit(line.inventory).factor > 1 && (
+                                  <p className="text-sm text-gray-500">
+                                    {formatCurrency(packCost(line.unit_cost, purchaseUnit(line.inventory)))} / {purchaseUnit(line.inventory).name}
+                                  </p>
+                                )}
+                              </>
+                            ) : '—'}
+                          </td>
+                          <td className="px-6 py-3 text-right">
+                            {receivingId === order.id ? (
+                              <div className="flex justify-end gap-2">
+                                <input
+                                  type="number"
+                                  min="0"
+                                  value={receivedQuantities[line.id] ?? 0}
+                                  onChange={(e) => setReceivedQuantities({
+                                    ...receivedQuantities,
+                                    [line.id]: parseInt(e.target.value) || 0,
+                                  })}
+                                  className="w-24 px-3 py-2 text-lg text-right border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                                />
+                                {(line.inventory?.item_units?.length ?? 0) > 0 && (
+                                  <UnitSelect
+                                    item={line.inventory}
+                                    value={receivedUnit(line).name}
+                                    onChange={(unit) => setReceivedUnits({ ...receivedUnits, [line.id]: unit })}
+                                    className="px-2 py-2"
+                                  />
+                                )}
+                              </div>
+                            ) : (
+                              <span className="text-gray-700">
+                                {line.unit_cost != null ? formatCurrency(line.quantity_ordered * line.unit_cost) : '—'}
+                              </span>
+                            )}
+                          </td>
+                          {isDraft && (
+                            <td className="px-6 py-3 text-right">
+                              <button
+                                onClick={() => handleRemoveLine(line)}
+                                className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-all"
+                                title="Remove"
+                              >
+                                <Trash2 className="w-5 h-5" />
+                              </button>
+                            </td>
+                          )}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+
+                  {receivingId === order.id && (
+                    <div className="p-6 border-t-2 border-gray-100 flex flex-col md:flex-row gap-3 md:justify-end">
+                      <div className="flex-1">
+                        <ScanInput onScan={(code) => handleReceiveScan(order, code)} placeholder="Scan items as they're unpacked" />
+                      </div>
+                      <button
+                        onClick={() => handleReceive(order)}
+                        className="bg-green-600 hover:bg-green-700 text-white font-bold py-4 px-6 rounded-xl transition-all active:scale-95"
+                      >
+                        Add to Stock
+                      </button>
+                      <button
+                        onClick={() => setReceivingId(null)}
+                        className="px-6 bg-gray-200 hover:bg-gray-300 text-gray-700 font-bold py-4 rounded-xl transition-all active:scale-95"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,376 @@
+// src/app/admin/reports/page.tsx
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Download, Printer, CheckCircle, AlertTriangle } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { Category, categoryLabel, categoryWithChildren, sortCategories } from '@/lib/categories';
+import { Supplier, formatCurrency } from '@/lib/purchasing';
+import { CsvValue, downloadCsv } from '@/lib/csv';
+import {
+  MonthlyValue,
+  ReportRange,
+  defaultReportRange,
+  formatMonth,
+  money,
+  monthsBetween,
+  spendBySupplier,
+  stockValue,
+  summariseByMonth,
+} from '@/lib/valuation';
+
+interface ValuedItem {
+  id: string;
+  name: string;
+  category_id: string;
+  quantity: number;
+  unit_cost?: number | null;
+}
+
+export default function ReportsPage() {
+  const [items, setItems] = useState<ValuedItem[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [rows, setRows] = useState<MonthlyValue[]>([]);
+  const [range, setRange] = useState<ReportRange>(defaultReportRange);
+  const [categoryFilter, setCategoryFilter] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  useEffect(() => {
+    fetchMovements();
+  }, [range, categoryFilter]);
+
+  const fetchData = async () => {
+    try {
+      const [itemsResult, categoriesResult, suppliersResult] = await Promise.all([
+        supabase.from('inventory').select('id, name, category_id, quantity, unit_cost').is('archived_at', null).order('name'),
+        supabase.from('categories').select('*').order('name'),
+        supabase.from('suppliers').select('*').order('name'),
+      ]);
+
+      if (itemsResult.error) throw itemsResult.error;
+      if (categoriesResult.error) throw categoriesResult.error;
+      if (suppliersResult.error) throw suppliersResult.error;
+      setItems(itemsResult.data || []);
+      setCategories(categoriesResult.data || []);
+      setSuppliers(suppliersResult.data || []);
+    } catch (error) {
+      console.error('Error fetching inventory:', error);
+      showNotification('error', 'Failed to load inventory');
+    }
+  };
+
+  const fetchMovements = async () => {
+    if (!range.from || !range.to) return;
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('stock_value_by_month', {
+        p_from: range.from,
+        p_to: range.to,
+        p_category_ids: shownCategoryIds,
+      });
+
+      if (error) throw error;
+      setRows(data || []);
+    } catch (error) {
+      console.error('Error fetching spend:', error);
+      showNotification('error', 'Failed to load spend and write-offs');
+    }
+    setLoading(false);
+  };
+
+  const showNotification = (type: 'success' | 'error', message: string) => {
+    setNotification({ type, message });
+    setTimeout(() => setNotification(null), 3000);
+  };
+
+  const shownCategoryIds = categoryFilter ? categoryWithChildren(categories, categoryFilter) : null;
+  const shownItems = shownCategoryIds ? items.filter(item => shownCategoryIds.includes(item.category_id)) : items;
+  const uncostedItems = shownItems.filter(item => item.unit_cost == null && item.quantity > 0);
+
+  const valueByCategory = sortCategories(categories)
+    .map(category => {
+      const categoryItems = shownItems.filter(item => item.category_id === category.id);
+      return {
+        category,
+        items: categoryItems.length,
+        units: categoryItems.reduce((sum, item) => sum + item.quantity, 0),
+        value: categoryItems.reduce((sum, item) => sum + stockValue(item), 0),
+      };
+    })
+    .filter(row => row.items > 0);
+  const onHandValue = valueByCategory.reduce((sum, row) => sum + row.value, 0);
+
+  const months = summariseByMonth(rows, monthsBetween(range));
+  const totalSpend = months.reduce((sum, month) => sum + month.spend, 0);
+  const totalWrittenOff = months.reduce((sum, month) => sum + month.writtenOff, 0);
+  const totalExpired = months.reduce((sum, month) => sum + month.expired, 0);
+  const totalUncosted = months.reduce((sum, month) => sum + month.uncosted, 0);
+
+  const supplierName = (id: string) => (id ? suppliers.find(supplier => supplier.id === id)?.name ?? 'Unknown supplier' : 'No supplier');
+  const supplierRows = Array.from(spendBySupplier(rows).entries())
+    .map(([supplierId, totals]) => ({ supplierId, name: supplierName(supplierId), ...totals }))
+    .sort((a, b) => b.value - a.value);
+
+  const scope = `${range.from} to ${range.to} · ${categoryFilter ? categoryLabel(categories, categoryFilter) : 'All categories'}`;
+
+  // One file with a block per table, for the monthly budget review
+  const handleExport = () => {
+    const csv: CsvValue[][] = [
+      ['Inventory valuation and spend', scope],
+      [],
+      ['On-hand value by category (today)'],
+      ['Category', 'Items', 'Units', 'Value'],
+      ...valueByCategory.map(row => [categoryLabel(categories, row.category.id), row.items, row.units, money(row.value)]),
+      ['Total', '', '', money(onHandValue)],
+      [],
+      ['By month'],
+      ['Month', 'Spend', 'Written off', 'Of which expired', 'Units at unknown cost'],
+      ...months.map(month => [month.month.slice(0, 7), money(month.spend), money(month.writtenOff), money(month.expired), month.uncosted]),
+      ['Total', money(totalSpend), money(totalWrittenOff), money(totalExpired), totalUncosted],
+      [],
+      ['Spend by supplier'],
+      ['Supplier', 'Units received', 'Spend'],
+      ...supplierRows.map(row => [row.name, row.quantity, money(row.value)]),
+    ];
+    if (uncostedItems.length > 0) {
+      csv.push([], ['Items in stock without a unit cost (valued at 0)'], ...uncostedItems.map(item => [item.name, item.quantity]));
+    }
+
+    downloadCsv(`valuation-${range.from}-to-${range.to}.csv`, csv);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 md:p-8 print:bg-white print:p-0">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <Link href="/admin" className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-700 font-semibold mb-4 print:hidden">
+            <ArrowLeft className="w-5 h-5" />
+            Back to Dashboard
+          </Link>
+          <h1 className="text-4xl font-bold text-gray-800 mb-2">Valuation &amp; Spend</h1>
+          <p className="text-gray-600 text-lg print:hidden">What stock is worth, what was spent and what was written off</p>
+          <p className="hidden print:block text-gray-700 text-lg">{scope}</p>
+        </div>
+
+        {/* Notification */}
+        {notification && (
+          <div className={`mb-6 rounded-2xl p-6 flex items-center gap-4 print:hidden ${
+            notification.type === 'success' ? 'bg-green-50 border-4 border-green-500' : 'bg-red-50 border-4 border-red-500'
+          }`}>
+            {notification.type === 'success' ? (
+              <CheckCircle className="w-8 h-8 text-green-600" />
+            ) : (
+              <AlertTriangle className="w-8 h-8 text-red-600" />
+            )}
+            <p className={`text-xl font-semibold ${
+              notification.type === 'success' ? 'text-green-800' : 'text-red-800'
+            }`}>
+              {notification.message}
+            </p>
+          </div>
+        )}
+
+        {/* Controls */}
+        <div className="bg-white rounded-2xl shadow-md p-6 mb-6 grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-6 items-end print:hidden">
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">From</label>
+            <input
+              type="date"
+              value={range.from}
+              max={range.to}
+              onChange={(e) => setRange({ ...range, from: e.target.value })}
+              className="w-full px-4 py-2 text-lg border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">To</label>
+            <input
+              type="date"
+              value={range.to}
+              min={range.from}
+              onChange={(e) => setRange({ ...range, to: e.target.value })}
+              className="w-full px-4 py-2 text-lg border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">Category</label>
+            <select
+              value={categoryFilter}
+              onChange={(e) => setCategoryFilter(e.target.value)}
+              className="w-full px-4 py-2 text-lg border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+            >
+              <option value="">All categories</option>
+              {sortCategories(categories).map(category => (
+                <option key={category.id} value={category.id}>{categoryLabel(categories, category.id)}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleExport}
+              disabled={loading}
+              className="bg-white hover:bg-gray-100 disabled:text-gray-400 text-gray-800 font-bold py-3 px-5 rounded-xl border-2 border-gray-300 flex items-center gap-2 transition-all active:scale-95"
+            >
+              <Download className="w-5 h-5 text-blue-600" />
+              CSV
+            </button>
+            <button
+              onClick={() => window.print()}
+              disabled={loading}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-bold py-3 px-5 rounded-xl flex items-center gap-2 transition-all active:scale-95"
+              title="Print, or save as PDF from the print dialog"
+            >
+              <Printer className="w-5 h-5" />
+              Print / PDF
+            </button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="bg-white rounded-2xl shadow-md p-12 text-center">
+            <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-blue-600 mx-auto"></div>
+          </div>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6 print:grid-cols-3">
+              <div className="bg-white rounded-2xl shadow-md p-6 print:shadow-none print:border">
+                <p className="text-gray-600 text-sm font-semibold">On-hand value today</p>
+                <p className="text-4xl font-bold text-blue-600 mt-2">{formatCurrency(onHandValue)}</p>
+              </div>
+              <div className="bg-white rounded-2xl shadow-md p-6 print:shadow-none print:border">
+                <p className="text-gray-600 text-sm font-semibold">Spend in range</p>
+                <p className="text-4xl font-bold text-gray-800 mt-2">{formatCurrency(totalSpend)}</p>
+              </div>
+              <div className="bg-white rounded-2xl shadow-md p-6 print:shadow-none print:border">
+                <p className="text-gray-600 text-sm font-semibold">Written off in range</p>
+                <p className="text-4xl font-bold text-red-600 mt-2">{formatCurrency(totalWrittenOff)}</p>
+                {totalExpired > 0 && <p className="text-sm text-gray-600 mt-1">{formatCurrency(totalExpired)} expired</p>}
+              </div>
+            </div>
+
+            {uncostedItems.length > 0 && (
+              <div className="mb-6 rounded-2xl p-4 bg-yellow-50 border-2 border-yellow-400 flex items-start gap-3">
+                <AlertTriangle className="w-6 h-6 text-yellow-600 flex-shrink-0" />
+                <p className="text-yellow-800">
+                  {uncostedItems.length} {uncostedItems.length === 1 ? 'item has' : 'items have'} stock but no unit cost and
+                  {' '}{uncostedItems.length === 1 ? 'is' : 'are'} valued at nothing:{' '}
+                  {uncostedItems.slice(0, 5).map(item => item.name).join(', ')}
+                  {uncostedItems.length > 5 && ` and ${uncostedItems.length - 5} more`}
+                </p>
+              </div>
+            )}
+
+            {totalUncosted > 0 && (
+              <div className="mb-6 rounded-2xl p-4 bg-yellow-50 border-2 border-yellow-400 flex items-start gap-3">
+                <AlertTriangle className="w-6 h-6 text-yellow-600 flex-shrink-0" />
+                <p className="text-yellow-800">
+                  {totalUncosted} {totalUncosted === 1 ? 'unit was' : 'units were'} received or written off in this range
+                  with no recorded cost, so spend and write-offs leave them out.
+                </p>
+              </div>
+            )}
+
+            {/* On-hand by Category */}
+            <div className="bg-white rounded-2xl shadow-md overflow-hidden mb-6 print:shadow-none print:break-inside-avoid">
+              <h2 className="text-2xl font-bold text-gray-800 p-6 pb-4">On-hand Value by Category</h2>
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-sm font-semibold text-gray-700">Category</th>
+                    <th className="px-6 py-3 text-right text-sm font-semibold text-gray-700">Items</th>
+                    <th className="px-6 py-3 text-right text-sm font-semibold text-gray-700">Units</th>
+                    <th className="px-6 py-3 text-right text-sm font-semibold text-gray-700">Value</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {valueByCategory.map(row => (
+                    <tr key={row.category.id}>
+                      <td className="px-6 py-3 font-semibold text-gray-800">{categoryLabel(categories, row.category.id)}</td>
+                      <td className="px-6 py-3 text-right text-gray-700">{row.items}</td>
+                      <td className="px-6 py-3 text-right text-gray-700">{row.units}</td>
+                      <td className="px-6 py-3 text-right text-gray-800">{formatCurrency(row.value)}</td>
+                    </tr>
+                  ))}
+                  <tr className="bg-gray-50 font-bold">
+                    <td className="px-6 py-3 text-gray-800" colSpan={3}>Total</td>
+                    <td className="px-6 py-3 text-right text-gray-800">{formatCurrency(onHandValue)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            {/* By Month */}
+            <div className="bg-white rounded-2xl shadow-md overflow-hidden mb-6 print:shadow-none print:break-inside-avoid">
+              <h2 className="text-2xl font-bold text-gray-800 p-6 pb-4">By Month</h2>
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-sm font-semibold text-gray-700">Month</th>
+                    <th className="px-6 py-3 text-right text-sm font-semibold text-gray-700">Spend</th>
+                    <th className="px-6 py-3 text-right text-sm font-semibold text-gray-700">Written Off</th>
+                    <th className="px-6 py-3 text-right text-sm font-semibold text-gray-700">Of Which Expired</th>
+                    <th className="px-6 py-3 text-right text-sm font-semibold text-gray-700">Units at Unknown Cost</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {months.map(month => (
+                    <tr key={month.month}>
+                      <td className="px-6 py-3 font-semibold text-gray-800">{formatMonth(month.month)}</td>
+                      <td className="px-6 py-3 text-right text-gray-800">{formatCurrency(month.spend)}</td>
+                      <td className="px-6 py-3 text-right text-gray-700">{formatCurrency(month.writtenOff)}</td>
+                      <td className="px-6 py-3 text-right text-gray-700">{formatCurrency(month.expired)}</td>
+                      <td className="px-6 py-3 text-right text-gray-500">{month.uncosted || '—'}</td>
+                    </tr>
+                  ))}
+                  <tr className="bg-gray-50 font-bold">
+                    <td className="px-6 py-3 text-gray-800">Total</td>
+                    <td className="px-6 py-3 text-right text-gray-800">{formatCurrency(totalSpend)}</td>
+                    <td className="px-6 py-3 text-right text-gray-800">{formatCurrency(totalWrittenOff)}</td>
+                    <td className="px-6 py-3 text-right text-gray-800">{formatCurrency(totalExpired)}</td>
+                    <td className="px-6 py-3 text-right text-gray-800">{totalUncosted || '—'}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            {/* By Supplier */}
+            <div className="bg-white rounded-2xl shadow-md overflow-hidden print:shadow-none print:break-inside-avoid">
+              <h2 className="text-2xl font-bold text-gray-800 p-6 pb-4">Spend by Supplier</h2>
+              {supplierRows.length === 0 ? (
+                <p className="px-6 pb-6 text-lg text-gray-500">Nothing received in this range.</p>
+              ) : (
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-sm font-semibold text-gray-700">Supplier</th>
+                      <th className="px-6 py-3 text-right text-sm font-semibold text-gray-700">Units Received</th>
+                      <th className="px-6 py-3 text-right text-sm font-semibold text-gray-700">Spend</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {supplierRows.map(row => (
+                      <tr key={row.supplierId}>
+                        <td className={`px-6 py-3 font-semibold ${row.supplierId ? 'text-gray-800' : 'text-gray-500'}`}>{row.name}</td>
+                        <td className="px-6 py-3 text-right text-gray-700">{row.quantity}</td>
+                        <td className="px-6 py-3 text-right text-gray-800">{formatCurrency(row.value)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,408 @@
+// src/app/admin/requests/page.tsx
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Check, X, Truck, PackageCheck, CheckCircle, AlertTriangle, MessageSquare, CalendarClock } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import {
+  RequestLine,
+  RequestStatus,
+  RestockRequest,
+  REQUEST_STATUS_LABELS,
+  REQUEST_STATUS_STYLES,
+  describeRequest,
+} from '@/lib/requests';
+import { errorMessage } from '@/lib/errors';
+import { findUnit, purchaseUnit, toBase } from '@/lib/units';
+import RequestComments from '@/components/RequestComments';
+import UnitSelect from '@/components/UnitSelect';
+
+const STATUS_TABS: { value: RequestStatus | 'all'; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'ordered', label: 'Ordered' },
+  { value: 'fulfilled', label: 'Fulfilled' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: 'cancelled', label: 'Cancelled' },
+  { value: 'all', label: 'All' },
+];
+
+export default function RequestQueuePage() {
+  const [requests, setRequests] = useState<RestockRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<RequestStatus | 'all'>('pending');
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+  const [fulfillingId, setFulfillingId] = useState<string | null>(null);
+  const [receivedQuantities, setReceivedQuantities] = useState<Record<string, number>>({});
+  // Received quantities are entered in each line's unit and converted when saved
+  const [receivedUnits, setReceivedUnits] = useState<Record<string, string>>({});
+  const [commentsOpenId, setCommentsOpenId] = useState<string | null>(null);
+  const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [statusFilter]);
+
+  const fetchRequests = async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('requests')
+        .select('*, request_items(*, inventory(base_unit, item_units(*)))')
+        .order('created_at', { ascending: statusFilter === 'pending' });
+
+      if (statusFilter !== 'all') {
+        query = query.eq('status', statusFilter);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setRequests(data || []);
+    } catch (error) {
+      console.error('Error fetching requests:', error);
+      showNotification('error', 'Failed to load requests');
+    }
+    setLoading(false);
+  };
+
+  const showNotification = (type: 'success' | 'error', message: string) => {
+    setNotification({ type, message });
+    setTimeout(() => setNotification(null), 3000);
+  };
+
+  // The database decides which moves are allowed, e.g. nothing reopens a
+  // fulfilled request
+  const updateStatus = async (request: RestockRequest, status: RequestStatus, rejectionReason?: string) => {
+    try {
+      const { error } = await supabase.rpc('set_request_status', {
+        p_request_id: request.id,
+        p_status: status,
+        p_rejection_reason: rejectionReason ?? null,
+      });
+
+      if (error) throw error;
+      showNotification('success', `"${describeRequest(request)}" marked ${REQUEST_STATUS_LABELS[status].toLowerCase()}`);
+      fetchRequests();
+    } catch (error) {
+      console.error('Error updating request:', error);
+      showNotification('error', errorMessage(error, 'request'));
+      fetchRequests();
+    }
+  };
+
+  // Shown to the requester on their My Requests page
+  const updateExpectedOn = async (request: RestockRequest, expectedOn: string) => {
+    try {
+      const { error } = await supabase
+        .from('requests')
+        .update({ expected_on: expectedOn || null, updated_at: new Date().toISOString() })
+        .eq('id', request.id);
+
+      if (error) throw error;
+      setRequests(current => current.map(other =>
+        other.id === request.id ? { ...other, expected_on: expectedOn || null } : other
+      ));
+    } catch (error) {
+      console.error('Error updating expected date:', error);
+      showNotification('error', 'Failed to update expected date');
+    }
+  };
+
+  const handleReject = async (request: RestockRequest) => {
+    if (!rejectionReason.trim()) {
+      showNotification('error', 'Please enter a reason for rejecting');
+      return;
+    }
+
+    await updateStatus(request, 'rejected', rejectionReason.trim());
+    setRejectingId(null);
+    setRejectionReason('');
+  };
+
+  const handleFulfil = async (request: RestockRequest) => {
+    try {
+      // Stock is added in the same transaction that closes the request
+      const { error } = await supabase.rpc('fulfil_request', {
+        p_request_id: request.id,
+        p_received: request.request_items.map(line => ({
+          request_item_id: line.id,
+          received_quantity: toBase(receivedQuantities[line.id] ?? 0, receivedUnit(line)),
+        })),
+      });
+
+      if (error) throw error;
+      showNotification('success', `Received "${describeRequest(request)}" into stock`);
+      setFulfillingId(null);
+      fetchRequests();
+    } catch (error) {
+      console.error('Error fulfilling request:', error);
+      showNotification('error', errorMessage(error, 'request'));
+    }
+  };
+
+  const startFulfil = (request: RestockRequest) => {
+    setRejectingId(null);
+    setFulfillingId(request.id);
+    // Requested quantities start in the purchase unit when they're whole packs
+    const expected = request.request_items.map(line => {
+      const unit = purchaseUnit(line.inventory);
+      return line.quantity % unit.factor === 0
+        ? { line, unit: unit.name, quantity: line.quantity / unit.factor }
+        : { line, unit: '', quantity: line.quantity };
+    });
+    setReceivedQuantities(Object.fromEntries(expected.map(({ line, quantity }) => [line.id, quantity])));
+    setReceivedUnits(Object.fromEntries(expected.map(({ line, unit }) => [line.id, unit])));
+  };
+
+  const receivedUnit = (line: RequestLine) => findUnit(line.inventory, receivedUnits[line.id] ?? '');
+
+  const startReject = (request: RestockRequest) => {
+    setFulfillingId(null);
+    setRejectingId(request.id);
+    setRejectionReason('');
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 md:p-8">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <Link href="/admin" className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-700 font-semibold mb-4">
+            <ArrowLeft className="w-5 h-5" />
+            Back to Dashboard
+          </Link>
+          <h1 className="text-4xl font-bold text-gray-800 mb-2">Request Queue</h1>
+          <p className="text-gray-600 text-lg">Review, approve and fulfil restock requests</p>
+        </div>
+
+        {/* Notification */}
+        {notification && (
+          <div className={`mb-6 rounded-2xl p-6 flex items-center gap-4 ${
+            notification.type === 'success' ? 'bg-green-50 border-4 border-green-500' : 'bg-red-50 border-4 border-red-500'
+          }`}>
+            {notification.type === 'success' ? (
+              <CheckCircle className="w-8 h-8 text-green-600" />
+            ) : (
+              <AlertTriangle className="w-8 h-8 text-red-600" />
+            )}
+            <p className={`text-xl font-semibold ${
+              notification.type === 'success' ? 'text-green-800' : 'text-red-800'
+            }`}>
+              {notification.message}
+            </p>
+          </div>
+        )}
+
+        {/* Status Tabs */}
+        <div className="flex flex-wrap gap-2 mb-6">
+          {STATUS_TABS.map(tab => (
+            <button
+              key={tab.value}
+              onClick={() => setStatusFilter(tab.value)}
+              className={`px-5 py-3 rounded-xl font-semibold transition-all active:scale-95 ${
+                statusFilter === tab.value
+                  ? 'bg-blue-600 text-white shadow-lg'
+                  : 'bg-white text-gray-700 hover:bg-gray-100 shadow-md'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Requests List */}
+        {loading ? (
+          <div className="bg-white rounded-2xl shadow-md p-12 text-center">
+            <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-blue-600 mx-auto"></div>
+          </div>
+        ) : requests.length === 0 ? (
+          <div className="bg-white rounded-2xl shadow-md p-12 text-center">
+            <p className="text-xl text-gray-500">No {statusFilter === 'all' ? '' : statusFilter} requests.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {requests.map(request => {
+              const isOpen = request.status === 'pending' || request.status === 'approved' || request.status === 'ordered';
+
+              return (
+                <div key={request.id} className="bg-white rounded-2xl shadow-md p-6">
+                  <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                    <div>
+                      <div className="flex items-center gap-3 mb-1">
+                        <h3 className="text-2xl font-bold text-gray-800">{describeRequest(request)}</h3>
+                        <span className={`px-3 py-1 rounded-full text-sm font-semibold ${REQUEST_STATUS_STYLES[request.status]}`}>
+                          {REQUEST_STATUS_LABELS[request.status]}
+                        </span>
+                      </div>
+                      <p className="text-gray-600">
+                        {request.requester_name && <>{request.requester_name} · </>}
+                        {request.request_items.length} {request.request_items.length === 1 ? 'item' : 'items'} ·{' '}
+                        {new Date(request.created_at).toLocaleString()}
+                      </p>
+                      <ul className="mt-3 space-y-1">
+                        {request.request_items.map(line => (
+                          <li key={line.id} className="text-lg text-gray-800">
+                            <span className="font-semibold">{line.quantity}</span> × {line.item_name}
+                            {line.category && <span className="text-gray-500"> · {line.category}</span>}
+                            {line.received_quantity != null && (
+                              <span className="text-green-700"> · received {line.received_quantity}</span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                      {request.notes && (
+                        <p className="mt-2 text-gray-700 bg-gray-50 rounded-xl px-4 py-3">{request.notes}</p>
+                      )}
+                      {request.status === 'rejected' && request.rejection_reason && (
+                        <p className="mt-2 text-red-700">Rejected: {request.rejection_reason}</p>
+                      )}
+                      {(request.status === 'approved' || request.status === 'ordered') && (
+                        <label className="mt-3 flex items-center gap-2 text-gray-700 font-semibold">
+                          <CalendarClock className="w-5 h-5 text-blue-600" />
+                          Expected
+                          <input
+                            type="date"
+                            value={request.expected_on ?? ''}
+                            onChange={(e) => updateExpectedOn(request, e.target.value)}
+                            className="px-3 py-2 border-2 border-gray-300 rounded-xl font-normal focus:outline-none focus:ring-4 focus:ring-blue-500"
+                          />
+                        </label>
+                      )}
+                    </div>
+
+                    {isOpen && (
+                      <div className="flex flex-wrap gap-2 md:justify-end">
+                        {request.status === 'pending' && (
+                          <button
+                            onClick={() => updateStatus(request, 'approved')}
+                            className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 px-5 rounded-xl flex items-center gap-2 transition-all active:scale-95"
+                          >
+                            <Check className="w-5 h-5" />
+                            Approve
+                          </button>
+                        )}
+                        {request.status === 'approved' && (
+                          <button
+                            onClick={() => updateStatus(request, 'ordered')}
+                            className="bg-purple-600 hover:bg-purple-700 text-white font-bold py-3 px-5 rounded-xl flex items-center gap-2 transition-all active:scale-95"
+                          >
+                            <Truck className="w-5 h-5" />
+                            Mark Ordered
+                          </button>
+                        )}
+                        {request.status !== 'pending' && (
+                          <button
+                            onClick={() => startFulfil(request)}
+                            className="bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-5 rounded-xl flex items-center gap-2 transition-all active:scale-95"
+                          >
+                            <PackageCheck className="w-5 h-5" />
+                            Mark Fulfilled
+                          </button>
+                        )}
+                        {request.status !== 'ordered' && (
+                          <button
+                            onClick={() => startReject(request)}
+                            className="bg-gray-200 hover:bg-gray-300 text-gray-700 font-bold py-3 px-5 rounded-xl flex items-center gap-2 transition-all active:scale-95"
+                          >
+                            <X className="w-5 h-5" />
+                            Reject
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Reject Form */}
+                  {rejectingId === request.id && (
+                    <div className="mt-4 border-t-2 border-gray-100 pt-4 flex flex-col md:flex-row gap-3">
+                      <input
+                        type="text"
+                        value={rejectionReason}
+                        onChange={(e) => setRejectionReason(e.target.value)}
+                        placeholder="Reason for rejecting"
+                        className="flex-1 px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                      />
+                      <button
+                        onClick={() => handleReject(request)}
+                        className="bg-red-600 hover:bg-red-700 text-white font-bold py-4 px-6 rounded-xl transition-all active:scale-95"
+                      >
+                        Confirm Reject
+                      </button>
+                      <button
+                        onClick={() => setRejectingId(null)}
+                        className="px-6 bg-gray-200 hover:bg-gray-300 text-gray-700 font-bold py-4 rounded-xl transition-all active:scale-95"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+
+                  {/* Fulfil Form */}
+                  {fulfillingId === request.id && (
+                    <div className="mt-4 border-t-2 border-gray-100 pt-4 space-y-3">
+                      <p className="text-lg font-semibold text-gray-700">Quantity received</p>
+                      {request.request_items.map(line => (
+                        <div key={line.id} className="flex items-center gap-3">
+                          <span className="flex-1 text-lg text-gray-800">{line.item_name}</span>
+                          <input
+                            type="number"
+                            min="0"
+                            value={receivedQuantities[line.id] ?? 0}
+                            onChange={(e) => setReceivedQuantities({
+                              ...receivedQuantities,
+                              [line.id]: parseInt(e.target.value) || 0,
+                            })}
+                            className="w-32 px-4 py-3 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                          />
+                          <UnitSelect
+                            item={line.inventory}
+                            value={receivedUnit(line).name}
+                            onChange={(unit) => setReceivedUnits({ ...receivedUnits, [line.id]: unit })}
+                            className="w-40 px-3 py-3 text-lg"
+                          />
+                        </div>
+                      ))}
+                      <div className="flex flex-col md:flex-row gap-3">
+                        <button
+                          onClick={() => handleFulfil(request)}
+                          className="bg-green-600 hover:bg-green-700 text-white font-bold py-4 px-6 rounded-xl transition-all active:scale-95"
+                        >
+                          Add to Stock
+                        </button>
+                        <button
+                          onClick={() => setFulfillingId(null)}
+                          className="px-6 bg-gray-200 hover:bg-gray-300 text-gray-700 font-bold py-4 rounded-xl transition-all active:scale-95"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Comments */}
+                  <div className="mt-4 border-t-2 border-gray-100 pt-4">
+                    <button
+                      onClick={() => setCommentsOpenId(commentsOpenId === request.id ? null : request.id)}
+                      className="flex items-center gap-2 text-blue-600 hover:text-blue-700 font-semibold"
+                    >
+                      <MessageSquare className="w-5 h-5" />
+                      {commentsOpenId === request.id ? 'Hide comments' : 'Comments'}
+                    </button>
+                    {commentsOpenId === request.id && (
+                      <div className="mt-3">
+                        <RequestComments requestId={request.id} />
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,312 @@
+// src/app/admin/suppliers/page.tsx
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Plus, Edit2, Save, X, ExternalLink, CheckCircle, AlertTriangle } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { Supplier } from '@/lib/purchasing';
+
+const EMPTY_FORM = {
+  name: '',
+  contact_name: '',
+  email: '',
+  phone: '',
+  ordering_url: '',
+  lead_time_days: 7,
+  notes: '',
+};
+
+export default function SuppliersPage() {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  useEffect(() => {
+    fetchSuppliers();
+  }, []);
+
+  const fetchSuppliers = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('suppliers')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      setSuppliers(data || []);
+    } catch (error) {
+      console.error('Error fetching suppliers:', error);
+      showNotification('error', 'Failed to load suppliers');
+    }
+    setLoading(false);
+  };
+
+  const showNotification = (type: 'success' | 'error', message: string) => {
+    setNotification({ type, message });
+    setTimeout(() => setNotification(null), 3000);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      if (editingId) {
+        const { error } = await supabase
+          .from('suppliers')
+          .update(formData)
+          .eq('id', editingId);
+
+        if (error) throw error;
+        showNotification('success', 'Supplier updated successfully');
+      } else {
+        const { error } = await supabase
+          .from('suppliers')
+          .insert([formData]);
+
+        if (error) throw error;
+        showNotification('success', 'Supplier added successfully');
+      }
+
+      resetForm();
+      fetchSuppliers();
+    } catch (error) {
+      console.error('Error saving supplier:', error);
+      showNotification('error', 'Failed to save supplier');
+    }
+  };
+
+  const handleEdit = (supplier: Supplier) => {
+    setEditingId(supplier.id);
+    setFormData({
+      name: supplier.name,
+      contact_name: supplier.contact_name || '',
+      email: supplier.email || '',
+      phone: supplier.phone || '',
+      ordering_url: supplier.ordering_url || '',
+      lead_time_days: supplier.lead_time_days,
+      notes: supplier.notes || '',
+    });
+    setShowForm(true);
+  };
+
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
+    setEditingId(null);
+    setShowForm(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 md:p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <Link href="/admin" className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-700 font-semibold mb-4">
+            <ArrowLeft className="w-5 h-5" />
+            Back to Dashboard
+          </Link>
+          <h1 className="text-4xl font-bold text-gray-800 mb-2">Suppliers</h1>
+          <p className="text-gray-600 text-lg">Who we order from and how long they take</p>
+        </div>
+
+        {/* Notification */}
+        {notification && (
+          <div className={`mb-6 rounded-2xl p-6 flex items-center gap-4 ${
+            notification.type === 'success' ? 'bg-green-50 border-4 border-green-500' : 'bg-red-50 border-4 border-red-500'
+          }`}>
+            {notification.type === 'success' ? (
+              <CheckCircle className="w-8 h-8 text-green-600" />
+            ) : (
+              <AlertTriangle className="w-8 h-8 text-red-600" />
+            )}
+            <p className={`text-xl font-semibold ${
+              notification.type === 'success' ? 'text-green-800' : 'text-red-800'
+            }`}>
+              {notification.message}
+            </p>
+          </div>
+        )}
+
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="mb-6 bg-blue-600 hover:bg-blue-700 text-white font-bold py-4 px-8 rounded-xl text-lg flex items-center gap-3 transition-all active:scale-95 shadow-lg"
+          >
+            <Plus className="w-6 h-6" />
+            Add Supplier
+          </button>
+        )}
+
+        {/* Add/Edit Form */}
+        {showForm && (
+          <div className="bg-white rounded-2xl shadow-md p-6 md:p-8 mb-8">
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="text-3xl font-bold text-gray-800">
+                {editingId ? 'Edit Supplier' : 'Add Supplier'}
+              </h2>
+              <button onClick={resetForm} className="text-gray-500 hover:text-gray-700">
+                <X className="w-8 h-8" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <label className="block text-lg font-semibold text-gray-700 mb-3">Name *</label>
+                  <input
+                    type="text"
+                    required
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-lg font-semibold text-gray-700 mb-3">Contact Name</label>
+                  <input
+                    type="text"
+                    value={formData.contact_name}
+                    onChange={(e) => setFormData({ ...formData, contact_name: e.target.value })}
+                    className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-lg font-semibold text-gray-700 mb-3">Email</label>
+                  <input
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                    className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-lg font-semibold text-gray-700 mb-3">Phone</label>
+                  <input
+                    type="tel"
+                    value={formData.phone}
+                    onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                    className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-lg font-semibold text-gray-700 mb-3">Ordering URL</label>
+                  <input
+                    type="url"
+                    value={formData.ordering_url}
+                    onChange={(e) => setFormData({ ...formData, ordering_url: e.target.value })}
+                    placeholder="https://supplier.example.com/order"
+                    className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-lg font-semibold text-gray-700 mb-3">Lead Time (days) *</label>
+                  <input
+                    type="number"
+                    required
+                    min="0"
+                    value={formData.lead_time_days}
+                    onChange={(e) => setFormData({ ...formData, lead_time_days: parseInt(e.target.value) || 0 })}
+                    className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-lg font-semibold text-gray-700 mb-3">Notes</label>
+                <textarea
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  rows={2}
+                  className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                />
+              </div>
+
+              <div className="flex gap-4">
+                <button
+                  type="submit"
+                  className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-bold py-4 px-6 rounded-xl text-xl flex items-center justify-center gap-3 transition-all active:scale-95 shadow-lg"
+                >
+                  <Save className="w-6 h-6" />
+                  {editingId ? 'Update Supplier' : 'Add Supplier'}
+                </button>
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="px-8 bg-gray-200 hover:bg-gray-300 text-gray-700 font-bold py-4 rounded-xl text-xl transition-all active:scale-95"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        {/* Suppliers List */}
+        <div className="bg-white rounded-2xl shadow-md overflow-hidden">
+          {loading ? (
+            <div className="p-12 text-center">
+              <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-blue-600 mx-auto"></div>
+            </div>
+          ) : suppliers.length === 0 ? (
+            <div className="p-12 text-center">
+              <p className="text-xl text-gray-500">No suppliers yet.</p>
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">Supplier</th>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">Contact</th>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">Lead Time</th>
+                  <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {suppliers.map(supplier => (
+                  <tr key={supplier.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <p className="font-semibold text-gray-800">{supplier.name}</p>
+                      {supplier.notes && <p className="text-sm text-gray-500">{supplier.notes}</p>}
+                    </td>
+                    <td className="px-6 py-4 text-gray-700">
+                      {supplier.contact_name && <p>{supplier.contact_name}</p>}
+                      {supplier.email && <p className="text-sm">{supplier.email}</p>}
+                      {supplier.phone && <p className="text-sm">{supplier.phone}</p>}
+                    </td>
+                    <td className="px-6 py-4 text-gray-700">{supplier.lead_time_days} days</td>
+                    <td className="px-6 py-4">
+                      <div className="flex justify-end gap-2">
+                        {supplier.ordering_url && (
+                          <a
+                            href={supplier.ordering_url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-all"
+                            title="Ordering site"
+                          >
+                            <ExternalLink className="w-5 h-5" />
+                          </a>
+                        )}
+                        <button
+                          onClick={() => handleEdit(supplier)}
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-all"
+                          title="Edit"
+                        >
+                          <Edit2 className="w-5 h-5" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+// src/app/api/notifications/dispatch/route.ts
+//
+// Called by a scheduler: every few minutes for webhooks, and once a day with
+// ?digest=1 for the email digest. Requires `Authorization: Bearer
+// $NOTIFICATIONS_CRON_SECRET`.
+//
+// Set NOTIFICATION_TRANSPORT=http (with EMAIL_API_URL, EMAIL_API_KEY and
+// EMAIL_FROM) to send for real. Otherwise the stand-in outbox is used: nothing
+// is sent and the messages come back in the response.
+
+import { lookup } from 'node:dns/promises';
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import {
+  NotificationTransport,
+  OutboxMessage,
+  createHttpTransport,
+  createOutboxTransport,
+  HostResolver,
+  dispatchNotifications,
+} from '@/lib/notifications';
+
+export const dynamic = 'force-dynamic';
+
+const resolveHost: HostResolver = async hostname =>
+  (await lookup(hostname, { all: true })).map(entry => entry.address);
+
+export async function POST(request: Request) {
+  const secret = process.env.NOTIFICATIONS_CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const client = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { persistSession: false } }
+  );
+
+  let transport: NotificationTransport;
+  let outbox: OutboxMessage[] | undefined;
+  if (process.env.NOTIFICATION_TRANSPORT === 'http') {
+    transport = createHttpTransport({
+      apiUrl: process.env.EMAIL_API_URL!,
+      apiKey: process.env.EMAIL_API_KEY!,
+      from: process.env.EMAIL_FROM!,
+    });
+  } else {
+    const standIn = createOutboxTransport();
+    transport = standIn;
+    outbox = standIn.messages;
+  }
+
+  try {
+    const digest = new URL(request.url).searchParams.get('digest') === '1';
+    const result = await dispatchNotifications(client, transport, { digest, resolveHost });
+    return NextResponse.json({ ...result, outbox });
+  } catch (error) {
+    console.error('Error dispatching notifications:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
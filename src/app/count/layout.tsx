@@ -0,0 +1,8 @@
+// src/app/count/layout.tsx
+import React from 'react';
+import RequireRole from '@/components/RequireRole';
+import { ALL_ROLES } from '@/lib/auth';
+
+export default function CountLayout({ children }: { children: React.ReactNode }) {
+  return <RequireRole roles={ALL_ROLES}>{children}</RequireRole>;
+}
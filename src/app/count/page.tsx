@@ -0,0 +1,577 @@
+// src/app/count/page.tsx
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, ClipboardCheck, Plus, CheckCircle, AlertCircle, Ban } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { MANAGER_ROLES, useAuth } from '@/lib/auth';
+import { StorageLocation } from '@/lib/stock';
+import { Category, categoryLabel, sortCategories } from '@/lib/categories';
+import { findItemByCode } from '@/lib/barcode';
+import {
+  CountLine,
+  CountSession,
+  COUNT_STATUS_LABELS,
+  COUNT_STATUS_STYLES,
+  countScope,
+  countVariance,
+  entryBy,
+  withEntry,
+} from '@/lib/counts';
+import { enqueue, loadCached, saveCached } from '@/lib/offline';
+import { isOfflineError } from '@/lib/errors';
+import { findUnit, formatQuantity, toBase } from '@/lib/units';
+import ScanInput from '@/components/ScanInput';
+import UnitSelect from '@/components/UnitSelect';
+import SyncStatus from '@/components/SyncStatus';
+
+const SESSION_SELECT = '*, categories(name), locations(name), count_lines(*, count_entries(*), inventory(name, sku, barcode, base_unit, item_units(*)))';
+
+export default function CountPage() {
+  const { profile } = useAuth();
+  const isManager = !!profile && MANAGER_ROLES.includes(profile.role);
+
+  const [sessions, setSessions] = useState<CountSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [showStartForm, setShowStartForm] = useState(false);
+  const [startForm, setStartForm] = useState({ name: '', category_id: '', location_id: '' });
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  // Counts can be typed in any unit of the item; lines not listed are in the base unit
+  const [countUnits, setCountUnits] = useState<Record<string, string>>({});
+  const [onlyUncounted, setOnlyUncounted] = useState(false);
+  const [approvalReason, setApprovalReason] = useState('');
+  const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  useEffect(() => {
+    fetchSessions();
+    fetchScopes();
+  }, []);
+
+  const fetchSessions = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('count_sessions')
+        .select(SESSION_SELECT)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setSessions(data || []);
+      saveCached('count-sessions', data || []);
+    } catch (error) {
+      console.error('Error fetching count sessions:', error);
+      const cached = loadCached<CountSession[]>('count-sessions');
+      if (cached) {
+        setSessions(cached.data);
+        showNotification('error', `Can't reach the server. Showing counts as of ${new Date(cached.savedAt).toLocaleString()}.`);
+      } else {
+        showNotification('error', 'Failed to load counts');
+      }
+    }
+    setLoading(false);
+  };
+
+  const fetchScopes = async () => {
+    const [categoriesResult, locationsResult] = await Promise.all([
+      supabase.from('categories').select('*').order('name'),
+      supabase.from('locations').select('*').order('name'),
+    ]);
+
+    if (categoriesResult.error || locationsResult.error) {
+      console.error('Error fetching categories and locations:', categoriesResult.error || locationsResult.error);
+      return;
+    }
+    setCategories(categoriesResult.data || []);
+    setLocations(locationsResult.data || []);
+  };
+
+  const showNotification = (type: 'success' | 'error', message: string) => {
+    setNotification({ type, message });
+    setTimeout(() => setNotification(null), 4000);
+  };
+
+  const active = sessions.find(session => session.id === activeId) ?? null;
+  const activeLines = active
+    ? [...active.count_lines].sort((a, b) => (a.inventory?.name ?? '').localeCompare(b.inventory?.name ?? ''))
+    : [];
+
+  const openSession = (id: string) => {
+    setActiveId(id);
+    setDrafts({});
+    setOnlyUncounted(false);
+    setApprovalReason('');
+  };
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const { data, error } = await supabase.rpc('start_count_session', {
+        p_name: startForm.name,
+        p_category_id: startForm.category_id || null,
+        p_location_id: startForm.location_id || null,
+      });
+
+      if (error) throw error;
+      setShowStartForm(false);
+      setStartForm({ name: '', category_id: '', location_id: '' });
+      await fetchSessions();
+      openSession(data);
+    } catch (error) {
+      console.error('Error starting count:', error);
+      const message = (error as { message?: string })?.message;
+      showNotification('error', message ? `Failed to start count: ${message}` : 'Failed to start count');
+    }
+  };
+
+  const lineUnit = (line: CountLine) => findUnit(line.inventory, countUnits[line.id] ?? '');
+
+  // The box holds this person's own count; other people's add to the total
+  const myCount = (line: CountLine) => entryBy(line, profile?.id)?.quantity ?? null;
+
+  // A saved count is shown in the line's unit when it divides evenly, otherwise
+  // the box is left empty and the breakdown below it shows what was saved
+  const countedInUnit = (line: CountLine) => {
+    const mine = myCount(line);
+    if (mine === null) return '';
+    const { factor } = lineUnit(line);
+    return mine % factor === 0 ? mine / factor : '';
+  };
+
+  const saveCount = async (line: CountLine) => {
+    const draft = drafts[line.id];
+    if (draft === undefined || !profile) return;
+
+    const entered = draft.trim() === '' ? null : parseInt(draft);
+    if (entered !== null && (isNaN(entered) || entered < 0)) {
+      showNotification('error', 'Counts must be zero or more');
+      return;
+    }
+    const counted = entered === null ? null : toBase(entered, lineUnit(line));
+    if (counted === myCount(line)) return;
+
+    const clearDraft = () => setDrafts(current => {
+      const { [line.id]: _saved, ...rest } = current;
+      return rest;
+    });
+
+    try {
+      const { error } = await supabase.rpc('record_count', {
+        p_line_id: line.id,
+        p_counted: counted,
+      });
+
+      if (error) throw error;
+      clearDraft();
+      fetchSessions();
+    } catch (error) {
+      console.error('Error saving count:', error);
+      if (isOfflineError(error) && active) {
+        enqueue({
+          id: crypto.randomUUID(),
+          kind: 'record_count',
+          queuedAt: new Date().toISOString(),
+          lineId: line.id,
+          itemName: line.inventory?.name ?? 'Item',
+          sessionName: active.name,
+          countedBy: profile.id,
+          counted,
+        });
+        // Show the count as entered until the queue has sent it
+        setSessions(current => current.map(session => ({
+          ...session,
+          count_lines: session.count_lines.map(other =>
+            other.id === line.id ? withEntry(other, profile.id, counted) : other
+          ),
+        })));
+        clearDraft();
+      } else {
+        showNotification('error', `Failed to save the count for ${line.inventory?.name}`);
+      }
+    }
+  };
+
+  // A scanned item jumps to its line so the count can be typed straight in
+  const handleScan = (code: string) => {
+    const line = activeLines.find(candidate => candidate.inventory && findItemByCode([candidate.inventory], code));
+    if (!line) {
+      showNotification('error', `"${code}" isn't part of this count`);
+      return;
+    }
+    setOnlyUncounted(false);
+    setTimeout(() => document.getElementById(`count-${line.id}`)?.focus(), 0);
+  };
+
+  const handleApprove = async () => {
+    if (!active) return;
+    const uncounted = active.count_lines.filter(line => line.counted_quantity === null).length;
+    if (!confirm(
+      uncounted > 0
+        ? `${uncounted} items haven't been counted and will be left unchanged. Approve anyway?`
+        : 'Post the differences to stock?'
+    )) return;
+
+    try {
+      const { data, error } = await supabase.rpc('approve_count_session', {
+        p_session_id: active.id,
+        p_reason: approvalReason,
+      });
+
+      if (error) throw error;
+      showNotification('success', `Count approved; ${data} adjustments posted`);
+      fetchSessions();
+    } catch (error) {
+      console.error('Error approving count:', error);
+      showNotification('error', 'Failed to approve count');
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!active || !confirm(`Cancel "${active.name}"? Nothing will be posted.`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('count_sessions')
+        .update({ status: 'cancelled' })
+        .eq('id', active.id);
+
+      if (error) throw error;
+      showNotification('success', 'Count cancelled');
+      fetchSessions();
+    } catch (error) {
+      console.error('Error cancelling count:', error);
+      showNotification('error', 'Failed to cancel count');
+    }
+  };
+
+  const countedCount = activeLines.filter(line => line.counted_quantity !== null).length;
+  const varianceLines = activeLines.filter(line => (countVariance(line) ?? 0) !== 0);
+  const netVariance = varianceLines.reduce((total, line) => total + (countVariance(line) ?? 0), 0);
+  const shownLines = onlyUncounted ? activeLines.filter(line => line.counted_quantity === null) : activeLines;
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 md:p-8">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          {active && (
+            <button
+              onClick={() => setActiveId(null)}
+              className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-700 font-semibold mb-4"
+            >
+              <ArrowLeft className="w-5 h-5" />
+              All Counts
+            </button>
+          )}
+          <h1 className="text-4xl font-bold text-gray-800 mb-2">{active ? active.name : 'Stock Counts'}</h1>
+          <p className="text-gray-600 text-lg">
+            {active ? countScope(active) : 'Count what is on the shelves and reconcile the differences'}
+          </p>
+        </div>
+
+        <SyncStatus onSynced={fetchSessions} />
+
+        {/* Notification */}
+        {notification && (
+          <div className={`mb-6 rounded-2xl p-6 flex items-center gap-4 ${
+            notification.type === 'success' ? 'bg-green-50 border-4 border-green-500' : 'bg-red-50 border-4 border-red-500'
+          }`}>
+            {notification.type === 'success' ? (
+              <CheckCircle className="w-8 h-8 text-green-600" />
+            ) : (
+              <AlertCircle className="w-8 h-8 text-red-600" />
+            )}
+            <p className={`text-xl font-semibold ${
+              notification.type === 'success' ? 'text-green-800' : 'text-red-800'
+            }`}>
+              {notification.message}
+            </p>
+          </div>
+        )}
+
+        {!active ? (
+          <>
+            {isManager && !showStartForm && (
+              <button
+                onClick={() => setShowStartForm(true)}
+                className="mb-6 bg-blue-600 hover:bg-blue-700 text-white font-bold py-4 px-8 rounded-xl text-lg flex items-center gap-3 transition-all active:scale-95 shadow-lg"
+              >
+                <Plus className="w-6 h-6" />
+                Start a Count
+              </button>
+            )}
+
+            {/* Start Form */}
+            {showStartForm && (
+              <form onSubmit={handleStart} className="bg-white rounded-2xl shadow-md p-6 md:p-8 mb-8 space-y-6">
+                <h2 className="text-3xl font-bold text-gray-800">Start a Count</h2>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                  <div>
+                    <label className="block text-lg font-semibold text-gray-700 mb-3">Name</label>
+                    <input
+                      type="text"
+                      value={startForm.name}
+                      onChange={(e) => setStartForm({ ...startForm, name: e.target.value })}
+                      placeholder="e.g. October stock-take"
+                      className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-lg font-semibold text-gray-700 mb-3">Category</label>
+                    <select
+                      value={startForm.category_id}
+                      onChange={(e) => setStartForm({ ...startForm, category_id: e.target.value })}
+                      className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                    >
+                      <option value="">All categories</option>
+                      {sortCategories(categories).map(category => (
+                        <option key={category.id} value={category.id}>{categoryLabel(categories, category.id)}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-lg font-semibold text-gray-700 mb-3">Location</label>
+                    <select
+                      value={startForm.location_id}
+                      onChange={(e) => setStartForm({ ...startForm, location_id: e.target.value })}
+                      className="w-full px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                    >
+                      <option value="">All locations (item totals)</option>
+                      {locations.map(location => (
+                        <option key={location.id} value={location.id}>{location.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <p className="text-gray-600">
+                  Expected quantities are frozen when the count starts. Approving brings each counted item to
+                  the quantity found, allowing for stock used or received while counting.
+                </p>
+                <div className="flex gap-4">
+                  <button
+                    type="submit"
+                    className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-bold py-4 px-6 rounded-xl text-xl flex items-center justify-center gap-3 transition-all active:scale-95 shadow-lg"
+                  >
+                    <ClipboardCheck className="w-6 h-6" />
+                    Start Counting
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setShowStartForm(false)}
+                    className="px-8 bg-gray-200 hover:bg-gray-300 text-gray-700 font-bold py-4 rounded-xl text-xl transition-all active:scale-95"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            )}
+
+            {/* Sessions */}
+            <div className="bg-white rounded-2xl shadow-md overflow-hidden">
+              {loading ? (
+                <div className="p-12 text-center">
+                  <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-blue-600 mx-auto"></div>
+                </div>
+              ) : sessions.length === 0 ? (
+                <div className="p-12 text-center">
+                  <p className="text-xl text-gray-500">No counts yet.</p>
+                </div>
+              ) : (
+                <div className="divide-y divide-gray-200">
+                  {sessions.map(session => {
+                    const counted = session.count_lines.filter(line => line.counted_quantity !== null).length;
+
+                    return (
+                      <button
+                        key={session.id}
+                        onClick={() => openSession(session.id)}
+                        className="w-full text-left px-6 py-4 hover:bg-gray-50 flex items-center justify-between gap-4"
+                      >
+                        <div>
+                          <p className="text-xl font-semibold text-gray-800">{session.name}</p>
+                          <p className="text-gray-600">
+                            {countScope(session)} · started {new Date(session.created_at).toLocaleDateString()}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <span className="text-gray-600">{counted}/{session.count_lines.length} counted</span>
+                          <span className={`px-3 py-1 rounded-full text-sm font-semibold ${COUNT_STATUS_STYLES[session.status]}`}>
+                            {COUNT_STATUS_LABELS[session.status]}
+                          </span>
+                        </div>
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </>
+        ) : (
+          <>
+            {/* Progress */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+              <div className="bg-white rounded-2xl shadow-md p-6">
+                <p className="text-gray-600 text-sm font-semibold">Status</p>
+                <span className={`inline-block mt-2 px-3 py-1 rounded-full text-lg font-semibold ${COUNT_STATUS_STYLES[active.status]}`}>
+                  {COUNT_STATUS_LABELS[active.status]}
+                </span>
+              </div>
+              <div className="bg-white rounded-2xl shadow-md p-6">
+                <p className="text-gray-600 text-sm font-semibold">Counted</p>
+                <p className="text-4xl font-bold text-blue-600 mt-2">{countedCount}/{activeLines.length}</p>
+              </div>
+              {isManager && (
+                <div className="bg-white rounded-2xl shadow-md p-6">
+                  <p className="text-gray-600 text-sm font-semibold">Items Off</p>
+                  <p className="text-4xl font-bold text-orange-600 mt-2">
+                    {varianceLines.length}
+                    <span className="text-lg text-gray-600 font-semibold"> · net {netVariance > 0 ? `+${netVariance}` : netVariance}</span>
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {active.status === 'approved' && (
+              <p className="mb-6 bg-green-50 border-2 border-green-500 text-green-800 font-semibold rounded-xl px-4 py-3">
+                Approved {active.approved_at && new Date(active.approved_at).toLocaleString()}
+                {active.approval_reason && ` · ${active.approval_reason}`}
+              </p>
+            )}
+
+            {active.status === 'counting' && (
+              <div className="mb-6 flex flex-col md:flex-row gap-4 md:items-center">
+                <div className="flex-1">
+                  <ScanInput onScan={handleScan} />
+                </div>
+                <label className="flex items-center gap-2 text-gray-700 font-semibold">
+                  <input
+                    type="checkbox"
+                    checked={onlyUncounted}
+                    onChange={(e) => setOnlyUncounted(e.target.checked)}
+                    className="w-5 h-5"
+                  />
+                  Only uncounted
+                </label>
+              </div>
+            )}
+
+            {/* Lines */}
+            <div className="bg-white rounded-2xl shadow-md overflow-hidden mb-6">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">Item</th>
+                    {isManager && <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Expected</th>}
+                    <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Counted</th>
+                    {isManager && <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Variance</th>}
+                    <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">Counted By</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {shownLines.map(line => {
+                    const variance = countVariance(line);
+                    const hasPackSizes = (line.inventory?.item_units?.length ?? 0) > 0;
+
+                    return (
+                      <tr key={line.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-3 font-semibold text-gray-800">{line.inventory?.name}</td>
+                        {isManager && (
+                          <td className="px-6 py-3 text-right text-gray-700">
+                            {line.expected_quantity}
+                            {hasPackSizes && <p className="text-sm text-gray-500">{formatQuantity(line.expected_quantity, line.inventory)}</p>}
+                          </td>
+                        )}
+                        <td className="px-6 py-3 text-right">
+                          {active.status === 'counting' ? (
+                            <div className="flex justify-end gap-2">
+                              <input
+                                id={`count-${line.id}`}
+                                type="number"
+                                min="0"
+                                value={drafts[line.id] ?? countedInUnit(line)}
+                                onChange={(e) => setDrafts({ ...drafts, [line.id]: e.target.value })}
+                                onBlur={() => saveCount(line)}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+                                }}
+                                className="w-28 px-3 py-2 text-lg text-right border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                              />
+                              {hasPackSizes && (
+                                <UnitSelect
+                                  item={line.inventory}
+                                  value={lineUnit(line).name}
+                                  onChange={(unit) => setCountUnits({ ...countUnits, [line.id]: unit })}
+                                  className="px-2 py-2"
+                                />
+                              )}
+                            </div>
+                          ) : (
+                            <span className="text-lg font-semibold">{line.counted_quantity ?? '—'}</span>
+                          )}
+                          {active.status === 'counting' && line.counted_quantity !== null && line.counted_quantity !== myCount(line) ? (
+                            <p className="text-sm text-gray-500">
+                              Total {hasPackSizes ? formatQuantity(line.counted_quantity, line.inventory) : line.counted_quantity}
+                            </p>
+                          ) : hasPackSizes && line.counted_quantity !== null && (
+                            <p className="text-sm text-gray-500">{formatQuantity(line.counted_quantity, line.inventory)}</p>
+                          )}
+                        </td>
+                        {isManager && (
+                          <td className={`px-6 py-3 text-right font-semibold ${
+                            variance === null || variance === 0 ? 'text-gray-500' : variance < 0 ? 'text-red-700' : 'text-green-700'
+                          }`}>
+                            {variance === null ? '—' : variance > 0 ? `+${variance}` : variance}
+                          </td>
+                        )}
+                        <td className="px-6 py-3 text-gray-600">
+                          {(line.count_entries ?? []).map(entry => (
+                            <p key={entry.counted_by}>
+                              {entry.counted_by_name ?? 'Someone'}
+                              {(line.count_entries?.length ?? 0) > 1 && `: ${entry.quantity}`}
+                              <span className="text-sm text-gray-500"> · {new Date(entry.counted_at).toLocaleTimeString()}</span>
+                            </p>
+                          ))}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Approval */}
+            {isManager && active.status === 'counting' && (
+              <div className="bg-white rounded-2xl shadow-md p-6 flex flex-col md:flex-row gap-4">
+                <input
+                  type="text"
+                  value={approvalReason}
+                  onChange={(e) => setApprovalReason(e.target.value)}
+                  placeholder="Reason for the adjustments (optional)"
+                  className="flex-1 px-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                />
+                <button
+                  onClick={handleApprove}
+                  disabled={countedCount === 0}
+                  className="bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white font-bold py-4 px-6 rounded-xl text-lg flex items-center justify-center gap-2 transition-all active:scale-95"
+                >
+                  <CheckCircle className="w-6 h-6" />
+                  Approve &amp; Post
+                </button>
+                <button
+                  onClick={handleCancel}
+                  className="bg-gray-200 hover:bg-gray-300 text-gray-700 font-bold py-4 px-6 rounded-xl text-lg flex items-center justify-center gap-2 transition-all active:scale-95"
+                >
+                  <Ban className="w-6 h-6" />
+                  Cancel Count
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
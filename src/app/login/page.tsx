@@ -0,0 +1,146 @@
+// src/app/login/page.tsx
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { LogIn, UserPlus, AlertCircle, CheckCircle } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+
+export default function LoginPage() {
+  const router = useRouter();
+  const [mode, setMode] = useState<'sign-in' | 'sign-up'>('sign-in');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [fullName, setFullName] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setNotification(null);
+
+    try {
+      if (mode === 'sign-in') {
+        const { error } = await supabase.auth.signInWithPassword({ email, password });
+        if (error) throw error;
+
+        const next = new URLSearchParams(window.location.search).get('next');
+        router.replace(next && next.startsWith('/') ? next : '/request');
+      } else {
+        // New accounts start as requesters; an admin can raise the role later
+        const { error } = await supabase.auth.signUp({
+          email,
+          password,
+          options: { data: { full_name: fullName } },
+        });
+        if (error) throw error;
+
+        setNotification({ type: 'success', message: 'Account created. Check your email to confirm, then sign in.' });
+        setMode('sign-in');
+      }
+    } catch (error) {
+      console.error('Error signing in:', error);
+      setNotification({
+        type: 'error',
+        message: mode === 'sign-in' ? 'Incorrect email or password' : 'Failed to create account',
+      });
+    }
+
+    setSubmitting(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 md:p-8 flex items-center justify-center">
+      <div className="w-full max-w-lg">
+        <div className="mb-8 text-center">
+          <h1 className="text-4xl font-bold text-gray-800 mb-2">
+            {mode === 'sign-in' ? 'Sign In' : 'Create Account'}
+          </h1>
+          <p className="text-gray-600 text-lg">Clinic inventory</p>
+        </div>
+
+        {/* Notification */}
+        {notification && (
+          <div className={`mb-6 rounded-2xl p-6 flex items-center gap-4 ${
+            notification.type === 'success' ? 'bg-green-50 border-4 border-green-500' : 'bg-red-50 border-4 border-red-500'
+          }`}>
+            {notification.type === 'success' ? (
+              <CheckCircle className="w-8 h-8 text-green-600" />
+            ) : (
+              <AlertCircle className="w-8 h-8 text-red-600" />
+            )}
+            <p className={`text-xl font-semibold ${
+              notification.type === 'success' ? 'text-green-800' : 'text-red-800'
+            }`}>
+              {notification.message}
+            </p>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-md p-6 md:p-8 space-y-6">
+          {mode === 'sign-up' && (
+            <div>
+              <label className="block text-lg font-semibold text-gray-700 mb-3">
+                Full Name *
+              </label>
+              <input
+                type="text"
+                required
+                value={fullName}
+                onChange={(e) => setFullName(e.target.value)}
+                className="w-full px-6 py-5 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-lg font-semibold text-gray-700 mb-3">
+              Email *
+            </label>
+            <input
+              type="email"
+              required
+              autoComplete="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full px-6 py-5 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-lg font-semibold text-gray-700 mb-3">
+              Password *
+            </label>
+            <input
+              type="password"
+              required
+              minLength={8}
+              autoComplete={mode === 'sign-in' ? 'current-password' : 'new-password'}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full px-6 py-5 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-bold py-6 px-6 rounded-xl text-2xl flex items-center justify-center gap-3 transition-all active:scale-95 shadow-lg disabled:cursor-not-allowed"
+          >
+            {mode === 'sign-in' ? <LogIn className="w-7 h-7" /> : <UserPlus className="w-7 h-7" />}
+            <span>{mode === 'sign-in' ? 'Sign In' : 'Create Account'}</span>
+          </button>
+
+          <button
+            type="button"
+            onClick={() => setMode(mode === 'sign-in' ? 'sign-up' : 'sign-in')}
+            className="w-full text-blue-600 hover:text-blue-700 font-semibold text-lg"
+          >
+            {mode === 'sign-in' ? 'Need an account? Create one' : 'Already have an account? Sign in'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+// src/app/request/mine/page.tsx
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Ban, MessageSquare, CalendarClock, CheckCircle, AlertCircle } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/lib/auth';
+import {
+  RestockRequest,
+  REQUEST_STATUS_LABELS,
+  REQUEST_STATUS_STYLES,
+  REQUEST_TIMELINE,
+  describeRequest,
+} from '@/lib/requests';
+import RequestComments from '@/components/RequestComments';
+
+export default function MyRequestsPage() {
+  const { profile } = useAuth();
+  const [requests, setRequests] = useState<RestockRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [commentsOpenId, setCommentsOpenId] = useState<string | null>(null);
+  const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  useEffect(() => {
+    if (profile) fetchRequests(profile.id);
+  }, [profile]);
+
+  const fetchRequests = async (userId: string) => {
+    setLoading(true);
+    try {
+      // Managers can read every request, so ask for this user's explicitly
+      const { data, error } = await supabase
+        .from('requests')
+        .select('*, request_items(*), request_status_history(*)')
+        .eq('requested_by', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setRequests(data || []);
+    } catch (error) {
+      console.error('Error fetching requests:', error);
+      showNotification('error', 'Failed to load your requests');
+    }
+    setLoading(false);
+  };
+
+  const showNotification = (type: 'success' | 'error', message: string) => {
+    setNotification({ type, message });
+    setTimeout(() => setNotification(null), 4000);
+  };
+
+  const handleCancel = async (request: RestockRequest) => {
+    if (!profile || !confirm(`Cancel your request for ${describeRequest(request)}?`)) return;
+
+    try {
+      const { error } = await supabase.rpc('cancel_request', { p_request_id: request.id });
+
+      if (error) throw error;
+      showNotification('success', 'Request cancelled');
+      fetchRequests(profile.id);
+    } catch (error) {
+      console.error('Error cancelling request:', error);
+      showNotification('error', 'Failed to cancel request. It may already have been approved.');
+      fetchRequests(profile.id);
+    }
+  };
+
+  // When each step of the normal path was reached, plus the step that ended it
+  // early if it was rejected or cancelled
+  const timelineFor = (request: RestockRequest) => {
+    const history = [...(request.request_status_history ?? [])]
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+    const reachedAt = (status: string) => history.find(change => change.status === status);
+
+    const stopped = request.status === 'rejected' || request.status === 'cancelled';
+    const steps = REQUEST_TIMELINE
+      .filter(status => !stopped || reachedAt(status))
+      .map(status => ({ status, change: reachedAt(status) }));
+
+    return stopped ? [...steps, { status: request.status, change: reachedAt(request.status) }] : steps;
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 md:p-8">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <Link href="/request" className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-700 font-semibold mb-4">
+            <ArrowLeft className="w-5 h-5" />
+            New Request
+          </Link>
+          <h1 className="text-4xl font-bold text-gray-800 mb-2">My Requests</h1>
+          <p className="text-gray-600 text-lg">Follow what happened to the things you asked for</p>
+        </div>
+
+        {/* Notification */}
+        {notification && (
+          <div className={`mb-6 rounded-2xl p-6 flex items-center gap-4 ${
+            notification.type === 'success' ? 'bg-green-50 border-4 border-green-500' : 'bg-red-50 border-4 border-red-500'
+          }`}>
+            {notification.type === 'success' ? (
+              <CheckCircle className="w-8 h-8 text-green-600" />
+            ) : (
+              <AlertCircle className="w-8 h-8 text-red-600" />
+            )}
+            <p className={`text-xl font-semibold ${
+              notification.type === 'success' ? 'text-green-800' : 'text-red-800'
+            }`}>
+              {notification.message}
+            </p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="bg-white rounded-2xl shadow-md p-12 text-center">
+            <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-blue-600 mx-auto"></div>
+          </div>
+        ) : requests.length === 0 ? (
+          <div className="bg-white rounded-2xl shadow-md p-12 text-center">
+            <p className="text-xl text-gray-500">You haven&apos;t made any requests yet.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {requests.map(request => (
+              <div key={request.id} className="bg-white rounded-2xl shadow-md p-6">
+                <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                  <div>
+                    <div className="flex items-center gap-3 mb-1">
+                      <h3 className="text-2xl font-bold text-gray-800">{describeRequest(request)}</h3>
+                      <span className={`px-3 py-1 rounded-full text-sm font-semibold ${REQUEST_STATUS_STYLES[request.status]}`}>
+                        {REQUEST_STATUS_LABELS[request.status]}
+                      </span>
+                    </div>
+                    <p className="text-gray-600">Submitted {new Date(request.created_at).toLocaleString()}</p>
+                    <ul className="mt-3 space-y-1">
+                      {request.request_items.map(line => (
+                        <li key={line.id} className="text-lg text-gray-800">
+                          <span className="font-semibold">{line.quantity}</span> × {line.item_name}
+                          {line.received_quantity != null && (
+                            <span className="text-green-700"> · received {line.received_quantity}</span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                    {request.expected_on && (request.status === 'approved' || request.status === 'ordered') && (
+                      <p className="mt-3 flex items-center gap-2 text-blue-700 font-semibold">
+                        <CalendarClock className="w-5 h-5" />
+                        Expected {new Date(`${request.expected_on}T00:00:00`).toLocaleDateString()}
+                      </p>
+                    )}
+                    {request.status === 'rejected' && request.rejection_reason && (
+                      <p className="mt-2 text-red-700">Rejected: {request.rejection_reason}</p>
+                    )}
+                  </div>
+
+                  {request.status === 'pending' && (
+                    <button
+                      onClick={() => handleCancel(request)}
+                      className="bg-gray-200 hover:bg-gray-300 text-gray-700 font-bold py-3 px-5 rounded-xl flex items-center gap-2 transition-all active:scale-95 self-start"
+                    >
+                      <Ban className="w-5 h-5" />
+                      Cancel Request
+                    </button>
+                  )}
+                </div>
+
+                {/* Timeline */}
+                <ol className="mt-6 grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {timelineFor(request).map(({ status, change }) => (
+                    <li
+                      key={status}
+                      className={`rounded-xl px-4 py-3 border-2 ${
+                        change ? 'border-transparent ' + REQUEST_STATUS_STYLES[status] : 'border-dashed border-gray-200 text-gray-400'
+                      }`}
+                    >
+                      <p className="font-semibold">{REQUEST_STATUS_LABELS[status]}</p>
+                      <p className="text-sm">
+                        {change ? new Date(change.created_at).toLocaleDateString() : 'Not yet'}
+                      </p>
+                    </li>
+                  ))}
+                </ol>
+
+                {/* Comments */}
+                <div className="mt-4 border-t-2 border-gray-100 pt-4">
+                  <button
+                    onClick={() => setCommentsOpenId(commentsOpenId === request.id ? null : request.id)}
+                    className="flex items-center gap-2 text-blue-600 hover:text-blue-700 font-semibold"
+                  >
+                    <MessageSquare className="w-5 h-5" />
+                    {commentsOpenId === request.id ? 'Hide comments' : 'Comments'}
+                  </button>
+                  {commentsOpenId === request.id && (
+                    <div className="mt-3">
+                      <RequestComments requestId={request.id} />
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
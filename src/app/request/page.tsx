@@ -1,92 +1,308 @@
 // src/app/request/page.tsx
 'use client';
 
-import React, { useState, useEffect } from 'react';
-import { Send, Package, CheckCircle, AlertCircle } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import { Send, Package, CheckCircle, AlertCircle, AlertTriangle, Plus, Trash2, ShoppingCart, ListChecks, Boxes } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/lib/auth';
+import { OPEN_REQUEST_STATUSES, OpenRequestQuantity, RestockRequest, REQUEST_STATUS_LABELS } from '@/lib/requests';
+import { enqueue, loadCached, saveCached } from '@/lib/offline';
+import { errorMessage, isOfflineError } from '@/lib/errors';
+import { parseQuantity } from '@/lib/schemas';
+import { InventoryItem, createSupabaseRepository } from '@/lib/repository';
+import { applyChange, useHighlights, useTableChanges } from '@/lib/realtime';
+import { CartLine, loadCart, saveCart, addToCart } from '@/lib/cart';
+import { findItemByCode } from '@/lib/barcode';
+import { Category, categoryLabel, categoryWithChildren, sortCategories } from '@/lib/categories';
+import { Kit, kitShortfall } from '@/lib/kits';
+import { ItemLocation, StorageLocation } from '@/lib/stock';
+import { baseUnit, findUnit, formatQuantity, issueUnit, toBase } from '@/lib/units';
+import ScanInput from '@/components/ScanInput';
+import UnknownCode from '@/components/UnknownCode';
+import UnitSelect from '@/components/UnitSelect';
+import SyncStatus from '@/components/SyncStatus';
 
-interface InventoryItem {
-  id: string;
-  name: string;
-  category: string;
-  quantity: number;
-  threshold: number;
-}
+const repository = createSupabaseRepository(supabase);
 
 export default function RequestPage() {
+  const { profile } = useAuth();
   const [items, setItems] = useState<InventoryItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedItem, setSelectedItem] = useState<string>('');
-  const [quantity, setQuantity] = useState(1);
+  // Kept as typed and checked when used, so a blank or bad value isn't silently turned into 1
+  const [quantity, setQuantity] = useState('1');
+  const [lineDrafts, setLineDrafts] = useState<Record<string, string>>({});
+  const [unit, setUnit] = useState('');
+  const [cart, setCart] = useState<CartLine[]>([]);
+  const [cartLoaded, setCartLoaded] = useState(false);
   const [notes, setNotes] = useState('');
+  const [unknownCode, setUnknownCode] = useState<string | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [categoryFilter, setCategoryFilter] = useState('');
+  const [groupBy, setGroupBy] = useState<'stock' | 'category'>('stock');
+  const [openRequests, setOpenRequests] = useState<RestockRequest[]>([]);
+  const [openQuantities, setOpenQuantities] = useState<OpenRequestQuantity[]>([]);
+  const [kits, setKits] = useState<Kit[]>([]);
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [itemLocations, setItemLocations] = useState<ItemLocation[]>([]);
+  const [kitChoice, setKitChoice] = useState({ kitId: '', locationId: '' });
   const [submitting, setSubmitting] = useState(false);
+  const { highlighted, highlight } = useHighlights();
+  const latestItems = useRef(items);
+  latestItems.current = items;
   const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
 
   useEffect(() => {
     fetchItems();
+    fetchKits();
+    setCart(loadCart());
+    setCartLoaded(true);
   }, []);
 
+  useEffect(() => {
+    if (cartLoaded) saveCart(cart);
+  }, [cart, cartLoaded]);
+
+  useEffect(() => {
+    if (profile) fetchOpenRequests(profile.id);
+  }, [profile]);
+
+  // Stock used or restocked on another device shows up here straight away
+  useTableChanges<InventoryItem>('inventory', change => {
+    if (change.eventType === 'UPDATE') {
+      const before = latestItems.current.find(item => item.id === change.new.id);
+      if (before && before.quantity !== change.new.quantity) highlight(change.new.id);
+    }
+    setItems(current =>
+      applyChange(current, change, (a, b) => a.id === b.id)
+        .filter(item => !item.archived_at)
+        .sort((a, b) => a.name.localeCompare(b.name))
+    );
+  });
+  useTableChanges('requests', () => {
+    if (profile) fetchOpenRequests(profile.id);
+  });
+
   const fetchItems = async () => {
     setLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('inventory')
-        .select('*')
-        .order('name');
+      const [inventory, categoriesResult] = await Promise.all([
+        repository.listItems(),
+        supabase.from('categories').select('*').order('name'),
+      ]);
       
-      if (error) throw error;
-      setItems(data || []);
+      if (categoriesResult.error) throw categoriesResult.error;
+      setItems(inventory);
+      setCategories(categoriesResult.data || []);
+      saveCached('request-page', { items: inventory, categories: categoriesResult.data || [] });
     } catch (error) {
       console.error('Error fetching items:', error);
+      const cached = loadCached<{ items: InventoryItem[]; categories: Category[] }>('request-page');
+      if (cached) {
+        setItems(cached.data.items);
+        setCategories(cached.data.categories);
+        showNotification('error', `Can't reach the server. Showing stock as of ${new Date(cached.savedAt).toLocaleString()}.`);
+      } else {
+        showNotification('error', "Can't reach the server to load inventory.");
+      }
     }
     setLoading(false);
   };
 
+  // This user's requests that are still in progress, plus what all staff
+  // have asked for between them, to catch the same thing being asked twice
+  const fetchOpenRequests = async (userId: string) => {
+    const [mineResult, quantitiesResult] = await Promise.all([
+      supabase
+        .from('requests')
+        .select('*, request_items(*)')
+        .eq('requested_by', userId)
+        .in('status', OPEN_REQUEST_STATUSES),
+      supabase.rpc('open_request_quantities'),
+    ]);
+
+    if (mineResult.error || quantitiesResult.error) {
+      console.error('Error fetching open requests:', mineResult.error || quantitiesResult.error);
+      return;
+    }
+    setOpenRequests(mineResult.data || []);
+    setOpenQuantities(quantitiesResult.data || []);
+  };
+
+  // Kits and room stock only drive the kit shortcut, so a failure here
+  // leaves the rest of the page usable
+  const fetchKits = async () => {
+    const [kitsResult, locationsResult, stockResult] = await Promise.all([
+      supabase.from('kits').select('*, kit_items(*)').order('name'),
+      supabase.from('locations').select('*').order('name'),
+      supabase.from('item_locations').select('*'),
+    ]);
+
+    if (kitsResult.error || locationsResult.error || stockResult.error) {
+      console.error('Error fetching kits:', kitsResult.error || locationsResult.error || stockResult.error);
+      return;
+    }
+    setKits(kitsResult.data || []);
+    setLocations(locationsResult.data || []);
+    setItemLocations(stockResult.data || []);
+  };
+
   const showNotification = (type: 'success' | 'error', message: string) => {
     setNotification({ type, message });
     setTimeout(() => setNotification(null), 4000);
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
+  const itemById = (id: string) => items.find(item => item.id === id);
+
+  // A newly chosen item starts in the unit it's usually handed out in
+  const chooseItem = (itemId: string) => {
+    setSelectedItem(itemId);
+    setUnit(issueUnit(itemById(itemId)).name);
+  };
+
+  const categoryName = (item: InventoryItem) => categoryLabel(categories, item.category_id);
+
+  const openRequestFor = (itemId: string) =>
+    openRequests.find(request => request.request_items.some(line => line.item_id === itemId));
+
+  const openQuantityFor = (itemId: string) => openQuantities.find(entry => entry.item_id === itemId);
+
+  const handleAddToCart = () => {
     if (!selectedItem) {
       showNotification('error', 'Please select an item');
       return;
     }
 
+    let amount: number;
+    try {
+      amount = parseQuantity(quantity, 'Quantity', 1);
+    } catch (error) {
+      showNotification('error', errorMessage(error, 'request'));
+      return;
+    }
+
+    // The cart holds base units whatever unit the request was entered in
+    setCart(current => addToCart(current, selectedItem, toBase(amount, findUnit(itemById(selectedItem), unit))));
+    chooseItem('');
+    setQuantity('1');
+  };
+
+  const handleScan = (code: string) => {
+    const item = findItemByCode(items, code);
+    if (!item) {
+      setUnknownCode(code);
+      return;
+    }
+
+    setUnknownCode(null);
+    chooseItem(item.id);
+  };
+
+  const updateCartLine = (itemId: string, newQuantity: number) => {
+    setCart(current => current.map(line => (line.itemId === itemId ? { ...line, quantity: newQuantity } : line)));
+  };
+
+  // A line's edited quantity is saved when the box loses focus; a bad one is
+  // reported and the line keeps what it had
+  const saveLineDraft = (itemId: string) => {
+    const draft = lineDrafts[itemId];
+    if (draft === undefined) return;
+
+    setLineDrafts(current => {
+      const { [itemId]: _saved, ...rest } = current;
+      return rest;
+    });
+    try {
+      updateCartLine(itemId, parseQuantity(draft, 'Quantity', 1));
+    } catch (error) {
+      showNotification('error', errorMessage(error, 'request'));
+    }
+  };
+
+  const chosenKit = kits.find(kit => kit.id === kitChoice.kitId);
+  const chosenLocation = locations.find(location => location.id === kitChoice.locationId);
+
+  // What the chosen room is short of against the kit's par levels. Archived
+  // items are no longer in `items` and are left out.
+  const kitMissing = chosenKit && chosenLocation
+    ? kitShortfall(chosenKit, itemId =>
+        itemLocations.find(row => row.item_id === itemId && row.location_id === chosenLocation.id)?.quantity ?? 0
+      ).filter(line => itemById(line.itemId))
+    : [];
+
+  const handleApplyKit = () => {
+    if (!chosenKit || !chosenLocation) return;
+    if (kitMissing.length === 0) {
+      showNotification('success', `${chosenLocation.name} is already at "${chosenKit.name}" par`);
+      return;
+    }
+
+    setCart(current => kitMissing.reduce((lines, line) => addToCart(lines, line.itemId, line.quantity), current));
+    setNotes(current => current || `Restock ${chosenLocation.name} to "${chosenKit.name}" par`);
+    setKitChoice({ kitId: '', locationId: '' });
+    showNotification('success', `Added ${kitMissing.length} items to bring ${chosenLocation.name} up to par`);
+  };
+
+  const removeCartLine = (itemId: string) => {
+    setCart(current => current.filter(line => line.itemId !== itemId));
+  };
+
+  // Lines for items that have since been removed from inventory are skipped
+  const cartLines = cart.filter(line => itemById(line.itemId));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const duplicates = cartLines.filter(line => openRequestFor(line.itemId) || openQuantityFor(line.itemId));
+    if (duplicates.length > 0 && !confirm(
+      `There's already an open request for ${duplicates.map(line => itemById(line.itemId)!.name).join(', ')}. Submit anyway?`
+    )) {
+      return;
+    }
+
     setSubmitting(true);
+
+    // The same id is used if this has to be queued, so a replay can't create it twice
+    const clientRef = crypto.randomUUID();
+    const resetForm = () => {
+      setCart([]);
+      setSelectedItem('');
+      setQuantity('1');
+      setNotes('');
+    };
     
     try {
-      const selectedItemData = items.find(item => item.id === selectedItem);
-      
-      const { error } = await supabase
-        .from('requests')
-        .insert([
-          {
-            item_id: selectedItem,
-            item_name: selectedItemData?.name,
-            category: selectedItemData?.category,
-            quantity: quantity,
-            notes: notes,
-            status: 'pending',
-          }
-        ]);
-      
-      if (error) throw error;
+      await repository.submitRequest({
+        lines: cartLines.map(line => ({ item_id: line.itemId, quantity: line.quantity })),
+        notes,
+        client_ref: clientRef,
+      });
       
-      showNotification('success', 'Request submitted successfully!');
-      
-      // Reset form
-      setSelectedItem('');
-      setQuantity(1);
-      setNotes('');
+      showNotification('success', 'Request submitted! Follow it under My Requests.');
+      resetForm();
       
       // Refresh items to get updated quantities
       fetchItems();
+      if (profile) fetchOpenRequests(profile.id);
     } catch (error) {
       console.error('Error submitting request:', error);
-      showNotification('error', 'Failed to submit request. Please try again.');
+      if (isOfflineError(error)) {
+        enqueue({
+          id: clientRef,
+          kind: 'submit_request',
+          queuedAt: new Date().toISOString(),
+          notes,
+          lines: cartLines.map(line => {
+            const item = itemById(line.itemId)!;
+            return { itemId: item.id, itemName: item.name, quantity: line.quantity, stockWhenQueued: item.quantity };
+          }),
+        });
+        showNotification('success', 'No connection. Your request is saved on this device and will be sent automatically.');
+        resetForm();
+      } else {
+        showNotification('error', errorMessage(error, 'request'));
+      }
     }
     
     setSubmitting(false);
@@ -96,15 +312,45 @@ export default function RequestPage() {
   const lowStockItems = items.filter(item => item.quantity <= item.threshold);
   const outOfStockItems = items.filter(item => item.quantity === 0);
 
+  // The picker can be narrowed to a category (and its subcategories) and grouped
+  // either by how urgently items are needed or by category
+  const pickerItems = categoryFilter
+    ? items.filter(item => categoryWithChildren(categories, categoryFilter).includes(item.category_id))
+    : items;
+  const pickerCategoryGroups = sortCategories(categories)
+    .map(category => ({ category, items: pickerItems.filter(item => item.category_id === category.id) }))
+    .filter(group => group.items.length > 0);
+
   return (
     <div className="min-h-screen bg-gray-50 p-4 md:p-8">
       <div className="max-w-4xl mx-auto">
         {/* Header */}
-        <div className="mb-8">
-          <h1 className="text-4xl font-bold text-gray-800 mb-2">Request Items</h1>
-          <p className="text-gray-600 text-lg">Submit a request to restock inventory items</p>
+        <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold text-gray-800 mb-2">Request Items</h1>
+            <p className="text-gray-600 text-lg">Submit a request to restock inventory items</p>
+          </div>
+          <Link
+            href="/request/mine"
+            className="bg-white hover:bg-gray-100 text-gray-800 font-bold py-4 px-6 rounded-xl text-lg flex items-center gap-3 transition-all active:scale-95 shadow-md"
+          >
+            <ListChecks className="w-6 h-6 text-blue-600" />
+            My Requests
+            {openRequests.length > 0 && (
+              <span className="px-3 py-1 bg-blue-100 text-blue-700 rounded-full text-sm font-semibold">
+                {openRequests.length} open
+              </span>
+            )}
+          </Link>
         </div>
 
+        <SyncStatus
+          onSynced={() => {
+            fetchItems();
+            if (profile) fetchOpenRequests(profile.id);
+          }}
+        />
+
         {/* Notification */}
         {notification && (
           <div className={`mb-6 rounded-2xl p-6 flex items-center gap-4 ${
@@ -145,55 +391,148 @@ export default function RequestPage() {
         {/* Request Form */}
         <div className="bg-white rounded-2xl shadow-md p-6 md:p-8">
           <h2 className="text-3xl font-bold text-gray-800 mb-6">Submit Request</h2>
+
+          {/* Scan sits outside the request form so Enter doesn't submit it */}
+          <div className="mb-6">
+            <ScanInput onScan={handleScan} />
+            {unknownCode && <UnknownCode code={unknownCode} onDismiss={() => setUnknownCode(null)} />}
+          </div>
+
+          {/* Kit */}
+          {kits.length > 0 && (
+            <div className="mb-6 bg-gray-50 rounded-xl p-4">
+              <h3 className="text-lg font-semibold text-gray-700 mb-3 flex items-center gap-2">
+                <Boxes className="w-5 h-5" />
+                Restock a Room From a Kit
+              </h3>
+              <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-3">
+                <select
+                  value={kitChoice.kitId}
+                  onChange={(e) => setKitChoice({ ...kitChoice, kitId: e.target.value })}
+                  className="px-4 py-3 text-lg border-2 border-gray-300 rounded-xl bg-white focus:outline-none focus:ring-4 focus:ring-blue-500"
+                >
+                  <option value="">Choose a kit...</option>
+                  {kits.map(kit => (
+                    <option key={kit.id} value={kit.id}>{kit.name}</option>
+                  ))}
+                </select>
+                <select
+                  value={kitChoice.locationId}
+                  onChange={(e) => setKitChoice({ ...kitChoice, locationId: e.target.value })}
+                  className="px-4 py-3 text-lg border-2 border-gray-300 rounded-xl bg-white focus:outline-none focus:ring-4 focus:ring-blue-500"
+                >
+                  <option value="">For which room...</option>
+                  {locations.map(location => (
+                    <option key={location.id} value={location.id}>{location.name}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={handleApplyKit}
+                  disabled={!chosenKit || !chosenLocation}
+                  className="bg-gray-800 hover:bg-gray-900 disabled:bg-gray-400 text-white font-bold py-3 px-6 rounded-xl text-lg flex items-center justify-center gap-2 transition-all active:scale-95 disabled:cursor-not-allowed"
+                >
+                  <Plus className="w-5 h-5" />
+                  Add What&apos;s Missing
+                </button>
+              </div>
+              {chosenKit && chosenLocation && (
+                <p className="mt-3 text-gray-600">
+                  {kitMissing.length === 0
+                    ? `${chosenLocation.name} has everything in this kit.`
+                    : `Missing: ${kitMissing.map(line => `${formatQuantity(line.quantity, itemById(line.itemId))} × ${itemById(line.itemId)!.name}`).join(', ')}`}
+                </p>
+              )}
+            </div>
+          )}
           
           <form onSubmit={handleSubmit} className="space-y-6">
             {/* Item Selection */}
             <div>
-              <label className="block text-lg font-semibold text-gray-700 mb-3">
-                Select Item *
-              </label>
+              <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-3 mb-3">
+                <label className="block text-lg font-semibold text-gray-700">
+                  Select Item
+                </label>
+                <div className="flex flex-wrap gap-2">
+                  <select
+                    value={categoryFilter}
+                    onChange={(e) => setCategoryFilter(e.target.value)}
+                    className="px-4 py-2 border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                  >
+                    <option value="">All categories</option>
+                    {sortCategories(categories).map(category => (
+                      <option key={category.id} value={category.id}>{categoryLabel(categories, category.id)}</option>
+                    ))}
+                  </select>
+                  {(['stock', 'category'] as const).map(mode => (
+                    <button
+                      key={mode}
+                      type="button"
+                      onClick={() => setGroupBy(mode)}
+                      className={`px-4 py-2 rounded-xl font-semibold transition-all ${
+                        groupBy === mode ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {mode === 'stock' ? 'By stock level' : 'By category'}
+                    </button>
+                  ))}
+                </div>
+              </div>
               <select
-                required
                 value={selectedItem}
-                onChange={(e) => setSelectedItem(e.target.value)}
+                onChange={(e) => chooseItem(e.target.value)}
                 className="w-full px-6 py-5 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
                 disabled={loading}
               >
                 <option value="">Choose an item...</option>
                 
-                {/* Out of Stock Items */}
-                {outOfStockItems.length > 0 && (
-                  <optgroup label="⛔ OUT OF STOCK - URGENT">
-                    {outOfStockItems.map(item => (
-                      <option key={item.id} value={item.id}>
-                        {item.name} - {item.category} (0 in stock)
-                      </option>
-                    ))}
-                  </optgroup>
-                )}
-                
-                {/* Low Stock Items */}
-                {lowStockItems.filter(item => item.quantity > 0).length > 0 && (
-                  <optgroup label="⚠️ LOW STOCK">
-                    {lowStockItems.filter(item => item.quantity > 0).map(item => (
-                      <option key={item.id} value={item.id}>
-                        {item.name} - {item.category} ({item.quantity} in stock)
-                      </option>
-                    ))}
-                  </optgroup>
-                )}
-                
-                {/* All Other Items */}
-                {items.filter(item => item.quantity > item.threshold).length > 0 && (
-                  <optgroup label="✅ IN STOCK">
-                    {items
-                      .filter(item => item.quantity > item.threshold)
-                      .map(item => (
+                {groupBy === 'category' ? (
+                  pickerCategoryGroups.map(({ category, items: groupItems }) => (
+                    <optgroup key={category.id} label={categoryLabel(categories, category.id)}>
+                      {groupItems.map(item => (
                         <option key={item.id} value={item.id}>
-                          {item.name} - {item.category} ({item.quantity} in stock)
+                          {item.name} ({formatQuantity(item.quantity, item)} in stock)
                         </option>
                       ))}
-                  </optgroup>
+                    </optgroup>
+                  ))
+                ) : (
+                  <>
+                    {/* Out of Stock Items */}
+                    {pickerItems.some(item => item.quantity === 0) && (
+                      <optgroup label="⛔ OUT OF STOCK - URGENT">
+                        {pickerItems.filter(item => item.quantity === 0).map(item => (
+                          <option key={item.id} value={item.id}>
+                            {item.name} - {categoryName(item)} (0 in stock)
+                          </option>
+                        ))}
+                      </optgroup>
+                    )}
+
+                    {/* Low Stock Items */}
+                    {pickerItems.some(item => item.quantity > 0 && item.quantity <= item.threshold) && (
+                      <optgroup label="⚠️ LOW STOCK">
+                        {pickerItems.filter(item => item.quantity > 0 && item.quantity <= item.threshold).map(item => (
+                          <option key={item.id} value={item.id}>
+                            {item.name} - {categoryName(item)} ({formatQuantity(item.quantity, item)} in stock)
+                          </option>
+                        ))}
+                      </optgroup>
+                    )}
+
+                    {/* All Other Items */}
+                    {pickerItems.some(item => item.quantity > item.threshold) && (
+                      <optgroup label="✅ IN STOCK">
+                        {pickerItems
+                          .filter(item => item.quantity > item.threshold)
+                          .map(item => (
+                            <option key={item.id} value={item.id}>
+                              {item.name} - {categoryName(item)} ({formatQuantity(item.quantity, item)} in stock)
+                            </option>
+                          ))}
+                      </optgroup>
+                    )}
+                  </>
                 )}
               </select>
             </div>
@@ -201,16 +540,91 @@ export default function RequestPage() {
             {/* Quantity */}
             <div>
               <label className="block text-lg font-semibold text-gray-700 mb-3">
-                Quantity Needed *
+                Quantity Needed
               </label>
-              <input
-                type="number"
-                required
-                min="1"
-                value={quantity}
-                onChange={(e) => setQuantity(parseInt(e.target.value) || 1)}
-                className="w-full px-6 py-5 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
-              />
+              <div className="flex gap-4">
+                <input
+                  type="number"
+                  min="1"
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  className="flex-1 min-w-0 px-6 py-5 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                />
+                <UnitSelect item={itemById(selectedItem)} value={unit} onChange={setUnit} className="px-4 py-5 text-xl" />
+                <button
+                  type="button"
+                  onClick={handleAddToCart}
+                  className="bg-gray-800 hover:bg-gray-900 text-white font-bold py-5 px-6 rounded-xl text-xl flex items-center justify-center gap-2 transition-all active:scale-95"
+                >
+                  <Plus className="w-6 h-6" />
+                  Add to Request
+                </button>
+              </div>
+            </div>
+
+            {/* Cart */}
+            <div>
+              <h3 className="text-xl font-bold text-gray-800 mb-3 flex items-center gap-2">
+                <ShoppingCart className="w-6 h-6" />
+                Items in This Request ({cartLines.length})
+              </h3>
+              {cartLines.length === 0 ? (
+                <p className="text-lg text-gray-500 bg-gray-50 rounded-xl px-6 py-5">
+                  Nothing added yet. Pick an item above or tap one of the cards below.
+                </p>
+              ) : (
+                <div className="divide-y divide-gray-200 border-2 border-gray-100 rounded-xl">
+                  {cartLines.map(line => {
+                    const item = itemById(line.itemId)!;
+                    const openRequest = openRequestFor(line.itemId);
+                    const openQuantity = openQuantityFor(line.itemId);
+
+                    return (
+                      <div key={line.itemId} className="p-4 flex items-center gap-4">
+                        <div className="flex-1">
+                          <p className="text-xl font-semibold text-gray-800">{item.name}</p>
+                          <p className="text-gray-600">
+                            {categoryName(item)} ·{' '}
+                            <span className={highlighted.includes(item.id) ? 'px-2 rounded-lg bg-blue-200 text-blue-900 font-semibold' : ''}>
+                              {formatQuantity(item.quantity, item)} in stock
+                            </span>
+                          </p>
+                          {openRequest ? (
+                            <p className="flex items-center gap-1 text-yellow-700 font-semibold">
+                              <AlertTriangle className="w-4 h-4" />
+                              Already in your {REQUEST_STATUS_LABELS[openRequest.status].toLowerCase()} request from{' '}
+                              {new Date(openRequest.created_at).toLocaleDateString()}
+                            </p>
+                          ) : openQuantity && (
+                            <p className="flex items-center gap-1 text-yellow-700 font-semibold">
+                              <AlertTriangle className="w-4 h-4" />
+                              {formatQuantity(openQuantity.quantity, item)} already requested by other staff
+                              {openQuantity.request_count > 1 && ` across ${openQuantity.request_count} open requests`}
+                            </p>
+                          )}
+                        </div>
+                        <input
+                          type="number"
+                          min="1"
+                          value={lineDrafts[line.itemId] ?? line.quantity}
+                          onChange={(e) => setLineDrafts({ ...lineDrafts, [line.itemId]: e.target.value })}
+                          onBlur={() => saveLineDraft(line.itemId)}
+                          className="w-28 px-4 py-3 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                        />
+                        <span className="w-16 text-gray-600">{baseUnit(item).name}</span>
+                        <button
+                          type="button"
+                          onClick={() => removeCartLine(line.itemId)}
+                          className="p-3 text-red-600 hover:bg-red-50 rounded-lg transition-all"
+                          title="Remove"
+                        >
+                          <Trash2 className="w-6 h-6" />
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
             </div>
 
             {/* Notes */}
@@ -230,7 +644,7 @@ export default function RequestPage() {
             {/* Submit Button */}
             <button
               type="submit"
-              disabled={submitting}
+              disabled={submitting || cartLines.length === 0}
               className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-bold py-6 px-6 rounded-xl text-2xl flex items-center justify-center gap-3 transition-all active:scale-95 shadow-lg disabled:cursor-not-allowed"
             >
               {submitting ? (
@@ -241,7 +655,7 @@ export default function RequestPage() {
               ) : (
                 <>
                   <Send className="w-7 h-7" />
-                  <span>Submit Request</span>
+                  <span>Submit Request{cartLines.length > 0 && ` (${cartLines.length} items)`}</span>
                 </>
               )}
             </button>
@@ -257,8 +671,9 @@ export default function RequestPage() {
                 <button
                   key={item.id}
                   onClick={() => {
-                    setSelectedItem(item.id);
-                    window.scrollTo({ top: 0, behavior: 'smooth' });
+                    // Default to enough to bring the item back up to its threshold
+                    setCart(current => addToCart(current, item.id, Math.max(item.threshold - item.quantity, 1)));
+                    showNotification('success', `Added "${item.name}" to your request`);
                   }}
                   className={`text-left p-6 rounded-2xl border-4 transition-all hover:scale-105 ${
                     item.quantity === 0
@@ -269,14 +684,21 @@ export default function RequestPage() {
                   <div className="flex items-center justify-between mb-2">
                     <h4 className="font-bold text-lg text-gray-800">{item.name}</h4>
                     <span className={`px-3 py-1 rounded-full text-sm font-semibold ${
+                      highlighted.includes(item.id) ? 'ring-4 ring-blue-400 ' : ''
+                    }${
                       item.quantity === 0
                         ? 'bg-red-200 text-red-800'
                         : 'bg-yellow-200 text-yellow-800'
                     }`}>
-                      {item.quantity} left
+                      {formatQuantity(item.quantity, item)} left
                     </span>
                   </div>
-                  <p className="text-sm text-gray-600">{item.category}</p>
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm text-gray-600">{categoryName(item)}</p>
+                    {cart.some(line => line.itemId === item.id) && (
+                      <span className="text-sm font-semibold text-blue-700">In request</span>
+                    )}
+                  </div>
                 </button>
               ))}
             </div>
@@ -0,0 +1,8 @@
+// src/app/use/layout.tsx
+import React from 'react';
+import RequireRole from '@/components/RequireRole';
+import { ALL_ROLES } from '@/lib/auth';
+
+export default function UseLayout({ children }: { children: React.ReactNode }) {
+  return <RequireRole roles={ALL_ROLES}>{children}</RequireRole>;
+}
@@ -0,0 +1,455 @@
+// src/app/use/page.tsx
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { MinusCircle, Plus, Trash2, CheckCircle, AlertCircle, AlertTriangle, MapPin, Boxes } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { ItemLocation, StorageLocation } from '@/lib/stock';
+import { findItemByCode } from '@/lib/barcode';
+import { Kit, buildableKits, kitLines } from '@/lib/kits';
+import { InventoryItem, createSupabaseRepository } from '@/lib/repository';
+import { baseUnit, findUnit, formatQuantity, issueUnit, toBase } from '@/lib/units';
+import ScanInput from '@/components/ScanInput';
+import UnknownCode from '@/components/UnknownCode';
+import UnitSelect from '@/components/UnitSelect';
+
+interface UseLine {
+  itemId: string;
+  quantity: number;
+}
+
+interface DispenseResult {
+  item_id: string;
+  name: string;
+  quantity: number;
+  threshold: number;
+}
+
+const repository = createSupabaseRepository(supabase);
+
+export default function UseItemsPage() {
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [itemLocations, setItemLocations] = useState<ItemLocation[]>([]);
+  const [locationId, setLocationId] = useState('');
+  const [lines, setLines] = useState<UseLine[]>([]);
+  const [selectedItem, setSelectedItem] = useState('');
+  const [quantity, setQuantity] = useState(1);
+  const [unit, setUnit] = useState('');
+  const [usedFor, setUsedFor] = useState('');
+  const [kits, setKits] = useState<Kit[]>([]);
+  const [kitChoice, setKitChoice] = useState({ kitId: '', count: 1 });
+  const [unknownCode, setUnknownCode] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  useEffect(() => {
+    fetchItems();
+  }, []);
+
+  const fetchItems = async () => {
+    setLoading(true);
+    try {
+      const [inventory, locationsResult, stockResult, kitsResult] = await Promise.all([
+        repository.listItems(),
+        supabase.from('locations').select('*').order('name'),
+        supabase.from('item_locations').select('*').gt('quantity', 0),
+        supabase.from('kits').select('*, kit_items(*)').order('name'),
+      ]);
+
+      if (locationsResult.error) throw locationsResult.error;
+      if (stockResult.error) throw stockResult.error;
+      if (kitsResult.error) throw kitsResult.error;
+
+      const fetchedLocations: StorageLocation[] = locationsResult.data || [];
+      setItems(inventory);
+      setLocations(fetchedLocations);
+      setItemLocations(stockResult.data || []);
+      setKits(kitsResult.data || []);
+      setLocationId(current => current || fetchedLocations.find(location => location.is_default)?.id || '');
+    } catch (error) {
+      console.error('Error fetching items:', error);
+      showNotification('error', 'Failed to load inventory');
+    }
+    setLoading(false);
+  };
+
+  const showNotification = (type: 'success' | 'error', message: string) => {
+    setNotification({ type, message });
+    setTimeout(() => setNotification(null), 5000);
+  };
+
+  const itemById = (id: string) => items.find(item => item.id === id);
+
+  // A newly chosen item starts in the unit it's usually handed out in
+  const chooseItem = (itemId: string) => {
+    setSelectedItem(itemId);
+    setUnit(issueUnit(itemById(itemId)).name);
+  };
+
+  // Stock is taken from the chosen location, so that is what's available
+  const availableAt = (itemId: string) =>
+    itemLocations.find(row => row.item_id === itemId && row.location_id === locationId)?.quantity ?? 0;
+
+  const locationItems = items.filter(item => availableAt(item.id) > 0);
+
+  const mergeLine = (current: UseLine[], itemId: string, lineQuantity: number) => {
+    const existing = current.find(line => line.itemId === itemId);
+    if (existing) {
+      return current.map(line =>
+        line.itemId === itemId ? { ...line, quantity: line.quantity + lineQuantity } : line
+      );
+    }
+    return [...current, { itemId, quantity: lineQuantity }];
+  };
+
+  const addLine = () => {
+    if (!selectedItem) {
+      showNotification('error', 'Please select an item');
+      return;
+    }
+
+    // Lines are in base units, which is what dispense_items takes
+    setLines(current => mergeLine(current, selectedItem, toBase(quantity, findUnit(itemById(selectedItem), unit))));
+    chooseItem('');
+    setQuantity(1);
+  };
+
+  const chosenKit = kits.find(kit => kit.id === kitChoice.kitId);
+
+  // Every component comes from the chosen location, so that bounds how many
+  // can be made up here
+  const kitsHere = (kit: Kit) => buildableKits(kit, itemId => (itemById(itemId) ? availableAt(itemId) : 0));
+
+  // The kit's components become ordinary lines, recorded together with
+  // anything else on the list
+  const addKit = () => {
+    if (!chosenKit) {
+      showNotification('error', 'Please select a kit');
+      return;
+    }
+
+    setLines(current =>
+      kitLines(chosenKit, kitChoice.count).reduce((merged, line) => mergeLine(merged, line.itemId, line.quantity), current)
+    );
+    setKitChoice({ kitId: '', count: 1 });
+  };
+
+  const handleScan = (code: string) => {
+    const item = findItemByCode(items, code);
+    if (!item) {
+      setUnknownCode(code);
+      return;
+    }
+
+    setUnknownCode(null);
+    if (availableAt(item.id) === 0) {
+      showNotification('error', `${item.name} isn't in stock here`);
+      return;
+    }
+    chooseItem(item.id);
+  };
+
+  const updateLine = (itemId: string, newQuantity: number) => {
+    setLines(current => current.map(line => (line.itemId === itemId ? { ...line, quantity: newQuantity } : line)));
+  };
+
+  const removeLine = (itemId: string) => {
+    setLines(current => current.filter(line => line.itemId !== itemId));
+  };
+
+  // Lines asking for more than is on hand cannot be submitted
+  const overdrawnLines = lines.filter(line => line.quantity > availableAt(line.itemId));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (lines.length === 0) {
+      showNotification('error', 'Add at least one item');
+      return;
+    }
+    if (overdrawnLines.length > 0) {
+      showNotification('error', 'Some quantities are more than what is in stock');
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      const { data, error } = await supabase.rpc('dispense_items', {
+        p_lines: lines.map(line => ({ item_id: line.itemId, quantity: line.quantity })),
+        p_reason: usedFor,
+        p_location_id: locationId || null,
+      });
+
+      if (error) throw error;
+
+      const nowLow = ((data || []) as DispenseResult[]).filter(result => result.quantity <= result.threshold);
+      showNotification(
+        'success',
+        nowLow.length > 0
+          ? `Recorded. Now low on: ${nowLow.map(result => result.name).join(', ')}`
+          : 'Usage recorded successfully!'
+      );
+
+      setLines([]);
+      setUsedFor('');
+      fetchItems();
+    } catch (error) {
+      console.error('Error recording usage:', error);
+      const message = (error as { message?: string })?.message;
+      showNotification('error', message ? `Failed to record usage: ${message}` : 'Failed to record usage. Please try again.');
+    }
+
+    setSubmitting(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 md:p-8">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-gray-800 mb-2">Use Items</h1>
+          <p className="text-gray-600 text-lg">Record supplies taken for a room or patient visit</p>
+        </div>
+
+        {/* Notification */}
+        {notification && (
+          <div className={`mb-6 rounded-2xl p-6 flex items-center gap-4 ${
+            notification.type === 'success' ? 'bg-green-50 border-4 border-green-500' : 'bg-red-50 border-4 border-red-500'
+          }`}>
+            {notification.type === 'success' ? (
+              <CheckCircle className="w-8 h-8 text-green-600" />
+            ) : (
+              <AlertCircle className="w-8 h-8 text-red-600" />
+            )}
+            <p className={`text-xl font-semibold ${
+              notification.type === 'success' ? 'text-green-800' : 'text-red-800'
+            }`}>
+              {notification.message}
+            </p>
+          </div>
+        )}
+
+        <div className="bg-white rounded-2xl shadow-md p-6 md:p-8">
+          {/* Location */}
+          {locations.length > 1 && (
+            <div className="mb-6">
+              <label className="block text-lg font-semibold text-gray-700 mb-3">
+                Taken From
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {locations.map(location => (
+                  <button
+                    key={location.id}
+                    type="button"
+                    onClick={() => setLocationId(location.id)}
+                    className={`px-5 py-3 rounded-xl font-semibold flex items-center gap-2 transition-all active:scale-95 ${
+                      locationId === location.id
+                        ? 'bg-blue-600 text-white shadow-lg'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    <MapPin className="w-5 h-5" />
+                    {location.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Scan */}
+          <div className="mb-6">
+            <ScanInput onScan={handleScan} />
+            {unknownCode && <UnknownCode code={unknownCode} onDismiss={() => setUnknownCode(null)} />}
+          </div>
+
+          {/* Add Line */}
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_16rem_auto] gap-4 items-end mb-8">
+            <div>
+              <label className="block text-lg font-semibold text-gray-700 mb-3">
+                Item
+              </label>
+              <select
+                value={selectedItem}
+                onChange={(e) => chooseItem(e.target.value)}
+                className="w-full px-6 py-5 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                disabled={loading}
+              >
+                <option value="">Choose an item...</option>
+                {locationItems.map(item => (
+                  <option key={item.id} value={item.id}>
+                    {item.name} - {item.categories?.name} ({formatQuantity(availableAt(item.id), item)} here)
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-lg font-semibold text-gray-700 mb-3">
+                Quantity
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min="1"
+                  value={quantity}
+                  onChange={(e) => setQuantity(parseInt(e.target.value) || 1)}
+                  className="w-full min-w-0 px-6 py-5 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                />
+                <UnitSelect item={itemById(selectedItem)} value={unit} onChange={setUnit} className="px-3 py-5 text-xl" />
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={addLine}
+              className="bg-gray-800 hover:bg-gray-900 text-white font-bold py-5 px-6 rounded-xl text-xl flex items-center justify-center gap-2 transition-all active:scale-95"
+            >
+              <Plus className="w-6 h-6" />
+              Add
+            </button>
+          </div>
+
+          {/* Add Kit */}
+          {kits.length > 0 && (
+            <div className="mb-8 bg-gray-50 rounded-xl p-4">
+              <h3 className="text-lg font-semibold text-gray-700 mb-3 flex items-center gap-2">
+                <Boxes className="w-5 h-5" />
+                Use a Kit
+              </h3>
+              <div className="grid grid-cols-1 md:grid-cols-[1fr_8rem_auto] gap-3">
+                <select
+                  value={kitChoice.kitId}
+                  onChange={(e) => setKitChoice({ ...kitChoice, kitId: e.target.value })}
+                  className="px-4 py-3 text-lg border-2 border-gray-300 rounded-xl bg-white focus:outline-none focus:ring-4 focus:ring-blue-500"
+                  disabled={loading}
+                >
+                  <option value="">Choose a kit...</option>
+                  {kits.map(kit => (
+                    <option key={kit.id} value={kit.id}>
+                      {kit.name} ({kitsHere(kit)} can be made up here)
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min="1"
+                  value={kitChoice.count}
+                  onChange={(e) => setKitChoice({ ...kitChoice, count: parseInt(e.target.value) || 1 })}
+                  className="px-4 py-3 text-lg border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                />
+                <button
+                  type="button"
+                  onClick={addKit}
+                  className="bg-gray-800 hover:bg-gray-900 text-white font-bold py-3 px-6 rounded-xl text-lg flex items-center justify-center gap-2 transition-all active:scale-95"
+                >
+                  <Plus className="w-5 h-5" />
+                  Add Kit
+                </button>
+              </div>
+              {chosenKit && kitsHere(chosenKit) < kitChoice.count && (
+                <p className="mt-3 text-yellow-700 font-semibold flex items-center gap-2">
+                  <AlertTriangle className="w-5 h-5" />
+                  Only enough here for {kitsHere(chosenKit)}
+                </p>
+              )}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {/* Lines */}
+            {lines.length === 0 ? (
+              <p className="text-xl text-gray-500 text-center py-6">No items added yet.</p>
+            ) : (
+              <div className="divide-y divide-gray-200 border-2 border-gray-100 rounded-xl">
+                {lines.map(line => {
+                  const item = itemById(line.itemId);
+                  if (!item) return null;
+
+                  const available = availableAt(line.itemId);
+                  const overdrawn = line.quantity > available;
+                  // The threshold applies to the item's total across all locations
+                  const remaining = item.quantity - line.quantity;
+                  const willBeLow = !overdrawn && remaining <= item.threshold;
+
+                  return (
+                    <div key={line.itemId} className="p-4 flex flex-col md:flex-row md:items-center gap-4">
+                      <div className="flex-1">
+                        <p className="text-xl font-semibold text-gray-800">{item.name}</p>
+                        <p className="text-gray-600">{formatQuantity(available, item)} here · {formatQuantity(item.quantity, item)} in stock</p>
+                        {overdrawn && (
+                          <p className="mt-1 text-red-700 font-semibold flex items-center gap-2">
+                            <AlertCircle className="w-5 h-5" />
+                            Only {formatQuantity(available, item)} here
+                          </p>
+                        )}
+                        {willBeLow && (
+                          <p className="mt-1 text-yellow-700 font-semibold flex items-center gap-2">
+                            <AlertTriangle className="w-5 h-5" />
+                            {remaining === 0 ? 'This will use the last one' : `Only ${formatQuantity(remaining, item)} will be left (below ${formatQuantity(item.threshold, item)})`}
+                          </p>
+                        )}
+                      </div>
+                      <input
+                        type="number"
+                        min="1"
+                        value={line.quantity}
+                        onChange={(e) => updateLine(line.itemId, parseInt(e.target.value) || 1)}
+                        className={`md:w-32 px-4 py-3 text-xl border-2 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500 ${
+                          overdrawn ? 'border-red-500' : 'border-gray-300'
+                        }`}
+                      />
+                      <span className="md:w-16 text-gray-600">{baseUnit(item).name}</span>
+                      <button
+                        type="button"
+                        onClick={() => removeLine(line.itemId)}
+                        className="p-3 text-red-600 hover:bg-red-50 rounded-lg transition-all self-start md:self-auto"
+                        title="Remove"
+                      >
+                        <Trash2 className="w-6 h-6" />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* Used For */}
+            <div>
+              <label className="block text-lg font-semibold text-gray-700 mb-3">
+                Room or Visit *
+              </label>
+              <input
+                type="text"
+                required
+                value={usedFor}
+                onChange={(e) => setUsedFor(e.target.value)}
+                placeholder="e.g. Exam room 2, visit #1042"
+                className="w-full px-6 py-5 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+              />
+            </div>
+
+            {/* Submit Button */}
+            <button
+              type="submit"
+              disabled={submitting || lines.length === 0 || overdrawnLines.length > 0}
+              className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-bold py-6 px-6 rounded-xl text-2xl flex items-center justify-center gap-3 transition-all active:scale-95 shadow-lg disabled:cursor-not-allowed"
+            >
+              {submitting ? (
+                <>
+                  <div className="animate-spin rounded-full h-7 w-7 border-b-2 border-white"></div>
+                  <span>Recording...</span>
+                </>
+              ) : (
+                <>
+                  <MinusCircle className="w-7 h-7" />
+                  <span>Record Usage</span>
+                </>
+              )}
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+// src/components/Barcode.tsx
+'use client';
+
+import React from 'react';
+import { encodeCode39 } from '@/lib/barcode';
+
+interface BarcodeProps {
+  code: string;
+  height?: number;
+  className?: string;
+}
+
+// Quiet zone on each side, in narrow-module units, so scanners find the edges
+const QUIET_ZONE = 10;
+
+export default function Barcode({ code, height = 40, className }: BarcodeProps) {
+  const encoded = encodeCode39(code);
+
+  if (!encoded) {
+    return <p className="text-sm text-red-700">Can&apos;t print &quot;{code}&quot; as a barcode</p>;
+  }
+
+  const width = encoded.width + QUIET_ZONE * 2;
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="none"
+      className={className}
+      role="img"
+      aria-label={`Barcode ${code}`}
+    >
+      <rect x={0} y={0} width={width} height={height} fill="white" />
+      {encoded.bars.map(bar => (
+        <rect key={bar.x} x={bar.x + QUIET_ZONE} y={0} width={bar.width} height={height} fill="black" />
+      ))}
+    </svg>
+  );
+}
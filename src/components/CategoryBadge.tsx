@@ -0,0 +1,24 @@
+// src/components/CategoryBadge.tsx
+'use client';
+
+import React from 'react';
+import { Category, CATEGORY_COLOR_STYLES, categoryIcon, categoryLabel } from '@/lib/categories';
+
+interface CategoryBadgeProps {
+  categories: Category[];
+  categoryId?: string | null;
+}
+
+export default function CategoryBadge({ categories, categoryId }: CategoryBadgeProps) {
+  const category = categories.find(candidate => candidate.id === categoryId);
+  const Icon = categoryIcon(category);
+
+  return (
+    <span className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-sm ${
+      CATEGORY_COLOR_STYLES[category?.color ?? 'gray']
+    }`}>
+      <Icon className="w-4 h-4" />
+      {categoryLabel(categories, categoryId)}
+    </span>
+  );
+}
@@ -0,0 +1,242 @@
+// src/components/LotsPanel.tsx
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { X, PackagePlus } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { InventoryLot, daysUntil } from '@/lib/stock';
+import { Unitised, findUnit, purchaseUnit, toBase } from '@/lib/units';
+import UnitSelect from '@/components/UnitSelect';
+
+interface LotsPanelProps {
+  itemId: string;
+  itemName: string;
+  // Base unit and pack sizes, so lots can be received in what they're bought in
+  units?: Unitised;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+export default function LotsPanel({ itemId, itemName, units, onClose, onChanged }: LotsPanelProps) {
+  const [lots, setLots] = useState<InventoryLot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [lotNumber, setLotNumber] = useState('');
+  const [expiresOn, setExpiresOn] = useState('');
+  const [quantity, setQuantity] = useState(1);
+  const [unit, setUnit] = useState(purchaseUnit(units).name);
+  const [unitCost, setUnitCost] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchLots();
+  }, [itemId]);
+
+  const fetchLots = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('inventory_lots')
+        .select('*')
+        .eq('item_id', itemId)
+        .order('expires_on', { ascending: true, nullsFirst: false });
+
+      if (error) throw error;
+      setLots(data || []);
+    } catch (error) {
+      console.error('Error fetching lots:', error);
+    }
+    setLoading(false);
+  };
+
+  const handleReceive = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    // The cost is per unit received in, and the ledger keeps it per base unit
+    const receivedIn = findUnit(units, unit);
+    const cost = unitCost.trim() === '' ? null : Number(unitCost);
+    if (cost !== null && (!Number.isFinite(cost) || cost < 0)) {
+      setError('Unit cost must be an amount like 12.50');
+      return;
+    }
+
+    try {
+      const { error } = await supabase.rpc('receive_lot', {
+        p_item_id: itemId,
+        p_lot_number: lotNumber,
+        p_expires_on: expiresOn || null,
+        p_quantity: toBase(quantity, receivedIn),
+        p_unit_cost: cost === null ? null : cost / receivedIn.factor,
+      });
+
+      if (error) throw error;
+      setLotNumber('');
+      setExpiresOn('');
+      setQuantity(1);
+      setUnitCost('');
+      fetchLots();
+      onChanged();
+    } catch (error) {
+      console.error('Error receiving lot:', error);
+      setError('Failed to receive lot');
+    }
+  };
+
+  const handleWriteOff = async (lot: InventoryLot) => {
+    if (!confirm(`Write off ${lot.quantity} from lot "${lot.lot_number}"?`)) return;
+    setError(null);
+
+    try {
+      const { error } = await supabase.rpc('record_stock_movement', {
+        p_item_id: itemId,
+        p_movement_type: 'write_off',
+        p_delta: -lot.quantity,
+        p_reason: lot.expires_on && daysUntil(lot.expires_on) < 0 ? `Expired lot ${lot.lot_number}` : `Wrote off lot ${lot.lot_number}`,
+        p_lot_id: lot.id,
+      });
+
+      if (error) throw error;
+      fetchLots();
+      onChanged();
+    } catch (error) {
+      console.error('Error writing off lot:', error);
+      setError('Failed to write off lot');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl w-full max-w-3xl max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-6 border-b-2 border-gray-100 flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-800">Lots & Expiry</h2>
+            <p className="text-gray-600">{itemName} · drawn first-expiry-first-out</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-8 h-8" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto">
+          {error && (
+            <p className="mx-6 mt-6 bg-red-50 border-2 border-red-500 text-red-800 font-semibold rounded-xl px-4 py-3">{error}</p>
+          )}
+
+          {/* Receive Lot */}
+          <form onSubmit={handleReceive} className="p-6 grid grid-cols-1 md:grid-cols-2 gap-4 items-end border-b-2 border-gray-100">
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Lot Number *</label>
+              <input
+                type="text"
+                required
+                value={lotNumber}
+                onChange={(e) => setLotNumber(e.target.value)}
+                className="w-full px-4 py-3 text-lg border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Expires On</label>
+              <input
+                type="date"
+                value={expiresOn}
+                onChange={(e) => setExpiresOn(e.target.value)}
+                className="w-full px-4 py-3 text-lg border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Quantity *</label>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  required
+                  min="1"
+                  value={quantity}
+                  onChange={(e) => setQuantity(parseInt(e.target.value) || 1)}
+                  className="w-full min-w-0 px-4 py-3 text-lg border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                />
+                <UnitSelect item={units} value={unit} onChange={setUnit} className="px-3 py-3 text-lg" />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Cost per {findUnit(units, unit).name}</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={unitCost}
+                onChange={(e) => setUnitCost(e.target.value)}
+                placeholder="Unknown"
+                className="w-full px-4 py-3 text-lg border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+              />
+            </div>
+            <button
+              type="submit"
+              className="md:col-span-2 bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 px-6 rounded-xl text-lg flex items-center justify-center gap-2 transition-all active:scale-95"
+            >
+              <PackagePlus className="w-5 h-5" />
+              Receive Lot
+            </button>
+          </form>
+
+          {loading ? (
+            <div className="p-12 text-center">
+              <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-blue-600 mx-auto"></div>
+            </div>
+          ) : lots.length === 0 ? (
+            <div className="p-12 text-center">
+              <p className="text-xl text-gray-500">No lots recorded yet.</p>
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">Lot</th>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">Expires</th>
+                  <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Quantity</th>
+                  <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {lots.map(lot => {
+                  const days = lot.expires_on ? daysUntil(lot.expires_on) : null;
+
+                  return (
+                    <tr key={lot.id} className={lot.quantity === 0 ? 'text-gray-400' : 'hover:bg-gray-50'}>
+                      <td className="px-6 py-4 font-semibold">{lot.lot_number}</td>
+                      <td className="px-6 py-4">
+                        {lot.expires_on ? (
+                          <span className={days !== null && days < 0 ? 'text-red-700 font-semibold' : ''}>
+                            {lot.expires_on}
+                            {days !== null && lot.quantity > 0 && (
+                              <span className="text-sm"> ({days < 0 ? 'expired' : `${days} days`})</span>
+                            )}
+                          </span>
+                        ) : (
+                          '—'
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-right text-lg font-semibold">{lot.quantity}</td>
+                      <td className="px-6 py-4 text-right">
+                        {lot.quantity > 0 && (
+                          <button
+                            onClick={() => handleWriteOff(lot)}
+                            className="px-3 py-1 text-sm font-semibold text-red-600 hover:bg-red-50 rounded-lg transition-all"
+                          >
+                            Write off
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
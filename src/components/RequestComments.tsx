@@ -0,0 +1,110 @@
+// src/components/RequestComments.tsx
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Send } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/lib/auth';
+import { RequestComment } from '@/lib/requests';
+
+interface RequestCommentsProps {
+  requestId: string;
+}
+
+// Conversation between the requester and inventory managers about one request
+export default function RequestComments({ requestId }: RequestCommentsProps) {
+  const { profile } = useAuth();
+  const [comments, setComments] = useState<RequestComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [body, setBody] = useState('');
+  const [posting, setPosting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchComments();
+  }, [requestId]);
+
+  const fetchComments = async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('request_comments')
+      .select('*')
+      .eq('request_id', requestId)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching comments:', error);
+      setError('Failed to load comments');
+    }
+    setComments(data || []);
+    setLoading(false);
+  };
+
+  const handlePost = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+
+    setPosting(true);
+    setError(null);
+    try {
+      const { error } = await supabase
+        .from('request_comments')
+        .insert([{ request_id: requestId, body }]);
+
+      if (error) throw error;
+      setBody('');
+      fetchComments();
+    } catch (error) {
+      console.error('Error posting comment:', error);
+      setError('Failed to post comment');
+    }
+    setPosting(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      {loading ? (
+        <div className="animate-spin rounded-full h-8 w-8 border-b-4 border-blue-600"></div>
+      ) : comments.length === 0 ? (
+        <p className="text-gray-500">No comments yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {comments.map(comment => {
+            const isMine = comment.author_id === profile?.id;
+
+            return (
+              <li key={comment.id} className={`flex ${isMine ? 'justify-end' : 'justify-start'}`}>
+                <div className={`max-w-[80%] rounded-xl px-4 py-3 ${isMine ? 'bg-blue-50' : 'bg-gray-100'}`}>
+                  <p className="text-gray-800 whitespace-pre-wrap">{comment.body}</p>
+                  <p className="text-sm text-gray-500 mt-1">
+                    {isMine ? 'You' : comment.author_name ?? 'Someone'} · {new Date(comment.created_at).toLocaleString()}
+                  </p>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {error && <p className="text-red-700 font-semibold">{error}</p>}
+
+      <form onSubmit={handlePost} className="flex gap-2">
+        <input
+          type="text"
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          placeholder="Write a comment..."
+          className="flex-1 px-4 py-3 text-lg border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={posting || !body.trim()}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-bold py-3 px-5 rounded-xl flex items-center gap-2 transition-all active:scale-95"
+        >
+          <Send className="w-5 h-5" />
+          Send
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+// src/components/RequireRole.tsx
+'use client';
+
+import React, { useEffect } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { LogOut, ShieldAlert, UserCircle } from 'lucide-react';
+import { Role, ROLE_LABELS, useAuth } from '@/lib/auth';
+
+interface RequireRoleProps {
+  roles: Role[];
+  children: React.ReactNode;
+  showUserBar?: boolean;
+}
+
+// Sends signed-out visitors to /login and blocks roles that aren't allowed here
+export default function RequireRole({ roles, children, showUserBar = true }: RequireRoleProps) {
+  const { session, profile, loading, signOut } = useAuth();
+  const router = useRouter();
+  const pathname = usePathname();
+
+  useEffect(() => {
+    if (!loading && !session) {
+      router.replace(`/login?next=${encodeURIComponent(pathname)}`);
+    }
+  }, [loading, session, pathname]);
+
+  if (loading || !session) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!profile || !roles.includes(profile.role)) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-2xl shadow-md p-8 max-w-md text-center">
+          <ShieldAlert className="w-16 h-16 text-red-600 mx-auto mb-4" />
+          <h1 className="text-3xl font-bold text-gray-800 mb-2">Not Allowed</h1>
+          <p className="text-lg text-gray-600 mb-6">
+            Your account ({profile ? ROLE_LABELS[profile.role] : 'no profile'}) can&apos;t open this page.
+          </p>
+          <button
+            onClick={signOut}
+            className="bg-gray-200 hover:bg-gray-300 text-gray-700 font-bold py-4 px-8 rounded-xl text-lg transition-all active:scale-95"
+          >
+            Sign Out
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!showUserBar) {
+    return <>{children}</>;
+  }
+
+  return (
+    <>
+      <div className="bg-white border-b-2 border-gray-100 px-4 md:px-8 py-3 flex justify-end items-center gap-4 print:hidden">
+        <span className="flex items-center gap-2 text-gray-700">
+          <UserCircle className="w-6 h-6" />
+          {profile.full_name || profile.email}
+          <span className="px-3 py-1 bg-gray-100 text-gray-700 rounded-full text-sm">{ROLE_LABELS[profile.role]}</span>
+        </span>
+        <button
+          onClick={signOut}
+          className="flex items-center gap-2 text-gray-600 hover:text-gray-800 font-semibold"
+        >
+          <LogOut className="w-5 h-5" />
+          Sign Out
+        </button>
+      </div>
+      {children}
+    </>
+  );
+}
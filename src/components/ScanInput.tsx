@@ -0,0 +1,154 @@
+// src/components/ScanInput.tsx
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Camera, ScanLine, X } from 'lucide-react';
+
+interface ScanInputProps {
+  onScan: (code: string) => void;
+  placeholder?: string;
+}
+
+// Not yet in TypeScript's DOM types; Chromium-based browsers ship it
+interface BarcodeDetectorLike {
+  detect: (source: HTMLVideoElement) => Promise<{ rawValue: string }[]>;
+}
+type BarcodeDetectorConstructor = new () => BarcodeDetectorLike;
+
+// Keyboard-wedge scanners type a whole code, then Enter, in a few milliseconds
+const WEDGE_KEY_GAP_MS = 50;
+const WEDGE_MIN_LENGTH = 3;
+
+// Accepts codes three ways: typed or wedge-scanned into the field, wedge-scanned
+// while nothing is focused, or read from the device camera
+export default function ScanInput({ onScan, placeholder = 'Scan or type a barcode / SKU' }: ScanInputProps) {
+  const [code, setCode] = useState('');
+  const [cameraOpen, setCameraOpen] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    let buffer = '';
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Typing into a field belongs to that field, including our own input
+      if ((e.target as HTMLElement).closest('input, textarea, select, [contenteditable]')) return;
+
+      if (e.timeStamp - lastKeyAt > WEDGE_KEY_GAP_MS) buffer = '';
+      lastKeyAt = e.timeStamp;
+
+      if (e.key === 'Enter') {
+        if (buffer.length >= WEDGE_MIN_LENGTH) {
+          e.preventDefault();
+          onScanRef.current(buffer);
+        }
+        buffer = '';
+      } else if (e.key.length === 1) {
+        buffer += e.key;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!cameraOpen) return;
+
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let stopped = false;
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (stopped || !videoRef.current) return;
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+
+        const detector = new Detector!();
+        timer = setInterval(async () => {
+          if (!videoRef.current || videoRef.current.readyState < 2) return;
+          const [found] = await detector.detect(videoRef.current).catch(() => []);
+          if (found && !stopped) {
+            setCameraOpen(false);
+            onScanRef.current(found.rawValue);
+          }
+        }, 250);
+      } catch (error) {
+        console.error('Error starting camera:', error);
+        setCameraError('Could not open the camera');
+        setCameraOpen(false);
+      }
+    };
+
+    start();
+
+    return () => {
+      stopped = true;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [cameraOpen]);
+
+  const openCamera = () => {
+    setCameraError(null);
+    if (!('BarcodeDetector' in window) || !navigator.mediaDevices?.getUserMedia) {
+      setCameraError("This browser can't read barcodes from the camera; use a scanner or type the code");
+      return;
+    }
+    setCameraOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    onScan(code.trim());
+    setCode('');
+  };
+
+  return (
+    <div>
+      <form onSubmit={handleSubmit} className="flex gap-3">
+        <div className="flex-1 relative">
+          <ScanLine className="w-6 h-6 text-gray-400 absolute left-4 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder={placeholder}
+            className="w-full pl-14 pr-6 py-4 text-xl border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+          />
+        </div>
+        <button
+          type="button"
+          onClick={openCamera}
+          className="bg-gray-800 hover:bg-gray-900 text-white font-bold py-4 px-5 rounded-xl flex items-center gap-2 transition-all active:scale-95"
+          title="Scan with camera"
+        >
+          <Camera className="w-6 h-6" />
+        </button>
+      </form>
+
+      {cameraError && <p className="mt-2 text-red-700 font-semibold">{cameraError}</p>}
+
+      {cameraOpen && (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center p-4 z-50" onClick={() => setCameraOpen(false)}>
+          <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg overflow-hidden" onClick={(e) => e.stopPropagation()}>
+            <div className="p-4 flex justify-between items-center">
+              <p className="text-lg font-semibold text-gray-800">Point the camera at a barcode</p>
+              <button onClick={() => setCameraOpen(false)} className="text-gray-500 hover:text-gray-700">
+                <X className="w-8 h-8" />
+              </button>
+            </div>
+            <video ref={videoRef} playsInline muted className="w-full bg-black" />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+// src/components/StockHistory.tsx
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { StockMovement, MOVEMENT_TYPE_LABELS } from '@/lib/stock';
+
+interface StockHistoryProps {
+  itemId: string;
+  itemName: string;
+  onClose: () => void;
+}
+
+export default function StockHistory({ itemId, itemName, onClose }: StockHistoryProps) {
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchMovements();
+  }, [itemId]);
+
+  const fetchMovements = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('stock_movements')
+        .select('*, inventory_lots(lot_number), locations(name)')
+        .eq('item_id', itemId)
+        .order('created_at', { ascending: false })
+        .limit(200);
+
+      if (error) throw error;
+      setMovements(data || []);
+    } catch (error) {
+      console.error('Error fetching stock history:', error);
+    }
+    setLoading(false);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl w-full max-w-4xl max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-6 border-b-2 border-gray-100 flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-800">Stock History</h2>
+            <p className="text-gray-600">{itemName}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-8 h-8" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto">
+          {loading ? (
+            <div className="p-12 text-center">
+              <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-blue-600 mx-auto"></div>
+            </div>
+          ) : movements.length === 0 ? (
+            <div className="p-12 text-center">
+              <p className="text-xl text-gray-500">No stock movements recorded yet.</p>
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">When</th>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">Type</th>
+                  <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Change</th>
+                  <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Balance</th>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">Reason</th>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700">By</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {movements.map(movement => (
+                  <tr key={movement.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 text-sm text-gray-600 whitespace-nowrap">
+                      {new Date(movement.created_at).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className="px-3 py-1 bg-gray-100 text-gray-700 rounded-full text-sm">
+                        {MOVEMENT_TYPE_LABELS[movement.movement_type]}
+                      </span>
+                      {movement.inventory_lots && (
+                        <p className="mt-1 text-xs text-gray-500">Lot {movement.inventory_lots.lot_number}</p>
+                      )}
+                      {movement.locations && (
+                        <p className="mt-1 text-xs text-gray-500">{movement.locations.name}</p>
+                      )}
+                    </td>
+                    <td className={`px-6 py-4 text-right text-lg font-semibold ${
+                      movement.delta > 0 ? 'text-green-600' : 'text-red-600'
+                    }`}>
+                      {movement.delta > 0 ? `+${movement.delta}` : movement.delta}
+                    </td>
+                    <td className="px-6 py-4 text-right text-gray-800">{movement.quantity_after}</td>
+                    <td className="px-6 py-4 text-gray-700">{movement.reason || '—'}</td>
+                    <td className="px-6 py-4 text-gray-600">{movement.performed_by}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+// src/components/SyncStatus.tsx
+'use client';
+
+import React from 'react';
+import { WifiOff, RefreshCw, AlertTriangle, Send, Trash2 } from 'lucide-react';
+import { describeQueued, useSyncQueue } from '@/lib/offline';
+
+interface SyncStatusProps {
+  // Called after queued work reaches the server, so the page can reload
+  onSynced?: () => void;
+}
+
+// Offline banner, queued work waiting to send, and conflicts for the user to settle
+export default function SyncStatus({ onSynced }: SyncStatusProps) {
+  const { queue, online, syncing, sync, sendAnyway, discard } = useSyncQueue(onSynced);
+  const waiting = queue.filter(action => !action.conflict);
+  const conflicts = queue.filter(action => action.conflict);
+
+  if (online && queue.length === 0) return null;
+
+  return (
+    <div className="mb-6 space-y-4">
+      {(!online || waiting.length > 0) && (
+        <div className={`rounded-2xl p-6 flex flex-col md:flex-row md:items-center gap-4 ${
+          online ? 'bg-blue-50 border-4 border-blue-400' : 'bg-gray-100 border-4 border-gray-400'
+        }`}>
+          {online ? (
+            <RefreshCw className={`w-8 h-8 text-blue-600 ${syncing ? 'animate-spin' : ''}`} />
+          ) : (
+            <WifiOff className="w-8 h-8 text-gray-600" />
+          )}
+          <div className="flex-1">
+            <p className="text-xl font-semibold text-gray-800">
+              {online ? 'Back online' : "You're offline"}
+            </p>
+            <p className="text-gray-700">
+              {waiting.length > 0
+                ? `${waiting.length} ${waiting.length === 1 ? 'change is' : 'changes are'} saved on this device and will be sent when the connection returns.`
+                : 'Showing the inventory saved on this device. Anything you submit will be sent when the connection returns.'}
+            </p>
+          </div>
+          {online && waiting.length > 0 && (
+            <button
+              onClick={sync}
+              disabled={syncing}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-bold py-3 px-5 rounded-xl flex items-center gap-2 transition-all active:scale-95"
+            >
+              <RefreshCw className="w-5 h-5" />
+              {syncing ? 'Sending...' : 'Send Now'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {conflicts.map(action => (
+        <div key={action.id} className="bg-yellow-50 border-4 border-yellow-400 rounded-2xl p-6">
+          <div className="flex items-start gap-4">
+            <AlertTriangle className="w-8 h-8 text-yellow-600 flex-shrink-0" />
+            <div className="flex-1">
+              <p className="text-xl font-semibold text-yellow-900">{action.conflict!.message}</p>
+              <p className="text-gray-700 mb-2">
+                {describeQueued(action)} · saved {new Date(action.queuedAt).toLocaleString()}
+              </p>
+              <ul className="list-disc pl-5 text-gray-800 space-y-1">
+                {action.conflict!.details.map(detail => (
+                  <li key={detail}>{detail}</li>
+                ))}
+              </ul>
+              <div className="flex flex-wrap gap-2 mt-4">
+                {action.conflict!.canSend && (
+                  <button
+                    onClick={() => sendAnyway(action)}
+                    disabled={!online}
+                    className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-bold py-3 px-5 rounded-xl flex items-center gap-2 transition-all active:scale-95"
+                  >
+                    <Send className="w-5 h-5" />
+                    Send Anyway
+                  </button>
+                )}
+                <button
+                  onClick={() => discard(action)}
+                  className="bg-gray-200 hover:bg-gray-300 text-gray-700 font-bold py-3 px-5 rounded-xl flex items-center gap-2 transition-all active:scale-95"
+                >
+                  <Trash2 className="w-5 h-5" />
+                  Discard
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+// src/components/UnitSelect.tsx
+'use client';
+
+import React from 'react';
+import { Unitised, baseUnit, unitLabel, unitOptions } from '@/lib/units';
+
+interface UnitSelectProps {
+  item?: Unitised | null;
+  value: string;
+  onChange: (unit: string) => void;
+  className?: string;
+}
+
+// Items with only a base unit just show its name; there's nothing to choose
+export default function UnitSelect({ item, value, onChange, className = '' }: UnitSelectProps) {
+  const options = unitOptions(item);
+
+  if (options.length === 1) {
+    return <span className={`flex items-center text-gray-600 ${className}`}>{baseUnit(item).name}</span>;
+  }
+
+  return (
+    <select
+      value={value || baseUnit(item).name}
+      onChange={(e) => onChange(e.target.value)}
+      className={`border-2 border-gray-300 rounded-xl bg-white focus:outline-none focus:ring-4 focus:ring-blue-500 ${className}`}
+    >
+      {options.map(unit => (
+        <option key={unit.name} value={unit.name}>{unitLabel(unit, item)}</option>
+      ))}
+    </select>
+  );
+}
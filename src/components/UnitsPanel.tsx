@@ -0,0 +1,199 @@
+// src/components/UnitsPanel.tsx
+'use client';
+
+import React, { useState } from 'react';
+import { X, Plus, Trash2, Save } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { DEFAULT_BASE_UNIT, ItemUnit } from '@/lib/units';
+
+interface UnitsPanelProps {
+  itemId: string;
+  itemName: string;
+  baseUnit?: string | null;
+  units: ItemUnit[];
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+interface UnitDraft {
+  name: string;
+  factor: number;
+  is_purchase: boolean;
+  is_issue: boolean;
+}
+
+export default function UnitsPanel({ itemId, itemName, baseUnit, units, onClose, onChanged }: UnitsPanelProps) {
+  const [base, setBase] = useState(baseUnit || DEFAULT_BASE_UNIT);
+  const [drafts, setDrafts] = useState<UnitDraft[]>(
+    [...units]
+      .sort((a, b) => a.factor - b.factor)
+      .map(({ name, factor, is_purchase, is_issue }) => ({ name, factor, is_purchase, is_issue }))
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateDraft = (index: number, change: Partial<UnitDraft>) => {
+    setDrafts(current => current.map((draft, other) => (other === index ? { ...draft, ...change } : draft)));
+  };
+
+  // Only one pack size can be the purchase (or issue) unit; picking the base
+  // unit clears them all
+  const markUnit = (flag: 'is_purchase' | 'is_issue', index: number | null) => {
+    setDrafts(current => current.map((draft, other) => ({ ...draft, [flag]: other === index })));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSaving(true);
+
+    try {
+      const { error } = await supabase.rpc('save_item_units', {
+        p_item_id: itemId,
+        p_base_unit: base,
+        p_units: drafts.map(draft => ({ ...draft, name: draft.name.trim() })),
+      });
+
+      if (error) throw error;
+      onChanged();
+      onClose();
+    } catch (error) {
+      console.error('Error saving units:', error);
+      const message = (error as { message?: string })?.message;
+      setError(message ? `Failed to save units: ${message}` : 'Failed to save units');
+    }
+    setSaving(false);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-xl w-full max-w-3xl max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-6 border-b-2 border-gray-100 flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-800">Units &amp; Pack Sizes</h2>
+            <p className="text-gray-600">{itemName} · stock is kept in the base unit</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-8 h-8" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSave} className="overflow-y-auto p-6 space-y-6">
+          {error && (
+            <p className="bg-red-50 border-2 border-red-500 text-red-800 font-semibold rounded-xl px-4 py-3">{error}</p>
+          )}
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">Base Unit *</label>
+            <input
+              type="text"
+              required
+              maxLength={30}
+              value={base}
+              onChange={(e) => setBase(e.target.value)}
+              placeholder="e.g. each, pair, ml"
+              className="w-full md:w-64 px-4 py-3 text-lg border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <label className="block text-sm font-semibold text-gray-700">Pack Sizes</label>
+              <button
+                type="button"
+                onClick={() => setDrafts(current => [...current, { name: '', factor: 2, is_purchase: false, is_issue: false }])}
+                className="px-3 py-1 text-sm font-semibold text-blue-600 hover:bg-blue-50 rounded-lg flex items-center gap-1"
+              >
+                <Plus className="w-4 h-4" />
+                Add pack size
+              </button>
+            </div>
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-sm font-semibold text-gray-700">Unit</th>
+                  <th className="px-3 py-2 text-left text-sm font-semibold text-gray-700">Holds</th>
+                  <th className="px-3 py-2 text-center text-sm font-semibold text-gray-700">Bought In</th>
+                  <th className="px-3 py-2 text-center text-sm font-semibold text-gray-700">Issued In</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                <tr>
+                  <td className="px-3 py-2 font-semibold text-gray-800">{base || DEFAULT_BASE_UNIT}</td>
+                  <td className="px-3 py-2 text-gray-500">base unit</td>
+                  <td className="px-3 py-2 text-center">
+                    <input type="radio" name="purchase" checked={!drafts.some(draft => draft.is_purchase)} onChange={() => markUnit('is_purchase', null)} />
+                  </td>
+                  <td className="px-3 py-2 text-center">
+                    <input type="radio" name="issue" checked={!drafts.some(draft => draft.is_issue)} onChange={() => markUnit('is_issue', null)} />
+                  </td>
+                  <td></td>
+                </tr>
+                {drafts.map((draft, index) => (
+                  <tr key={index}>
+                    <td className="px-3 py-2">
+                      <input
+                        type="text"
+                        required
+                        maxLength={30}
+                        value={draft.name}
+                        onChange={(e) => updateDraft(index, { name: e.target.value })}
+                        placeholder="e.g. box, case"
+                        className="w-full px-3 py-2 border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="number"
+                          required
+                          min="2"
+                          value={draft.factor}
+                          onChange={(e) => updateDraft(index, { factor: parseInt(e.target.value) || 2 })}
+                          className="w-24 px-3 py-2 border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-4 focus:ring-blue-500"
+                        />
+                        <span className="text-gray-600">{base || DEFAULT_BASE_UNIT}</span>
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 text-center">
+                      <input type="radio" name="purchase" checked={draft.is_purchase} onChange={() => markUnit('is_purchase', index)} />
+                    </td>
+                    <td className="px-3 py-2 text-center">
+                      <input type="radio" name="issue" checked={draft.is_issue} onChange={() => markUnit('is_issue', index)} />
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        type="button"
+                        onClick={() => setDrafts(current => current.filter((_, other) => other !== index))}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-all"
+                        title="Remove"
+                      >
+                        <Trash2 className="w-5 h-5" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-2 text-sm text-gray-500">
+              Sizes are in the base unit: a case of 10 boxes of 100 holds 1000.
+            </p>
+          </div>
+
+          <button
+            type="submit"
+            disabled={saving}
+            className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-bold py-3 px-6 rounded-xl text-lg flex items-center justify-center gap-2 transition-all active:scale-95"
+          >
+            <Save className="w-5 h-5" />
+            Save Units
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
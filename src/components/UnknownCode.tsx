@@ -0,0 +1,37 @@
+// src/components/UnknownCode.tsx
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { HelpCircle, X } from 'lucide-react';
+import { MANAGER_ROLES, useAuth } from '@/lib/auth';
+
+interface UnknownCodeProps {
+  code: string;
+  onDismiss: () => void;
+}
+
+// Managers can jump to the dashboard to create the item or attach the code to one
+export default function UnknownCode({ code, onDismiss }: UnknownCodeProps) {
+  const { profile } = useAuth();
+  const canManage = !!profile && MANAGER_ROLES.includes(profile.role);
+
+  return (
+    <div className="mt-4 bg-yellow-50 border-4 border-yellow-400 rounded-2xl p-5 flex items-center gap-4">
+      <HelpCircle className="w-8 h-8 text-yellow-600 flex-shrink-0" />
+      <div className="flex-1">
+        <p className="text-lg font-semibold text-yellow-800">No item has the code &quot;{code}&quot;</p>
+        {canManage ? (
+          <Link href={`/admin?scan=${encodeURIComponent(code)}`} className="text-blue-600 hover:text-blue-700 font-semibold">
+            Create an item or link this code in the dashboard
+          </Link>
+        ) : (
+          <p className="text-yellow-800">Ask an inventory manager to add it.</p>
+        )}
+      </div>
+      <button onClick={onDismiss} className="text-yellow-700 hover:text-yellow-900">
+        <X className="w-6 h-6" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+// src/lib/analytics.ts
+
+export interface DailyUsage {
+  item_id: string;
+  day: string;
+  used: number;
+  restocked: number;
+}
+
+export interface ReorderSuggestion {
+  averageDailyUse: number;
+  daysOfSupply: number | null;
+  threshold: number;
+  reorderQuantity: number;
+}
+
+export const USAGE_WINDOWS = [30, 90, 180];
+export const SAFETY_FACTORS = [0.25, 0.5, 1];
+
+// Lead time for items without a supplier
+export const DEFAULT_LEAD_TIME_DAYS = 7;
+
+// A reorder brings stock up to this many days of use
+export const REORDER_COVER_DAYS = 30;
+
+// Reorder point = use over the lead time plus safety stock, where safety stock
+// is that same lead-time use scaled by the safety factor. Nothing is suggested
+// for items that haven't been used in the window.
+export const suggestReorder = (
+  quantity: number,
+  usedInWindow: number,
+  windowDays: number,
+  leadTimeDays: number,
+  safetyFactor: number
+): ReorderSuggestion | null => {
+  const averageDailyUse = usedInWindow / windowDays;
+  if (averageDailyUse <= 0) return null;
+
+  const leadTimeUse = averageDailyUse * leadTimeDays;
+  return {
+    averageDailyUse,
+    daysOfSupply: quantity / averageDailyUse,
+    threshold: Math.ceil(leadTimeUse * (1 + safetyFactor)),
+    reorderQuantity: Math.max(1, Math.ceil(averageDailyUse * REORDER_COVER_DAYS)),
+  };
+};
+
+// Monday of the week containing a YYYY-MM-DD date, as YYYY-MM-DD
+export const weekStart = (day: string): string => {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return date.toISOString().slice(0, 10);
+};
+
+// Every week start from `days` ago up to this week, so empty weeks still show
+export const weekStarts = (days: number): string[] => {
+  const weeks: string[] = [];
+  const cursor = new Date(`${weekStart(new Date(Date.now() - days * 86400000).toISOString().slice(0, 10))}T00:00:00Z`);
+  const now = Date.now();
+  while (cursor.getTime() <= now) {
+    weeks.push(cursor.toISOString().slice(0, 10));
+    cursor.setUTCDate(cursor.getUTCDate() + 7);
+  }
+  return weeks;
+};
@@ -0,0 +1,103 @@
+// src/lib/audit.ts
+
+import { CsvValue } from '@/lib/csv';
+
+export type AuditAction =
+  | 'create'
+  | 'update'
+  | 'archive'
+  | 'restore'
+  | 'delete'
+  | 'submit'
+  | 'approve'
+  | 'reject'
+  | 'order'
+  | 'fulfil'
+  | 'cancel';
+
+export type AuditEntityType = 'item' | 'request';
+
+export interface AuditChange {
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEntry {
+  id: number;
+  occurred_at: string;
+  actor_id: string | null;
+  actor_email: string;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  entity_name: string | null;
+  item_ids: string[];
+  changes: Record<string, AuditChange>;
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Edited',
+  archive: 'Archived',
+  restore: 'Restored',
+  delete: 'Deleted',
+  submit: 'Submitted',
+  approve: 'Approved',
+  reject: 'Rejected',
+  order: 'Ordered',
+  fulfil: 'Fulfilled',
+  cancel: 'Cancelled',
+};
+
+export const AUDIT_ACTION_STYLES: Record<AuditAction, string> = {
+  create: 'bg-green-100 text-green-700',
+  update: 'bg-blue-100 text-blue-700',
+  archive: 'bg-gray-100 text-gray-700',
+  restore: 'bg-blue-100 text-blue-700',
+  delete: 'bg-red-100 text-red-700',
+  submit: 'bg-yellow-100 text-yellow-700',
+  approve: 'bg-blue-100 text-blue-700',
+  reject: 'bg-red-100 text-red-700',
+  order: 'bg-purple-100 text-purple-700',
+  fulfil: 'bg-green-100 text-green-700',
+  cancel: 'bg-gray-100 text-gray-700',
+};
+
+export const describeEntity = (entry: AuditEntry) =>
+  entry.entity_type === 'item'
+    ? entry.entity_name || 'Unnamed item'
+    : `Request from ${entry.entity_name || 'unknown'}`;
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(formatAuditValue).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// Field names as stored, e.g. "reorder_quantity", read as "reorder quantity"
+export const fieldLabel = (field: string) => field.replace(/_id$/, '').replace(/_/g, ' ');
+
+export const AUDIT_CSV_HEADER = ['When', 'User', 'Action', 'Type', 'Record', 'Record ID', 'Field', 'Before', 'After'];
+
+// One row per changed field, so the export can be filtered in a spreadsheet
+export const auditCsvRows = (entries: AuditEntry[]): CsvValue[][] =>
+  entries.flatMap(entry => {
+    const base = [
+      entry.occurred_at,
+      entry.actor_email,
+      AUDIT_ACTION_LABELS[entry.action],
+      entry.entity_type,
+      describeEntity(entry),
+      entry.entity_id,
+    ];
+    const changes = Object.entries(entry.changes);
+    return changes.length === 0
+      ? [[...base, '', '', '']]
+      : changes.map(([field, change]) => [
+          ...base,
+          field,
+          formatAuditValue(change.before),
+          formatAuditValue(change.after),
+        ]);
+  });
@@ -0,0 +1,67 @@
+// src/lib/auth.ts
+
+import { useState, useEffect } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+
+export type Role = 'requester' | 'inventory_manager' | 'admin';
+
+export interface Profile {
+  id: string;
+  email: string;
+  full_name?: string;
+  role: Role;
+}
+
+export const ROLE_LABELS: Record<Role, string> = {
+  requester: 'Requester',
+  inventory_manager: 'Inventory Manager',
+  admin: 'Admin',
+};
+
+export const ALL_ROLES: Role[] = ['requester', 'inventory_manager', 'admin'];
+export const MANAGER_ROLES: Role[] = ['inventory_manager', 'admin'];
+
+// Current session plus the signed-in user's profile (and so their role).
+// Access is enforced by row level security; this only drives what the UI shows.
+export function useAuth() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => loadProfile(data.session));
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      loadProfile(newSession);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const loadProfile = async (newSession: Session | null) => {
+    setSession(newSession);
+
+    if (!newSession) {
+      setProfile(null);
+      setLoading(false);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', newSession.user.id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching profile:', error);
+    }
+    setProfile(data || null);
+    setLoading(false);
+  };
+
+  const signOut = () => supabase.auth.signOut();
+
+  return { session, profile, loading, signOut };
+}
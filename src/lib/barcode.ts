@@ -0,0 +1,57 @@
+// src/lib/barcode.ts
+
+export interface Scannable {
+  sku?: string | null;
+  barcode?: string | null;
+}
+
+// A scanned code matches an item's barcode or its SKU, ignoring case
+export const findItemByCode = <T extends Scannable>(items: T[], code: string): T | undefined => {
+  const wanted = code.trim().toLowerCase();
+  if (!wanted) return undefined;
+  return (
+    items.find(item => item.barcode?.toLowerCase() === wanted) ??
+    items.find(item => item.sku?.toLowerCase() === wanted)
+  );
+};
+
+// What gets printed on an item's shelf label
+export const labelCode = (item: Scannable) => item.barcode || item.sku || null;
+
+// Code 39 patterns: nine elements alternating bar/space, n = narrow, w = wide
+const CODE39: Record<string, string> = {
+  '0': 'nnnwwnwnn', '1': 'wnnwnnnnw', '2': 'nnwwnnnnw', '3': 'wnwwnnnnn', '4': 'nnnwwnnnw',
+  '5': 'wnnwwnnnn', '6': 'nnwwwnnnn', '7': 'nnnwnnwnw', '8': 'wnnwnnwnn', '9': 'nnwwnnwnn',
+  'A': 'wnnnnwnnw', 'B': 'nnwnnwnnw', 'C': 'wnwnnwnnn', 'D': 'nnnnwwnnw', 'E': 'wnnnwwnnn',
+  'F': 'nnwnwwnnn', 'G': 'nnnnnwwnw', 'H': 'wnnnnwwnn', 'I': 'nnwnnwwnn', 'J': 'nnnnwwwnn',
+  'K': 'wnnnnnnww', 'L': 'nnwnnnnww', 'M': 'wnwnnnnwn', 'N': 'nnnnwnnww', 'O': 'wnnnwnnwn',
+  'P': 'nnwnwnnwn', 'Q': 'nnnnnnwww', 'R': 'wnnnnnwwn', 'S': 'nnwnnnwwn', 'T': 'nnnnwnwwn',
+  'U': 'wwnnnnnnw', 'V': 'nwwnnnnnw', 'W': 'wwwnnnnnn', 'X': 'nwnnwnnnw', 'Y': 'wwnnwnnnn',
+  'Z': 'nwwnwnnnn', '-': 'nwnnnnwnw', '.': 'wwnnnnwnn', ' ': 'nwwnnnwnn', '$': 'nwnwnwnnn',
+  '/': 'nwnwnnnwn', '+': 'nwnnnwnwn', '%': 'nnnwnwnwn', '*': 'nwnnwnwnn',
+};
+
+const WIDE = 3;
+
+export const canEncodeCode39 = (code: string) =>
+  code.length > 0 && [...code.toUpperCase()].every(char => char !== '*' && char in CODE39);
+
+// Bar positions and widths in narrow-module units, framed by the * start/stop
+// character. Returns null for codes Code 39 can't represent.
+export const encodeCode39 = (code: string): { bars: { x: number; width: number }[]; width: number } | null => {
+  if (!canEncodeCode39(code)) return null;
+
+  const bars: { x: number; width: number }[] = [];
+  let x = 0;
+
+  for (const char of `*${code.toUpperCase()}*`) {
+    [...CODE39[char]].forEach((element, index) => {
+      const width = element === 'w' ? WIDE : 1;
+      if (index % 2 === 0) bars.push({ x, width });
+      x += width;
+    });
+    x += 1; // narrow gap between characters
+  }
+
+  return { bars, width: x - 1 };
+};
@@ -0,0 +1,86 @@
+// src/lib/bulk.ts
+
+import { Category, categoryLabel } from '@/lib/categories';
+import { Supplier } from '@/lib/purchasing';
+
+export type BulkAction =
+  | { kind: 'set_category'; categoryId: string }
+  | { kind: 'set_threshold'; threshold: number }
+  | { kind: 'adjust_quantity'; delta: number; reason: string }
+  | { kind: 'archive' }
+  | { kind: 'request'; notes: string }
+  | { kind: 'purchase_order' };
+
+export type BulkActionKind = BulkAction['kind'];
+
+export const BULK_ACTION_LABELS: Record<BulkActionKind, string> = {
+  set_category: 'Change category',
+  set_threshold: 'Set threshold',
+  adjust_quantity: 'Adjust quantity',
+  archive: 'Archive',
+  request: 'Add to restock request',
+  purchase_order: 'Add to purchase order',
+};
+
+// Enough of an item to say what a bulk action will do to it
+export interface BulkItem {
+  id: string;
+  name: string;
+  category_id: string;
+  quantity: number;
+  threshold: number;
+  supplier_id?: string | null;
+  reorder_quantity?: number | null;
+}
+
+export interface BulkPreviewLine {
+  itemId: string;
+  name: string;
+  before: string;
+  after: string;
+  // Known up front to fail; the server may still find others
+  problem?: string;
+}
+
+// Same rule as generated purchase orders: the reorder quantity, or enough to
+// reach twice the threshold
+export const restockQuantity = (item: BulkItem) =>
+  item.reorder_quantity ?? Math.max(item.threshold * 2 - item.quantity, 1);
+
+export const previewBulkAction = (
+  items: BulkItem[],
+  action: BulkAction,
+  categories: Category[],
+  suppliers: Supplier[]
+): BulkPreviewLine[] =>
+  items.map(item => {
+    const line = { itemId: item.id, name: item.name };
+    switch (action.kind) {
+      case 'set_category':
+        return { ...line, before: categoryLabel(categories, item.category_id), after: categoryLabel(categories, action.categoryId) };
+      case 'set_threshold':
+        return { ...line, before: `Threshold ${item.threshold}`, after: `Threshold ${action.threshold}` };
+      case 'adjust_quantity': {
+        const after = item.quantity + action.delta;
+        return {
+          ...line,
+          before: `${item.quantity} in stock`,
+          after: `${after} in stock`,
+          problem: after < 0 ? `Only ${item.quantity} in stock` : undefined,
+        };
+      }
+      case 'archive':
+        return { ...line, before: 'Active', after: 'Archived' };
+      case 'request':
+        return { ...line, before: `${item.quantity} in stock`, after: `Request ${restockQuantity(item)}` };
+      case 'purchase_order': {
+        const supplier = suppliers.find(candidate => candidate.id === item.supplier_id);
+        return {
+          ...line,
+          before: `${item.quantity} in stock`,
+          after: supplier ? `Order ${restockQuantity(item)} from ${supplier.name}` : '—',
+          problem: supplier ? undefined : 'No supplier set',
+        };
+      }
+    }
+  });
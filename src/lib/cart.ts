@@ -0,0 +1,37 @@
+// src/lib/cart.ts
+
+export interface CartLine {
+  itemId: string;
+  quantity: number;
+}
+
+// Kept in localStorage so an accidental reload doesn't lose a half-built request
+const CART_KEY = 'clinic-inventory:request-cart';
+
+export const loadCart = (): CartLine[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(CART_KEY) || '[]');
+    return Array.isArray(stored)
+      ? stored.filter((line): line is CartLine => typeof line?.itemId === 'string' && line.quantity > 0)
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCart = (lines: CartLine[]) => {
+  if (lines.length === 0) {
+    window.localStorage.removeItem(CART_KEY);
+  } else {
+    window.localStorage.setItem(CART_KEY, JSON.stringify(lines));
+  }
+};
+
+// Add to an existing line for the same item rather than duplicating it
+export const addToCart = (lines: CartLine[], itemId: string, quantity: number): CartLine[] => {
+  if (lines.some(line => line.itemId === itemId)) {
+    return lines.map(line => (line.itemId === itemId ? { ...line, quantity: line.quantity + quantity } : line));
+  }
+  return [...lines, { itemId, quantity }];
+};
@@ -0,0 +1,80 @@
+// src/lib/categories.ts
+import {
+  Package,
+  Puzzle,
+  Stethoscope,
+  Pill,
+  Syringe,
+  Paperclip,
+  Droplet,
+  Shirt,
+  Sparkles,
+  Coffee,
+  type LucideIcon,
+} from 'lucide-react';
+
+export type CategoryColor = 'gray' | 'red' | 'orange' | 'yellow' | 'green' | 'teal' | 'blue' | 'purple' | 'pink';
+
+export interface Category {
+  id: string;
+  name: string;
+  color: CategoryColor;
+  icon: string;
+  parent_id?: string | null;
+  default_threshold: number;
+  track_lots_default: boolean;
+}
+
+// Full class names so Tailwind keeps them in the build
+export const CATEGORY_COLOR_STYLES: Record<CategoryColor, string> = {
+  gray: 'bg-gray-100 text-gray-700',
+  red: 'bg-red-100 text-red-700',
+  orange: 'bg-orange-100 text-orange-700',
+  yellow: 'bg-yellow-100 text-yellow-800',
+  green: 'bg-green-100 text-green-700',
+  teal: 'bg-teal-100 text-teal-700',
+  blue: 'bg-blue-100 text-blue-700',
+  purple: 'bg-purple-100 text-purple-700',
+  pink: 'bg-pink-100 text-pink-700',
+};
+
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  package: Package,
+  puzzle: Puzzle,
+  stethoscope: Stethoscope,
+  pill: Pill,
+  syringe: Syringe,
+  paperclip: Paperclip,
+  droplet: Droplet,
+  shirt: Shirt,
+  sparkles: Sparkles,
+  coffee: Coffee,
+};
+
+export const categoryIcon = (category?: Category | null): LucideIcon =>
+  (category && CATEGORY_ICONS[category.icon]) || Package;
+
+// "Parent › Child" for subcategories
+export const categoryLabel = (categories: Category[], id?: string | null): string => {
+  const category = categories.find(candidate => candidate.id === id);
+  if (!category) return 'Uncategorised';
+  const parent = categories.find(candidate => candidate.id === category.parent_id);
+  return parent ? `${parent.name} › ${category.name}` : category.name;
+};
+
+// Top-level categories alphabetically, each followed by its subcategories
+export const sortCategories = (categories: Category[]): Category[] => {
+  const byName = [...categories].sort((a, b) => a.name.localeCompare(b.name));
+  const isTopLevel = (category: Category) =>
+    !category.parent_id || !categories.some(candidate => candidate.id === category.parent_id);
+
+  return byName
+    .filter(isTopLevel)
+    .flatMap(parent => [parent, ...byName.filter(child => child.parent_id === parent.id)]);
+};
+
+// A category together with its subcategories, for filtering by a parent
+export const categoryWithChildren = (categories: Category[], id: string): string[] => [
+  id,
+  ...categories.filter(category => category.parent_id === id).map(category => category.id),
+];
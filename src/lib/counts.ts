@@ -0,0 +1,84 @@
+// src/lib/counts.ts
+
+import { ItemUnit } from '@/lib/units';
+
+export type CountStatus = 'counting' | 'approved' | 'cancelled';
+
+// One person's count of a line; the line's counted quantity is the total
+export interface CountEntry {
+  line_id: string;
+  counted_by: string;
+  counted_by_name?: string | null;
+  quantity: number;
+  counted_at: string;
+}
+
+export interface CountLine {
+  id: string;
+  session_id: string;
+  item_id: string;
+  expected_quantity: number;
+  counted_quantity: number | null;
+  counted_by_name?: string | null;
+  counted_at?: string | null;
+  count_entries?: CountEntry[];
+  inventory?: {
+    name: string;
+    sku?: string | null;
+    barcode?: string | null;
+    base_unit?: string | null;
+    item_units?: ItemUnit[];
+  } | null;
+}
+
+export interface CountSession {
+  id: string;
+  name: string;
+  category_id?: string | null;
+  location_id?: string | null;
+  status: CountStatus;
+  created_at: string;
+  approved_at?: string | null;
+  approval_reason?: string | null;
+  categories?: { name: string } | null;
+  locations?: { name: string } | null;
+  count_lines: CountLine[];
+}
+
+export const COUNT_STATUS_LABELS: Record<CountStatus, string> = {
+  counting: 'Counting',
+  approved: 'Approved',
+  cancelled: 'Cancelled',
+};
+
+export const COUNT_STATUS_STYLES: Record<CountStatus, string> = {
+  counting: 'bg-blue-100 text-blue-700',
+  approved: 'bg-green-100 text-green-700',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+// What the count covers, e.g. "Medical Supplies at Storeroom"
+export const countScope = (session: CountSession) => {
+  const category = session.categories?.name ?? 'All categories';
+  return session.locations ? `${category} at ${session.locations.name}` : category;
+};
+
+export const entryBy = (line: CountLine, userId?: string | null) =>
+  line.count_entries?.find(entry => entry.counted_by === userId) ?? null;
+
+// A line with this user's entry swapped for `quantity` (null removes it), and
+// the total worked out again, for showing a count that hasn't reached the server
+export const withEntry = (line: CountLine, userId: string, quantity: number | null): CountLine => {
+  const others = (line.count_entries ?? []).filter(entry => entry.counted_by !== userId);
+  const entries = quantity === null
+    ? others
+    : [...others, { line_id: line.id, counted_by: userId, counted_by_name: 'Saved offline', quantity, counted_at: new Date().toISOString() }];
+  return {
+    ...line,
+    count_entries: entries,
+    counted_quantity: entries.length > 0 ? entries.reduce((total, entry) => total + entry.quantity, 0) : null,
+  };
+};
+
+export const countVariance = (line: CountLine) =>
+  line.counted_quantity === null ? null : line.counted_quantity - line.expected_quantity;
@@ -0,0 +1,85 @@
+// src/lib/errors.ts
+
+export type DataErrorCode =
+  | 'validation'  // input failed a schema; see `fields`
+  | 'not_found'
+  | 'conflict'    // someone else changed the row first
+  | 'duplicate'   // a unique value (SKU, barcode, name) is already taken
+  | 'in_use'      // other rows still refer to this one
+  | 'forbidden'
+  | 'rule'        // the database refused it, e.g. not enough stock
+  | 'offline'
+  | 'unknown';
+
+// supabase-js reports a failed fetch as an error object rather than throwing,
+// so look at the message as well as the browser's own flag
+export const isOfflineError = (error: unknown): boolean => {
+  if (error instanceof DataError) return error.code === 'offline';
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = (error as { message?: string })?.message ?? '';
+  return error instanceof TypeError || /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+};
+
+// The one error type the data layer throws, so pages can say what went wrong
+// instead of a generic "Failed to save"
+export class DataError extends Error {
+  readonly code: DataErrorCode;
+  readonly fields: Record<string, string>;
+
+  constructor(code: DataErrorCode, message: string, fields: Record<string, string> = {}) {
+    super(message);
+    this.name = 'DataError';
+    this.code = code;
+    this.fields = fields;
+  }
+}
+
+// Postgres and PostgREST codes we can say something useful about
+const CODE_MAP: Record<string, DataErrorCode> = {
+  '23505': 'duplicate',
+  '23503': 'in_use',
+  '23514': 'validation',
+  '23502': 'validation',
+  '22P02': 'validation',
+  '40001': 'conflict',
+  '42501': 'forbidden',
+  PGRST301: 'forbidden',
+  PGRST116: 'not_found',
+  P0001: 'rule',
+  P0002: 'not_found',
+};
+
+export const toDataError = (error: unknown): DataError => {
+  if (error instanceof DataError) return error;
+  if (isOfflineError(error)) return new DataError('offline', "Can't reach the server");
+
+  const { code, message } = (error ?? {}) as { code?: string; message?: string };
+  return new DataError((code && CODE_MAP[code]) || 'unknown', message || 'Something went wrong');
+};
+
+// A sentence for the notification banner. `subject` names the thing being
+// saved, e.g. "item" or "request".
+export const errorMessage = (error: unknown, subject: string): string => {
+  const dataError = toDataError(error);
+
+  switch (dataError.code) {
+    case 'validation':
+      return Object.values(dataError.fields).join('. ') || `Check the ${subject} details: ${dataError.message}`;
+    case 'not_found':
+      return `This ${subject} no longer exists`;
+    case 'conflict':
+      return `Someone else changed this ${subject}; review their changes and try again`;
+    case 'duplicate':
+      return `Another ${subject} already uses that name or code`;
+    case 'in_use':
+      return `This ${subject} is still in use elsewhere`;
+    case 'forbidden':
+      return `Your account isn't allowed to change this ${subject}`;
+    case 'rule':
+      return dataError.message;
+    case 'offline':
+      return "Can't reach the server. Check the connection and try again.";
+    case 'unknown':
+      return `Failed to save ${subject}`;
+  }
+};
@@ -0,0 +1,35 @@
+// src/lib/kits.ts
+
+import { CartLine } from '@/lib/cart';
+
+export interface KitLine {
+  kit_id: string;
+  item_id: string;
+  quantity: number;
+}
+
+export interface Kit {
+  id: string;
+  name: string;
+  description?: string | null;
+  created_at: string;
+  kit_items: KitLine[];
+}
+
+// How many complete kits the given stock can make up. Items missing from
+// `available` (e.g. archived ones) count as none on hand.
+export const buildableKits = (kit: Kit, available: (itemId: string) => number): number =>
+  kit.kit_items.length === 0
+    ? 0
+    : Math.min(...kit.kit_items.map(line => Math.floor(available(line.item_id) / line.quantity)));
+
+// What a location is missing against the kit's par levels, ready for the
+// request cart. Lines already at or above par are left out.
+export const kitShortfall = (kit: Kit, onHand: (itemId: string) => number): CartLine[] =>
+  kit.kit_items
+    .map(line => ({ itemId: line.item_id, quantity: line.quantity - onHand(line.item_id) }))
+    .filter(line => line.quantity > 0);
+
+// Every component of `count` kits, as lines for dispensing
+export const kitLines = (kit: Kit, count: number): CartLine[] =>
+  kit.kit_items.map(line => ({ itemId: line.item_id, quantity: line.quantity * count }));
@@ -0,0 +1,341 @@
+// src/lib/notifications.ts
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { MANAGER_ROLES, Profile } from '@/lib/auth';
+
+export type NotificationKind = 'low_stock' | 'out_of_stock' | 'new_request';
+export type NotificationChannel = 'email' | 'webhook';
+
+export interface NotificationEvent {
+  id: string;
+  kind: NotificationKind;
+  item_id?: string | null;
+  request_id?: string | null;
+  item_name?: string | null;
+  quantity?: number | null;
+  threshold?: number | null;
+  created_at: string;
+  requests?: {
+    requester_name?: string | null;
+    notes?: string | null;
+    request_items: { item_name: string; quantity: number }[];
+  } | null;
+}
+
+export interface NotificationPreferences {
+  user_id: string;
+  email_digest: boolean;
+  webhook_enabled: boolean;
+  webhook_url?: string | null;
+  notify_low_stock: boolean;
+  notify_requests: boolean;
+}
+
+export const NOTIFICATION_KIND_LABELS: Record<NotificationKind, string> = {
+  low_stock: 'Low stock',
+  out_of_stock: 'Out of stock',
+  new_request: 'New request',
+};
+
+export const NOTIFICATION_KIND_STYLES: Record<NotificationKind, string> = {
+  low_stock: 'bg-yellow-100 text-yellow-700',
+  out_of_stock: 'bg-red-100 text-red-700',
+  new_request: 'bg-blue-100 text-blue-700',
+};
+
+export const DEFAULT_PREFERENCES: Omit<NotificationPreferences, 'user_id'> = {
+  email_digest: false,
+  webhook_enabled: false,
+  webhook_url: '',
+  notify_low_stock: true,
+  notify_requests: true,
+};
+
+// Events older than this are never delivered, so turning a channel on doesn't
+// replay history. A little over a day so a daily digest never misses one.
+const LOOKBACK_HOURS = 36;
+
+export const describeEvent = (event: NotificationEvent): string => {
+  switch (event.kind) {
+    case 'out_of_stock':
+      return `${event.item_name} is out of stock`;
+    case 'low_stock':
+      return `${event.item_name} is low: ${event.quantity} left (threshold ${event.threshold})`;
+    case 'new_request': {
+      const lines = event.requests?.request_items ?? [];
+      const summary = lines.map(line => `${line.quantity} × ${line.item_name}`).join(', ');
+      const requester = event.requests?.requester_name ?? 'Someone';
+      return `${requester} requested ${summary || 'items'}`;
+    }
+  }
+};
+
+const wantsEvent = (preferences: NotificationPreferences, event: NotificationEvent) =>
+  event.kind === 'new_request' ? preferences.notify_requests : preferences.notify_low_stock;
+
+// Slack-compatible incoming-webhook body; other services can read `events`
+export const webhookPayload = (events: NotificationEvent[]) => ({
+  text: events.map(event => `• *${NOTIFICATION_KIND_LABELS[event.kind]}*: ${describeEvent(event)}`).join('\n'),
+  events: events.map(event => ({
+    id: event.id,
+    kind: event.kind,
+    item_id: event.item_id ?? null,
+    request_id: event.request_id ?? null,
+    message: describeEvent(event),
+    created_at: event.created_at,
+  })),
+});
+
+export const digestEmail = (events: NotificationEvent[]) => {
+  const sections = (Object.keys(NOTIFICATION_KIND_LABELS) as NotificationKind[])
+    .map(kind => {
+      const ofKind = events.filter(event => event.kind === kind);
+      if (ofKind.length === 0) return null;
+      return [`${NOTIFICATION_KIND_LABELS[kind]} (${ofKind.length})`, ...ofKind.map(event => `  - ${describeEvent(event)}`)].join('\n');
+    })
+    .filter(Boolean);
+
+  return {
+    subject: `Inventory digest: ${events.length} ${events.length === 1 ? 'update' : 'updates'}`,
+    text: sections.join('\n\n'),
+  };
+};
+
+// Webhook URLs ----------------------------------------------------------------
+
+// Webhooks are posted from the server, so a URL pointing back inside the
+// network (the database, cloud metadata, localhost) must never be followed
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+const isPrivateIPv4 = (address: string): boolean => {
+  const [a, b] = address.split('.').map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    a >= 224 ||                            // multicast and reserved
+    (a === 100 && b >= 64 && b < 128) ||   // carrier-grade NAT
+    (a === 169 && b === 254) ||            // link-local, incl. cloud metadata
+    (a === 172 && b >= 16 && b < 32) ||
+    (a === 192 && b === 168)
+  );
+};
+
+// Takes an address as it appears in a URL or a DNS answer, with or without
+// the brackets around IPv6
+export const isPrivateAddress = (address: string): boolean => {
+  const host = address.replace(/^\[|\]$/g, '').toLowerCase();
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(host)) return isPrivateIPv4(host);
+  if (!host.includes(':')) return false;
+
+  // IPv4-mapped, either dotted (::ffff:10.0.0.1) or as URLs print it (::ffff:a00:1)
+  const mapped = host.match(/^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/);
+  if (mapped) {
+    if (mapped[1]) return isPrivateIPv4(mapped[1]);
+    const high = parseInt(mapped[2], 16);
+    const low = parseInt(mapped[3], 16);
+    return isPrivateIPv4([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+  }
+
+  return (
+    host === '::' ||
+    host === '::1' ||
+    /^f[cd]/.test(host) ||       // unique local
+    /^fe[89ab]/.test(host) ||    // link-local
+    /^ff/.test(host)             // multicast
+  );
+};
+
+// Why a webhook URL can't be used, or null when it looks fine. Only checks
+// what the URL itself says; dispatch also checks what the name resolves to.
+export const webhookUrlProblem = (url: string): string | null => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Enter a full webhook URL, starting with https://';
+  }
+  if (parsed.protocol !== 'https:') return 'Webhooks need an https:// URL';
+
+  const host = parsed.hostname.toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host)) {
+    return 'Webhooks must go to a public address, not a private or local one';
+  }
+  return null;
+};
+
+// Looks a host name up and returns every address it points at
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+const checkWebhookUrl = async (url: string, resolveHost?: HostResolver) => {
+  const problem = webhookUrlProblem(url);
+  if (problem) throw new Error(problem);
+  if (!resolveHost) return;
+
+  const addresses = await resolveHost(new URL(url).hostname);
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error('Webhooks must go to a public address, not a private or local one');
+  }
+};
+
+// Transports ------------------------------------------------------------------
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface NotificationTransport {
+  sendEmail(message: EmailMessage): Promise<void>;
+  postWebhook(url: string, body: unknown): Promise<void>;
+}
+
+export type OutboxMessage =
+  | { channel: 'email'; message: EmailMessage }
+  | { channel: 'webhook'; url: string; body: unknown };
+
+// Stand-in for local development: nothing leaves the machine, messages are
+// logged and kept so the caller can inspect them
+export const createOutboxTransport = () => {
+  const messages: OutboxMessage[] = [];
+
+  const transport: NotificationTransport & { messages: OutboxMessage[] } = {
+    messages,
+    async sendEmail(message) {
+      console.log(`[notifications] email to ${message.to}: ${message.subject}\n${message.text}`);
+      messages.push({ channel: 'email', message });
+    },
+    async postWebhook(url, body) {
+      console.log(`[notifications] webhook to ${url}`, JSON.stringify(body));
+      messages.push({ channel: 'webhook', url, body });
+    },
+  };
+  return transport;
+};
+
+// Email goes to an HTTP mail API that accepts { from, to, subject, text }
+export const createHttpTransport = (email: { apiUrl: string; apiKey: string; from: string }): NotificationTransport => {
+  const post = async (url: string, body: unknown, init: RequestInit = {}) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init.headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`${url} responded ${response.status}`);
+    }
+  };
+
+  return {
+    sendEmail: message => post(email.apiUrl, { from: email.from, ...message }, { headers: { Authorization: `Bearer ${email.apiKey}` } }),
+    // A redirect could point anywhere, so it's treated as a failure
+    postWebhook: (url, body) => post(url, body, { redirect: 'error' }),
+  };
+};
+
+// Dispatch --------------------------------------------------------------------
+
+export interface DispatchResult {
+  webhooks: number;
+  emails: number;
+  errors: string[];
+}
+
+// Delivers undelivered events to every manager who has opted in. Webhooks go
+// out on every run; email only when `digest` is set, so the daily digest is a
+// separate scheduled call. Needs a service-role client: it reads everyone's
+// preferences and records deliveries. Webhook URLs are only posted to when
+// they're https and every address `resolveHost` gives for them is public.
+export async function dispatchNotifications(
+  client: SupabaseClient,
+  transport: NotificationTransport,
+  { digest, resolveHost }: { digest: boolean; resolveHost?: HostResolver }
+): Promise<DispatchResult> {
+  const result: DispatchResult = { webhooks: 0, emails: 0, errors: [] };
+  const since = new Date(Date.now() - LOOKBACK_HOURS * 60 * 60 * 1000).toISOString();
+
+  const [preferencesResult, profilesResult, eventsResult] = await Promise.all([
+    client.from('notification_preferences').select('*').or('email_digest.eq.true,webhook_enabled.eq.true'),
+    client.from('profiles').select('*').in('role', MANAGER_ROLES),
+    client
+      .from('notification_events')
+      .select('*, requests(requester_name, notes, request_items(item_name, quantity))')
+      .gte('created_at', since)
+      .order('created_at'),
+  ]);
+
+  if (preferencesResult.error) throw preferencesResult.error;
+  if (profilesResult.error) throw profilesResult.error;
+  if (eventsResult.error) throw eventsResult.error;
+
+  const allPreferences: NotificationPreferences[] = preferencesResult.data || [];
+  const profiles: Profile[] = profilesResult.data || [];
+  const events: NotificationEvent[] = eventsResult.data || [];
+  if (events.length === 0) return result;
+
+  const { data: deliveryRows, error: deliveriesError } = await client
+    .from('notification_deliveries')
+    .select('event_id, user_id, channel')
+    .in('event_id', events.map(event => event.id));
+
+  if (deliveriesError) throw deliveriesError;
+  const delivered = new Set(
+    (deliveryRows || []).map(row => `${row.event_id}:${row.user_id}:${row.channel}`)
+  );
+
+  const deliver = async (
+    preferences: NotificationPreferences,
+    channel: NotificationChannel,
+    send: (pending: NotificationEvent[]) => Promise<void>
+  ) => {
+    const pending = events.filter(
+      event => wantsEvent(preferences, event) && !delivered.has(`${event.id}:${preferences.user_id}:${channel}`)
+    );
+    if (pending.length === 0) return false;
+
+    // A failed send records nothing, so the next run retries it
+    try {
+      await send(pending);
+    } catch (error) {
+      result.errors.push(`${channel} for ${preferences.user_id}: ${(error as Error).message}`);
+      return false;
+    }
+
+    const { error } = await client.from('notification_deliveries').upsert(
+      pending.map(event => ({ event_id: event.id, user_id: preferences.user_id, channel })),
+      { onConflict: 'event_id,user_id,channel', ignoreDuplicates: true }
+    );
+    if (error) {
+      result.errors.push(`Recording ${channel} deliveries for ${preferences.user_id}: ${error.message}`);
+    }
+    return true;
+  };
+
+  for (const preferences of allPreferences) {
+    // Only managers hear about stock; a demoted user's preferences are ignored
+    const profile = profiles.find(candidate => candidate.id === preferences.user_id);
+    if (!profile) continue;
+
+    if (preferences.webhook_enabled && preferences.webhook_url) {
+      const url = preferences.webhook_url;
+      const send = async (pending: NotificationEvent[]) => {
+        await checkWebhookUrl(url, resolveHost);
+        await transport.postWebhook(url, webhookPayload(pending));
+      };
+      if (await deliver(preferences, 'webhook', send)) {
+        result.webhooks += 1;
+      }
+    }
+
+    if (digest && preferences.email_digest) {
+      if (await deliver(preferences, 'email', pending => transport.sendEmail({ to: profile.email, ...digestEmail(pending) }))) {
+        result.emails += 1;
+      }
+    }
+  }
+
+  return result;
+}
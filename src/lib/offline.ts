@@ -0,0 +1,267 @@
+// src/lib/offline.ts
+
+import { useState, useEffect, useRef } from 'react';
+import { supabase } from '@/lib/supabase';
+import { isOfflineError } from '@/lib/errors';
+import { createSupabaseRepository } from '@/lib/repository';
+import { entryBy } from '@/lib/counts';
+
+// Last good copy of what a page loaded, shown when it can't reach the server
+const CACHE_PREFIX = 'clinic-inventory:cache:';
+
+// Requests and counts made offline, oldest first, kept until they are sent or
+// the user discards them
+const QUEUE_KEY = 'clinic-inventory:sync-queue';
+const QUEUE_CHANGED = 'clinic-inventory:sync-queue-changed';
+
+export interface Cached<T> {
+  savedAt: string;
+  data: T;
+}
+
+export const saveCached = <T>(key: string, data: T) => {
+  try {
+    window.localStorage.setItem(CACHE_PREFIX + key, JSON.stringify({ savedAt: new Date().toISOString(), data }));
+  } catch (error) {
+    // A full quota only costs us the offline copy
+    console.error('Error caching data:', error);
+  }
+};
+
+export const loadCached = <T>(key: string): Cached<T> | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    return JSON.parse(window.localStorage.getItem(CACHE_PREFIX + key) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+// Queue -------------------------------------------------------------------------
+
+export interface SyncConflict {
+  message: string;
+  details: string[];
+  // False when the action can no longer be applied at all and can only be discarded
+  canSend: boolean;
+}
+
+export interface QueuedRequestLine {
+  itemId: string;
+  itemName: string;
+  quantity: number;
+  // Stock when the request was queued, to notice a restock in the meantime
+  stockWhenQueued: number;
+}
+
+export interface QueuedRequest {
+  id: string;
+  kind: 'submit_request';
+  queuedAt: string;
+  lines: QueuedRequestLine[];
+  notes: string;
+  conflict?: SyncConflict;
+}
+
+export interface QueuedCount {
+  id: string;
+  kind: 'record_count';
+  queuedAt: string;
+  lineId: string;
+  itemName: string;
+  sessionName: string;
+  // Who counted; each person's entry is separate, so only theirs can clash
+  countedBy: string;
+  counted: number | null;
+  conflict?: SyncConflict;
+}
+
+export type QueuedAction = QueuedRequest | QueuedCount;
+
+export const loadQueue = (): QueuedAction[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(QUEUE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveQueue = (queue: QueuedAction[]) => {
+  if (queue.length === 0) {
+    window.localStorage.removeItem(QUEUE_KEY);
+  } else {
+    window.localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  }
+  window.dispatchEvent(new Event(QUEUE_CHANGED));
+};
+
+const updateQueue = (change: (queue: QueuedAction[]) => QueuedAction[]) => saveQueue(change(loadQueue()));
+
+// A later count of the same line replaces the queued one
+export const enqueue = (action: QueuedAction) =>
+  updateQueue(queue => [
+    ...queue.filter(queued => !(action.kind === 'record_count' && queued.kind === 'record_count' && queued.lineId === action.lineId)),
+    action,
+  ]);
+
+export const describeQueued = (action: QueuedAction) =>
+  action.kind === 'submit_request'
+    ? `Request for ${action.lines.map(line => `${line.quantity} × ${line.itemName}`).join(', ')}`
+    : `Count of ${action.itemName} (${action.counted ?? 'cleared'}) in "${action.sessionName}"`;
+
+type ReplayResult = 'sent' | 'conflict' | 'offline';
+
+// Checks the server hasn't moved on since the request was queued: items
+// removed from inventory, or restocked so the request may no longer be needed
+const requestConflict = async (action: QueuedRequest): Promise<SyncConflict | null> => {
+  const { data, error } = await supabase
+    .from('inventory')
+    .select('*')
+    .in('id', action.lines.map(line => line.itemId));
+
+  if (error) throw error;
+  const details = action.lines.flatMap(line => {
+    const item = (data || []).find(candidate => candidate.id === line.itemId);
+    if (!item || item.archived_at) return [`${line.itemName} has been removed from inventory`];
+    if (item.quantity > line.stockWhenQueued && item.quantity > item.threshold) {
+      return [`${line.itemName} has been restocked since (${line.stockWhenQueued} → ${item.quantity})`];
+    }
+    return [];
+  });
+
+  return details.length > 0 ? { message: 'Things changed while you were offline', details, canSend: true } : null;
+};
+
+// Checks the count is still open and the same person didn't count the item
+// again meanwhile, e.g. on another device. Other people's counts add to theirs.
+const countConflict = async (action: QueuedCount): Promise<SyncConflict | null> => {
+  const { data: line, error } = await supabase
+    .from('count_lines')
+    .select('*, count_sessions(status), count_entries(*)')
+    .eq('id', action.lineId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!line || line.count_sessions?.status !== 'counting') {
+    return { message: `"${action.sessionName}" has been closed`, details: ['This count can no longer be recorded'], canSend: false };
+  }
+  const entry = entryBy(line, action.countedBy);
+  if (entry && entry.counted_at > action.queuedAt && entry.quantity !== action.counted) {
+    return {
+      message: `${action.itemName} was counted again while you were offline`,
+      details: [`Your count from another device is ${entry.quantity}; this one is ${action.counted ?? 'nothing'}`],
+      canSend: true,
+    };
+  }
+  return null;
+};
+
+const replay = async (action: QueuedAction, force: boolean): Promise<ReplayResult> => {
+  try {
+    if (!force) {
+      const conflict = action.kind === 'submit_request' ? await requestConflict(action) : await countConflict(action);
+      if (conflict) {
+        updateQueue(queue => queue.map(queued => (queued.id === action.id ? { ...queued, conflict } : queued)));
+        return 'conflict';
+      }
+    }
+
+    if (action.kind === 'submit_request') {
+      // Sending anyway still leaves out items that no longer exist
+      const { data: existing, error: existingError } = await supabase
+        .from('inventory')
+        .select('*')
+        .in('id', action.lines.map(line => line.itemId));
+
+      if (existingError) throw existingError;
+      const lines = action.lines.filter(line => (existing || []).some(item => item.id === line.itemId && !item.archived_at));
+      if (lines.length > 0) {
+        await createSupabaseRepository(supabase).submitRequest({
+          lines: lines.map(line => ({ item_id: line.itemId, quantity: line.quantity })),
+          notes: action.notes,
+          client_ref: action.id,
+        });
+      }
+    } else {
+      const { error } = await supabase.rpc('record_count', {
+        p_line_id: action.lineId,
+        p_counted: action.counted,
+      });
+      if (error) throw error;
+    }
+
+    updateQueue(queue => queue.filter(queued => queued.id !== action.id));
+    return 'sent';
+  } catch (error) {
+    if (isOfflineError(error)) return 'offline';
+
+    console.error('Error replaying queued action:', error);
+    const conflict: SyncConflict = {
+      message: 'The server refused this',
+      details: [(error as { message?: string })?.message ?? 'Unknown error'],
+      canSend: true,
+    };
+    updateQueue(queue => queue.map(queued => (queued.id === action.id ? { ...queued, conflict } : queued)));
+    return 'conflict';
+  }
+};
+
+// Online state and the queue, replayed on load and whenever the browser
+// reconnects. Actions with an unresolved conflict wait for the user.
+export function useSyncQueue(onSynced?: () => void) {
+  const [queue, setQueue] = useState<QueuedAction[]>([]);
+  const [online, setOnline] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+
+  // The listeners below outlive the render that added them
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  useEffect(() => {
+    const refresh = () => setQueue(loadQueue());
+    const goOnline = () => {
+      setOnline(true);
+      sync();
+    };
+    const goOffline = () => setOnline(false);
+
+    refresh();
+    setOnline(navigator.onLine);
+    if (navigator.onLine) sync();
+
+    window.addEventListener(QUEUE_CHANGED, refresh);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.removeEventListener(QUEUE_CHANGED, refresh);
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, []);
+
+  const sync = async () => {
+    const pending = loadQueue().filter(action => !action.conflict);
+    if (pending.length === 0) return;
+
+    setSyncing(true);
+    let sent = 0;
+    for (const action of pending) {
+      const result = await replay(action, false);
+      if (result === 'offline') break;
+      if (result === 'sent') sent += 1;
+    }
+    setSyncing(false);
+    if (sent > 0) onSyncedRef.current?.();
+  };
+
+  const sendAnyway = async (action: QueuedAction) => {
+    if (await replay({ ...action, conflict: undefined }, true) === 'sent') onSyncedRef.current?.();
+  };
+
+  const discard = (action: QueuedAction) =>
+    updateQueue(current => current.filter(queued => queued.id !== action.id));
+
+  return { queue, online, syncing, sync, sendAnyway, discard };
+}
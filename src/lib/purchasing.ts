@@ -0,0 +1,71 @@
+// src/lib/purchasing.ts
+
+import { ItemUnit } from '@/lib/units';
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received';
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contact_name?: string;
+  email?: string;
+  phone?: string;
+  ordering_url?: string;
+  lead_time_days: number;
+  notes?: string;
+}
+
+export interface PurchaseOrderLine {
+  id: string;
+  purchase_order_id: string;
+  item_id: string;
+  // In the item's base unit, like the cost below
+  quantity_ordered: number;
+  quantity_received: number;
+  // Cost of one base unit, not one of the packs it may be ordered in
+  unit_cost?: number | null;
+  inventory?: {
+    name: string;
+    sku?: string | null;
+    barcode?: string | null;
+    base_unit?: string | null;
+    item_units?: ItemUnit[];
+  } | null;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  order_number: number;
+  supplier_id: string;
+  status: PurchaseOrderStatus;
+  notes?: string;
+  sent_at?: string;
+  received_at?: string;
+  created_at: string;
+  suppliers?: Supplier | null;
+  purchase_order_lines: PurchaseOrderLine[];
+}
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Partially Received',
+  received: 'Received',
+};
+
+export const PURCHASE_ORDER_STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  sent: 'bg-blue-100 text-blue-700',
+  partially_received: 'bg-yellow-100 text-yellow-700',
+  received: 'bg-green-100 text-green-700',
+};
+
+export const formatCurrency = (value: number) =>
+  value.toLocaleString(undefined, { style: 'currency', currency: 'USD' });
+
+// Per-unit costs can run to four decimal places once a pack price is split
+export const formatUnitCost = (value: number) =>
+  value.toLocaleString(undefined, { style: 'currency', currency: 'USD', maximumFractionDigits: 4 });
+
+export const orderTotal = (order: PurchaseOrder) =>
+  order.purchase_order_lines.reduce((sum, line) => sum + line.quantity_ordered * (line.unit_cost || 0), 0);
@@ -0,0 +1,68 @@
+// src/lib/realtime.ts
+
+import { useState, useEffect, useRef } from 'react';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import type { InventoryItem } from '@/lib/repository';
+import type { RestockRequest } from '@/lib/requests';
+import type { ItemLocation } from '@/lib/stock';
+
+// Rows of the tables pages follow live: inventory, item_locations and requests
+type Row = InventoryItem | ItemLocation | RestockRequest;
+
+export type TableChange<T extends Row> = RealtimePostgresChangesPayload<T>;
+
+// How long a row changed by someone else stays highlighted
+const HIGHLIGHT_MS = 4000;
+
+// Calls `onChange` for every insert, update and delete on a table. Row level
+// security still applies, so each user only hears about rows they can read.
+export function useTableChanges<T extends Row>(table: string, onChange: (change: TableChange<T>) => void) {
+  // The subscription outlives the render that created it
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`${table}-changes`)
+      .on<T>('postgres_changes', { event: '*', schema: 'public', table }, payload => onChangeRef.current(payload))
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [table]);
+}
+
+// Applies a change to a list held in state, matching rows with `sameRow`.
+// Inserts are appended, and so are updates to rows the list doesn't hold,
+// such as an item another session has just restored from the archive.
+// Callers re-sort if order matters.
+export const applyChange = <T extends Row>(
+  rows: T[],
+  change: TableChange<T>,
+  sameRow: (a: T, b: Partial<T>) => boolean
+): T[] => {
+  switch (change.eventType) {
+    case 'INSERT':
+      return rows.some(row => sameRow(row, change.new)) ? rows : [...rows, change.new];
+    case 'UPDATE':
+      return rows.some(row => sameRow(row, change.new))
+        ? rows.map(row => (sameRow(row, change.new) ? { ...row, ...change.new } : row))
+        : [...rows, change.new];
+    case 'DELETE':
+      return rows.filter(row => !sameRow(row, change.old));
+  }
+};
+
+// Ids of rows that just changed, each cleared after a few seconds
+export function useHighlights() {
+  const [highlighted, setHighlighted] = useState<string[]>([]);
+
+  const highlight = (id: string) => {
+    setHighlighted(current => (current.includes(id) ? current : [...current, id]));
+    setTimeout(() => setHighlighted(current => current.filter(other => other !== id)), HIGHLIGHT_MS);
+  };
+
+  return { highlighted, highlight };
+}
@@ -0,0 +1,498 @@
+// src/lib/repository.ts
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DataError, toDataError } from '@/lib/errors';
+import { ItemForm, RequestInput, parseBarcode, parseBulkAction, parseItemInput, parseMovementInput, parseRequestInput } from '@/lib/schemas';
+import { BulkAction, restockQuantity } from '@/lib/bulk';
+import { ItemSort, StockStatus, stockStatus } from '@/lib/search';
+import { ItemLocation } from '@/lib/stock';
+import { ItemUnit } from '@/lib/units';
+
+// An inventory row as every page sees it
+export interface InventoryItem {
+  id: string;
+  sku?: string | null;
+  barcode?: string | null;
+  name: string;
+  description?: string | null;
+  category_id: string;
+  quantity: number;
+  threshold: number;
+  source_url?: string | null;
+  track_lots?: boolean;
+  supplier_id?: string | null;
+  unit_cost?: number | null;
+  reorder_quantity?: number | null;
+  base_unit?: string;
+  item_units?: ItemUnit[];
+  version: number;
+  archived_at?: string | null;
+  created_at?: string;
+  // Only from the database; the in-memory repository doesn't know names
+  categories?: { name: string } | null;
+}
+
+// An item with the stock and threshold that apply to the current view: the
+// item's own, or those at one location
+export interface StockRow {
+  item: InventoryItem;
+  quantity: number;
+  threshold: number;
+}
+
+export interface ItemSearch {
+  search?: string;
+  // Already expanded to include subcategories
+  categoryIds?: string[] | null;
+  status?: StockStatus | null;
+  supplierId?: string | null;
+  locationId?: string | null;
+  sort: ItemSort;
+  descending: boolean;
+  limit: number;
+  offset: number;
+  archived?: boolean;
+}
+
+export interface ItemPage {
+  rows: StockRow[];
+  // Matches across all pages
+  total: number;
+}
+
+type MovementForm = Parameters<typeof parseMovementInput>[0];
+// A stock change saved along with an item's details
+type ItemMovement = Omit<MovementForm, 'item_id'>;
+type RequestForm = Parameters<typeof parseRequestInput>[0];
+
+// Everything the admin and request pages read or write about items, stock
+// and requests. Inputs are validated with the shared schemas before they go
+// anywhere, and every failure is a DataError.
+export interface InventoryRepository {
+  // Active items by name; archived ones too when asked, e.g. to match an import
+  listItems(options?: { includeArchived?: boolean }): Promise<InventoryItem[]>;
+  searchItems(search: ItemSearch): Promise<ItemPage>;
+  getItem(id: string): Promise<InventoryItem>;
+  // New items start with no stock. A movement (the opening quantity, or a
+  // stock change made while editing) is saved with the item or not at all.
+  createItem(form: ItemForm, movement?: ItemMovement): Promise<InventoryItem>;
+  // Only saves if the item is still at `version`, otherwise a conflict
+  updateItem(id: string, form: ItemForm, version: number, movement?: ItemMovement): Promise<InventoryItem>;
+  // Archived items keep their history and can be restored
+  archiveItem(id: string): Promise<void>;
+  restoreItem(id: string): Promise<void>;
+  setBarcode(id: string, barcode: string): Promise<void>;
+  // Admins only, for archived items that aren't on an open request
+  purgeItem(id: string): Promise<void>;
+  // Returns the item's stock level afterwards
+  recordMovement(form: MovementForm): Promise<number>;
+  // Returns the request id; sending the same client_ref twice returns the first
+  submitRequest(form: RequestForm): Promise<string>;
+  cancelRequest(id: string): Promise<void>;
+  // All or nothing: if any item fails, nothing changes and the DataError's
+  // `fields` map each failed item id to its reason
+  applyBulkAction(itemIds: string[], action: BulkAction): Promise<number>;
+}
+
+const bulkFailureMessage = (failed: number, total: number) =>
+  `Nothing was changed: ${failed} of ${total} items failed`;
+
+const byName = (a: InventoryItem, b: InventoryItem) => a.name.localeCompare(b.name);
+
+// Items come with their category name, and their pack sizes so quantities can
+// be shown in them
+const ITEM_SELECT = '*, categories(name), item_units(*)';
+
+// Supabase ------------------------------------------------------------------------
+
+export const createSupabaseRepository = (client: SupabaseClient): InventoryRepository => {
+  const getItem = async (id: string) => {
+    const { data, error } = await client.from('inventory').select(ITEM_SELECT).eq('id', id).maybeSingle();
+    if (error) throw toDataError(error);
+    if (!data) throw new DataError('not_found', 'Item not found');
+    return data as InventoryItem;
+  };
+
+  // Details and stock change go through one RPC, so they're saved together
+  const saveItem = async (id: string | null, form: ItemForm, version: number | null, movement?: ItemMovement) => {
+    const input = parseItemInput(form);
+    const change = movement ? parseMovementInput({ ...movement, item_id: id ?? 'new' }) : null;
+    const { data, error } = await client
+      .rpc('save_item', {
+        p_item_id: id,
+        p_item: input,
+        p_version: version,
+        p_movement: change && {
+          movement_type: change.movement_type,
+          delta: change.delta,
+          reason: change.reason,
+          location_id: change.location_id,
+          lot_id: change.lot_id ?? null,
+          unit_cost: change.unit_cost ?? null,
+        },
+      })
+      .select(ITEM_SELECT)
+      .single();
+
+    if (error) throw toDataError(error);
+    return data as InventoryItem;
+  };
+
+  return {
+    async listItems({ includeArchived = false } = {}) {
+      let query = client.from('inventory').select(ITEM_SELECT).order('name');
+      if (!includeArchived) query = query.is('archived_at', null);
+      const { data, error } = await query;
+      if (error) throw toDataError(error);
+      return (data || []) as InventoryItem[];
+    },
+
+    async searchItems(search) {
+      const { data, error } = await client.rpc('search_inventory', {
+        p_search: search.search?.trim() || null,
+        p_category_ids: search.categoryIds ?? null,
+        p_status: search.status || null,
+        p_supplier_id: search.supplierId || null,
+        p_location_id: search.locationId || null,
+        p_sort: search.sort,
+        p_descending: search.descending,
+        p_limit: search.limit,
+        p_offset: search.offset,
+        p_archived: !!search.archived,
+      });
+
+      if (error) throw toDataError(error);
+      const rows = (data || []) as { item: InventoryItem; quantity: number; threshold: number; total_count: number }[];
+      return {
+        rows: rows.map(({ item, quantity, threshold }) => ({ item, quantity, threshold })),
+        total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+      };
+    },
+
+    getItem,
+
+    createItem(form, movement) {
+      return saveItem(null, form, null, movement);
+    },
+
+    updateItem(id, form, version, movement) {
+      return saveItem(id, form, version, movement);
+    },
+
+    async archiveItem(id) {
+      const { error } = await client.from('inventory').update({ archived_at: new Date().toISOString() }).eq('id', id);
+      if (error) throw toDataError(error);
+    },
+
+    async restoreItem(id) {
+      const { error } = await client.from('inventory').update({ archived_at: null }).eq('id', id);
+      if (error) throw toDataError(error);
+    },
+
+    async setBarcode(id, barcode) {
+      const { error } = await client.from('inventory').update({ barcode: parseBarcode(barcode) }).eq('id', id);
+      if (error) throw toDataError(error);
+    },
+
+    async purgeItem(id) {
+      const { error } = await client.rpc('purge_item', { p_item_id: id });
+      if (error) throw toDataError(error);
+    },
+
+    async recordMovement(form) {
+      const input = parseMovementInput(form);
+      const { data, error } = await client.rpc('record_stock_movement', {
+        p_item_id: input.item_id,
+        p_movement_type: input.movement_type,
+        p_delta: input.delta,
+        p_reason: input.reason,
+        p_location_id: input.location_id,
+        p_lot_id: input.lot_id ?? null,
+        p_unit_cost: input.unit_cost ?? null,
+      });
+
+      if (error) throw toDataError(error);
+      return data as number;
+    },
+
+    async submitRequest(form) {
+      const input = parseRequestInput(form);
+      const { data, error } = await client.rpc('submit_request', {
+        p_lines: input.lines,
+        p_notes: input.notes ?? '',
+        p_client_ref: input.client_ref ?? null,
+      });
+
+      if (error) throw toDataError(error);
+      return data as string;
+    },
+
+    async cancelRequest(id) {
+      const { error } = await client.rpc('cancel_request', { p_request_id: id });
+      if (error) throw toDataError(error);
+    },
+
+    async applyBulkAction(itemIds, action) {
+      parseBulkAction(action);
+      const { data, error } = await client.rpc('apply_bulk_action', {
+        p_item_ids: itemIds,
+        p_action: action.kind,
+        p_category_id: action.kind === 'set_category' ? action.categoryId : null,
+        p_threshold: action.kind === 'set_threshold' ? action.threshold : null,
+        p_delta: action.kind === 'adjust_quantity' ? action.delta : null,
+        p_reason: action.kind === 'adjust_quantity' ? action.reason : action.kind === 'request' ? action.notes : null,
+      });
+
+      if (error) {
+        // The failed items come back as JSON in the error detail
+        let failures: { item_id: string; error: string }[] = [];
+        try {
+          failures = JSON.parse(error.details || '[]');
+        } catch {
+          // Not a per-item failure; reported as is
+        }
+        if (failures.length === 0) throw toDataError(error);
+        throw new DataError(
+          'rule',
+          bulkFailureMessage(failures.length, itemIds.length),
+          Object.fromEntries(failures.map(failure => [failure.item_id, failure.error]))
+        );
+      }
+      return data as number;
+    },
+  };
+};
+
+// In memory -----------------------------------------------------------------------
+
+interface MemoryRequest extends RequestInput {
+  id: string;
+  status: 'pending' | 'cancelled';
+}
+
+// Keeps everything in plain arrays and applies the same rules the database
+// does, so pages and scripts can run without a Supabase project. Category
+// names aren't known here, so sorting by category groups by category id.
+export const createMemoryRepository = (
+  seed: InventoryItem[] = [],
+  itemLocations: ItemLocation[] = []
+): InventoryRepository => {
+  let items: InventoryItem[] = seed.map(item => ({ ...item }));
+  const requests: MemoryRequest[] = [];
+  // Items on an open purchase order, which is all bulk ordering needs to know
+  const onOrder = new Set<string>();
+
+  const find = (id: string) => {
+    const item = items.find(candidate => candidate.id === id);
+    if (!item) throw new DataError('not_found', 'Item not found');
+    return item;
+  };
+
+  // SKUs and barcodes are unique across items, ignoring case
+  const checkUnique = (input: ReturnType<typeof parseItemInput>, exceptId?: string) => {
+    for (const field of ['sku', 'barcode'] as const) {
+      const value = input[field]?.toLowerCase();
+      if (value && items.some(item => item.id !== exceptId && item[field]?.toLowerCase() === value)) {
+        throw new DataError('duplicate', `Another item already uses that ${field === 'sku' ? 'SKU' : 'barcode'}`);
+      }
+    }
+  };
+
+  return {
+    async listItems({ includeArchived = false } = {}) {
+      return items.filter(item => includeArchived || !item.archived_at).map(item => ({ ...item })).sort(byName);
+    },
+
+    async searchItems(search) {
+      const text = search.search?.trim().toLowerCase();
+      const rows = items.flatMap((item): StockRow[] => {
+        if (!!item.archived_at !== !!search.archived) return [];
+        if (search.locationId) {
+          const stock = itemLocations.find(row => row.item_id === item.id && row.location_id === search.locationId);
+          return stock ? [{ item: { ...item }, quantity: stock.quantity, threshold: stock.threshold ?? item.threshold }] : [];
+        }
+        return [{ item: { ...item }, quantity: item.quantity, threshold: item.threshold }];
+      });
+
+      const statusRank: Record<StockStatus, number> = { out: 0, low: 1, in_stock: 2 };
+      const sortValue = ({ item, quantity, threshold }: StockRow): string | number => {
+        switch (search.sort) {
+          case 'name': return item.name.toLowerCase();
+          case 'category': return item.category_id;
+          case 'quantity': return quantity;
+          case 'threshold': return threshold;
+          case 'status': return statusRank[stockStatus(quantity, threshold)];
+        }
+      };
+
+      const matches = rows
+        .filter(({ item }) => !text || `${item.name} ${item.description ?? ''}`.toLowerCase().includes(text))
+        .filter(({ item }) => !search.categoryIds || search.categoryIds.includes(item.category_id))
+        .filter(({ item }) => !search.supplierId || item.supplier_id === search.supplierId)
+        .filter(row => !search.status || stockStatus(row.quantity, row.threshold) === search.status)
+        .sort((a, b) => {
+          const [left, right] = [sortValue(a), sortValue(b)];
+          const order = left < right ? -1 : left > right ? 1 : 0;
+          return (search.descending ? -order : order) || byName(a.item, b.item);
+        });
+
+      return { rows: matches.slice(search.offset, search.offset + search.limit), total: matches.length };
+    },
+
+    async getItem(id) {
+      return { ...find(id) };
+    },
+
+    async createItem(form, movement) {
+      const input = parseItemInput(form);
+      const change = movement ? parseMovementInput({ ...movement, item_id: 'new' }) : null;
+      checkUnique(input);
+      if (change && change.delta < 0) throw new DataError('rule', `Not enough stock: ${input.name} has 0`);
+
+      const item: InventoryItem = {
+        ...input,
+        id: crypto.randomUUID(),
+        quantity: change?.delta ?? 0,
+        version: 1,
+        created_at: new Date().toISOString(),
+      };
+      items.push(item);
+      return { ...item };
+    },
+
+    async updateItem(id, form, version, movement) {
+      const input = parseItemInput(form);
+      const change = movement ? parseMovementInput({ ...movement, item_id: id }) : null;
+      const item = find(id);
+      if (item.version !== version) throw new DataError('conflict', 'Item was changed by someone else');
+      checkUnique(input, id);
+      // Checked before anything changes, so the item isn't saved without its stock
+      if (change && item.quantity + change.delta < 0) {
+        throw new DataError('rule', `Not enough stock: ${item.name} has ${item.quantity}`);
+      }
+
+      // As in the database, the version only moves when something changed
+      const changed = (Object.keys(input) as (keyof typeof input)[]).some(key => (item[key] ?? null) !== input[key]);
+      Object.assign(item, input, { version: changed ? item.version + 1 : item.version });
+      if (change) item.quantity += change.delta;
+      return { ...item };
+    },
+
+    async archiveItem(id) {
+      const item = find(id);
+      if (!item.archived_at) Object.assign(item, { archived_at: new Date().toISOString(), version: item.version + 1 });
+    },
+
+    async restoreItem(id) {
+      const item = find(id);
+      if (item.archived_at) Object.assign(item, { archived_at: null, version: item.version + 1 });
+    },
+
+    async setBarcode(id, barcode) {
+      const value = parseBarcode(barcode);
+      const item = find(id);
+      if (items.some(other => other.id !== id && other.barcode?.toLowerCase() === value.toLowerCase())) {
+        throw new DataError('duplicate', 'Another item already uses that barcode');
+      }
+      if (item.barcode !== value) Object.assign(item, { barcode: value, version: item.version + 1 });
+    },
+
+    async purgeItem(id) {
+      const item = find(id);
+      if (!item.archived_at) throw new DataError('rule', `Archive "${item.name}" before deleting it permanently`);
+      if (requests.some(request => request.status === 'pending' && request.lines.some(line => line.item_id === id))) {
+        throw new DataError('rule', `"${item.name}" is on an open request; fulfil or cancel it first`);
+      }
+      if (onOrder.has(id)) {
+        throw new DataError('rule', `"${item.name}" is on a purchase order, so it stays archived to keep the order history`);
+      }
+      items = items.filter(other => other.id !== id);
+    },
+
+    async recordMovement(form) {
+      const input = parseMovementInput(form);
+      const item = find(input.item_id);
+      const quantityAfter = item.quantity + input.delta;
+      if (quantityAfter < 0) {
+        throw new DataError('rule', `Not enough stock: ${item.name} has ${item.quantity}`);
+      }
+
+      item.quantity = quantityAfter;
+      if (input.movement_type === 'receipt' && input.unit_cost != null) item.unit_cost = input.unit_cost;
+      return quantityAfter;
+    },
+
+    async submitRequest(form) {
+      const input = parseRequestInput(form);
+      const existing = input.client_ref && requests.find(request => request.client_ref === input.client_ref);
+      if (existing) return existing.id;
+
+      input.lines.forEach(line => {
+        const item = find(line.item_id);
+        if (item.archived_at) throw new DataError('rule', `"${item.name}" has been archived and can't be requested`);
+      });
+      const request: MemoryRequest = { ...input, id: crypto.randomUUID(), status: 'pending' };
+      requests.push(request);
+      return request.id;
+    },
+
+    async cancelRequest(id) {
+      const request = requests.find(candidate => candidate.id === id);
+      if (!request) throw new DataError('not_found', 'Request not found');
+      if (request.status !== 'pending') throw new DataError('rule', 'Only pending requests can be cancelled');
+      request.status = 'cancelled';
+    },
+
+    async applyBulkAction(itemIds, action) {
+      parseBulkAction(action);
+      if (itemIds.length === 0) throw new DataError('validation', 'Select at least one item');
+
+      // Changes go to copies, kept only if every item succeeds
+      const working = items.map(item => ({ ...item }));
+      const failures: Record<string, string> = {};
+      const lines: RequestInput['lines'] = [];
+      const ordered: string[] = [];
+
+      for (const id of itemIds) {
+        const item = working.find(candidate => candidate.id === id && !candidate.archived_at);
+        if (!item) {
+          failures[id] = 'Item not found';
+          continue;
+        }
+        switch (action.kind) {
+          case 'set_category':
+            if (item.category_id !== action.categoryId) Object.assign(item, { category_id: action.categoryId, version: item.version + 1 });
+            break;
+          case 'set_threshold':
+            if (item.threshold !== action.threshold) Object.assign(item, { threshold: action.threshold, version: item.version + 1 });
+            break;
+          case 'adjust_quantity':
+            if (item.quantity + action.delta < 0) failures[id] = `Not enough stock: quantity would fall to ${item.quantity + action.delta}`;
+            else item.quantity += action.delta;
+            break;
+          case 'archive':
+            Object.assign(item, { archived_at: new Date().toISOString(), version: item.version + 1 });
+            break;
+          case 'request':
+            lines.push({ item_id: id, quantity: restockQuantity(item) });
+            break;
+          case 'purchase_order':
+            if (!item.supplier_id) failures[id] = 'No supplier set';
+            else if (onOrder.has(id)) failures[id] = 'Already on an open purchase order';
+            else ordered.push(id);
+            break;
+        }
+      }
+
+      const failed = Object.keys(failures).length;
+      if (failed > 0) throw new DataError('rule', bulkFailureMessage(failed, itemIds.length), failures);
+
+      items = working;
+      ordered.forEach(id => onOrder.add(id));
+      if (action.kind === 'request') {
+        requests.push({ lines, notes: action.notes.trim() || null, id: crypto.randomUUID(), status: 'pending' });
+      }
+      return itemIds.length;
+    },
+  };
+};
@@ -0,0 +1,82 @@
+// src/lib/requests.ts
+
+import { Unitised } from '@/lib/units';
+
+export type RequestStatus = 'pending' | 'approved' | 'rejected' | 'ordered' | 'fulfilled' | 'cancelled';
+
+export interface RequestLine {
+  id: string;
+  item_id?: string;
+  item_name: string;
+  category?: string;
+  quantity: number;
+  received_quantity?: number;
+  inventory?: Unitised | null;
+}
+
+export interface RequestStatusChange {
+  id: string;
+  request_id: string;
+  status: RequestStatus;
+  changed_by_name?: string | null;
+  created_at: string;
+}
+
+export interface RequestComment {
+  id: string;
+  request_id: string;
+  author_id: string;
+  author_name?: string | null;
+  body: string;
+  created_at: string;
+}
+
+export interface RestockRequest {
+  id: string;
+  notes?: string;
+  status: RequestStatus;
+  rejection_reason?: string;
+  expected_on?: string | null;
+  requested_by?: string;
+  requester_name?: string | null;
+  created_at: string;
+  updated_at?: string;
+  request_items: RequestLine[];
+  request_status_history?: RequestStatusChange[];
+}
+
+// What every open request adds up to for one item, from open_request_quantities
+export interface OpenRequestQuantity {
+  item_id: string;
+  quantity: number;
+  request_count: number;
+}
+
+export const REQUEST_STATUS_LABELS: Record<RequestStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  ordered: 'Ordered',
+  fulfilled: 'Fulfilled',
+  rejected: 'Rejected',
+  cancelled: 'Cancelled',
+};
+
+export const REQUEST_STATUS_STYLES: Record<RequestStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-700',
+  approved: 'bg-blue-100 text-blue-700',
+  ordered: 'bg-purple-100 text-purple-700',
+  fulfilled: 'bg-green-100 text-green-700',
+  rejected: 'bg-red-100 text-red-700',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+// The normal path a request takes; rejected and cancelled end it early
+export const REQUEST_TIMELINE: RequestStatus[] = ['pending', 'approved', 'ordered', 'fulfilled'];
+
+export const OPEN_REQUEST_STATUSES: RequestStatus[] = ['pending', 'approved', 'ordered'];
+
+export const describeRequest = (request: RestockRequest) => {
+  const [first, ...rest] = request.request_items;
+  if (!first) return 'Request';
+  return rest.length > 0 ? `${first.item_name} + ${rest.length} more` : first.item_name;
+};
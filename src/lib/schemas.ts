@@ -0,0 +1,248 @@
+// src/lib/schemas.ts
+
+import { DataError } from '@/lib/errors';
+import { MovementType, MOVEMENT_TYPE_LABELS } from '@/lib/stock';
+import { BulkAction } from '@/lib/bulk';
+
+// Form values arrive as strings from inputs or numbers from state; both are accepted
+type Raw = string | number | boolean | null | undefined;
+
+// Collects field errors so a form can show all of them at once
+class FieldCheck {
+  readonly errors: Record<string, string> = {};
+
+  fail(field: string, message: string) {
+    if (!this.errors[field]) this.errors[field] = message;
+  }
+
+  name(field: string, label: string, value: Raw, maxLength = 120): string {
+    const text = String(value ?? '').trim();
+    if (!text) this.fail(field, `${label} is required`);
+    else if (text.length > maxLength) this.fail(field, `${label} must be ${maxLength} characters or fewer`);
+    return text;
+  }
+
+  text(field: string, label: string, value: Raw, maxLength = 2000): string | null {
+    const text = String(value ?? '').trim();
+    if (text.length > maxLength) this.fail(field, `${label} must be ${maxLength} characters or fewer`);
+    return text || null;
+  }
+
+  integer(field: string, label: string, value: Raw, { min = 0, optional = false } = {}): number | null {
+    const text = String(value ?? '').trim();
+    if (text === '') {
+      if (!optional) this.fail(field, `${label} is required`);
+      return null;
+    }
+    const number = Number(text);
+    if (!Number.isInteger(number)) {
+      this.fail(field, `${label} must be a whole number`);
+      return null;
+    }
+    if (number < min) {
+      this.fail(field, min === 0 ? `${label} can't be negative` : `${label} must be at least ${min}`);
+      return null;
+    }
+    return number;
+  }
+
+  money(field: string, label: string, value: Raw): number | null {
+    const text = String(value ?? '').trim();
+    if (text === '') return null;
+    const number = Number(text);
+    // Four places, so a pack price split across its contents keeps its cents
+    if (!Number.isFinite(number) || number < 0 || Math.abs(Math.round(number * 10000) - number * 10000) > 1e-6) {
+      this.fail(field, `${label} must be an amount like 12.50`);
+      return null;
+    }
+    return number;
+  }
+
+  url(field: string, label: string, value: Raw): string | null {
+    const text = String(value ?? '').trim();
+    if (!text) return null;
+    try {
+      const url = new URL(text);
+      if (url.protocol === 'http:' || url.protocol === 'https:') return url.toString();
+    } catch {
+      // Falls through to the error below
+    }
+    this.fail(field, `${label} must be a web address starting with http:// or https://`);
+    return null;
+  }
+
+  // SKUs and barcodes: no spaces, so scanners and CSV files round-trip them
+  code(field: string, label: string, value: Raw): string | null {
+    const text = String(value ?? '').trim();
+    if (!text) return null;
+    if (/\s/.test(text) || text.length > 64) this.fail(field, `${label} must be up to 64 characters with no spaces`);
+    return text;
+  }
+
+  id(field: string, label: string, value: Raw, optional = false): string | null {
+    const text = String(value ?? '').trim();
+    if (!text && !optional) this.fail(field, `${label} is required`);
+    return text || null;
+  }
+
+  // Throws a validation DataError if anything failed
+  done() {
+    if (Object.keys(this.errors).length > 0) {
+      throw new DataError('validation', 'Some fields are invalid', this.errors);
+    }
+  }
+}
+
+// Items ---------------------------------------------------------------------------
+
+export interface ItemInput {
+  name: string;
+  description: string | null;
+  category_id: string;
+  threshold: number;
+  source_url: string | null;
+  track_lots: boolean;
+  sku: string | null;
+  barcode: string | null;
+  supplier_id: string | null;
+  unit_cost: number | null;
+  reorder_quantity: number | null;
+}
+
+// Missing fields are treated as blank, so a saved item can be passed back as-is
+export type ItemForm = { [K in keyof ItemInput]?: Raw };
+
+export const parseItemInput = (form: ItemForm): ItemInput => {
+  const check = new FieldCheck();
+  const input: ItemInput = {
+    name: check.name('name', 'Item name', form.name),
+    description: check.text('description', 'Description', form.description),
+    category_id: check.id('category_id', 'Category', form.category_id) ?? '',
+    threshold: check.integer('threshold', 'Low stock threshold', form.threshold) ?? 0,
+    source_url: check.url('source_url', 'Source URL', form.source_url),
+    track_lots: !!form.track_lots,
+    sku: check.code('sku', 'SKU', form.sku),
+    barcode: check.code('barcode', 'Barcode', form.barcode),
+    supplier_id: check.id('supplier_id', 'Supplier', form.supplier_id, true),
+    unit_cost: check.money('unit_cost', 'Unit cost', form.unit_cost),
+    reorder_quantity: check.integer('reorder_quantity', 'Reorder quantity', form.reorder_quantity, { min: 1, optional: true }),
+  };
+  check.done();
+  return input;
+};
+
+// Quantities typed into a form, e.g. the opening or counted stock of an item,
+// or (with a minimum of 1) how many to request
+export const parseQuantity = (value: Raw, label = 'Quantity', min = 0): number => {
+  const check = new FieldCheck();
+  const quantity = check.integer('quantity', label, value, { min });
+  check.done();
+  return quantity!;
+};
+
+// A barcode given to an item on its own, e.g. one assigned for a shelf label
+export const parseBarcode = (value: Raw): string => {
+  const check = new FieldCheck();
+  const barcode = check.code('barcode', 'Barcode', value);
+  if (!barcode) check.fail('barcode', 'Barcode is required');
+  check.done();
+  return barcode!;
+};
+
+// Movements -----------------------------------------------------------------------
+
+export interface MovementInput {
+  item_id: string;
+  movement_type: MovementType;
+  delta: number;
+  reason: string | null;
+  location_id: string | null;
+  lot_id?: string | null;
+  // What each unit cost; a receipt at a cost becomes the item's unit cost
+  unit_cost?: number | null;
+}
+
+// Anything other than a receipt needs a reason for the ledger
+export const parseMovementInput = (form: { [K in keyof MovementInput]?: Raw }): MovementInput => {
+  const check = new FieldCheck();
+  const delta = check.integer('delta', 'Change', form.delta, { min: -Infinity });
+  if (delta === 0) check.fail('delta', 'Change cannot be zero');
+
+  const movementType = String(form.movement_type ?? '') as MovementType;
+  if (!(movementType in MOVEMENT_TYPE_LABELS)) check.fail('movement_type', 'Choose a movement type');
+  const reason = check.text('reason', 'Reason', form.reason, 500);
+  if (movementType !== 'receipt' && !reason) check.fail('reason', 'Please enter a reason for the quantity change');
+
+  const input: MovementInput = {
+    item_id: check.id('item_id', 'Item', form.item_id) ?? '',
+    movement_type: movementType,
+    delta: delta ?? 0,
+    reason,
+    location_id: check.id('location_id', 'Location', form.location_id, true),
+    lot_id: check.id('lot_id', 'Lot', form.lot_id, true),
+    unit_cost: check.money('unit_cost', 'Unit cost', form.unit_cost),
+  };
+  check.done();
+  return input;
+};
+
+// Requests ------------------------------------------------------------------------
+
+export interface RequestLineInput {
+  item_id: string;
+  quantity: number;
+}
+
+export interface RequestInput {
+  lines: RequestLineInput[];
+  notes: string | null;
+  client_ref?: string;
+}
+
+export const parseRequestInput = (form: { lines: { item_id: Raw; quantity: Raw }[]; notes?: Raw; client_ref?: string }): RequestInput => {
+  const check = new FieldCheck();
+  if (form.lines.length === 0) check.fail('lines', 'Add at least one item to your request');
+
+  const lines = form.lines.map((line, index) => ({
+    item_id: check.id(`lines.${index}.item_id`, 'Item', line.item_id) ?? '',
+    quantity: check.integer(`lines.${index}.quantity`, 'Quantity', line.quantity, { min: 1 }) ?? 0,
+  }));
+  if (new Set(lines.map(line => line.item_id)).size !== lines.length) {
+    check.fail('lines', 'Each item can only appear once in a request');
+  }
+
+  const input: RequestInput = {
+    lines,
+    notes: check.text('notes', 'Notes', form.notes),
+    client_ref: form.client_ref,
+  };
+  check.done();
+  return input;
+};
+
+// Bulk actions --------------------------------------------------------------------
+
+export const parseBulkAction = (action: BulkAction): BulkAction => {
+  const check = new FieldCheck();
+  switch (action.kind) {
+    case 'set_category':
+      check.id('categoryId', 'Category', action.categoryId);
+      break;
+    case 'set_threshold':
+      check.integer('threshold', 'Low stock threshold', action.threshold);
+      break;
+    case 'adjust_quantity':
+      if (check.integer('delta', 'Change', action.delta, { min: -Infinity }) === 0) {
+        check.fail('delta', 'Change cannot be zero');
+      }
+      if (!check.text('reason', 'Reason', action.reason, 500)) {
+        check.fail('reason', 'Please enter a reason for the quantity change');
+      }
+      break;
+    case 'request':
+      check.text('notes', 'Notes', action.notes);
+      break;
+  }
+  check.done();
+  return action;
+};
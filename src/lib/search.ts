@@ -0,0 +1,89 @@
+// src/lib/search.ts
+
+export type StockStatus = 'in_stock' | 'low' | 'out';
+
+export type ItemSort = 'name' | 'category' | 'quantity' | 'threshold' | 'status';
+
+export const STOCK_STATUS_LABELS: Record<StockStatus, string> = {
+  in_stock: 'In Stock',
+  low: 'Low Stock',
+  out: 'Out of Stock',
+};
+
+export const STOCK_STATUS_STYLES: Record<StockStatus, string> = {
+  in_stock: 'bg-green-100 text-green-700',
+  low: 'bg-yellow-100 text-yellow-700',
+  out: 'bg-red-100 text-red-700',
+};
+
+export const ITEMS_PER_PAGE = 25;
+
+export const stockStatus = (quantity: number, threshold: number): StockStatus =>
+  quantity === 0 ? 'out' : quantity <= threshold ? 'low' : 'in_stock';
+
+// What the admin inventory table is showing. It lives in the URL so a view
+// like "medical, low stock" can be bookmarked or sent to someone.
+export interface ItemQuery {
+  search: string;
+  category: string;
+  status: StockStatus | '';
+  supplier: string;
+  location: string;
+  sort: ItemSort;
+  descending: boolean;
+  page: number;
+  // Archived items instead of active ones
+  archived: boolean;
+}
+
+export const DEFAULT_ITEM_QUERY: ItemQuery = {
+  search: '',
+  category: '',
+  status: '',
+  supplier: '',
+  location: '',
+  sort: 'name',
+  descending: false,
+  page: 1,
+  archived: false,
+};
+
+const SORTS: ItemSort[] = ['name', 'category', 'quantity', 'threshold', 'status'];
+
+// Unknown or malformed values fall back to the defaults rather than erroring,
+// since the URL may have been edited by hand or come from an older link
+export const parseItemQuery = (params: URLSearchParams): ItemQuery => {
+  const status = params.get('status') ?? '';
+  const sort = params.get('sort') ?? '';
+  const page = Number(params.get('page'));
+
+  return {
+    search: params.get('q') ?? '',
+    category: params.get('category') ?? '',
+    status: status in STOCK_STATUS_LABELS ? (status as StockStatus) : '',
+    supplier: params.get('supplier') ?? '',
+    location: params.get('location') ?? '',
+    sort: SORTS.includes(sort as ItemSort) ? (sort as ItemSort) : DEFAULT_ITEM_QUERY.sort,
+    descending: params.get('dir') === 'desc',
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+    archived: params.get('archived') === '1',
+  };
+};
+
+// Only what differs from the defaults, so a plain view has a plain URL
+export const itemQueryParams = (query: ItemQuery): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (query.search.trim()) params.set('q', query.search.trim());
+  if (query.category) params.set('category', query.category);
+  if (query.status) params.set('status', query.status);
+  if (query.supplier) params.set('supplier', query.supplier);
+  if (query.location) params.set('location', query.location);
+  if (query.sort !== DEFAULT_ITEM_QUERY.sort) params.set('sort', query.sort);
+  if (query.descending) params.set('dir', 'desc');
+  if (query.page > 1) params.set('page', String(query.page));
+  if (query.archived) params.set('archived', '1');
+  return params;
+};
+
+export const hasItemFilters = (query: ItemQuery) =>
+  !!(query.search.trim() || query.category || query.status || query.supplier);
@@ -0,0 +1,59 @@
+// src/lib/stock.ts
+
+export type MovementType = 'receipt' | 'dispense' | 'adjustment' | 'write_off' | 'transfer';
+
+export interface StockMovement {
+  id: string;
+  item_id: string;
+  movement_type: MovementType;
+  delta: number;
+  quantity_after: number;
+  reason?: string;
+  performed_by: string;
+  request_id?: string;
+  lot_id?: string;
+  location_id?: string;
+  unit_cost?: number | null;
+  supplier_id?: string | null;
+  created_at: string;
+  inventory_lots?: { lot_number: string } | null;
+  locations?: { name: string } | null;
+}
+
+export interface InventoryLot {
+  id: string;
+  item_id: string;
+  lot_number: string;
+  expires_on?: string | null;
+  quantity: number;
+  created_at: string;
+}
+
+export interface StorageLocation {
+  id: string;
+  name: string;
+  description?: string;
+  is_default: boolean;
+}
+
+export interface ItemLocation {
+  item_id: string;
+  location_id: string;
+  quantity: number;
+  threshold?: number | null;
+}
+
+export const MOVEMENT_TYPE_LABELS: Record<MovementType, string> = {
+  receipt: 'Receipt',
+  dispense: 'Dispense / Use',
+  adjustment: 'Adjustment',
+  write_off: 'Write-off',
+  transfer: 'Transfer',
+};
+
+// Whole days from today until a YYYY-MM-DD date; negative once it has passed
+export const daysUntil = (date: string): number => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return Math.round((new Date(`${date}T00:00:00`).getTime() - today.getTime()) / 86400000);
+};
@@ -0,0 +1,74 @@
+// src/lib/units.ts
+
+// A pack size of an item, e.g. a box of 100 gloves. Factors are always in the
+// item's base unit, so a case of 10 boxes of 100 is a factor of 1000.
+export interface ItemUnit {
+  item_id: string;
+  name: string;
+  factor: number;
+  is_purchase: boolean;
+  is_issue: boolean;
+}
+
+export interface UnitOption {
+  name: string;
+  factor: number;
+}
+
+// Enough of an item to convert and display its quantities
+export interface Unitised {
+  base_unit?: string | null;
+  item_units?: ItemUnit[] | null;
+}
+
+export const DEFAULT_BASE_UNIT = 'each';
+
+export const baseUnit = (item?: Unitised | null): UnitOption => ({
+  name: item?.base_unit || DEFAULT_BASE_UNIT,
+  factor: 1,
+});
+
+// Base unit first, then pack sizes from smallest to largest
+export const unitOptions = (item?: Unitised | null): UnitOption[] => [
+  baseUnit(item),
+  ...[...(item?.item_units ?? [])]
+    .sort((a, b) => a.factor - b.factor)
+    .map(unit => ({ name: unit.name, factor: unit.factor })),
+];
+
+export const findUnit = (item: Unitised | null | undefined, name: string): UnitOption =>
+  unitOptions(item).find(unit => unit.name === name) ?? baseUnit(item);
+
+// What stock arrives in, and what it's handed out in; the base unit if unset
+export const purchaseUnit = (item?: Unitised | null): UnitOption =>
+  item?.item_units?.find(unit => unit.is_purchase) ?? baseUnit(item);
+
+export const issueUnit = (item?: Unitised | null): UnitOption =>
+  item?.item_units?.find(unit => unit.is_issue) ?? baseUnit(item);
+
+// Quantities are entered as whole units of any size and stored in the base unit
+export const toBase = (amount: number, unit: UnitOption) => amount * unit.factor;
+
+// Costs are stored per base unit, so a pack costs its factor times as much
+export const packCost = (unitCost: number, unit: UnitOption) => unitCost * unit.factor;
+export const fromPackCost = (packPrice: number, unit: UnitOption) => packPrice / unit.factor;
+
+// Largest packs first, e.g. 1250 gloves as "1 case + 2 box + 50 each"
+export const formatQuantity = (quantity: number, item?: Unitised | null): string => {
+  const options = unitOptions(item).reverse();
+  let remaining = Math.abs(quantity);
+  const parts: string[] = [];
+  options.forEach(unit => {
+    const count = Math.floor(remaining / unit.factor);
+    if (count > 0) {
+      parts.push(`${count} ${unit.name}`);
+      remaining -= count * unit.factor;
+    }
+  });
+  const text = parts.length > 0 ? parts.join(' + ') : `0 ${baseUnit(item).name}`;
+  return quantity < 0 ? `-(${text})` : text;
+};
+
+// "box (100 each)", for unit pickers
+export const unitLabel = (unit: UnitOption, item?: Unitised | null) =>
+  unit.factor === 1 ? unit.name : `${unit.name} (${unit.factor} ${baseUnit(item).name})`;
@@ -0,0 +1,90 @@
+// src/lib/valuation.ts
+
+import { CsvValue } from '@/lib/csv';
+
+// One row of stock_value_by_month
+export interface MonthlyValue {
+  month: string;
+  movement_type: 'receipt' | 'write_off';
+  supplier_id: string | null;
+  category_id: string;
+  expired: boolean;
+  quantity: number;
+  value: number;
+  // Units that moved with no recorded cost, so aren't in `value`
+  uncosted: number;
+}
+
+export interface MonthSummary {
+  month: string;
+  spend: number;
+  writtenOff: number;
+  expired: number;
+  uncosted: number;
+}
+
+export interface ReportRange {
+  from: string;
+  to: string;
+}
+
+// Items without a unit cost count as nothing, and are listed separately so
+// the gap is visible rather than silently under-valuing stock
+export const stockValue = (item: { quantity: number; unit_cost?: number | null }) =>
+  item.quantity * (item.unit_cost ?? 0);
+
+// The last twelve months including this one, for a year-on-a-page budget review
+export const defaultReportRange = (): ReportRange => {
+  const today = new Date();
+  const from = new Date(today.getFullYear(), today.getMonth() - 11, 1);
+  return {
+    from: `${from.getFullYear()}-${String(from.getMonth() + 1).padStart(2, '0')}-01`,
+    to: today.toISOString().slice(0, 10),
+  };
+};
+
+// First day of every month the range touches, as YYYY-MM-DD, so months with
+// nothing received still show
+export const monthsBetween = ({ from, to }: ReportRange): string[] => {
+  const months: string[] = [];
+  const cursor = new Date(`${from.slice(0, 7)}-01T00:00:00Z`);
+  const end = new Date(`${to.slice(0, 7)}-01T00:00:00Z`);
+  while (cursor.getTime() <= end.getTime()) {
+    months.push(cursor.toISOString().slice(0, 10));
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+  return months;
+};
+
+export const formatMonth = (month: string) =>
+  new Date(`${month}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+export const summariseByMonth = (rows: MonthlyValue[], months: string[]): MonthSummary[] =>
+  months.map(month => {
+    const inMonth = rows.filter(row => row.month === month);
+    const total = (match: (row: MonthlyValue) => boolean) =>
+      inMonth.filter(match).reduce((sum, row) => sum + Number(row.value), 0);
+    return {
+      month,
+      spend: total(row => row.movement_type === 'receipt'),
+      writtenOff: total(row => row.movement_type === 'write_off'),
+      expired: total(row => row.movement_type === 'write_off' && row.expired),
+      uncosted: inMonth.reduce((sum, row) => sum + row.uncosted, 0),
+    };
+  });
+
+// Receipt value per supplier; receipts without one are keyed by ''
+export const spendBySupplier = (rows: MonthlyValue[]): Map<string, { quantity: number; value: number }> => {
+  const totals = new Map<string, { quantity: number; value: number }>();
+  rows
+    .filter(row => row.movement_type === 'receipt')
+    .forEach(row => {
+      const key = row.supplier_id ?? '';
+      const current = totals.get(key) ?? { quantity: 0, value: 0 };
+      totals.set(key, { quantity: current.quantity + row.quantity, value: current.value + Number(row.value) });
+    });
+  return totals;
+};
+
+// Plain numbers rather than formatted currency, so a spreadsheet can sum them
+export const money = (value: number): CsvValue => value.toFixed(2);
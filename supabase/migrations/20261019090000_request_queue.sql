@@ -0,0 +1,44 @@
+-- supabase/migrations/20261019090000_request_queue.sql
+-- Restock request queue: requests move pending -> approved -> ordered -> fulfilled,
+-- or are rejected with a reason. Fulfilling adds the received quantity to stock.
+
+alter table requests
+  add column if not exists rejection_reason text,
+  add column if not exists received_quantity integer,
+  add column if not exists updated_at timestamptz not null default now();
+
+alter table requests drop constraint if exists requests_status_check;
+alter table requests add constraint requests_status_check
+  check (status in ('pending', 'approved', 'rejected', 'ordered', 'fulfilled'));
+
+-- Fulfil a request and add what was actually received to inventory in one transaction
+create or replace function fulfil_request(p_request_id uuid, p_received_quantity integer)
+returns void
+language plpgsql
+as $$
+declare
+  v_request requests%rowtype;
+begin
+  if p_received_quantity is null or p_received_quantity < 0 then
+    raise exception 'Received quantity must be zero or more';
+  end if;
+
+  select * into v_request from requests where id = p_request_id for update;
+  if not found then
+    raise exception 'Request % not found', p_request_id;
+  end if;
+  if v_request.status in ('fulfilled', 'rejected') then
+    raise exception 'Request is already %', v_request.status;
+  end if;
+
+  update inventory
+     set quantity = quantity + p_received_quantity
+   where id = v_request.item_id;
+
+  update requests
+     set status = 'fulfilled',
+         received_quantity = p_received_quantity,
+         updated_at = now()
+   where id = p_request_id;
+end;
+$$;
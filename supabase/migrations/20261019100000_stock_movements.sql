@@ -0,0 +1,137 @@
+-- supabase/migrations/20261019100000_stock_movements.sql
+-- Append-only stock ledger. inventory.quantity is only changed through
+-- record_stock_movement so every change carries a delta, reason, user and time.
+
+create table if not exists stock_movements (
+  id uuid primary key default gen_random_uuid(),
+  item_id uuid not null references inventory(id) on delete cascade,
+  movement_type text not null
+    check (movement_type in ('receipt', 'dispense', 'adjustment', 'write_off', 'transfer')),
+  delta integer not null check (delta <> 0),
+  quantity_after integer not null,
+  reason text,
+  performed_by text not null,
+  request_id uuid references requests(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists stock_movements_item_created_idx
+  on stock_movements (item_id, created_at desc);
+
+-- Movements are never edited or removed. Deletes cascaded from inventory
+-- (trigger depth > 1) are still allowed so items can be removed.
+create or replace function prevent_stock_movement_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'DELETE' and pg_trigger_depth() > 1 then
+    return old;
+  end if;
+  raise exception 'stock_movements is append-only';
+end;
+$$;
+
+drop trigger if exists stock_movements_append_only on stock_movements;
+create trigger stock_movements_append_only
+  before update or delete on stock_movements
+  for each row execute function prevent_stock_movement_changes();
+
+-- Apply a signed delta to an item and record it; returns the new quantity
+create or replace function record_stock_movement(
+  p_item_id uuid,
+  p_movement_type text,
+  p_delta integer,
+  p_reason text default null,
+  p_performed_by text default null,
+  p_request_id uuid default null
+)
+returns integer
+language plpgsql
+as $$
+declare
+  v_quantity integer;
+begin
+  if p_delta is null or p_delta = 0 then
+    raise exception 'Movement delta cannot be zero';
+  end if;
+
+  update inventory
+     set quantity = quantity + p_delta
+   where id = p_item_id
+  returning quantity into v_quantity;
+
+  if not found then
+    raise exception 'Item % not found', p_item_id;
+  end if;
+  if v_quantity < 0 then
+    raise exception 'Not enough stock: quantity would fall to %', v_quantity;
+  end if;
+
+  insert into stock_movements (item_id, movement_type, delta, quantity_after, reason, performed_by, request_id)
+  values (
+    p_item_id,
+    p_movement_type,
+    p_delta,
+    v_quantity,
+    nullif(trim(p_reason), ''),
+    coalesce(nullif(trim(p_performed_by), ''), auth.jwt() ->> 'email', 'unknown'),
+    p_request_id
+  );
+
+  return v_quantity;
+end;
+$$;
+
+-- Fulfilment now posts a receipt to the ledger instead of touching quantity directly
+create or replace function fulfil_request(p_request_id uuid, p_received_quantity integer)
+returns void
+language plpgsql
+as $$
+declare
+  v_request requests%rowtype;
+begin
+  if p_received_quantity is null or p_received_quantity < 0 then
+    raise exception 'Received quantity must be zero or more';
+  end if;
+
+  select * into v_request from requests where id = p_request_id for update;
+  if not found then
+    raise exception 'Request % not found', p_request_id;
+  end if;
+  if v_request.status in ('fulfilled', 'rejected') then
+    raise exception 'Request is already %', v_request.status;
+  end if;
+
+  if p_received_quantity > 0 then
+    perform record_stock_movement(
+      v_request.item_id, 'receipt', p_received_quantity,
+      'Fulfilled request', null, p_request_id
+    );
+  end if;
+
+  update requests
+     set status = 'fulfilled',
+         received_quantity = p_received_quantity,
+         updated_at = now()
+   where id = p_request_id;
+end;
+$$;
+
+-- Opening balances so the ledger sums to today's quantities
+insert into stock_movements (item_id, movement_type, delta, quantity_after, reason, performed_by)
+select i.id, 'adjustment', i.quantity, i.quantity, 'Opening balance', 'system'
+  from inventory i
+ where i.quantity <> 0
+   and not exists (select 1 from stock_movements m where m.item_id = i.id);
+
+-- Items whose stored quantity no longer matches the sum of their movements
+create or replace view inventory_reconciliation as
+select i.id as item_id,
+       i.name,
+       i.quantity,
+       coalesce(sum(m.delta), 0)::integer as ledger_quantity,
+       (i.quantity - coalesce(sum(m.delta), 0))::integer as drift
+  from inventory i
+  left join stock_movements m on m.item_id = i.id
+ group by i.id, i.name, i.quantity;
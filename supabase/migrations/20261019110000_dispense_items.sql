@@ -0,0 +1,54 @@
+-- supabase/migrations/20261019110000_dispense_items.sql
+-- Staff draw several items at once; either every line is taken or none are.
+
+create or replace function dispense_items(
+  p_lines jsonb,
+  p_reason text,
+  p_performed_by text default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_line record;
+  v_item inventory%rowtype;
+  v_result jsonb := '[]'::jsonb;
+begin
+  if p_lines is null or jsonb_array_length(p_lines) = 0 then
+    raise exception 'Nothing to dispense';
+  end if;
+
+  -- Lock items in a stable order so concurrent draws cannot deadlock
+  for v_line in
+    select (l ->> 'item_id')::uuid as line_item_id,
+           sum((l ->> 'quantity')::integer)::integer as line_quantity
+      from jsonb_array_elements(p_lines) l
+     group by 1
+     order by 1
+  loop
+    if v_line.line_quantity is null or v_line.line_quantity <= 0 then
+      raise exception 'Quantities must be at least 1';
+    end if;
+
+    select * into v_item from inventory where id = v_line.line_item_id for update;
+    if not found then
+      raise exception 'Item % not found', v_line.line_item_id;
+    end if;
+    if v_item.quantity < v_line.line_quantity then
+      raise exception 'Not enough "%" in stock: % available, % requested',
+        v_item.name, v_item.quantity, v_line.line_quantity;
+    end if;
+
+    perform record_stock_movement(v_item.id, 'dispense', -v_line.line_quantity, p_reason, p_performed_by);
+
+    v_result := v_result || jsonb_build_object(
+      'item_id', v_item.id,
+      'name', v_item.name,
+      'quantity', v_item.quantity - v_line.line_quantity,
+      'threshold', v_item.threshold
+    );
+  end loop;
+
+  return v_result;
+end;
+$$;
@@ -0,0 +1,111 @@
+-- supabase/migrations/20261019120000_request_items.sql
+-- A request is now a header with one or more line items.
+
+create table if not exists request_items (
+  id uuid primary key default gen_random_uuid(),
+  request_id uuid not null references requests(id) on delete cascade,
+  item_id uuid references inventory(id) on delete set null,
+  item_name text not null,
+  category text,
+  quantity integer not null check (quantity > 0),
+  received_quantity integer check (received_quantity >= 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists request_items_request_idx on request_items (request_id);
+create index if not exists request_items_item_idx on request_items (item_id);
+
+-- Existing single-item requests become one line each
+insert into request_items (request_id, item_id, item_name, category, quantity, received_quantity, created_at)
+select r.id, r.item_id, coalesce(r.item_name, 'Unknown item'), r.category, r.quantity, r.received_quantity, r.created_at
+  from requests r
+ where r.item_id is not null
+   and not exists (select 1 from request_items ri where ri.request_id = r.id);
+
+-- The per-request item columns are kept for old rows only
+alter table requests
+  alter column item_id drop not null,
+  alter column item_name drop not null,
+  alter column category drop not null,
+  alter column quantity drop not null;
+
+-- Create a request and its lines in one transaction; returns the request id
+create or replace function submit_request(p_lines jsonb, p_notes text default null)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_request_id uuid;
+  v_line jsonb;
+  v_item inventory%rowtype;
+begin
+  if p_lines is null or jsonb_array_length(p_lines) = 0 then
+    raise exception 'A request needs at least one item';
+  end if;
+
+  insert into requests (notes, status)
+  values (nullif(trim(p_notes), ''), 'pending')
+  returning id into v_request_id;
+
+  for v_line in select * from jsonb_array_elements(p_lines)
+  loop
+    select * into v_item from inventory where id = (v_line ->> 'item_id')::uuid;
+    if not found then
+      raise exception 'Item % not found', v_line ->> 'item_id';
+    end if;
+
+    insert into request_items (request_id, item_id, item_name, category, quantity)
+    values (v_request_id, v_item.id, v_item.name, v_item.category, (v_line ->> 'quantity')::integer);
+  end loop;
+
+  return v_request_id;
+end;
+$$;
+
+-- Fulfilment records what arrived per line: [{ "request_item_id": ..., "received_quantity": ... }]
+drop function if exists fulfil_request(uuid, integer);
+
+create or replace function fulfil_request(p_request_id uuid, p_received jsonb)
+returns void
+language plpgsql
+as $$
+declare
+  v_request requests%rowtype;
+  v_line request_items%rowtype;
+  v_received integer;
+begin
+  select * into v_request from requests where id = p_request_id for update;
+  if not found then
+    raise exception 'Request % not found', p_request_id;
+  end if;
+  if v_request.status in ('fulfilled', 'rejected') then
+    raise exception 'Request is already %', v_request.status;
+  end if;
+
+  for v_line in select * from request_items where request_id = p_request_id
+  loop
+    select (r ->> 'received_quantity')::integer into v_received
+      from jsonb_array_elements(p_received) r
+     where (r ->> 'request_item_id')::uuid = v_line.id;
+
+    v_received := coalesce(v_received, 0);
+    if v_received < 0 then
+      raise exception 'Received quantity must be zero or more';
+    end if;
+
+    if v_received > 0 and v_line.item_id is not null then
+      perform record_stock_movement(
+        v_line.item_id, 'receipt', v_received,
+        'Fulfilled request', null, p_request_id
+      );
+    end if;
+
+    update request_items set received_quantity = v_received where id = v_line.id;
+  end loop;
+
+  update requests
+     set status = 'fulfilled',
+         updated_at = now()
+   where id = p_request_id;
+end;
+$$;
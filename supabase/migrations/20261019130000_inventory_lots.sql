@@ -0,0 +1,186 @@
+-- supabase/migrations/20261019130000_inventory_lots.sql
+-- Lot numbers and expiry dates. For lot-tracked items the lots always sum to
+-- inventory.quantity, and draws take from the earliest-expiring lot first (FEFO).
+
+alter table inventory
+  add column if not exists track_lots boolean not null default false;
+
+create table if not exists inventory_lots (
+  id uuid primary key default gen_random_uuid(),
+  item_id uuid not null references inventory(id) on delete cascade,
+  lot_number text not null,
+  expires_on date,
+  quantity integer not null default 0 check (quantity >= 0),
+  created_at timestamptz not null default now(),
+  unique (item_id, lot_number)
+);
+
+create index if not exists inventory_lots_expiry_idx
+  on inventory_lots (expires_on)
+  where quantity > 0;
+
+alter table stock_movements
+  add column if not exists lot_id uuid references inventory_lots(id);
+
+-- Stock on hand when tracking is switched on goes into a placeholder lot
+create or replace function open_untracked_lot()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.track_lots and (tg_op = 'INSERT' or not old.track_lots) and new.quantity > 0 then
+    insert into inventory_lots (item_id, lot_number, quantity)
+    values (new.id, 'NO-LOT', new.quantity)
+    on conflict (item_id, lot_number) do update set quantity = inventory_lots.quantity + excluded.quantity;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists inventory_open_untracked_lot on inventory;
+create trigger inventory_open_untracked_lot
+  after insert or update of track_lots on inventory
+  for each row execute function open_untracked_lot();
+
+update inventory set track_lots = true where category = 'medical' and not track_lots;
+
+-- record_stock_movement gains an optional lot; without one, lot-tracked draws
+-- are split across lots FEFO and increases land in the NO-LOT placeholder
+drop function if exists record_stock_movement(uuid, text, integer, text, text, uuid);
+
+create or replace function record_stock_movement(
+  p_item_id uuid,
+  p_movement_type text,
+  p_delta integer,
+  p_reason text default null,
+  p_performed_by text default null,
+  p_request_id uuid default null,
+  p_lot_id uuid default null
+)
+returns integer
+language plpgsql
+as $$
+declare
+  v_item inventory%rowtype;
+  v_performed_by text;
+  v_reason text;
+  v_lot inventory_lots%rowtype;
+  v_lot_id uuid;
+  v_remaining integer;
+  v_take integer;
+  v_running integer;
+begin
+  if p_delta is null or p_delta = 0 then
+    raise exception 'Movement delta cannot be zero';
+  end if;
+
+  select * into v_item from inventory where id = p_item_id for update;
+  if not found then
+    raise exception 'Item % not found', p_item_id;
+  end if;
+  if v_item.quantity + p_delta < 0 then
+    raise exception 'Not enough stock: quantity would fall to %', v_item.quantity + p_delta;
+  end if;
+
+  update inventory set quantity = quantity + p_delta where id = p_item_id;
+
+  v_performed_by := coalesce(nullif(trim(p_performed_by), ''), auth.jwt() ->> 'email', 'unknown');
+  v_reason := nullif(trim(p_reason), '');
+
+  if not v_item.track_lots then
+    insert into stock_movements (item_id, movement_type, delta, quantity_after, reason, performed_by, request_id)
+    values (p_item_id, p_movement_type, p_delta, v_item.quantity + p_delta, v_reason, v_performed_by, p_request_id);
+    return v_item.quantity + p_delta;
+  end if;
+
+  if p_lot_id is not null or p_delta > 0 then
+    v_lot_id := p_lot_id;
+    if v_lot_id is null then
+      insert into inventory_lots (item_id, lot_number)
+      values (p_item_id, 'NO-LOT')
+      on conflict (item_id, lot_number) do update set lot_number = excluded.lot_number
+      returning id into v_lot_id;
+    end if;
+
+    update inventory_lots
+       set quantity = quantity + p_delta
+     where id = v_lot_id and item_id = p_item_id
+    returning * into v_lot;
+
+    if not found then
+      raise exception 'Lot % does not belong to this item', v_lot_id;
+    end if;
+    if v_lot.quantity < 0 then
+      raise exception 'Not enough stock in lot %', v_lot.lot_number;
+    end if;
+
+    insert into stock_movements (item_id, movement_type, delta, quantity_after, reason, performed_by, request_id, lot_id)
+    values (p_item_id, p_movement_type, p_delta, v_item.quantity + p_delta, v_reason, v_performed_by, p_request_id, v_lot_id);
+    return v_item.quantity + p_delta;
+  end if;
+
+  -- First expiry, first out: one movement per lot drawn from
+  v_remaining := -p_delta;
+  v_running := v_item.quantity;
+  for v_lot in
+    select * from inventory_lots
+     where item_id = p_item_id and quantity > 0
+     order by expires_on nulls last, created_at
+     for update
+  loop
+    exit when v_remaining = 0;
+    v_take := least(v_remaining, v_lot.quantity);
+
+    update inventory_lots set quantity = quantity - v_take where id = v_lot.id;
+    v_running := v_running - v_take;
+    v_remaining := v_remaining - v_take;
+
+    insert into stock_movements (item_id, movement_type, delta, quantity_after, reason, performed_by, request_id, lot_id)
+    values (p_item_id, p_movement_type, -v_take, v_running, v_reason, v_performed_by, p_request_id, v_lot.id);
+  end loop;
+
+  if v_remaining > 0 then
+    raise exception 'Lots for "%" hold % less than its quantity', v_item.name, v_remaining;
+  end if;
+
+  return v_item.quantity + p_delta;
+end;
+$$;
+
+-- Receive stock into a named lot, creating the lot on first receipt
+create or replace function receive_lot(
+  p_item_id uuid,
+  p_lot_number text,
+  p_expires_on date,
+  p_quantity integer,
+  p_reason text default null,
+  p_performed_by text default null
+)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_lot_id uuid;
+begin
+  if p_quantity is null or p_quantity <= 0 then
+    raise exception 'Quantity must be at least 1';
+  end if;
+  if nullif(trim(p_lot_number), '') is null then
+    raise exception 'Lot number is required';
+  end if;
+
+  insert into inventory_lots (item_id, lot_number, expires_on)
+  values (p_item_id, trim(p_lot_number), p_expires_on)
+  on conflict (item_id, lot_number) do update
+    set expires_on = coalesce(excluded.expires_on, inventory_lots.expires_on)
+  returning id into v_lot_id;
+
+  perform record_stock_movement(
+    p_item_id, 'receipt', p_quantity,
+    coalesce(nullif(trim(p_reason), ''), 'Received lot ' || trim(p_lot_number)),
+    p_performed_by, null, v_lot_id
+  );
+
+  return v_lot_id;
+end;
+$$;
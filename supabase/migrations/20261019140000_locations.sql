@@ -0,0 +1,285 @@
+-- supabase/migrations/20261019140000_locations.sql
+-- Named storage locations with per-location quantities. inventory.quantity stays
+-- the item total; item_locations splits it across the storeroom, exam rooms, etc.
+
+create table if not exists locations (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  description text,
+  is_default boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+-- Only one location receives stock when no location is given
+create unique index if not exists locations_single_default_idx
+  on locations (is_default)
+  where is_default;
+
+insert into locations (name, description, is_default)
+select 'Storeroom', 'Back storeroom', true
+ where not exists (select 1 from locations where is_default);
+
+create table if not exists item_locations (
+  item_id uuid not null references inventory(id) on delete cascade,
+  location_id uuid not null references locations(id) on delete restrict,
+  quantity integer not null default 0 check (quantity >= 0),
+  threshold integer check (threshold >= 0),
+  primary key (item_id, location_id)
+);
+
+create index if not exists item_locations_location_idx on item_locations (location_id);
+
+-- All existing stock starts out in the default location
+insert into item_locations (item_id, location_id, quantity)
+select i.id, l.id, i.quantity
+  from inventory i
+ cross join locations l
+ where l.is_default
+on conflict (item_id, location_id) do nothing;
+
+alter table stock_movements
+  add column if not exists location_id uuid references locations(id);
+
+create or replace function default_location_id()
+returns uuid
+language sql
+stable
+as $$
+  select id from locations where is_default limit 1;
+$$;
+
+-- Apply a delta at a location (the default one when none is given)
+create or replace function adjust_item_location(p_item_id uuid, p_location_id uuid, p_delta integer)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_location_id uuid := coalesce(p_location_id, default_location_id());
+  v_quantity integer;
+begin
+  insert into item_locations (item_id, location_id)
+  values (p_item_id, v_location_id)
+  on conflict (item_id, location_id) do nothing;
+
+  update item_locations
+     set quantity = quantity + p_delta
+   where item_id = p_item_id and location_id = v_location_id
+  returning quantity into v_quantity;
+
+  if v_quantity < 0 then
+    raise exception 'Not enough stock at %: % short',
+      (select name from locations where id = v_location_id), -v_quantity;
+  end if;
+
+  return v_location_id;
+end;
+$$;
+
+drop function if exists record_stock_movement(uuid, text, integer, text, text, uuid, uuid);
+
+create or replace function record_stock_movement(
+  p_item_id uuid,
+  p_movement_type text,
+  p_delta integer,
+  p_reason text default null,
+  p_performed_by text default null,
+  p_request_id uuid default null,
+  p_lot_id uuid default null,
+  p_location_id uuid default null
+)
+returns integer
+language plpgsql
+as $$
+declare
+  v_item inventory%rowtype;
+  v_performed_by text;
+  v_reason text;
+  v_location_id uuid;
+  v_lot inventory_lots%rowtype;
+  v_lot_id uuid;
+  v_remaining integer;
+  v_take integer;
+  v_running integer;
+begin
+  if p_delta is null or p_delta = 0 then
+    raise exception 'Movement delta cannot be zero';
+  end if;
+
+  select * into v_item from inventory where id = p_item_id for update;
+  if not found then
+    raise exception 'Item % not found', p_item_id;
+  end if;
+  if v_item.quantity + p_delta < 0 then
+    raise exception 'Not enough stock: quantity would fall to %', v_item.quantity + p_delta;
+  end if;
+
+  update inventory set quantity = quantity + p_delta where id = p_item_id;
+  v_location_id := adjust_item_location(p_item_id, p_location_id, p_delta);
+
+  v_performed_by := coalesce(nullif(trim(p_performed_by), ''), auth.jwt() ->> 'email', 'unknown');
+  v_reason := nullif(trim(p_reason), '');
+
+  if not v_item.track_lots then
+    insert into stock_movements (item_id, movement_type, delta, quantity_after, reason, performed_by, request_id, location_id)
+    values (p_item_id, p_movement_type, p_delta, v_item.quantity + p_delta, v_reason, v_performed_by, p_request_id, v_location_id);
+    return v_item.quantity + p_delta;
+  end if;
+
+  if p_lot_id is not null or p_delta > 0 then
+    v_lot_id := p_lot_id;
+    if v_lot_id is null then
+      insert into inventory_lots (item_id, lot_number)
+      values (p_item_id, 'NO-LOT')
+      on conflict (item_id, lot_number) do update set lot_number = excluded.lot_number
+      returning id into v_lot_id;
+    end if;
+
+    update inventory_lots
+       set quantity = quantity + p_delta
+     where id = v_lot_id and item_id = p_item_id
+    returning * into v_lot;
+
+    if not found then
+      raise exception 'Lot % does not belong to this item', v_lot_id;
+    end if;
+    if v_lot.quantity < 0 then
+      raise exception 'Not enough stock in lot %', v_lot.lot_number;
+    end if;
+
+    insert into stock_movements (item_id, movement_type, delta, quantity_after, reason, performed_by, request_id, lot_id, location_id)
+    values (p_item_id, p_movement_type, p_delta, v_item.quantity + p_delta, v_reason, v_performed_by, p_request_id, v_lot_id, v_location_id);
+    return v_item.quantity + p_delta;
+  end if;
+
+  -- First expiry, first out: one movement per lot drawn from
+  v_remaining := -p_delta;
+  v_running := v_item.quantity;
+  for v_lot in
+    select * from inventory_lots
+     where item_id = p_item_id and quantity > 0
+     order by expires_on nulls last, created_at
+     for update
+  loop
+    exit when v_remaining = 0;
+    v_take := least(v_remaining, v_lot.quantity);
+
+    update inventory_lots set quantity = quantity - v_take where id = v_lot.id;
+    v_running := v_running - v_take;
+    v_remaining := v_remaining - v_take;
+
+    insert into stock_movements (item_id, movement_type, delta, quantity_after, reason, performed_by, request_id, lot_id, location_id)
+    values (p_item_id, p_movement_type, -v_take, v_running, v_reason, v_performed_by, p_request_id, v_lot.id, v_location_id);
+  end loop;
+
+  if v_remaining > 0 then
+    raise exception 'Lots for "%" hold % less than its quantity', v_item.name, v_remaining;
+  end if;
+
+  return v_item.quantity + p_delta;
+end;
+$$;
+
+-- Move stock between locations. The item total and its lots are unchanged,
+-- so this writes the two transfer legs directly rather than via record_stock_movement.
+create or replace function transfer_stock(
+  p_item_id uuid,
+  p_from_location_id uuid,
+  p_to_location_id uuid,
+  p_quantity integer,
+  p_reason text default null,
+  p_performed_by text default null
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_item inventory%rowtype;
+  v_performed_by text := coalesce(nullif(trim(p_performed_by), ''), auth.jwt() ->> 'email', 'unknown');
+  v_reason text;
+begin
+  if p_quantity is null or p_quantity <= 0 then
+    raise exception 'Quantity must be at least 1';
+  end if;
+  if p_from_location_id = p_to_location_id then
+    raise exception 'Choose two different locations';
+  end if;
+
+  select * into v_item from inventory where id = p_item_id for update;
+  if not found then
+    raise exception 'Item % not found', p_item_id;
+  end if;
+
+  perform adjust_item_location(p_item_id, p_from_location_id, -p_quantity);
+  perform adjust_item_location(p_item_id, p_to_location_id, p_quantity);
+
+  v_reason := coalesce(
+    nullif(trim(p_reason), ''),
+    (select name from locations where id = p_from_location_id) || ' → ' ||
+    (select name from locations where id = p_to_location_id)
+  );
+
+  insert into stock_movements (item_id, movement_type, delta, quantity_after, reason, performed_by, location_id)
+  values
+    (p_item_id, 'transfer', -p_quantity, v_item.quantity, v_reason, v_performed_by, p_from_location_id),
+    (p_item_id, 'transfer', p_quantity, v_item.quantity, v_reason, v_performed_by, p_to_location_id);
+end;
+$$;
+
+-- Staff record which location they took stock from
+drop function if exists dispense_items(jsonb, text, text);
+
+create or replace function dispense_items(
+  p_lines jsonb,
+  p_reason text,
+  p_performed_by text default null,
+  p_location_id uuid default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_line record;
+  v_item inventory%rowtype;
+  v_result jsonb := '[]'::jsonb;
+begin
+  if p_lines is null or jsonb_array_length(p_lines) = 0 then
+    raise exception 'Nothing to dispense';
+  end if;
+
+  -- Lock items in a stable order so concurrent draws cannot deadlock
+  for v_line in
+    select (l ->> 'item_id')::uuid as line_item_id,
+           sum((l ->> 'quantity')::integer)::integer as line_quantity
+      from jsonb_array_elements(p_lines) l
+     group by 1
+     order by 1
+  loop
+    if v_line.line_quantity is null or v_line.line_quantity <= 0 then
+      raise exception 'Quantities must be at least 1';
+    end if;
+
+    select * into v_item from inventory where id = v_line.line_item_id for update;
+    if not found then
+      raise exception 'Item % not found', v_line.line_item_id;
+    end if;
+    if v_item.quantity < v_line.line_quantity then
+      raise exception 'Not enough "%" in stock: % available, % requested',
+        v_item.name, v_item.quantity, v_line.line_quantity;
+    end if;
+
+    perform record_stock_movement(
+      v_item.id, 'dispense', -v_line.line_quantity, p_reason, p_performed_by,
+      null, null, p_location_id
+    );
+
+    v_result := v_result || jsonb_build_object(
+      'item_id', v_item.id,
+      'name', v_item.name,
+      'quantity', v_item.quantity - v_line.line_quantity,
+      'threshold', v_item.threshold
+    );
+  end loop;
+
+  return v_result;
+end;
+$$;
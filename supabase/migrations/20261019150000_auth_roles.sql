@@ -0,0 +1,227 @@
+-- supabase/migrations/20261019150000_auth_roles.sql
+-- Sign-in with three roles, enforced with row level security:
+--   requester          submits requests and sees only their own
+--   inventory_manager  edits stock and processes requests
+--   admin              everything above, plus users and categories
+
+create table if not exists profiles (
+  id uuid primary key references auth.users(id) on delete cascade,
+  email text not null,
+  full_name text,
+  role text not null default 'requester'
+    check (role in ('requester', 'inventory_manager', 'admin')),
+  created_at timestamptz not null default now()
+);
+
+create or replace function handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into profiles (id, email, full_name)
+  values (new.id, new.email, new.raw_user_meta_data ->> 'full_name')
+  on conflict (id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function handle_new_user();
+
+insert into profiles (id, email)
+select id, email from auth.users
+on conflict (id) do nothing;
+
+-- Security definer so policies on profiles can call it without recursing
+create or replace function current_user_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from profiles where id = auth.uid();
+$$;
+
+create or replace function is_inventory_manager()
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(current_user_role() in ('inventory_manager', 'admin'), false);
+$$;
+
+create or replace function is_admin()
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(current_user_role() = 'admin', false);
+$$;
+
+-- Requests record who submitted them
+alter table requests
+  add column if not exists requested_by uuid references auth.users(id) default auth.uid(),
+  add column if not exists requester_name text;
+
+create or replace function submit_request(p_lines jsonb, p_notes text default null)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_request_id uuid;
+  v_line jsonb;
+  v_item inventory%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to submit a request';
+  end if;
+  if p_lines is null or jsonb_array_length(p_lines) = 0 then
+    raise exception 'A request needs at least one item';
+  end if;
+
+  insert into requests (notes, status, requested_by, requester_name)
+  values (
+    nullif(trim(p_notes), ''),
+    'pending',
+    auth.uid(),
+    (select coalesce(full_name, email) from profiles where id = auth.uid())
+  )
+  returning id into v_request_id;
+
+  for v_line in select * from jsonb_array_elements(p_lines)
+  loop
+    select * into v_item from inventory where id = (v_line ->> 'item_id')::uuid;
+    if not found then
+      raise exception 'Item % not found', v_line ->> 'item_id';
+    end if;
+
+    insert into request_items (request_id, item_id, item_name, category, quantity)
+    values (v_request_id, v_item.id, v_item.name, v_item.category, (v_line ->> 'quantity')::integer);
+  end loop;
+
+  return v_request_id;
+end;
+$$;
+
+-- Ledger entries are attributed to the signed-in user, not a typed-in name
+alter table stock_movements
+  add column if not exists performed_by_id uuid references auth.users(id) default auth.uid();
+
+create or replace function stamp_stock_movement_actor()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.performed_by := coalesce(
+    (select coalesce(full_name, email) from profiles where id = auth.uid()),
+    auth.jwt() ->> 'email',
+    new.performed_by
+  );
+  new.performed_by_id := coalesce(auth.uid(), new.performed_by_id);
+  return new;
+end;
+$$;
+
+drop trigger if exists stock_movements_stamp_actor on stock_movements;
+create trigger stock_movements_stamp_actor
+  before insert on stock_movements
+  for each row execute function stamp_stock_movement_actor();
+
+-- Row level security ---------------------------------------------------------
+
+alter table profiles enable row level security;
+alter table inventory enable row level security;
+alter table inventory_lots enable row level security;
+alter table locations enable row level security;
+alter table item_locations enable row level security;
+alter table stock_movements enable row level security;
+alter table requests enable row level security;
+alter table request_items enable row level security;
+
+create policy "Users read their own profile; admins read all" on profiles
+  for select to authenticated using (id = auth.uid() or is_admin());
+create policy "Admins change roles" on profiles
+  for update to authenticated using (is_admin()) with check (is_admin());
+
+create policy "Signed-in users read inventory" on inventory
+  for select to authenticated using (true);
+create policy "Managers change inventory" on inventory
+  for all to authenticated using (is_inventory_manager()) with check (is_inventory_manager());
+
+create policy "Signed-in users read lots" on inventory_lots
+  for select to authenticated using (true);
+create policy "Managers change lots" on inventory_lots
+  for all to authenticated using (is_inventory_manager()) with check (is_inventory_manager());
+
+create policy "Signed-in users read locations" on locations
+  for select to authenticated using (true);
+create policy "Managers change locations" on locations
+  for all to authenticated using (is_inventory_manager()) with check (is_inventory_manager());
+
+create policy "Signed-in users read stock by location" on item_locations
+  for select to authenticated using (true);
+create policy "Managers change stock by location" on item_locations
+  for all to authenticated using (is_inventory_manager()) with check (is_inventory_manager());
+
+create policy "Managers read the ledger" on stock_movements
+  for select to authenticated using (is_inventory_manager());
+create policy "Managers write the ledger" on stock_movements
+  for insert to authenticated with check (is_inventory_manager());
+
+create policy "Requesters read their own requests; managers read all" on requests
+  for select to authenticated using (requested_by = auth.uid() or is_inventory_manager());
+create policy "Requesters submit requests as themselves" on requests
+  for insert to authenticated with check (requested_by = auth.uid() and status = 'pending');
+create policy "Managers process requests" on requests
+  for update to authenticated using (is_inventory_manager()) with check (is_inventory_manager());
+create policy "Admins delete requests" on requests
+  for delete to authenticated using (is_admin());
+
+create policy "Request lines follow their request" on request_items
+  for select to authenticated using (
+    exists (
+      select 1 from requests r
+       where r.id = request_id
+         and (r.requested_by = auth.uid() or is_inventory_manager())
+    )
+  );
+create policy "Requesters add lines to their pending requests" on request_items
+  for insert to authenticated with check (
+    exists (
+      select 1 from requests r
+       where r.id = request_id
+         and r.requested_by = auth.uid()
+         and r.status = 'pending'
+    )
+  );
+create policy "Managers update request lines" on request_items
+  for update to authenticated using (is_inventory_manager()) with check (is_inventory_manager());
+
+alter view inventory_reconciliation set (security_invoker = true);
+
+-- Functions ------------------------------------------------------------------
+
+-- Any signed-in staff member may record what they used; the write runs as the
+-- function owner so requesters don't need direct ledger access.
+alter function dispense_items(jsonb, text, text, uuid)
+  security definer
+  set search_path = public;
+
+revoke execute on function dispense_items(jsonb, text, text, uuid) from public, anon;
+revoke execute on function submit_request(jsonb, text) from public, anon;
+revoke execute on function record_stock_movement(uuid, text, integer, text, text, uuid, uuid, uuid) from public, anon;
+revoke execute on function fulfil_request(uuid, jsonb) from public, anon;
+revoke execute on function receive_lot(uuid, text, date, integer, text, text) from public, anon;
+revoke execute on function transfer_stock(uuid, uuid, uuid, integer, text, text) from public, anon;
+
+grant execute on function dispense_items(jsonb, text, text, uuid) to authenticated;
+grant execute on function submit_request(jsonb, text) to authenticated;
+grant execute on function record_stock_movement(uuid, text, integer, text, text, uuid, uuid, uuid) to authenticated;
+grant execute on function fulfil_request(uuid, jsonb) to authenticated;
+grant execute on function receive_lot(uuid, text, date, integer, text, text) to authenticated;
+grant execute on function transfer_stock(uuid, uuid, uuid, integer, text, text) to authenticated;
@@ -0,0 +1,174 @@
+-- supabase/migrations/20261019160000_purchase_orders.sql
+-- Suppliers, and purchase orders generated from low-stock items grouped by
+-- supplier. Orders move draft -> sent -> partially_received -> received.
+
+create table if not exists suppliers (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  contact_name text,
+  email text,
+  phone text,
+  ordering_url text,
+  lead_time_days integer not null default 7 check (lead_time_days >= 0),
+  notes text,
+  created_at timestamptz not null default now()
+);
+
+alter table inventory
+  add column if not exists supplier_id uuid references suppliers(id) on delete set null,
+  add column if not exists unit_cost numeric(10, 2) check (unit_cost >= 0),
+  add column if not exists reorder_quantity integer check (reorder_quantity > 0);
+
+create table if not exists purchase_orders (
+  id uuid primary key default gen_random_uuid(),
+  order_number bigint generated always as identity,
+  supplier_id uuid not null references suppliers(id) on delete restrict,
+  status text not null default 'draft'
+    check (status in ('draft', 'sent', 'partially_received', 'received')),
+  notes text,
+  created_by uuid references auth.users(id) default auth.uid(),
+  sent_at timestamptz,
+  received_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists purchase_order_lines (
+  id uuid primary key default gen_random_uuid(),
+  purchase_order_id uuid not null references purchase_orders(id) on delete cascade,
+  item_id uuid not null references inventory(id) on delete restrict,
+  quantity_ordered integer not null check (quantity_ordered > 0),
+  quantity_received integer not null default 0 check (quantity_received >= 0),
+  unit_cost numeric(10, 2) check (unit_cost >= 0),
+  unique (purchase_order_id, item_id)
+);
+
+create index if not exists purchase_order_lines_item_idx on purchase_order_lines (item_id);
+
+alter table suppliers enable row level security;
+alter table purchase_orders enable row level security;
+alter table purchase_order_lines enable row level security;
+
+create policy "Managers manage suppliers" on suppliers
+  for all to authenticated using (is_inventory_manager()) with check (is_inventory_manager());
+create policy "Managers manage purchase orders" on purchase_orders
+  for all to authenticated using (is_inventory_manager()) with check (is_inventory_manager());
+create policy "Managers manage purchase order lines" on purchase_order_lines
+  for all to authenticated using (is_inventory_manager()) with check (is_inventory_manager());
+
+-- Add every low-stock item with a supplier to that supplier's draft order,
+-- skipping items already on an open order. Returns the number of lines added.
+create or replace function generate_purchase_orders()
+returns integer
+language plpgsql
+as $$
+declare
+  v_item record;
+  v_order_id uuid;
+  v_added integer := 0;
+begin
+  for v_item in
+    select i.*
+      from inventory i
+     where i.supplier_id is not null
+       and i.quantity <= i.threshold
+       and not exists (
+         select 1
+           from purchase_order_lines l
+           join purchase_orders o on o.id = l.purchase_order_id
+          where l.item_id = i.id
+            and o.status in ('draft', 'sent', 'partially_received')
+       )
+     order by i.supplier_id, i.name
+  loop
+    select id into v_order_id
+      from purchase_orders
+     where supplier_id = v_item.supplier_id and status = 'draft'
+     order by created_at
+     limit 1;
+
+    if v_order_id is null then
+      insert into purchase_orders (supplier_id)
+      values (v_item.supplier_id)
+      returning id into v_order_id;
+    end if;
+
+    -- Without a set reorder quantity, order enough to reach twice the threshold
+    insert into purchase_order_lines (purchase_order_id, item_id, quantity_ordered, unit_cost)
+    values (
+      v_order_id,
+      v_item.id,
+      coalesce(v_item.reorder_quantity, greatest(v_item.threshold * 2 - v_item.quantity, 1)),
+      v_item.unit_cost
+    );
+
+    v_added := v_added + 1;
+  end loop;
+
+  return v_added;
+end;
+$$;
+
+-- Post what arrived in this delivery: [{ "line_id": ..., "quantity": ... }]
+create or replace function receive_purchase_order(p_order_id uuid, p_received jsonb)
+returns text
+language plpgsql
+as $$
+declare
+  v_order purchase_orders%rowtype;
+  v_line purchase_order_lines%rowtype;
+  v_quantity integer;
+  v_status text;
+begin
+  select * into v_order from purchase_orders where id = p_order_id for update;
+  if not found then
+    raise exception 'Purchase order % not found', p_order_id;
+  end if;
+  if v_order.status not in ('sent', 'partially_received') then
+    raise exception 'Only sent orders can be received (this one is %)', v_order.status;
+  end if;
+
+  for v_line in select * from purchase_order_lines where purchase_order_id = p_order_id
+  loop
+    select (r ->> 'quantity')::integer into v_quantity
+      from jsonb_array_elements(p_received) r
+     where (r ->> 'line_id')::uuid = v_line.id;
+
+    v_quantity := coalesce(v_quantity, 0);
+    if v_quantity < 0 then
+      raise exception 'Received quantity must be zero or more';
+    end if;
+    continue when v_quantity = 0;
+
+    perform record_stock_movement(
+      v_line.item_id, 'receipt', v_quantity,
+      'PO #' || v_order.order_number
+    );
+
+    update purchase_order_lines
+       set quantity_received = quantity_received + v_quantity
+     where id = v_line.id;
+  end loop;
+
+  v_status := case
+    when not exists (
+      select 1 from purchase_order_lines
+       where purchase_order_id = p_order_id and quantity_received < quantity_ordered
+    ) then 'received'
+    else 'partially_received'
+  end;
+
+  update purchase_orders
+     set status = v_status,
+         received_at = case when v_status = 'received' then now() else received_at end,
+         updated_at = now()
+   where id = p_order_id;
+
+  return v_status;
+end;
+$$;
+
+revoke execute on function generate_purchase_orders() from public, anon;
+revoke execute on function receive_purchase_order(uuid, jsonb) from public, anon;
+grant execute on function generate_purchase_orders() to authenticated;
+grant execute on function receive_purchase_order(uuid, jsonb) to authenticated;
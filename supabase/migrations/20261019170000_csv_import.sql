@@ -0,0 +1,88 @@
+-- supabase/migrations/20261019170000_csv_import.sql
+-- SKUs for matching spreadsheet rows to items, and a bulk import that
+-- creates or updates items in one transaction.
+
+alter table inventory add column if not exists sku text;
+
+create unique index if not exists inventory_sku_key on inventory (lower(sku)) where sku is not null;
+
+-- Rows look like { "sku": ..., "name": ..., "category": ..., "quantity": ... };
+-- only the keys present are written. A row matches an existing item by SKU,
+-- then by name (case-insensitive). Quantity changes are posted to the ledger.
+-- Returns { "created": n, "updated": n }.
+create or replace function import_inventory(p_rows jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_row jsonb;
+  v_item inventory%rowtype;
+  v_delta integer;
+  v_is_new boolean;
+  v_created integer := 0;
+  v_updated integer := 0;
+begin
+  for v_row in select * from jsonb_array_elements(p_rows)
+  loop
+    v_item := null;
+    v_is_new := false;
+
+    if nullif(trim(v_row ->> 'sku'), '') is not null then
+      select * into v_item from inventory where lower(sku) = lower(trim(v_row ->> 'sku'));
+    end if;
+    if v_item.id is null and nullif(trim(v_row ->> 'name'), '') is not null then
+      select * into v_item from inventory where lower(name) = lower(trim(v_row ->> 'name'));
+    end if;
+
+    if v_item.id is null then
+      if nullif(trim(v_row ->> 'name'), '') is null or nullif(trim(v_row ->> 'category'), '') is null then
+        raise exception 'New items need a name and category: %', v_row;
+      end if;
+
+      -- Start at zero so the opening quantity is recorded as a receipt
+      insert into inventory (sku, name, description, category, quantity, threshold, source_url)
+      values (
+        nullif(trim(v_row ->> 'sku'), ''),
+        trim(v_row ->> 'name'),
+        nullif(v_row ->> 'description', ''),
+        trim(v_row ->> 'category'),
+        0,
+        coalesce((v_row ->> 'threshold')::integer, 10),
+        nullif(v_row ->> 'source_url', '')
+      )
+      returning * into v_item;
+
+      v_is_new := true;
+      v_created := v_created + 1;
+    else
+      update inventory
+         set sku = case when v_row ? 'sku' then nullif(trim(v_row ->> 'sku'), '') else sku end,
+             name = case when v_row ? 'name' then coalesce(nullif(trim(v_row ->> 'name'), ''), name) else name end,
+             description = case when v_row ? 'description' then nullif(v_row ->> 'description', '') else description end,
+             category = case when v_row ? 'category' then coalesce(nullif(trim(v_row ->> 'category'), ''), category) else category end,
+             threshold = case when v_row ? 'threshold' then (v_row ->> 'threshold')::integer else threshold end,
+             source_url = case when v_row ? 'source_url' then nullif(v_row ->> 'source_url', '') else source_url end
+       where id = v_item.id;
+
+      v_updated := v_updated + 1;
+    end if;
+
+    if v_row ? 'quantity' then
+      v_delta := (v_row ->> 'quantity')::integer - v_item.quantity;
+      if v_delta <> 0 then
+        perform record_stock_movement(
+          v_item.id,
+          case when v_is_new then 'receipt' else 'adjustment' end,
+          v_delta,
+          'CSV import'
+        );
+      end if;
+    end if;
+  end loop;
+
+  return jsonb_build_object('created', v_created, 'updated', v_updated);
+end;
+$$;
+
+revoke execute on function import_inventory(jsonb) from public, anon;
+grant execute on function import_inventory(jsonb) to authenticated;
@@ -0,0 +1,7 @@
+-- supabase/migrations/20261019180000_barcodes.sql
+-- Manufacturer or shelf-label barcodes. Scans match an item's barcode, then
+-- its SKU, so an item can be found by either.
+
+alter table inventory add column if not exists barcode text;
+
+create unique index if not exists inventory_barcode_key on inventory (lower(barcode)) where barcode is not null;
@@ -0,0 +1,214 @@
+-- supabase/migrations/20261019190000_categories.sql
+-- Categories become rows with a display name, colour, icon, optional parent
+-- and the threshold new items start with. Items point at them by id, so a
+-- rename touches one row and a merge moves the items across.
+
+create table if not exists categories (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  color text not null default 'gray',
+  icon text not null default 'package',
+  parent_id uuid references categories(id) on delete set null,
+  default_threshold integer not null default 10 check (default_threshold >= 0),
+  track_lots_default boolean not null default false,
+  created_at timestamptz not null default now(),
+  check (parent_id is distinct from id)
+);
+
+create unique index if not exists categories_name_key on categories (lower(name));
+
+-- One category per value already in use, keeping the old labels
+insert into categories (name, color, icon, track_lots_default)
+select case category
+         when 'toys' then 'Toys'
+         when 'medical' then 'Medical Supplies'
+         when 'office' then 'Office Supplies'
+         else initcap(category)
+       end,
+       case category when 'toys' then 'yellow' when 'medical' then 'red' when 'office' then 'blue' else 'gray' end,
+       case category when 'toys' then 'puzzle' when 'medical' then 'stethoscope' when 'office' then 'paperclip' else 'package' end,
+       category = 'medical'
+  from (select distinct category from inventory where category is not null) existing
+on conflict do nothing;
+
+alter table inventory add column if not exists category_id uuid references categories(id) on delete restrict;
+
+update inventory i
+   set category_id = c.id
+  from categories c
+ where i.category_id is null
+   and lower(c.name) = lower(case i.category
+                               when 'toys' then 'Toys'
+                               when 'medical' then 'Medical Supplies'
+                               when 'office' then 'Office Supplies'
+                               else initcap(i.category)
+                             end);
+
+alter table inventory alter column category_id set not null;
+alter table inventory drop column if exists category;
+
+create index if not exists inventory_category_idx on inventory (category_id);
+
+alter table categories enable row level security;
+
+create policy "Signed-in users read categories" on categories
+  for select to authenticated using (true);
+-- Categories shape everyone's lists, so only admins manage them
+create policy "Admins change categories" on categories
+  for all to authenticated using (is_admin()) with check (is_admin());
+
+-- Moves every item and subcategory from one category into another, then
+-- removes the emptied category
+create or replace function merge_categories(p_from uuid, p_into uuid)
+returns integer
+language plpgsql
+as $$
+declare
+  v_moved integer;
+begin
+  if not is_admin() then
+    raise exception 'Only admins can merge categories' using errcode = '42501';
+  end if;
+  if p_from = p_into then
+    raise exception 'Choose a different category to merge into';
+  end if;
+  if not exists (select 1 from categories where id = p_into) then
+    raise exception 'Category % not found', p_into;
+  end if;
+
+  update inventory set category_id = p_into where category_id = p_from;
+  get diagnostics v_moved = row_count;
+
+  update categories set parent_id = case when id = p_into then null else p_into end where parent_id = p_from;
+  delete from categories where id = p_from;
+
+  return v_moved;
+end;
+$$;
+
+revoke execute on function merge_categories(uuid, uuid) from public, anon;
+grant execute on function merge_categories(uuid, uuid) to authenticated;
+
+-- Request lines keep a copy of the category name as it was when requested
+create or replace function submit_request(p_lines jsonb, p_notes text default null)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_request_id uuid;
+  v_line jsonb;
+  v_item record;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to submit a request';
+  end if;
+  if p_lines is null or jsonb_array_length(p_lines) = 0 then
+    raise exception 'A request needs at least one item';
+  end if;
+
+  insert into requests (notes, status, requested_by, requester_name)
+  values (
+    nullif(trim(p_notes), ''),
+    'pending',
+    auth.uid(),
+    (select coalesce(full_name, email) from profiles where id = auth.uid())
+  )
+  returning id into v_request_id;
+
+  for v_line in select * from jsonb_array_elements(p_lines)
+  loop
+    select i.id, i.name, c.name as category_name into v_item
+      from inventory i
+      join categories c on c.id = i.category_id
+     where i.id = (v_line ->> 'item_id')::uuid;
+    if not found then
+      raise exception 'Item % not found', v_line ->> 'item_id';
+    end if;
+
+    insert into request_items (request_id, item_id, item_name, category, quantity)
+    values (v_request_id, v_item.id, v_item.name, v_item.category_name, (v_line ->> 'quantity')::integer);
+  end loop;
+
+  return v_request_id;
+end;
+$$;
+
+-- Imports now name the category by id; the import page resolves names first
+create or replace function import_inventory(p_rows jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_row jsonb;
+  v_item inventory%rowtype;
+  v_delta integer;
+  v_is_new boolean;
+  v_created integer := 0;
+  v_updated integer := 0;
+begin
+  for v_row in select * from jsonb_array_elements(p_rows)
+  loop
+    v_item := null;
+    v_is_new := false;
+
+    if nullif(trim(v_row ->> 'sku'), '') is not null then
+      select * into v_item from inventory where lower(sku) = lower(trim(v_row ->> 'sku'));
+    end if;
+    if v_item.id is null and nullif(trim(v_row ->> 'name'), '') is not null then
+      select * into v_item from inventory where lower(name) = lower(trim(v_row ->> 'name'));
+    end if;
+
+    if v_item.id is null then
+      if nullif(trim(v_row ->> 'name'), '') is null or v_row ->> 'category_id' is null then
+        raise exception 'New items need a name and category: %', v_row;
+      end if;
+
+      -- Start at zero so the opening quantity is recorded as a receipt
+      insert into inventory (sku, name, description, category_id, quantity, threshold, source_url, track_lots)
+      select nullif(trim(v_row ->> 'sku'), ''),
+             trim(v_row ->> 'name'),
+             nullif(v_row ->> 'description', ''),
+             c.id,
+             0,
+             coalesce((v_row ->> 'threshold')::integer, c.default_threshold),
+             nullif(v_row ->> 'source_url', ''),
+             c.track_lots_default
+        from categories c
+       where c.id = (v_row ->> 'category_id')::uuid
+      returning * into v_item;
+
+      if v_item.id is null then
+        raise exception 'Category % not found', v_row ->> 'category_id';
+      end if;
+
+      v_is_new := true;
+      v_created := v_created + 1;
+    else
+      update inventory
+         set sku = case when v_row ? 'sku' then nullif(trim(v_row ->> 'sku'), '') else sku end,
+             name = case when v_row ? 'name' then coalesce(nullif(trim(v_row ->> 'name'), ''), name) else name end,
+             description = case when v_row ? 'description' then nullif(v_row ->> 'description', '') else description end,
+             category_id = case when v_row ? 'category_id' then (v_row ->> 'category_id')::uuid else category_id end,
+             threshold = case when v_row ? 'threshold' then (v_row ->> 'threshold')::integer else threshold end,
+             source_url = case when v_row ? 'source_url' then nullif(v_row ->> 'source_url', '') else source_url end
+       where id = v_item.id;
+
+      v_updated := v_updated + 1;
+    end if;
+
+    if v_row ? 'quantity' then
+      v_delta := (v_row ->> 'quantity')::integer - v_item.quantity;
+      if v_delta <> 0 then
+        perform record_stock_movement(
+          v_item.id,
+          case when v_is_new then 'receipt' else 'adjustment' end,
+          v_delta,
+          'CSV import'
+        );
+      end if;
+    end if;
+  end loop;
+
+  return jsonb_build_object('created', v_created, 'updated', v_updated);
+end;
+$$;
@@ -0,0 +1,232 @@
+-- supabase/migrations/20261019200000_cycle_counts.sql
+-- Stock-takes. Starting a session freezes the expected quantity of every item
+-- in scope; staff record what they find, and approving the session posts an
+-- adjustment bringing each counted item to what was found. Sessions are kept
+-- for review.
+-- Several people can count the same item (e.g. one shelf each): everyone keeps
+-- their own entry and the line's count is their total.
+
+create table if not exists count_sessions (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  category_id uuid references categories(id) on delete set null,
+  location_id uuid references locations(id) on delete set null,
+  status text not null default 'counting' check (status in ('counting', 'approved', 'cancelled')),
+  created_by uuid references auth.users(id) default auth.uid(),
+  created_at timestamptz not null default now(),
+  approved_by uuid references auth.users(id),
+  approved_at timestamptz,
+  approval_reason text
+);
+
+create table if not exists count_lines (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references count_sessions(id) on delete cascade,
+  item_id uuid not null references inventory(id) on delete cascade,
+  expected_quantity integer not null,
+  -- Total of the entries below, kept up to date by record_count
+  counted_quantity integer check (counted_quantity >= 0),
+  -- Whoever counted last
+  counted_by uuid references auth.users(id),
+  counted_by_name text,
+  counted_at timestamptz,
+  unique (session_id, item_id)
+);
+
+create table if not exists count_entries (
+  line_id uuid not null references count_lines(id) on delete cascade,
+  counted_by uuid not null references auth.users(id),
+  counted_by_name text,
+  quantity integer not null check (quantity >= 0),
+  counted_at timestamptz not null default now(),
+  primary key (line_id, counted_by)
+);
+
+create index if not exists count_sessions_status_idx on count_sessions (status, created_at desc);
+
+alter table count_sessions enable row level security;
+alter table count_lines enable row level security;
+alter table count_entries enable row level security;
+
+-- Anyone signed in can see sessions so they can help count; counts themselves
+-- go through record_count
+create policy "Signed-in users read count sessions" on count_sessions
+  for select to authenticated using (true);
+create policy "Managers run count sessions" on count_sessions
+  for all to authenticated using (is_inventory_manager()) with check (is_inventory_manager());
+create policy "Signed-in users read count lines" on count_lines
+  for select to authenticated using (true);
+create policy "Managers change count lines" on count_lines
+  for all to authenticated using (is_inventory_manager()) with check (is_inventory_manager());
+create policy "Signed-in users read count entries" on count_entries
+  for select to authenticated using (true);
+
+-- Snapshot the items in scope: a category (with its subcategories), a
+-- location, both, or everything. At a location the expected quantity is what
+-- that location holds.
+create or replace function start_count_session(
+  p_name text,
+  p_category_id uuid default null,
+  p_location_id uuid default null
+)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_session_id uuid;
+begin
+  insert into count_sessions (name, category_id, location_id)
+  values (coalesce(nullif(trim(p_name), ''), 'Count ' || to_char(now(), 'YYYY-MM-DD')), p_category_id, p_location_id)
+  returning id into v_session_id;
+
+  insert into count_lines (session_id, item_id, expected_quantity)
+  select v_session_id,
+         i.id,
+         case when p_location_id is null then i.quantity else coalesce(il.quantity, 0) end
+    from inventory i
+    join categories c on c.id = i.category_id
+    left join item_locations il on il.item_id = i.id and il.location_id = p_location_id
+   where (p_category_id is null or c.id = p_category_id or c.parent_id = p_category_id)
+     and (p_location_id is null or il.item_id is not null);
+
+  if not found then
+    raise exception 'Nothing to count in that category or location';
+  end if;
+
+  return v_session_id;
+end;
+$$;
+
+-- Any signed-in staff member may enter a count while the session is open.
+-- It replaces only their own entry for the line; null removes it.
+create or replace function record_count(p_line_id uuid, p_counted integer)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to record a count';
+  end if;
+  if p_counted is not null and p_counted < 0 then
+    raise exception 'Counted quantity must be zero or more';
+  end if;
+
+  -- Lock the line so two counters saving at once both end up in the total
+  perform 1
+     from count_lines l
+     join count_sessions s on s.id = l.session_id
+    where l.id = p_line_id
+      and s.status = 'counting'
+      for update of l;
+  if not found then
+    raise exception 'That count session is closed';
+  end if;
+
+  if p_counted is null then
+    delete from count_entries where line_id = p_line_id and counted_by = auth.uid();
+  else
+    insert into count_entries (line_id, counted_by, counted_by_name, quantity)
+    values (
+      p_line_id,
+      auth.uid(),
+      (select coalesce(full_name, email) from profiles where id = auth.uid()),
+      p_counted
+    )
+    on conflict (line_id, counted_by) do update
+      set counted_by_name = excluded.counted_by_name,
+          quantity = excluded.quantity,
+          counted_at = now();
+  end if;
+
+  update count_lines l
+     set counted_quantity = totals.quantity,
+         counted_by = latest.counted_by,
+         counted_by_name = latest.counted_by_name,
+         counted_at = latest.counted_at
+    from (select sum(quantity)::integer as quantity from count_entries where line_id = p_line_id) totals
+    left join lateral (
+      select e.counted_by, e.counted_by_name, e.counted_at
+        from count_entries e
+       where e.line_id = p_line_id
+       order by e.counted_at desc
+       limit 1
+    ) latest on true
+   where l.id = p_line_id;
+end;
+$$;
+
+-- Posts counted - current for every counted line, where counted is the sum
+-- of everyone's entries and current is the stock at approval, so anything used
+-- or received since the count started isn't applied twice. Uncounted lines are
+-- left alone. Returns the number of adjustments posted.
+create or replace function approve_count_session(p_session_id uuid, p_reason text default null)
+returns integer
+language plpgsql
+as $$
+declare
+  v_session count_sessions%rowtype;
+  v_line count_lines%rowtype;
+  v_current integer;
+  v_posted integer := 0;
+begin
+  select * into v_session from count_sessions where id = p_session_id for update;
+  if not found then
+    raise exception 'Count session % not found', p_session_id;
+  end if;
+  if v_session.status <> 'counting' then
+    raise exception 'This count session is already %', v_session.status;
+  end if;
+
+  -- Settle each line's total from its entries before posting it
+  update count_lines l
+     set counted_quantity = (select sum(e.quantity)::integer from count_entries e where e.line_id = l.id)
+   where l.session_id = p_session_id;
+
+  for v_line in
+    select * from count_lines
+     where session_id = p_session_id
+       and counted_quantity is not null
+  loop
+    if v_session.location_id is null then
+      select quantity into v_current from inventory where id = v_line.item_id for update;
+    else
+      select quantity into v_current
+        from item_locations
+       where item_id = v_line.item_id and location_id = v_session.location_id
+         for update;
+    end if;
+    v_current := coalesce(v_current, 0);
+
+    if v_line.counted_quantity = v_current then
+      continue;
+    end if;
+
+    perform record_stock_movement(
+      v_line.item_id,
+      'adjustment',
+      v_line.counted_quantity - v_current,
+      'Count "' || v_session.name || '"' || coalesce(': ' || nullif(trim(p_reason), ''), ''),
+      p_location_id => v_session.location_id
+    );
+    v_posted := v_posted + 1;
+  end loop;
+
+  update count_sessions
+     set status = 'approved',
+         approved_by = auth.uid(),
+         approved_at = now(),
+         approval_reason = nullif(trim(p_reason), '')
+   where id = p_session_id;
+
+  return v_posted;
+end;
+$$;
+
+revoke execute on function start_count_session(text, uuid, uuid) from public, anon;
+revoke execute on function record_count(uuid, integer) from public, anon;
+revoke execute on function approve_count_session(uuid, text) from public, anon;
+grant execute on function start_count_session(text, uuid, uuid) to authenticated;
+grant execute on function record_count(uuid, integer) to authenticated;
+grant execute on function approve_count_session(uuid, text) to authenticated;
@@ -0,0 +1,116 @@
+-- supabase/migrations/20261019210000_notifications.sql
+-- Notifications. Triggers record an event when an item drops to or below its
+-- threshold, runs out, or a request is submitted. The dispatcher
+-- (/api/notifications/dispatch) delivers events to managers who have opted in:
+-- webhooks as they happen, email as a daily digest. Each event is delivered to
+-- each user and channel at most once.
+
+-- The last level an item alerted at, so it alerts once on the way down and
+-- not again until it has been restocked above its threshold
+alter table inventory
+  add column if not exists alert_level text not null default 'ok'
+    check (alert_level in ('ok', 'low', 'out'));
+
+-- Start from today's levels rather than alerting on everything already low
+update inventory
+   set alert_level = case when quantity <= 0 then 'out' when quantity <= threshold then 'low' else 'ok' end;
+
+create table if not exists notification_events (
+  id uuid primary key default gen_random_uuid(),
+  kind text not null check (kind in ('low_stock', 'out_of_stock', 'new_request')),
+  item_id uuid references inventory(id) on delete cascade,
+  request_id uuid references requests(id) on delete cascade,
+  item_name text,
+  quantity integer,
+  threshold integer,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notification_events_created_idx on notification_events (created_at desc);
+
+create table if not exists notification_preferences (
+  user_id uuid primary key references auth.users(id) on delete cascade default auth.uid(),
+  email_digest boolean not null default false,
+  webhook_enabled boolean not null default false,
+  webhook_url text,
+  notify_low_stock boolean not null default true,
+  notify_requests boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists notification_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references notification_events(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  channel text not null check (channel in ('email', 'webhook')),
+  delivered_at timestamptz not null default now(),
+  unique (event_id, user_id, channel)
+);
+
+alter table notification_events enable row level security;
+alter table notification_preferences enable row level security;
+alter table notification_deliveries enable row level security;
+
+-- Events are written by the triggers below and deliveries by the dispatcher,
+-- which uses the service role
+create policy "Managers read notification events" on notification_events
+  for select to authenticated using (is_inventory_manager());
+create policy "Users manage their own notification preferences" on notification_preferences
+  for all to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+create policy "Users read their own deliveries" on notification_deliveries
+  for select to authenticated using (user_id = auth.uid());
+
+-- Security definer so stock changes and requests from any role can record events
+create or replace function track_inventory_alert_level()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_level text;
+begin
+  v_level := case
+    when new.quantity <= 0 then 'out'
+    when new.quantity <= new.threshold then 'low'
+    else 'ok'
+  end;
+
+  -- Only a move to a worse level alerts: ok -> low, ok -> out, low -> out
+  if tg_op = 'UPDATE'
+     and array_position(array['ok', 'low', 'out'], v_level) > array_position(array['ok', 'low', 'out'], old.alert_level) then
+    insert into notification_events (kind, item_id, item_name, quantity, threshold)
+    values (
+      case when v_level = 'out' then 'out_of_stock' else 'low_stock' end,
+      new.id, new.name, new.quantity, new.threshold
+    );
+  end if;
+
+  new.alert_level := v_level;
+  return new;
+end;
+$$;
+
+drop trigger if exists inventory_alert_level on inventory;
+create trigger inventory_alert_level
+  before insert or update of quantity, threshold on inventory
+  for each row execute function track_inventory_alert_level();
+
+create or replace function record_request_submitted()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into notification_events (kind, request_id)
+  values ('new_request', new.id);
+  return new;
+end;
+$$;
+
+drop trigger if exists requests_notify_submitted on requests;
+create trigger requests_notify_submitted
+  after insert on requests
+  for each row execute function record_request_submitted();
@@ -0,0 +1,24 @@
+-- supabase/migrations/20261019220000_consumption.sql
+-- Daily usage per item from the ledger, for the analytics dashboard. Usage is
+-- stock drawn down by dispensing; write-offs and count adjustments are not
+-- demand and are left out. Restocked is what fulfilled requests brought in.
+
+create or replace function consumption_by_day(p_days integer default 90)
+returns table (item_id uuid, day date, used integer, restocked integer)
+language sql
+stable
+as $$
+  select m.item_id,
+         (m.created_at at time zone 'utc')::date as day,
+         coalesce(sum(-m.delta) filter (where m.movement_type = 'dispense'), 0)::integer as used,
+         coalesce(sum(m.delta) filter (where m.movement_type = 'receipt' and m.request_id is not null), 0)::integer as restocked
+    from stock_movements m
+   where m.created_at >= now() - make_interval(days => greatest(p_days, 1))
+     and (m.movement_type = 'dispense' or (m.movement_type = 'receipt' and m.request_id is not null))
+   group by m.item_id, day
+   order by day;
+$$;
+
+-- Runs as the caller, so only managers (who can read the ledger) get rows
+revoke execute on function consumption_by_day(integer) from public, anon;
+grant execute on function consumption_by_day(integer) to authenticated;
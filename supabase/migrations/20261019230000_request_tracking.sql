@@ -0,0 +1,216 @@
+-- supabase/migrations/20261019230000_request_tracking.sql
+-- Requesters can follow their requests: every status change is recorded for a
+-- timeline, managers can give an expected date, both sides can comment, and a
+-- requester can cancel a request nobody has acted on yet.
+
+alter table requests drop constraint if exists requests_status_check;
+alter table requests add constraint requests_status_check
+  check (status in ('pending', 'approved', 'rejected', 'ordered', 'fulfilled', 'cancelled'));
+
+alter table requests
+  add column if not exists expected_on date;
+
+create table if not exists request_status_history (
+  id uuid primary key default gen_random_uuid(),
+  request_id uuid not null references requests(id) on delete cascade,
+  status text not null,
+  changed_by uuid references auth.users(id),
+  changed_by_name text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists request_status_history_request_idx on request_status_history (request_id, created_at);
+
+-- Existing requests start their timeline when they were created and, if they
+-- have moved on since, at their last update
+insert into request_status_history (request_id, status, changed_by, changed_by_name, created_at)
+select r.id, 'pending', r.requested_by, r.requester_name, r.created_at
+  from requests r
+ where not exists (select 1 from request_status_history h where h.request_id = r.id);
+
+insert into request_status_history (request_id, status, created_at)
+select r.id, r.status, r.updated_at
+  from requests r
+ where r.status <> 'pending'
+   and not exists (select 1 from request_status_history h where h.request_id = r.id and h.status = r.status);
+
+create table if not exists request_comments (
+  id uuid primary key default gen_random_uuid(),
+  request_id uuid not null references requests(id) on delete cascade,
+  author_id uuid not null references auth.users(id) default auth.uid(),
+  author_name text,
+  body text not null check (length(trim(body)) > 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists request_comments_request_idx on request_comments (request_id, created_at);
+
+-- Security definer so a requester's own actions (submitting, cancelling) are
+-- recorded even though they can't write the history table
+create or replace function record_request_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' or new.status is distinct from old.status then
+    insert into request_status_history (request_id, status, changed_by, changed_by_name)
+    values (
+      new.id,
+      new.status,
+      auth.uid(),
+      (select coalesce(full_name, email) from profiles where id = auth.uid())
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists requests_record_status on requests;
+create trigger requests_record_status
+  after insert or update of status on requests
+  for each row execute function record_request_status();
+
+create or replace function stamp_request_comment_author()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.author_id := auth.uid();
+  new.author_name := (select coalesce(full_name, email) from profiles where id = auth.uid());
+  new.body := trim(new.body);
+  return new;
+end;
+$$;
+
+drop trigger if exists request_comments_stamp_author on request_comments;
+create trigger request_comments_stamp_author
+  before insert on request_comments
+  for each row execute function stamp_request_comment_author();
+
+alter table request_status_history enable row level security;
+alter table request_comments enable row level security;
+
+create policy "Request history follows its request" on request_status_history
+  for select to authenticated using (
+    exists (
+      select 1 from requests r
+       where r.id = request_id
+         and (r.requested_by = auth.uid() or is_inventory_manager())
+    )
+  );
+
+create policy "Request comments follow their request" on request_comments
+  for select to authenticated using (
+    exists (
+      select 1 from requests r
+       where r.id = request_id
+         and (r.requested_by = auth.uid() or is_inventory_manager())
+    )
+  );
+create policy "Requester and managers comment on a request" on request_comments
+  for insert to authenticated with check (
+    exists (
+      select 1 from requests r
+       where r.id = request_id
+         and (r.requested_by = auth.uid() or is_inventory_manager())
+    )
+  );
+
+-- Requesters can't update requests directly, so cancelling goes through here
+create or replace function cancel_request(p_request_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request requests%rowtype;
+begin
+  select * into v_request from requests where id = p_request_id for update;
+  if not found or (v_request.requested_by is distinct from auth.uid() and not is_inventory_manager()) then
+    raise exception 'Request % not found', p_request_id;
+  end if;
+  if v_request.status <> 'pending' then
+    raise exception 'Only pending requests can be cancelled; this one is %', v_request.status;
+  end if;
+
+  update requests
+     set status = 'cancelled',
+         updated_at = now()
+   where id = p_request_id;
+end;
+$$;
+
+-- A cancelled request can't be fulfilled any more than a rejected one
+create or replace function fulfil_request(p_request_id uuid, p_received jsonb)
+returns void
+language plpgsql
+as $$
+declare
+  v_request requests%rowtype;
+  v_line request_items%rowtype;
+  v_received integer;
+begin
+  select * into v_request from requests where id = p_request_id for update;
+  if not found then
+    raise exception 'Request % not found', p_request_id;
+  end if;
+  if v_request.status in ('fulfilled', 'rejected', 'cancelled') then
+    raise exception 'Request is already %', v_request.status;
+  end if;
+
+  for v_line in select * from request_items where request_id = p_request_id
+  loop
+    select (r ->> 'received_quantity')::integer into v_received
+      from jsonb_array_elements(p_received) r
+     where (r ->> 'request_item_id')::uuid = v_line.id;
+
+    v_received := coalesce(v_received, 0);
+    if v_received < 0 then
+      raise exception 'Received quantity must be zero or more';
+    end if;
+
+    if v_received > 0 and v_line.item_id is not null then
+      perform record_stock_movement(
+        v_line.item_id, 'receipt', v_received,
+        'Fulfilled request', null, p_request_id
+      );
+    end if;
+
+    update request_items set received_quantity = v_received where id = v_line.id;
+  end loop;
+
+  update requests
+     set status = 'fulfilled',
+         updated_at = now()
+   where id = p_request_id;
+end;
+$$;
+
+revoke execute on function cancel_request(uuid) from public, anon;
+grant execute on function cancel_request(uuid) to authenticated;
+
+-- Requesters can only read their own requests, so the "already requested"
+-- warning gets everyone's open totals from here. Only item ids and amounts
+-- come back, never who asked.
+create or replace function open_request_quantities()
+returns table (item_id uuid, quantity bigint, request_count bigint)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select ri.item_id, sum(ri.quantity), count(distinct r.id)
+    from request_items ri
+    join requests r on r.id = ri.request_id
+   where r.status in ('pending', 'approved', 'ordered')
+     and ri.item_id is not null
+   group by ri.item_id;
+$$;
+
+revoke execute on function open_request_quantities() from public, anon;
+grant execute on function open_request_quantities() to authenticated;
@@ -0,0 +1,68 @@
+-- supabase/migrations/20261019240000_offline_sync.sql
+-- Requests made offline are queued in the browser and sent on reconnect. The
+-- client tags each one with its own id so a submission replayed after a lost
+-- response returns the original request instead of creating a second one.
+
+alter table requests
+  add column if not exists client_ref uuid;
+
+create unique index if not exists requests_client_ref_idx on requests (client_ref) where client_ref is not null;
+
+drop function if exists submit_request(jsonb, text);
+
+create or replace function submit_request(p_lines jsonb, p_notes text default null, p_client_ref uuid default null)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_request_id uuid;
+  v_line jsonb;
+  v_item record;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to submit a request';
+  end if;
+  if p_lines is null or jsonb_array_length(p_lines) = 0 then
+    raise exception 'A request needs at least one item';
+  end if;
+
+  if p_client_ref is not null then
+    select id into v_request_id
+      from requests
+     where client_ref = p_client_ref
+       and requested_by = auth.uid();
+    if found then
+      return v_request_id;
+    end if;
+  end if;
+
+  insert into requests (notes, status, requested_by, requester_name, client_ref)
+  values (
+    nullif(trim(p_notes), ''),
+    'pending',
+    auth.uid(),
+    (select coalesce(full_name, email) from profiles where id = auth.uid()),
+    p_client_ref
+  )
+  returning id into v_request_id;
+
+  for v_line in select * from jsonb_array_elements(p_lines)
+  loop
+    select i.id, i.name, c.name as category_name into v_item
+      from inventory i
+      join categories c on c.id = i.category_id
+     where i.id = (v_line ->> 'item_id')::uuid;
+    if not found then
+      raise exception 'Item % not found', v_line ->> 'item_id';
+    end if;
+
+    insert into request_items (request_id, item_id, item_name, category, quantity)
+    values (v_request_id, v_item.id, v_item.name, v_item.category_name, (v_line ->> 'quantity')::integer);
+  end loop;
+
+  return v_request_id;
+end;
+$$;
+
+revoke execute on function submit_request(jsonb, text, uuid) from public, anon;
+grant execute on function submit_request(jsonb, text, uuid) to authenticated;
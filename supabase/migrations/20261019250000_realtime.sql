@@ -0,0 +1,46 @@
+-- supabase/migrations/20261019250000_realtime.sql
+-- Live updates: stock and request changes are broadcast so open pages update in
+-- place. Item details carry a version so two people editing the same item
+-- can't silently overwrite each other; stock levels aren't versioned because
+-- they only change through ledger deltas, which never overwrite.
+
+do $$
+declare
+  v_table text;
+begin
+  foreach v_table in array array['inventory', 'item_locations', 'requests']
+  loop
+    if not exists (
+      select 1 from pg_publication_tables
+       where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = v_table
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', v_table);
+    end if;
+  end loop;
+end;
+$$;
+
+alter table inventory
+  add column if not exists version integer not null default 1;
+
+-- Bumped whenever anything but the stock level changes. Clients can't set it
+-- themselves; they send the version they loaded as a condition of the update.
+create or replace function bump_inventory_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (to_jsonb(new) - array['quantity', 'alert_level', 'version'])
+     is distinct from (to_jsonb(old) - array['quantity', 'alert_level', 'version']) then
+    new.version := old.version + 1;
+  else
+    new.version := old.version;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists inventory_bump_version on inventory;
+create trigger inventory_bump_version
+  before update on inventory
+  for each row execute function bump_inventory_version();
@@ -0,0 +1,70 @@
+-- supabase/migrations/20261019260000_inventory_search.sql
+-- One page of the admin inventory table, searched, filtered and sorted in the
+-- database. With a location, quantities and thresholds are those at that
+-- location (falling back to the item's threshold) and only items stocked
+-- there are returned. Every row carries the total match count for paging.
+
+create or replace function search_inventory(
+  p_search text default null,
+  p_category_ids uuid[] default null,
+  p_status text default null,
+  p_supplier_id uuid default null,
+  p_location_id uuid default null,
+  p_sort text default 'name',
+  p_descending boolean default false,
+  p_limit integer default 25,
+  p_offset integer default 0
+)
+returns table (item jsonb, quantity integer, threshold integer, total_count bigint)
+language sql
+stable
+as $$
+  with stock as (
+    select i,
+           c.name as category_name,
+           coalesce(l.quantity, i.quantity) as quantity,
+           coalesce(l.threshold, i.threshold) as threshold
+      from inventory i
+      left join categories c on c.id = i.category_id
+      left join item_locations l on l.item_id = i.id and l.location_id = p_location_id
+     where (p_location_id is null or l.item_id is not null)
+       and (p_category_ids is null or i.category_id = any(p_category_ids))
+       and (p_supplier_id is null or i.supplier_id = p_supplier_id)
+       -- Wildcards typed into the search box are matched literally
+       and (coalesce(p_search, '') = ''
+            or concat_ws(' ', i.name, i.description)
+               ilike '%' || replace(replace(replace(p_search, '\', '\\'), '%', '\%'), '_', '\_') || '%')
+  ),
+  matched as (
+    select s.*,
+           case when s.quantity = 0 then 0 when s.quantity <= s.threshold then 1 else 2 end as status_rank
+      from stock s
+  )
+  select to_jsonb(m.i), m.quantity, m.threshold, count(*) over ()
+    from matched m
+   where p_status is null
+      or (p_status = 'out' and m.status_rank = 0)
+      or (p_status = 'low' and m.status_rank = 1)
+      or (p_status = 'in_stock' and m.status_rank = 2)
+   order by
+     case when not p_descending then
+       case p_sort when 'name' then lower((m.i).name) when 'category' then lower(m.category_name) end
+     end asc,
+     case when p_descending then
+       case p_sort when 'name' then lower((m.i).name) when 'category' then lower(m.category_name) end
+     end desc,
+     case when not p_descending then
+       case p_sort when 'quantity' then m.quantity when 'threshold' then m.threshold when 'status' then m.status_rank end
+     end asc,
+     case when p_descending then
+       case p_sort when 'quantity' then m.quantity when 'threshold' then m.threshold when 'status' then m.status_rank end
+     end desc,
+     lower((m.i).name),
+     (m.i).id
+   limit greatest(p_limit, 1)
+  offset greatest(p_offset, 0);
+$$;
+
+-- Runs as the caller, so row level security still decides what is visible
+revoke execute on function search_inventory(text, uuid[], text, uuid, uuid, text, boolean, integer, integer) from public, anon;
+grant execute on function search_inventory(text, uuid[], text, uuid, uuid, text, boolean, integer, integer) to authenticated;
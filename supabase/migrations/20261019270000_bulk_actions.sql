@@ -0,0 +1,199 @@
+-- supabase/migrations/20261019270000_bulk_actions.sql
+-- Changes applied to many items at once from the admin table. A batch either
+-- applies to every selected item or to none: failures are collected per item
+-- and reported together, and the whole batch is rolled back.
+
+-- Archived items keep their history but drop out of everyday lists
+alter table inventory
+  add column if not exists archived_at timestamptz;
+
+create or replace function apply_bulk_action(
+  p_item_ids uuid[],
+  p_action text,
+  p_category_id uuid default null,
+  p_threshold integer default null,
+  p_delta integer default null,
+  p_reason text default null
+)
+returns integer
+language plpgsql
+as $$
+declare
+  v_item_id uuid;
+  v_item inventory%rowtype;
+  v_quantity integer;
+  v_order_id uuid;
+  v_lines jsonb := '[]'::jsonb;
+  v_failures jsonb := '[]'::jsonb;
+begin
+  if not is_inventory_manager() then
+    raise exception 'Only inventory managers can change items in bulk' using errcode = '42501';
+  end if;
+  if coalesce(array_length(p_item_ids, 1), 0) = 0 then
+    raise exception 'Select at least one item';
+  end if;
+
+  case p_action
+    when 'set_category' then
+      if not exists (select 1 from categories where id = p_category_id) then
+        raise exception 'Choose a category';
+      end if;
+    when 'set_threshold' then
+      if p_threshold is null or p_threshold < 0 then
+        raise exception 'Threshold must be zero or more';
+      end if;
+    when 'adjust_quantity' then
+      if p_delta is null or p_delta = 0 then
+        raise exception 'Change cannot be zero';
+      end if;
+      if nullif(trim(p_reason), '') is null then
+        raise exception 'Please enter a reason for the quantity change';
+      end if;
+    when 'archive', 'request', 'purchase_order' then
+      null;
+    else
+      raise exception 'Unknown bulk action %', p_action;
+  end case;
+
+  foreach v_item_id in array p_item_ids
+  loop
+    v_item := null;
+    -- Each item runs in its own savepoint so one failure doesn't hide the next
+    begin
+      select * into v_item from inventory where id = v_item_id for update;
+      if not found or v_item.archived_at is not null then
+        raise exception 'Item not found';
+      end if;
+
+      -- Same rule as generated purchase orders: the reorder quantity, or enough
+      -- to reach twice the threshold
+      v_quantity := coalesce(v_item.reorder_quantity, greatest(v_item.threshold * 2 - v_item.quantity, 1));
+
+      case p_action
+        when 'set_category' then
+          update inventory set category_id = p_category_id where id = v_item_id;
+        when 'set_threshold' then
+          update inventory set threshold = p_threshold where id = v_item_id;
+        when 'adjust_quantity' then
+          perform record_stock_movement(v_item_id, 'adjustment', p_delta, p_reason);
+        when 'archive' then
+          update inventory set archived_at = now() where id = v_item_id;
+        when 'request' then
+          v_lines := v_lines || jsonb_build_object('item_id', v_item_id, 'quantity', v_quantity);
+        when 'purchase_order' then
+          if v_item.supplier_id is null then
+            raise exception 'No supplier set';
+          end if;
+          if exists (
+            select 1
+              from purchase_order_lines l
+              join purchase_orders o on o.id = l.purchase_order_id
+             where l.item_id = v_item_id
+               and o.status in ('draft', 'sent', 'partially_received')
+          ) then
+            raise exception 'Already on an open purchase order';
+          end if;
+
+          select id into v_order_id
+            from purchase_orders
+           where supplier_id = v_item.supplier_id and status = 'draft'
+           order by created_at
+           limit 1;
+
+          if v_order_id is null then
+            insert into purchase_orders (supplier_id)
+            values (v_item.supplier_id)
+            returning id into v_order_id;
+          end if;
+
+          insert into purchase_order_lines (purchase_order_id, item_id, quantity_ordered, unit_cost)
+          values (v_order_id, v_item_id, v_quantity, v_item.unit_cost);
+      end case;
+    exception when others then
+      v_failures := v_failures || jsonb_build_object('item_id', v_item_id, 'name', v_item.name, 'error', sqlerrm);
+    end;
+  end loop;
+
+  -- The detail carries the failures as JSON for the client to list
+  if jsonb_array_length(v_failures) > 0 then
+    raise exception 'Nothing was changed: % of % items failed',
+      jsonb_array_length(v_failures), array_length(p_item_ids, 1)
+      using detail = v_failures::text;
+  end if;
+
+  if p_action = 'request' then
+    perform submit_request(v_lines, nullif(trim(p_reason), ''), null);
+  end if;
+
+  return array_length(p_item_ids, 1);
+end;
+$$;
+
+revoke execute on function apply_bulk_action(uuid[], text, uuid, integer, integer, text) from public, anon;
+grant execute on function apply_bulk_action(uuid[], text, uuid, integer, integer, text) to authenticated;
+
+-- Archived items no longer show in the inventory table
+create or replace function search_inventory(
+  p_search text default null,
+  p_category_ids uuid[] default null,
+  p_status text default null,
+  p_supplier_id uuid default null,
+  p_location_id uuid default null,
+  p_sort text default 'name',
+  p_descending boolean default false,
+  p_limit integer default 25,
+  p_offset integer default 0
+)
+returns table (item jsonb, quantity integer, threshold integer, total_count bigint)
+language sql
+stable
+as $$
+  with stock as (
+    select i,
+           c.name as category_name,
+           coalesce(l.quantity, i.quantity) as quantity,
+           coalesce(l.threshold, i.threshold) as threshold
+      from inventory i
+      left join categories c on c.id = i.category_id
+      left join item_locations l on l.item_id = i.id and l.location_id = p_location_id
+     where i.archived_at is null
+       and (p_location_id is null or l.item_id is not null)
+       and (p_category_ids is null or i.category_id = any(p_category_ids))
+       and (p_supplier_id is null or i.supplier_id = p_supplier_id)
+       -- Wildcards typed into the search box are matched literally
+       and (coalesce(p_search, '') = ''
+            or concat_ws(' ', i.name, i.description)
+               ilike '%' || replace(replace(replace(p_search, '\', '\\'), '%', '\%'), '_', '\_') || '%')
+  ),
+  matched as (
+    select s.*,
+           case when s.quantity = 0 then 0 when s.quantity <= s.threshold then 1 else 2 end as status_rank
+      from stock s
+  )
+  select to_jsonb(m.i), m.quantity, m.threshold, count(*) over ()
+    from matched m
+   where p_status is null
+      or (p_status = 'out' and m.status_rank = 0)
+      or (p_status = 'low' and m.status_rank = 1)
+      or (p_status = 'in_stock' and m.status_rank = 2)
+   order by
+     case when not p_descending then
+       case p_sort when 'name' then lower((m.i).name) when 'category' then lower(m.category_name) end
+     end asc,
+     case when p_descending then
+       case p_sort when 'name' then lower((m.i).name) when 'category' then lower(m.category_name) end
+     end desc,
+     case when not p_descending then
+       case p_sort when 'quantity' then m.quantity when 'threshold' then m.threshold when 'status' then m.status_rank end
+     end asc,
+     case when p_descending then
+       case p_sort when 'quantity' then m.quantity when 'threshold' then m.threshold when 'status' then m.status_rank end
+     end desc,
+     lower((m.i).name),
+     (m.i).id
+   limit greatest(p_limit, 1)
+  offset greatest(p_offset, 0);
+$$;
+
+revoke execute on function search_inventory(text, uuid[], text, uuid, uuid, text, boolean, integer, integer) from public, anon;
+grant execute on function search_inventory(text, uuid[], text, uuid, uuid, text, boolean, integer, integer) to authenticated;
@@ -0,0 +1,342 @@
+-- supabase/migrations/20261019280000_archive_items.sql
+-- Items are archived rather than deleted, so requests, the ledger and
+-- purchase history keep pointing at a real row. Archived items can be
+-- restored; only admins can purge one for good, and not while it is still on
+-- an open request or on any purchase order. Archived items can't be
+-- requested, dispensed or counted until they're restored.
+
+-- Managers no longer delete rows directly; purging goes through purge_item
+drop policy if exists "Managers change inventory" on inventory;
+drop policy if exists "Managers add inventory" on inventory;
+drop policy if exists "Managers update inventory" on inventory;
+
+create policy "Managers add inventory" on inventory
+  for insert to authenticated with check (is_inventory_manager());
+create policy "Managers update inventory" on inventory
+  for update to authenticated using (is_inventory_manager()) with check (is_inventory_manager());
+
+create or replace function purge_item(p_item_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_item inventory%rowtype;
+  v_order_number bigint;
+begin
+  if not is_admin() then
+    raise exception 'Only admins can permanently delete items' using errcode = '42501';
+  end if;
+
+  select * into v_item from inventory where id = p_item_id for update;
+  if not found then
+    raise exception 'Item % not found', p_item_id;
+  end if;
+  if v_item.archived_at is null then
+    raise exception 'Archive "%" before deleting it permanently', v_item.name;
+  end if;
+  if exists (
+    select 1
+      from request_items ri
+      join requests r on r.id = ri.request_id
+     where ri.item_id = p_item_id
+       and r.status in ('pending', 'approved', 'ordered')
+  ) then
+    raise exception '"%" is on an open request; fulfil or cancel it first', v_item.name;
+  end if;
+  -- Order lines keep the item for the purchase history, so it can only stay archived
+  select o.order_number into v_order_number
+    from purchase_order_lines l
+    join purchase_orders o on o.id = l.purchase_order_id
+   where l.item_id = p_item_id
+   order by o.created_at desc
+   limit 1;
+  if found then
+    raise exception '"%" is on purchase order #%, so it stays archived to keep the order history', v_item.name, v_order_number;
+  end if;
+
+  delete from inventory where id = p_item_id;
+end;
+$$;
+
+revoke execute on function purge_item(uuid) from public, anon;
+grant execute on function purge_item(uuid) to authenticated;
+
+-- Archived items can't be requested
+create or replace function submit_request(p_lines jsonb, p_notes text default null, p_client_ref uuid default null)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_request_id uuid;
+  v_line jsonb;
+  v_item record;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to submit a request';
+  end if;
+  if p_lines is null or jsonb_array_length(p_lines) = 0 then
+    raise exception 'A request needs at least one item';
+  end if;
+
+  if p_client_ref is not null then
+    select id into v_request_id
+      from requests
+     where client_ref = p_client_ref
+       and requested_by = auth.uid();
+    if found then
+      return v_request_id;
+    end if;
+  end if;
+
+  insert into requests (notes, status, requested_by, requester_name, client_ref)
+  values (
+    nullif(trim(p_notes), ''),
+    'pending',
+    auth.uid(),
+    (select coalesce(full_name, email) from profiles where id = auth.uid()),
+    p_client_ref
+  )
+  returning id into v_request_id;
+
+  for v_line in select * from jsonb_array_elements(p_lines)
+  loop
+    select i.id, i.name, i.archived_at, c.name as category_name into v_item
+      from inventory i
+      join categories c on c.id = i.category_id
+     where i.id = (v_line ->> 'item_id')::uuid;
+    if not found then
+      raise exception 'Item % not found', v_line ->> 'item_id';
+    end if;
+    if v_item.archived_at is not null then
+      raise exception '"%" has been archived and can''t be requested', v_item.name;
+    end if;
+
+    insert into request_items (request_id, item_id, item_name, category, quantity)
+    values (v_request_id, v_item.id, v_item.name, v_item.category_name, (v_line ->> 'quantity')::integer);
+  end loop;
+
+  return v_request_id;
+end;
+$$;
+
+-- Archived items can't be dispensed. Still runs as the function owner so
+-- requesters can record what they used.
+create or replace function dispense_items(
+  p_lines jsonb,
+  p_reason text,
+  p_performed_by text default null,
+  p_location_id uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_line record;
+  v_item inventory%rowtype;
+  v_result jsonb := '[]'::jsonb;
+begin
+  if p_lines is null or jsonb_array_length(p_lines) = 0 then
+    raise exception 'Nothing to dispense';
+  end if;
+
+  -- Lock items in a stable order so concurrent draws cannot deadlock
+  for v_line in
+    select (l ->> 'item_id')::uuid as line_item_id,
+           sum((l ->> 'quantity')::integer)::integer as line_quantity
+      from jsonb_array_elements(p_lines) l
+     group by 1
+     order by 1
+  loop
+    if v_line.line_quantity is null or v_line.line_quantity <= 0 then
+      raise exception 'Quantities must be at least 1';
+    end if;
+
+    select * into v_item from inventory where id = v_line.line_item_id for update;
+    if not found then
+      raise exception 'Item % not found', v_line.line_item_id;
+    end if;
+    if v_item.archived_at is not null then
+      raise exception '"%" has been archived and can''t be dispensed', v_item.name;
+    end if;
+    if v_item.quantity < v_line.line_quantity then
+      raise exception 'Not enough "%" in stock: % available, % requested',
+        v_item.name, v_item.quantity, v_line.line_quantity;
+    end if;
+
+    perform record_stock_movement(
+      v_item.id, 'dispense', -v_line.line_quantity, p_reason, p_performed_by,
+      null, null, p_location_id
+    );
+
+    v_result := v_result || jsonb_build_object(
+      'item_id', v_item.id,
+      'name', v_item.name,
+      'quantity', v_item.quantity - v_line.line_quantity,
+      'threshold', v_item.threshold
+    );
+  end loop;
+
+  return v_result;
+end;
+$$;
+
+-- Counts only snapshot active items
+create or replace function start_count_session(
+  p_name text,
+  p_category_id uuid default null,
+  p_location_id uuid default null
+)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_session_id uuid;
+begin
+  insert into count_sessions (name, category_id, location_id)
+  values (coalesce(nullif(trim(p_name), ''), 'Count ' || to_char(now(), 'YYYY-MM-DD')), p_category_id, p_location_id)
+  returning id into v_session_id;
+
+  insert into count_lines (session_id, item_id, expected_quantity)
+  select v_session_id,
+         i.id,
+         case when p_location_id is null then i.quantity else coalesce(il.quantity, 0) end
+    from inventory i
+    join categories c on c.id = i.category_id
+    left join item_locations il on il.item_id = i.id and il.location_id = p_location_id
+   where i.archived_at is null
+     and (p_category_id is null or c.id = p_category_id or c.parent_id = p_category_id)
+     and (p_location_id is null or il.item_id is not null);
+
+  if not found then
+    raise exception 'Nothing to count in that category or location';
+  end if;
+
+  return v_session_id;
+end;
+$$;
+
+-- Archived items are left out of generated purchase orders
+create or replace function generate_purchase_orders()
+returns integer
+language plpgsql
+as $$
+declare
+  v_item record;
+  v_order_id uuid;
+  v_added integer := 0;
+begin
+  for v_item in
+    select i.*
+      from inventory i
+     where i.supplier_id is not null
+       and i.archived_at is null
+       and i.quantity <= i.threshold
+       and not exists (
+         select 1
+           from purchase_order_lines l
+           join purchase_orders o on o.id = l.purchase_order_id
+          where l.item_id = i.id
+            and o.status in ('draft', 'sent', 'partially_received')
+       )
+     order by i.supplier_id, i.name
+  loop
+    select id into v_order_id
+      from purchase_orders
+     where supplier_id = v_item.supplier_id and status = 'draft'
+     order by created_at
+     limit 1;
+
+    if v_order_id is null then
+      insert into purchase_orders (supplier_id)
+      values (v_item.supplier_id)
+      returning id into v_order_id;
+    end if;
+
+    -- Without a set reorder quantity, order enough to reach twice the threshold
+    insert into purchase_order_lines (purchase_order_id, item_id, quantity_ordered, unit_cost)
+    values (
+      v_order_id,
+      v_item.id,
+      coalesce(v_item.reorder_quantity, greatest(v_item.threshold * 2 - v_item.quantity, 1)),
+      v_item.unit_cost
+    );
+
+    v_added := v_added + 1;
+  end loop;
+
+  return v_added;
+end;
+$$;
+
+-- The inventory table can show archived items instead of active ones
+drop function if exists search_inventory(text, uuid[], text, uuid, uuid, text, boolean, integer, integer);
+
+create or replace function search_inventory(
+  p_search text default null,
+  p_category_ids uuid[] default null,
+  p_status text default null,
+  p_supplier_id uuid default null,
+  p_location_id uuid default null,
+  p_sort text default 'name',
+  p_descending boolean default false,
+  p_limit integer default 25,
+  p_offset integer default 0,
+  p_archived boolean default false
+)
+returns table (item jsonb, quantity integer, threshold integer, total_count bigint)
+language sql
+stable
+as $$
+  with stock as (
+    select i,
+           c.name as category_name,
+           coalesce(l.quantity, i.quantity) as quantity,
+           coalesce(l.threshold, i.threshold) as threshold
+      from inventory i
+      left join categories c on c.id = i.category_id
+      left join item_locations l on l.item_id = i.id and l.location_id = p_location_id
+     where (i.archived_at is not null) = p_archived
+       and (p_location_id is null or l.item_id is not null)
+       and (p_category_ids is null or i.category_id = any(p_category_ids))
+       and (p_supplier_id is null or i.supplier_id = p_supplier_id)
+       -- Wildcards typed into the search box are matched literally
+       and (coalesce(p_search, '') = ''
+            or concat_ws(' ', i.name, i.description)
+               ilike '%' || replace(replace(replace(p_search, '\', '\\'), '%', '\%'), '_', '\_') || '%')
+  ),
+  matched as (
+    select s.*,
+           case when s.quantity = 0 then 0 when s.quantity <= s.threshold then 1 else 2 end as status_rank
+      from stock s
+  )
+  select to_jsonb(m.i), m.quantity, m.threshold, count(*) over ()
+    from matched m
+   where p_status is null
+      or (p_status = 'out' and m.status_rank = 0)
+      or (p_status = 'low' and m.status_rank = 1)
+      or (p_status = 'in_stock' and m.status_rank = 2)
+   order by
+     case when not p_descending then
+       case p_sort when 'name' then lower((m.i).name) when 'category' then lower(m.category_name) end
+     end asc,
+     case when p_descending then
+       case p_sort when 'name' then lower((m.i).name) when 'category' then lower(m.category_name) end
+     end desc,
+     case when not p_descending then
+       case p_sort when 'quantity' then m.quantity when 'threshold' then m.threshold when 'status' then m.status_rank end
+     end asc,
+     case when p_descending then
+       case p_sort when 'quantity' then m.quantity when 'threshold' then m.threshold when 'status' then m.status_rank end
+     end desc,
+     lower((m.i).name),
+     (m.i).id
+   limit greatest(p_limit, 1)
+  offset greatest(p_offset, 0);
+$$;
+
+revoke execute on function search_inventory(text, uuid[], text, uuid, uuid, text, boolean, integer, integer, boolean) from public, anon;
+grant execute on function search_inventory(text, uuid[], text, uuid, uuid, text, boolean, integer, integer, boolean) to authenticated;
@@ -0,0 +1,190 @@
+-- supabase/migrations/20261019290000_audit_log.sql
+-- Who did what to items and requests, with a before/after of every field that
+-- changed. Entries are written by triggers, so no screen or script can skip
+-- them, and nobody can edit or remove them afterwards. Stock levels are left
+-- out: every quantity change already has its own row in stock_movements.
+
+create table if not exists audit_log (
+  id bigint generated always as identity primary key,
+  occurred_at timestamptz not null default now(),
+  -- No foreign key, so entries outlive the account that made them
+  actor_id uuid,
+  actor_email text not null,
+  action text not null
+    check (action in ('create', 'update', 'archive', 'restore', 'delete', 'submit', 'approve', 'reject', 'order', 'fulfil', 'cancel')),
+  entity_type text not null check (entity_type in ('item', 'request')),
+  entity_id uuid not null,
+  entity_name text,
+  -- Items on a request, so an item's trail includes requests for it
+  item_ids uuid[] not null default '{}',
+  -- { "field": { "before": ..., "after": ... } }
+  changes jsonb not null default '{}'::jsonb
+);
+
+create index if not exists audit_log_occurred_idx on audit_log (occurred_at desc);
+create index if not exists audit_log_entity_idx on audit_log (entity_id);
+create index if not exists audit_log_actor_idx on audit_log (actor_id);
+create index if not exists audit_log_item_ids_idx on audit_log using gin (item_ids);
+
+alter table audit_log enable row level security;
+
+create policy "Admins read the audit log" on audit_log
+  for select to authenticated using (is_admin());
+
+create or replace function prevent_audit_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'The audit log cannot be changed';
+end;
+$$;
+
+drop trigger if exists audit_log_immutable on audit_log;
+create trigger audit_log_immutable
+  before update or delete on audit_log
+  for each row execute function prevent_audit_changes();
+
+drop trigger if exists audit_log_no_truncate on audit_log;
+create trigger audit_log_no_truncate
+  before truncate on audit_log
+  for each statement execute function prevent_audit_changes();
+
+-- Fields whose value differs between two versions of a row
+create or replace function audit_diff(p_before jsonb, p_after jsonb, p_ignore text[])
+returns jsonb
+language sql
+immutable
+as $$
+  select coalesce(
+           jsonb_object_agg(k.key, jsonb_build_object('before', p_before -> k.key, 'after', p_after -> k.key)),
+           '{}'::jsonb
+         )
+    from (select jsonb_object_keys(p_before || p_after) as key) k
+   where not k.key = any(p_ignore)
+     and (p_before -> k.key) is distinct from (p_after -> k.key);
+$$;
+
+create or replace function audit_actor_email()
+returns text
+language sql
+stable
+as $$
+  -- Scheduled jobs and the service role have no signed-in user
+  select coalesce(auth.jwt() ->> 'email', 'system');
+$$;
+
+create or replace function audit_inventory_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_ignore text[] := array['id', 'created_at', 'version', 'quantity', 'alert_level'];
+  v_row inventory%rowtype;
+  v_action text;
+  v_changes jsonb;
+begin
+  if tg_op = 'INSERT' then
+    v_row := new;
+    v_action := 'create';
+    v_changes := audit_diff('{}'::jsonb, to_jsonb(new), v_ignore);
+  elsif tg_op = 'DELETE' then
+    v_row := old;
+    v_action := 'delete';
+    v_changes := audit_diff(to_jsonb(old), '{}'::jsonb, v_ignore);
+  else
+    v_row := new;
+    v_changes := audit_diff(to_jsonb(old), to_jsonb(new), v_ignore);
+    if v_changes = '{}'::jsonb then
+      return null;
+    end if;
+    v_action := case
+      when old.archived_at is null and new.archived_at is not null then 'archive'
+      when old.archived_at is not null and new.archived_at is null then 'restore'
+      else 'update'
+    end;
+  end if;
+
+  insert into audit_log (actor_id, actor_email, action, entity_type, entity_id, entity_name, changes)
+  values (auth.uid(), audit_actor_email(), v_action, 'item', v_row.id, v_row.name, v_changes);
+  return null;
+end;
+$$;
+
+drop trigger if exists inventory_audit on inventory;
+create trigger inventory_audit
+  after insert or update or delete on inventory
+  for each row execute function audit_inventory_change();
+
+create or replace function audit_request_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_ignore text[] := array['id', 'created_at', 'updated_at', 'requested_by', 'client_ref'];
+  v_row requests%rowtype;
+  v_action text;
+  v_changes jsonb;
+  v_item_ids uuid[];
+begin
+  if tg_op = 'DELETE' then
+    v_row := old;
+  else
+    v_row := new;
+  end if;
+
+  select coalesce(array_agg(ri.item_id) filter (where ri.item_id is not null), '{}')
+    into v_item_ids
+    from request_items ri
+   where ri.request_id = v_row.id;
+
+  if tg_op = 'INSERT' then
+    -- Runs at commit, once the request's lines have been added
+    v_action := 'submit';
+    v_changes := audit_diff('{}'::jsonb, to_jsonb(new), v_ignore) || jsonb_build_object(
+      'items',
+      jsonb_build_object('before', null, 'after', (
+        select jsonb_agg(format('%s × %s', ri.quantity, ri.item_name) order by ri.item_name)
+          from request_items ri
+         where ri.request_id = new.id
+      ))
+    );
+  elsif tg_op = 'DELETE' then
+    v_action := 'delete';
+    v_changes := audit_diff(to_jsonb(old), '{}'::jsonb, v_ignore);
+  else
+    v_changes := audit_diff(to_jsonb(old), to_jsonb(new), v_ignore);
+    if v_changes = '{}'::jsonb then
+      return null;
+    end if;
+    v_action := case
+      when new.status is not distinct from old.status then 'update'
+      when new.status = 'approved' then 'approve'
+      when new.status = 'rejected' then 'reject'
+      when new.status = 'ordered' then 'order'
+      when new.status = 'fulfilled' then 'fulfil'
+      when new.status = 'cancelled' then 'cancel'
+      else 'update'
+    end;
+  end if;
+
+  insert into audit_log (actor_id, actor_email, action, entity_type, entity_id, entity_name, item_ids, changes)
+  values (auth.uid(), audit_actor_email(), v_action, 'request', v_row.id, v_row.requester_name, v_item_ids, v_changes);
+  return null;
+end;
+$$;
+
+drop trigger if exists requests_audit_insert on requests;
+create constraint trigger requests_audit_insert
+  after insert on requests
+  deferrable initially deferred
+  for each row execute function audit_request_change();
+
+drop trigger if exists requests_audit_change on requests;
+create trigger requests_audit_change
+  after update or delete on requests
+  for each row execute function audit_request_change();
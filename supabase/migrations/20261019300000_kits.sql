@@ -0,0 +1,91 @@
+-- supabase/migrations/20261019300000_kits.sql
+-- Named sets of items, such as "Exam room par" or "Suture tray". A kit's line
+-- quantities are the par level when restocking a room with it, and the amount
+-- taken when one is made up. Making one up goes through dispense_items, so
+-- every component is taken or none are.
+
+create table if not exists kits (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  description text,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists kit_items (
+  kit_id uuid not null references kits(id) on delete cascade,
+  -- Purging an item drops it from its kits too
+  item_id uuid not null references inventory(id) on delete cascade,
+  quantity integer not null check (quantity > 0),
+  primary key (kit_id, item_id)
+);
+
+create index if not exists kit_items_item_idx on kit_items (item_id);
+
+alter table kits enable row level security;
+alter table kit_items enable row level security;
+
+create policy "Signed-in users read kits" on kits
+  for select to authenticated using (true);
+create policy "Managers change kits" on kits
+  for all to authenticated using (is_inventory_manager()) with check (is_inventory_manager());
+
+create policy "Signed-in users read kit lines" on kit_items
+  for select to authenticated using (true);
+create policy "Managers change kit lines" on kit_items
+  for all to authenticated using (is_inventory_manager()) with check (is_inventory_manager());
+
+-- Create or replace a kit and all of its lines in one go, so a kit is never
+-- left half-edited. Returns the kit's id.
+create or replace function save_kit(
+  p_kit_id uuid,
+  p_name text,
+  p_description text,
+  p_lines jsonb
+)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_kit_id uuid;
+begin
+  if nullif(trim(p_name), '') is null then
+    raise exception 'A kit needs a name';
+  end if;
+  if p_lines is null or jsonb_array_length(p_lines) = 0 then
+    raise exception 'A kit needs at least one item';
+  end if;
+  if exists (
+    select 1 from jsonb_array_elements(p_lines) l
+     where coalesce((l ->> 'quantity')::integer, 0) <= 0
+  ) then
+    raise exception 'Quantities must be at least 1';
+  end if;
+
+  if p_kit_id is null then
+    insert into kits (name, description)
+    values (trim(p_name), nullif(trim(p_description), ''))
+    returning id into v_kit_id;
+  else
+    update kits
+       set name = trim(p_name),
+           description = nullif(trim(p_description), '')
+     where id = p_kit_id
+    returning id into v_kit_id;
+
+    if not found then
+      raise exception 'Kit % not found', p_kit_id;
+    end if;
+    delete from kit_items where kit_id = v_kit_id;
+  end if;
+
+  insert into kit_items (kit_id, item_id, quantity)
+  select v_kit_id, (l ->> 'item_id')::uuid, sum((l ->> 'quantity')::integer)::integer
+    from jsonb_array_elements(p_lines) l
+   group by 2;
+
+  return v_kit_id;
+end;
+$$;
+
+revoke execute on function save_kit(uuid, text, text, jsonb) from public, anon;
+grant execute on function save_kit(uuid, text, text, jsonb) to authenticated;
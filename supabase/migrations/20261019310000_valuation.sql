@@ -0,0 +1,395 @@
+-- supabase/migrations/20261019310000_valuation.sql
+-- Every ledger movement carries the unit cost it happened at, so spend and
+-- write-offs keep their value after an item's cost changes. Receipts also
+-- record who supplied them. A receipt at a known cost (a purchase order line,
+-- a lot or a manual receipt) becomes the item's unit cost from then on.
+-- Movements from before costs were captured keep a null cost: the ledger is
+-- append-only, and today's price was never paid for them. Reports show them
+-- as unknown instead.
+
+alter table stock_movements
+  add column if not exists unit_cost numeric(10, 2) check (unit_cost >= 0),
+  add column if not exists supplier_id uuid references suppliers(id) on delete set null;
+
+create index if not exists stock_movements_type_created_idx
+  on stock_movements (movement_type, created_at);
+
+-- Movements that don't bring their own cost take the item's current one
+create or replace function stamp_stock_movement_cost()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_item inventory%rowtype;
+begin
+  select * into v_item from inventory where id = new.item_id;
+  new.unit_cost := coalesce(new.unit_cost, v_item.unit_cost);
+  if new.movement_type = 'receipt' then
+    new.supplier_id := coalesce(new.supplier_id, v_item.supplier_id);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists stock_movements_stamp_cost on stock_movements;
+create trigger stock_movements_stamp_cost
+  before insert on stock_movements
+  for each row execute function stamp_stock_movement_cost();
+
+drop function if exists record_stock_movement(uuid, text, integer, text, text, uuid, uuid, uuid);
+
+create or replace function record_stock_movement(
+  p_item_id uuid,
+  p_movement_type text,
+  p_delta integer,
+  p_reason text default null,
+  p_performed_by text default null,
+  p_request_id uuid default null,
+  p_lot_id uuid default null,
+  p_location_id uuid default null,
+  p_unit_cost numeric default null,
+  p_supplier_id uuid default null
+)
+returns integer
+language plpgsql
+as $$
+declare
+  v_item inventory%rowtype;
+  v_performed_by text;
+  v_reason text;
+  v_location_id uuid;
+  v_lot inventory_lots%rowtype;
+  v_lot_id uuid;
+  v_remaining integer;
+  v_take integer;
+  v_running integer;
+begin
+  if p_delta is null or p_delta = 0 then
+    raise exception 'Movement delta cannot be zero';
+  end if;
+  if p_unit_cost < 0 then
+    raise exception 'Unit cost cannot be negative';
+  end if;
+
+  select * into v_item from inventory where id = p_item_id for update;
+  if not found then
+    raise exception 'Item % not found', p_item_id;
+  end if;
+  if v_item.quantity + p_delta < 0 then
+    raise exception 'Not enough stock: quantity would fall to %', v_item.quantity + p_delta;
+  end if;
+
+  update inventory
+     set quantity = quantity + p_delta,
+         unit_cost = case
+           when p_movement_type = 'receipt' and p_unit_cost is not null then p_unit_cost
+           else unit_cost
+         end
+   where id = p_item_id;
+  v_location_id := adjust_item_location(p_item_id, p_location_id, p_delta);
+
+  v_performed_by := coalesce(nullif(trim(p_performed_by), ''), auth.jwt() ->> 'email', 'unknown');
+  v_reason := nullif(trim(p_reason), '');
+
+  if not v_item.track_lots then
+    insert into stock_movements (item_id, movement_type, delta, quantity_after, reason, performed_by, request_id, location_id, unit_cost, supplier_id)
+    values (p_item_id, p_movement_type, p_delta, v_item.quantity + p_delta, v_reason, v_performed_by, p_request_id, v_location_id, p_unit_cost, p_supplier_id);
+    return v_item.quantity + p_delta;
+  end if;
+
+  if p_lot_id is not null or p_delta > 0 then
+    v_lot_id := p_lot_id;
+    if v_lot_id is null then
+      insert into inventory_lots (item_id, lot_number)
+      values (p_item_id, 'NO-LOT')
+      on conflict (item_id, lot_number) do update set lot_number = excluded.lot_number
+      returning id into v_lot_id;
+    end if;
+
+    update inventory_lots
+       set quantity = quantity + p_delta
+     where id = v_lot_id and item_id = p_item_id
+    returning * into v_lot;
+
+    if not found then
+      raise exception 'Lot % does not belong to this item', v_lot_id;
+    end if;
+    if v_lot.quantity < 0 then
+      raise exception 'Not enough stock in lot %', v_lot.lot_number;
+    end if;
+
+    insert into stock_movements (item_id, movement_type, delta, quantity_after, reason, performed_by, request_id, lot_id, location_id, unit_cost, supplier_id)
+    values (p_item_id, p_movement_type, p_delta, v_item.quantity + p_delta, v_reason, v_performed_by, p_request_id, v_lot_id, v_location_id, p_unit_cost, p_supplier_id);
+    return v_item.quantity + p_delta;
+  end if;
+
+  -- First expiry, first out: one movement per lot drawn from
+  v_remaining := -p_delta;
+  v_running := v_item.quantity;
+  for v_lot in
+    select * from inventory_lots
+     where item_id = p_item_id and quantity > 0
+     order by expires_on nulls last, created_at
+     for update
+  loop
+    exit when v_remaining = 0;
+    v_take := least(v_remaining, v_lot.quantity);
+
+    update inventory_lots set quantity = quantity - v_take where id = v_lot.id;
+    v_running := v_running - v_take;
+    v_remaining := v_remaining - v_take;
+
+    insert into stock_movements (item_id, movement_type, delta, quantity_after, reason, performed_by, request_id, lot_id, location_id, unit_cost, supplier_id)
+    values (p_item_id, p_movement_type, -v_take, v_running, v_reason, v_performed_by, p_request_id, v_lot.id, v_location_id, p_unit_cost, p_supplier_id);
+  end loop;
+
+  if v_remaining > 0 then
+    raise exception 'Lots for "%" hold % less than its quantity', v_item.name, v_remaining;
+  end if;
+
+  return v_item.quantity + p_delta;
+end;
+$$;
+
+revoke execute on function record_stock_movement(uuid, text, integer, text, text, uuid, uuid, uuid, numeric, uuid) from public, anon;
+grant execute on function record_stock_movement(uuid, text, integer, text, text, uuid, uuid, uuid, numeric, uuid) to authenticated;
+
+-- Deliveries are costed at the order line's price and credited to the
+-- order's supplier
+create or replace function receive_purchase_order(p_order_id uuid, p_received jsonb)
+returns text
+language plpgsql
+as $$
+declare
+  v_order purchase_orders%rowtype;
+  v_line purchase_order_lines%rowtype;
+  v_quantity integer;
+  v_status text;
+begin
+  select * into v_order from purchase_orders where id = p_order_id for update;
+  if not found then
+    raise exception 'Purchase order % not found', p_order_id;
+  end if;
+  if v_order.status not in ('sent', 'partially_received') then
+    raise exception 'Only sent orders can be received (this one is %)', v_order.status;
+  end if;
+
+  for v_line in select * from purchase_order_lines where purchase_order_id = p_order_id
+  loop
+    select (r ->> 'quantity')::integer into v_quantity
+      from jsonb_array_elements(p_received) r
+     where (r ->> 'line_id')::uuid = v_line.id;
+
+    v_quantity := coalesce(v_quantity, 0);
+    if v_quantity < 0 then
+      raise exception 'Received quantity must be zero or more';
+    end if;
+    continue when v_quantity = 0;
+
+    perform record_stock_movement(
+      v_line.item_id, 'receipt', v_quantity,
+      'PO #' || v_order.order_number,
+      null, null, null, null,
+      v_line.unit_cost, v_order.supplier_id
+    );
+
+    update purchase_order_lines
+       set quantity_received = quantity_received + v_quantity
+     where id = v_line.id;
+  end loop;
+
+  v_status := case
+    when not exists (
+      select 1 from purchase_order_lines
+       where purchase_order_id = p_order_id and quantity_received < quantity_ordered
+    ) then 'received'
+    else 'partially_received'
+  end;
+
+  update purchase_orders
+     set status = v_status,
+         received_at = case when v_status = 'received' then now() else received_at end,
+         updated_at = now()
+   where id = p_order_id;
+
+  return v_status;
+end;
+$$;
+
+-- Lots can be received at a cost too
+drop function if exists receive_lot(uuid, text, date, integer, text, text);
+
+create or replace function receive_lot(
+  p_item_id uuid,
+  p_lot_number text,
+  p_expires_on date,
+  p_quantity integer,
+  p_reason text default null,
+  p_performed_by text default null,
+  p_unit_cost numeric default null
+)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_lot_id uuid;
+begin
+  if p_quantity is null or p_quantity <= 0 then
+    raise exception 'Quantity must be at least 1';
+  end if;
+  if nullif(trim(p_lot_number), '') is null then
+    raise exception 'Lot number is required';
+  end if;
+
+  insert into inventory_lots (item_id, lot_number, expires_on)
+  values (p_item_id, trim(p_lot_number), p_expires_on)
+  on conflict (item_id, lot_number) do update
+    set expires_on = coalesce(excluded.expires_on, inventory_lots.expires_on)
+  returning id into v_lot_id;
+
+  perform record_stock_movement(
+    p_item_id, 'receipt', p_quantity,
+    coalesce(nullif(trim(p_reason), ''), 'Received lot ' || trim(p_lot_number)),
+    p_performed_by, null, v_lot_id, null,
+    p_unit_cost
+  );
+
+  return v_lot_id;
+end;
+$$;
+
+revoke execute on function receive_lot(uuid, text, date, integer, text, text, numeric) from public, anon;
+grant execute on function receive_lot(uuid, text, date, integer, text, text, numeric) to authenticated;
+
+-- Imports can carry a unit cost. A new item's quantity is its opening
+-- balance: an adjustment like the ledger's own, so it isn't counted as spend.
+create or replace function import_inventory(p_rows jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_row jsonb;
+  v_item inventory%rowtype;
+  v_delta integer;
+  v_is_new boolean;
+  v_unit_cost numeric;
+  v_created integer := 0;
+  v_updated integer := 0;
+begin
+  for v_row in select * from jsonb_array_elements(p_rows)
+  loop
+    v_item := null;
+    v_is_new := false;
+    v_unit_cost := (v_row ->> 'unit_cost')::numeric;
+    if v_unit_cost < 0 then
+      raise exception 'Unit cost cannot be negative: %', v_row;
+    end if;
+
+    if nullif(trim(v_row ->> 'sku'), '') is not null then
+      select * into v_item from inventory where lower(sku) = lower(trim(v_row ->> 'sku'));
+    end if;
+    if v_item.id is null and nullif(trim(v_row ->> 'name'), '') is not null then
+      select * into v_item from inventory where lower(name) = lower(trim(v_row ->> 'name'));
+    end if;
+
+    if v_item.id is null then
+      if nullif(trim(v_row ->> 'name'), '') is null or v_row ->> 'category_id' is null then
+        raise exception 'New items need a name and category: %', v_row;
+      end if;
+
+      -- Start at zero so the opening quantity is recorded in the ledger
+      insert into inventory (sku, name, description, category_id, quantity, threshold, source_url, track_lots, unit_cost)
+      select nullif(trim(v_row ->> 'sku'), ''),
+             trim(v_row ->> 'name'),
+             nullif(v_row ->> 'description', ''),
+             c.id,
+             0,
+             coalesce((v_row ->> 'threshold')::integer, c.default_threshold),
+             nullif(v_row ->> 'source_url', ''),
+             c.track_lots_default,
+             v_unit_cost
+        from categories c
+       where c.id = (v_row ->> 'category_id')::uuid
+      returning * into v_item;
+
+      if v_item.id is null then
+        raise exception 'Category % not found', v_row ->> 'category_id';
+      end if;
+
+      v_is_new := true;
+      v_created := v_created + 1;
+    elsif v_item.archived_at is not null then
+      raise exception '"%" has been archived; restore it before importing changes to it', v_item.name;
+    else
+      update inventory
+         set sku = case when v_row ? 'sku' then nullif(trim(v_row ->> 'sku'), '') else sku end,
+             name = case when v_row ? 'name' then coalesce(nullif(trim(v_row ->> 'name'), ''), name) else name end,
+             description = case when v_row ? 'description' then nullif(v_row ->> 'description', '') else description end,
+             category_id = case when v_row ? 'category_id' then (v_row ->> 'category_id')::uuid else category_id end,
+             threshold = case when v_row ? 'threshold' then (v_row ->> 'threshold')::integer else threshold end,
+             source_url = case when v_row ? 'source_url' then nullif(v_row ->> 'source_url', '') else source_url end,
+             unit_cost = coalesce(v_unit_cost, unit_cost)
+       where id = v_item.id;
+
+      v_updated := v_updated + 1;
+    end if;
+
+    if v_row ? 'quantity' then
+      v_delta := (v_row ->> 'quantity')::integer - v_item.quantity;
+      if v_delta <> 0 then
+        perform record_stock_movement(
+          v_item.id,
+          'adjustment',
+          v_delta,
+          case when v_is_new then 'Opening balance (CSV import)' else 'CSV import' end,
+          null, null, null, null,
+          v_unit_cost
+        );
+      end if;
+    end if;
+  end loop;
+
+  return jsonb_build_object('created', v_created, 'updated', v_updated);
+end;
+$$;
+
+-- Received and written-off stock per month, at the cost it moved at, for the
+-- valuation report. Split by supplier and category so the page can total it
+-- either way; `expired` marks write-offs from lots past their expiry date.
+-- Opening balances are adjustments, not receipts, so they never count as
+-- spend. `uncosted` is how much moved with no known cost and isn't in `value`.
+create or replace function stock_value_by_month(p_from date, p_to date, p_category_ids uuid[] default null)
+returns table (
+  month date,
+  movement_type text,
+  supplier_id uuid,
+  category_id uuid,
+  expired boolean,
+  quantity integer,
+  value numeric,
+  uncosted integer
+)
+language sql
+stable
+as $$
+  select date_trunc('month', m.created_at at time zone 'utc')::date as month,
+         m.movement_type,
+         m.supplier_id,
+         i.category_id,
+         coalesce(l.expires_on < (m.created_at at time zone 'utc')::date, false) as expired,
+         sum(abs(m.delta))::integer as quantity,
+         coalesce(sum(abs(m.delta) * m.unit_cost), 0) as value,
+         coalesce(sum(abs(m.delta)) filter (where m.unit_cost is null), 0)::integer as uncosted
+    from stock_movements m
+    join inventory i on i.id = m.item_id
+    left join inventory_lots l on l.id = m.lot_id
+   where m.movement_type in ('receipt', 'write_off')
+     and (m.created_at at time zone 'utc')::date between p_from and p_to
+     and (p_category_ids is null or i.category_id = any(p_category_ids))
+   group by 1, 2, 3, 4, 5
+   order by 1;
+$$;
+
+-- Runs as the caller, so only managers (who can read the ledger) get rows
+revoke execute on function stock_value_by_month(date, date, uuid[]) from public, anon;
+grant execute on function stock_value_by_month(date, date, uuid[]) to authenticated;
@@ -0,0 +1,155 @@
+-- supabase/migrations/20261019320000_units_of_measure.sql
+-- Every quantity is stored in an item's base unit (e.g. "each"). Pack sizes
+-- such as "box" or "case" say how many base units they hold, so stock can be
+-- entered in any of them and converted before it reaches the ledger. One pack
+-- size can be marked as what the item is bought in, and one as what it's
+-- handed out in; without a mark that's the base unit.
+
+alter table inventory
+  add column if not exists base_unit text not null default 'each'
+    check (length(trim(base_unit)) between 1 and 30);
+
+create table if not exists item_units (
+  item_id uuid not null references inventory(id) on delete cascade,
+  name text not null check (length(trim(name)) between 1 and 30),
+  -- Base units in one of these; always more than one, or it would be the base unit
+  factor integer not null check (factor > 1),
+  is_purchase boolean not null default false,
+  is_issue boolean not null default false,
+  primary key (item_id, name)
+);
+
+create unique index if not exists item_units_one_purchase_idx on item_units (item_id) where is_purchase;
+create unique index if not exists item_units_one_issue_idx on item_units (item_id) where is_issue;
+
+alter table item_units enable row level security;
+
+create policy "Signed-in users read units" on item_units
+  for select to authenticated using (true);
+create policy "Managers change units" on item_units
+  for all to authenticated using (is_inventory_manager()) with check (is_inventory_manager());
+
+-- Replace an item's base unit and pack sizes in one go:
+-- [{ "name": "box", "factor": 100, "is_purchase": true, "is_issue": false }]
+create or replace function save_item_units(p_item_id uuid, p_base_unit text, p_units jsonb)
+returns void
+language plpgsql
+as $$
+declare
+  v_base_unit text := nullif(trim(p_base_unit), '');
+begin
+  if v_base_unit is null then
+    raise exception 'The base unit needs a name';
+  end if;
+  if exists (
+    select 1 from jsonb_array_elements(coalesce(p_units, '[]'::jsonb)) u
+     where lower(trim(u ->> 'name')) = lower(v_base_unit)
+  ) then
+    raise exception 'A pack size can''t have the same name as the base unit';
+  end if;
+  if exists (
+    select 1 from jsonb_array_elements(coalesce(p_units, '[]'::jsonb)) u
+     where coalesce((u ->> 'factor')::integer, 0) <= 1
+  ) then
+    raise exception 'Each pack size must hold more than one %', v_base_unit;
+  end if;
+
+  update inventory set base_unit = v_base_unit where id = p_item_id;
+  if not found then
+    raise exception 'Item % not found', p_item_id;
+  end if;
+
+  delete from item_units where item_id = p_item_id;
+
+  insert into item_units (item_id, name, factor, is_purchase, is_issue)
+  select p_item_id,
+         trim(u ->> 'name'),
+         (u ->> 'factor')::integer,
+         coalesce((u ->> 'is_purchase')::boolean, false),
+         coalesce((u ->> 'is_issue')::boolean, false)
+    from jsonb_array_elements(coalesce(p_units, '[]'::jsonb)) u;
+end;
+$$;
+
+revoke execute on function save_item_units(uuid, text, jsonb) from public, anon;
+grant execute on function save_item_units(uuid, text, jsonb) to authenticated;
+
+-- Unit costs, on items, ledger movements and purchase order lines alike, are
+-- the cost of one base unit; order lines count base units too. A pack's price
+-- split across its contents is rarely whole cents, so costs keep four places.
+alter table inventory alter column unit_cost type numeric(12, 4);
+alter table stock_movements alter column unit_cost type numeric(12, 4);
+alter table purchase_order_lines alter column unit_cost type numeric(12, 4);
+
+-- Items in the inventory table carry their pack sizes, so the units panel
+-- opens with what's saved rather than an empty list.
+create or replace function search_inventory(
+  p_search text default null,
+  p_category_ids uuid[] default null,
+  p_status text default null,
+  p_supplier_id uuid default null,
+  p_location_id uuid default null,
+  p_sort text default 'name',
+  p_descending boolean default false,
+  p_limit integer default 25,
+  p_offset integer default 0,
+  p_archived boolean default false
+)
+returns table (item jsonb, quantity integer, threshold integer, total_count bigint)
+language sql
+stable
+as $$
+  with stock as (
+    select i,
+           c.name as category_name,
+           coalesce(l.quantity, i.quantity) as quantity,
+           coalesce(l.threshold, i.threshold) as threshold
+      from inventory i
+      left join categories c on c.id = i.category_id
+      left join item_locations l on l.item_id = i.id and l.location_id = p_location_id
+     where (i.archived_at is not null) = p_archived
+       and (p_location_id is null or l.item_id is not null)
+       and (p_category_ids is null or i.category_id = any(p_category_ids))
+       and (p_supplier_id is null or i.supplier_id = p_supplier_id)
+       -- Wildcards typed into the search box are matched literally
+       and (coalesce(p_search, '') = ''
+            or concat_ws(' ', i.name, i.description)
+               ilike '%' || replace(replace(replace(p_search, '\', '\\'), '%', '\%'), '_', '\_') || '%')
+  ),
+  matched as (
+    select s.*,
+           case when s.quantity = 0 then 0 when s.quantity <= s.threshold then 1 else 2 end as status_rank
+      from stock s
+  )
+  select to_jsonb(m.i) || jsonb_build_object('item_units', coalesce((
+           select jsonb_agg(to_jsonb(u) order by u.factor)
+             from item_units u
+            where u.item_id = (m.i).id
+         ), '[]'::jsonb)),
+         m.quantity, m.threshold, count(*) over ()
+    from matched m
+   where p_status is null
+      or (p_status = 'out' and m.status_rank = 0)
+      or (p_status = 'low' and m.status_rank = 1)
+      or (p_status = 'in_stock' and m.status_rank = 2)
+   order by
+     case when not p_descending then
+       case p_sort when 'name' then lower((m.i).name) when 'category' then lower(m.category_name) end
+     end asc,
+     case when p_descending then
+       case p_sort when 'name' then lower((m.i).name) when 'category' then lower(m.category_name) end
+     end desc,
+     case when not p_descending then
+       case p_sort when 'quantity' then m.quantity when 'threshold' then m.threshold when 'status' then m.status_rank end
+     end asc,
+     case when p_descending then
+       case p_sort when 'quantity' then m.quantity when 'threshold' then m.threshold when 'status' then m.status_rank end
+     end desc,
+     lower((m.i).name),
+     (m.i).id
+   limit greatest(p_limit, 1)
+  offset greatest(p_offset, 0);
+$$;
+
+revoke execute on function search_inventory(text, uuid[], text, uuid, uuid, text, boolean, integer, integer, boolean) from public, anon;
+grant execute on function search_inventory(text, uuid[], text, uuid, uuid, text, boolean, integer, integer, boolean) to authenticated;
@@ -0,0 +1,84 @@
+-- supabase/migrations/20261019330000_save_item.sql
+-- Saves an item's details and posts its stock change in one transaction, so
+-- a failed movement can't leave the item saved behind it (and a retry can't
+-- create a zero-stock duplicate). Details are the whole item form; the
+-- movement is optional and skipped when its delta is zero.
+--
+-- p_item:     { "name": ..., "category_id": ..., "threshold": ..., ... }
+-- p_movement: { "movement_type": "adjustment", "delta": 5, "reason": ...,
+--               "location_id": ..., "lot_id": ..., "unit_cost": ... }
+create or replace function save_item(
+  p_item_id uuid,
+  p_item jsonb,
+  p_version integer default null,
+  p_movement jsonb default null
+)
+returns inventory
+language plpgsql
+as $$
+declare
+  v_fields inventory%rowtype;
+  v_item inventory%rowtype;
+  v_delta integer := coalesce((p_movement ->> 'delta')::integer, 0);
+begin
+  v_fields := jsonb_populate_record(null::inventory, p_item);
+
+  if p_item_id is null then
+    -- New items start at zero so the opening quantity goes through the ledger
+    insert into inventory (
+      name, description, category_id, threshold, source_url, track_lots,
+      sku, barcode, supplier_id, unit_cost, reorder_quantity, quantity
+    )
+    values (
+      v_fields.name, v_fields.description, v_fields.category_id, v_fields.threshold, v_fields.source_url,
+      coalesce(v_fields.track_lots, false), v_fields.sku, v_fields.barcode, v_fields.supplier_id,
+      v_fields.unit_cost, v_fields.reorder_quantity, 0
+    )
+    returning * into v_item;
+  else
+    -- Only if nobody else has changed it since the form was opened
+    update inventory
+       set name = v_fields.name,
+           description = v_fields.description,
+           category_id = v_fields.category_id,
+           threshold = v_fields.threshold,
+           source_url = v_fields.source_url,
+           track_lots = coalesce(v_fields.track_lots, false),
+           sku = v_fields.sku,
+           barcode = v_fields.barcode,
+           supplier_id = v_fields.supplier_id,
+           unit_cost = v_fields.unit_cost,
+           reorder_quantity = v_fields.reorder_quantity
+     where id = p_item_id
+       and version = p_version
+    returning * into v_item;
+
+    if not found then
+      if exists (select 1 from inventory where id = p_item_id) then
+        raise exception 'Item was changed by someone else' using errcode = '40001';
+      end if;
+      raise exception 'Item % not found', p_item_id using errcode = 'P0002';
+    end if;
+  end if;
+
+  if v_delta <> 0 then
+    perform record_stock_movement(
+      v_item.id,
+      p_movement ->> 'movement_type',
+      v_delta,
+      p_movement ->> 'reason',
+      null,
+      null,
+      nullif(p_movement ->> 'lot_id', '')::uuid,
+      nullif(p_movement ->> 'location_id', '')::uuid,
+      (p_movement ->> 'unit_cost')::numeric
+    );
+  end if;
+
+  select * into v_item from inventory where id = v_item.id;
+  return v_item;
+end;
+$$;
+
+revoke execute on function save_item(uuid, jsonb, integer, jsonb) from public, anon;
+grant execute on function save_item(uuid, jsonb, integer, jsonb) to authenticated;
@@ -0,0 +1,139 @@
+-- supabase/migrations/20261019340000_request_transitions.sql
+-- Requests only move forward along the queue: pending -> approved -> ordered
+-- -> fulfilled, with rejecting allowed before anything is ordered and
+-- cancelling only while pending. Fulfilled, rejected and cancelled requests
+-- are closed for good. The rules live in a trigger so a direct update can't
+-- skip or reopen a request; the queue page goes through set_request_status.
+-- Only fulfil_request may mark a request fulfilled, since that's where its
+-- stock is received; it sets a transaction-local flag the trigger checks.
+
+create or replace function request_transition_allowed(p_from text, p_to text)
+returns boolean
+language sql
+immutable
+as $$
+  select (p_from, p_to) in (
+    ('pending', 'approved'),
+    ('pending', 'rejected'),
+    ('pending', 'cancelled'),
+    ('approved', 'ordered'),
+    ('approved', 'rejected')
+  );
+$$;
+
+create or replace function check_request_transition()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status is not distinct from old.status then
+    return new;
+  end if;
+  if new.status = 'fulfilled' then
+    if old.status not in ('approved', 'ordered') then
+      raise exception 'A % request can''t be marked fulfilled', old.status;
+    end if;
+    if current_setting('inventory.fulfilling', true) is distinct from 'on' then
+      raise exception 'Fulfil a request by receiving its items';
+    end if;
+  elsif not request_transition_allowed(old.status, new.status) then
+    raise exception 'A % request can''t be marked %', old.status, new.status;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists requests_check_transition on requests;
+create trigger requests_check_transition
+  before update of status on requests
+  for each row execute function check_request_transition();
+
+-- Approve, mark ordered or reject. Fulfilling receives stock, so it has its
+-- own function below.
+create or replace function set_request_status(
+  p_request_id uuid,
+  p_status text,
+  p_rejection_reason text default null
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_request requests%rowtype;
+begin
+  if not is_inventory_manager() then
+    raise exception 'Only inventory managers can process requests' using errcode = '42501';
+  end if;
+  if p_status = 'fulfilled' then
+    raise exception 'Fulfil a request by receiving its items';
+  end if;
+  if p_status = 'rejected' and coalesce(trim(p_rejection_reason), '') = '' then
+    raise exception 'Give a reason for rejecting the request';
+  end if;
+
+  select * into v_request from requests where id = p_request_id for update;
+  if not found then
+    raise exception 'Request % not found', p_request_id using errcode = 'P0002';
+  end if;
+  if not request_transition_allowed(v_request.status, p_status) then
+    raise exception 'A % request can''t be marked %', v_request.status, p_status;
+  end if;
+
+  update requests
+     set status = p_status,
+         rejection_reason = case when p_status = 'rejected' then trim(p_rejection_reason) else rejection_reason end,
+         updated_at = now()
+   where id = p_request_id;
+end;
+$$;
+
+revoke execute on function set_request_status(uuid, text, text) from public, anon;
+grant execute on function set_request_status(uuid, text, text) to authenticated;
+
+-- Only a request someone has approved can be received into stock
+create or replace function fulfil_request(p_request_id uuid, p_received jsonb)
+returns void
+language plpgsql
+as $$
+declare
+  v_request requests%rowtype;
+  v_line request_items%rowtype;
+  v_received integer;
+begin
+  select * into v_request from requests where id = p_request_id for update;
+  if not found then
+    raise exception 'Request % not found', p_request_id;
+  end if;
+  if v_request.status not in ('approved', 'ordered') then
+    raise exception 'Only approved or ordered requests can be fulfilled; this one is %', v_request.status;
+  end if;
+
+  for v_line in select * from request_items where request_id = p_request_id
+  loop
+    select (r ->> 'received_quantity')::integer into v_received
+      from jsonb_array_elements(p_received) r
+     where (r ->> 'request_item_id')::uuid = v_line.id;
+
+    v_received := coalesce(v_received, 0);
+    if v_received < 0 then
+      raise exception 'Received quantity must be zero or more';
+    end if;
+
+    if v_received > 0 and v_line.item_id is not null then
+      perform record_stock_movement(
+        v_line.item_id, 'receipt', v_received,
+        'Fulfilled request', null, p_request_id
+      );
+    end if;
+
+    update request_items set received_quantity = v_received where id = v_line.id;
+  end loop;
+
+  perform set_config('inventory.fulfilling', 'on', true);
+  update requests
+     set status = 'fulfilled',
+         updated_at = now()
+   where id = p_request_id;
+  perform set_config('inventory.fulfilling', 'off', true);
+end;
+$$;